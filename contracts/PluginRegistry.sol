@@ -2,17 +2,35 @@
 pragma solidity ^0.8.20;
 
 import "./interfaces/IPlugin.sol";
+import "./interfaces/IDevSharePlugin.sol";
 import "./types/PluginTypes.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title PluginRegistry
  * @notice Manages plugin registration, tier assignment, and tier-based configuration
  * @dev Permissionless registration, but tier assignment requires governance
+ * @dev Registrants post the bond governance sets for the entry tier; it is slashable while the plugin
+ *      is quarantined and refundable BOND_UNLOCK_DELAY after a voluntary retirement
  */
 contract PluginRegistry is AccessControl {
+    using SafeERC20 for IERC20;
+
     bytes32 public constant GOVERNANCE_ROLE = keccak256("GOVERNANCE_ROLE");
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant EMERGENCY_ROLE = keccak256("EMERGENCY_ROLE");
+
+    // How long an emergency cap reduction lasts before it lapses unless governance ratifies it
+    uint256 public constant EMERGENCY_CAPS_DURATION = 7 days;
+
+    // Bounds for the emergency quarantine window
+    uint256 public constant MAX_EMERGENCY_QUARANTINE_WINDOW = 30 days;
+
+    // How long after an emergency quarantine ends before the plugin can be emergency-quarantined again
+    uint256 public constant EMERGENCY_QUARANTINE_COOLDOWN = 7 days;
 
     // Mapping from pluginId to PluginMetadata
     mapping(bytes32 => PluginTypes.PluginMetadata) private plugins;
@@ -26,6 +44,47 @@ contract PluginRegistry is AccessControl {
     // Per-plugin caps (optional, stricter than tier config)
     mapping(bytes32 => PluginTypes.PluginCaps) private pluginCaps;
 
+    // Emergency per-plugin caps (tighten only) and the time at which they lapse
+    mapping(bytes32 => PluginTypes.PluginCaps) private emergencyCaps;
+    mapping(bytes32 => uint256) private emergencyCapsExpiry;
+
+    // How long an emergency quarantine lasts before it lapses unless governance ratifies it
+    uint256 public emergencyQuarantineWindow = 7 days;
+
+    // Time at which a plugin's emergency quarantine lapses
+    mapping(bytes32 => uint256) private emergencyQuarantineExpiry;
+
+    // Time from which a plugin can be emergency-quarantined again
+    mapping(bytes32 => uint256) private emergencyQuarantineCooldownEnd;
+
+    // Bounds for the yield rate limit window
+    uint256 public constant MIN_RATE_LIMIT_WINDOW = 1 hours;
+    uint256 public constant MAX_RATE_LIMIT_WINDOW = 30 days;
+
+    // Length of the windows over which RevenueRouter meters each plugin's normalized yield
+    uint256 public rateLimitWindow = 1 days;
+
+    // Max normalized yield per window: per tier, and per plugin to tighten it (0 = no limit)
+    mapping(PluginTypes.PluginTier => uint256) private tierRateLimits;
+    mapping(bytes32 => uint256) private pluginRateLimits;
+
+    // Dev share bounds (the total mirrors RevenueRouter.MAX_DEV_SHARE_BPS)
+    uint256 public constant MAX_DEV_SHARE_BPS = 2000;
+    uint256 public constant MAX_DEV_SHARE_RECIPIENTS = 5;
+
+    // Registered dev share split: pluginId => recipients
+    mapping(bytes32 => PluginTypes.DevShareRecipient[]) private devShareSplits;
+
+    // How long a retired plugin's bond stays slashable before its depositor can withdraw it
+    uint256 public constant BOND_UNLOCK_DELAY = 14 days;
+
+    // TreasuryVault receiving slashed bonds
+    address public bondTreasury;
+
+    // Bond required per tier, and the bond held per plugin
+    mapping(PluginTypes.PluginTier => PluginTypes.TierBond) private tierBonds;
+    mapping(bytes32 => PluginTypes.PluginBond) private pluginBonds;
+
     // List of all registered plugin IDs
     bytes32[] private registeredPluginIds;
 
@@ -58,6 +117,33 @@ contract PluginRegistry is AccessControl {
         bool enabled
     );
 
+    event EmergencyCapsReduced(
+        bytes32 indexed pluginId,
+        uint256 maxConversionAmount,
+        uint256 maxSlippageBps,
+        uint256 expiresAt
+    );
+
+    event EmergencyCapsCleared(bytes32 indexed pluginId);
+
+    event EmergencyQuarantineSet(bytes32 indexed pluginId, uint256 expiresAt);
+    event EmergencyQuarantineCleared(bytes32 indexed pluginId);
+    event EmergencyQuarantineWindowUpdated(uint256 window);
+
+    event TierRateLimitUpdated(PluginTypes.PluginTier tier, uint256 maxYieldPerWindow);
+    event PluginRateLimitUpdated(bytes32 indexed pluginId, uint256 maxYieldPerWindow);
+    event RateLimitWindowUpdated(uint256 window);
+
+    event DevShareSplitUpdated(bytes32 indexed pluginId, PluginTypes.DevShareRecipient[] recipients);
+
+    event BondTreasuryUpdated(address indexed treasury);
+    event TierBondUpdated(PluginTypes.PluginTier tier, address token, uint256 amount);
+    event BondPosted(bytes32 indexed pluginId, address indexed depositor, address token, uint256 amount);
+    event BondSlashed(bytes32 indexed pluginId, address token, uint256 amount, address indexed slashedBy);
+    event BondRefunded(bytes32 indexed pluginId, address indexed depositor, address token, uint256 amount);
+    event DepositorClaimed(bytes32 indexed pluginId, address indexed previousDepositor, address indexed depositor);
+    event PluginRetired(bytes32 indexed pluginId, uint256 bondUnlocksAt);
+
     event PluginDeactivated(bytes32 indexed pluginId);
     event PluginActivated(bytes32 indexed pluginId);
 
@@ -80,6 +166,9 @@ contract PluginRegistry is AccessControl {
      * @param pluginAddress Address of the plugin contract
      * @dev Plugin must implement IPlugin interface
      * @dev Plugin is registered with Tier 0 (UNTRUSTED) by default
+     * @dev A plugin implementing IDevSharePlugin has its dev share split bound at registration
+     * @dev The caller becomes the bond depositor and posts the UNTRUSTED tier bond, if any (approve it first);
+     *      the plugin or its owner can take the depositor rights over with claimDepositor
      */
     function registerPlugin(address pluginAddress) external returns (bytes32 pluginId) {
         require(pluginAddress != address(0), "PluginRegistry: zero address");
@@ -110,17 +199,41 @@ contract PluginRegistry is AccessControl {
         registeredPluginIds.push(pluginId);
 
         emit PluginRegistered(pluginId, pluginAddress, PluginTypes.PluginTier.UNTRUSTED, routeTo);
+
+        // Plugins without the extension register without a dev share
+        try IDevSharePlugin(pluginAddress).devShareRecipients() returns (
+            PluginTypes.DevShareRecipient[] memory recipients
+        ) {
+            if (recipients.length > 0) {
+                _setDevShareSplit(pluginId, recipients);
+            }
+        } catch {}
+
+        pluginBonds[pluginId].depositor = msg.sender;
+        PluginTypes.TierBond memory bond = tierBonds[PluginTypes.PluginTier.UNTRUSTED];
+        if (bond.amount > 0) {
+            _postBond(pluginId, bond.token, bond.amount);
+        }
     }
 
     /**
      * @notice Set plugin tier (governance only)
      * @param pluginId The plugin identifier
      * @param newTier The new tier
+     * @dev A promotion requires the plugin's bond to cover the new tier's bond
      */
     function setPluginTier(bytes32 pluginId, PluginTypes.PluginTier newTier) external onlyRole(GOVERNANCE_ROLE) {
         require(plugins[pluginId].pluginAddress != address(0), "PluginRegistry: plugin not found");
         
         PluginTypes.PluginTier oldTier = plugins[pluginId].tier;
+        if (newTier > oldTier) {
+            PluginTypes.TierBond memory required = tierBonds[newTier];
+            PluginTypes.PluginBond storage bond = pluginBonds[pluginId];
+            require(
+                required.amount == 0 || (bond.token == required.token && bond.amount >= required.amount),
+                "PluginRegistry: insufficient bond"
+            );
+        }
         plugins[pluginId].tier = newTier;
 
         emit PluginTierUpdated(pluginId, oldTier, newTier);
@@ -151,6 +264,7 @@ contract PluginRegistry is AccessControl {
      * @notice Set per-plugin caps (governance only)
      * @param pluginId The plugin identifier
      * @param caps The per-plugin caps configuration
+     * @dev Clears any emergency reduction: governance ratifies it by setting the reduced caps here
      */
     function setPluginCaps(
         bytes32 pluginId,
@@ -160,25 +274,293 @@ contract PluginRegistry is AccessControl {
         require(caps.maxSlippageBps <= 10000, "PluginRegistry: invalid slippage");
         pluginCaps[pluginId] = caps;
         emit PluginCapsUpdated(pluginId, caps.maxConversionAmount, caps.maxSlippageBps, caps.enabled);
+
+        if (emergencyCapsExpiry[pluginId] != 0) {
+            delete emergencyCaps[pluginId];
+            delete emergencyCapsExpiry[pluginId];
+            emit EmergencyCapsCleared(pluginId);
+        }
+    }
+
+    /**
+     * @notice Tighten a plugin's caps immediately (emergency role only)
+     * @param pluginId The plugin identifier
+     * @param maxConversionAmount New max conversion amount, at most the current effective limit
+     * @param maxSlippageBps New max slippage in basis points, at most the current effective limit
+     * @return expiresAt Time at which the reduction lapses
+     * @dev The reduction lapses after EMERGENCY_CAPS_DURATION unless governance ratifies it via
+     *      setPluginCaps. Further reductions keep the original expiry so the window cannot be extended.
+     */
+    function reducePluginCaps(
+        bytes32 pluginId,
+        uint256 maxConversionAmount,
+        uint256 maxSlippageBps
+    ) external onlyRole(EMERGENCY_ROLE) returns (uint256 expiresAt) {
+        require(plugins[pluginId].pluginAddress != address(0), "PluginRegistry: plugin not found");
+        // Zero means "no extra cap" in PluginCaps, so it would loosen rather than tighten
+        require(maxConversionAmount > 0 && maxSlippageBps > 0, "PluginRegistry: zero cap");
+
+        (uint256 currentConversionAmount, uint256 currentSlippageBps) = getEffectiveLimits(pluginId);
+        require(maxConversionAmount <= currentConversionAmount, "PluginRegistry: cannot increase cap");
+        require(maxSlippageBps <= currentSlippageBps, "PluginRegistry: cannot increase slippage");
+
+        expiresAt = emergencyCapsExpiry[pluginId];
+        if (expiresAt <= block.timestamp) {
+            expiresAt = block.timestamp + EMERGENCY_CAPS_DURATION;
+            emergencyCapsExpiry[pluginId] = expiresAt;
+        }
+        emergencyCaps[pluginId] = PluginTypes.PluginCaps({
+            enabled: true,
+            maxConversionAmount: maxConversionAmount,
+            maxSlippageBps: maxSlippageBps
+        });
+
+        emit EmergencyCapsReduced(pluginId, maxConversionAmount, maxSlippageBps, expiresAt);
+    }
+
+    /**
+     * @notice Quarantine a plugin temporarily (emergency role only)
+     * @param pluginId The plugin identifier
+     * @return expiresAt Time at which the quarantine lapses
+     * @dev The plugin reads as inactive until then. Governance ratifies the quarantine with
+     *      deactivatePlugin; quarantining again keeps the original expiry. Once a quarantine ends
+     *      (lapsed or cleared) a new one can only start EMERGENCY_QUARANTINE_COOLDOWN later, so the
+     *      emergency role cannot chain quarantines into a permanent one without governance.
+     */
+    function emergencyQuarantine(bytes32 pluginId) external onlyRole(EMERGENCY_ROLE) returns (uint256 expiresAt) {
+        require(plugins[pluginId].pluginAddress != address(0), "PluginRegistry: plugin not found");
+
+        expiresAt = emergencyQuarantineExpiry[pluginId];
+        if (expiresAt <= block.timestamp) {
+            require(
+                block.timestamp >= emergencyQuarantineCooldownEnd[pluginId],
+                "PluginRegistry: quarantine cooldown"
+            );
+            expiresAt = block.timestamp + emergencyQuarantineWindow;
+            emergencyQuarantineExpiry[pluginId] = expiresAt;
+            emergencyQuarantineCooldownEnd[pluginId] = expiresAt + EMERGENCY_QUARANTINE_COOLDOWN;
+        }
+
+        emit EmergencyQuarantineSet(pluginId, expiresAt);
+    }
+
+    /**
+     * @notice Lift a plugin's emergency quarantine early (emergency role only)
+     * @param pluginId The plugin identifier
+     */
+    function liftEmergencyQuarantine(bytes32 pluginId) external onlyRole(EMERGENCY_ROLE) {
+        require(emergencyQuarantineExpiry[pluginId] > block.timestamp, "PluginRegistry: not quarantined");
+        _clearEmergencyQuarantine(pluginId);
+    }
+
+    /**
+     * @notice Set how long emergency quarantines last (governance only)
+     * @param window Quarantine window in seconds
+     * @dev Applies to quarantines imposed afterwards
+     */
+    function setEmergencyQuarantineWindow(uint256 window) external onlyRole(GOVERNANCE_ROLE) {
+        require(window > 0 && window <= MAX_EMERGENCY_QUARANTINE_WINDOW, "PluginRegistry: invalid window");
+        emergencyQuarantineWindow = window;
+        emit EmergencyQuarantineWindowUpdated(window);
+    }
+
+    /**
+     * @notice Set the rate limit of a tier (governance only)
+     * @param tier The tier
+     * @param maxYieldPerWindow Max normalized yield each plugin of the tier may credit per window (0 = no limit)
+     */
+    function setTierRateLimit(
+        PluginTypes.PluginTier tier,
+        uint256 maxYieldPerWindow
+    ) external onlyRole(GOVERNANCE_ROLE) {
+        tierRateLimits[tier] = maxYieldPerWindow;
+        emit TierRateLimitUpdated(tier, maxYieldPerWindow);
+    }
+
+    /**
+     * @notice Set a per-plugin rate limit (governance only)
+     * @param pluginId The plugin identifier
+     * @param maxYieldPerWindow Max normalized yield per window, tightening the tier limit (0 = no extra limit)
+     */
+    function setPluginRateLimit(bytes32 pluginId, uint256 maxYieldPerWindow) external onlyRole(GOVERNANCE_ROLE) {
+        require(plugins[pluginId].pluginAddress != address(0), "PluginRegistry: plugin not found");
+        pluginRateLimits[pluginId] = maxYieldPerWindow;
+        emit PluginRateLimitUpdated(pluginId, maxYieldPerWindow);
+    }
+
+    /**
+     * @notice Set the length of the rate limit windows (governance only)
+     * @param window Window length in seconds
+     * @dev Windows are aligned to multiples of the length, so changing it starts a fresh window
+     */
+    function setRateLimitWindow(uint256 window) external onlyRole(GOVERNANCE_ROLE) {
+        require(
+            window >= MIN_RATE_LIMIT_WINDOW && window <= MAX_RATE_LIMIT_WINDOW,
+            "PluginRegistry: invalid window"
+        );
+        rateLimitWindow = window;
+        emit RateLimitWindowUpdated(window);
+    }
+
+    /**
+     * @notice Replace a plugin's dev share split (governance only, through the timelock)
+     * @param pluginId The plugin identifier
+     * @param recipients New recipients and their bps of each yield payment (empty = no dev share)
+     */
+    function setDevShareSplit(
+        bytes32 pluginId,
+        PluginTypes.DevShareRecipient[] calldata recipients
+    ) external onlyRole(GOVERNANCE_ROLE) {
+        require(plugins[pluginId].pluginAddress != address(0), "PluginRegistry: plugin not found");
+        _setDevShareSplit(pluginId, recipients);
+    }
+
+    /**
+     * @notice Set the TreasuryVault receiving slashed bonds (admin only)
+     * @param treasury TreasuryVault address
+     */
+    function setBondTreasury(address treasury) external onlyRole(ADMIN_ROLE) {
+        require(treasury != address(0), "PluginRegistry: zero treasury");
+        bondTreasury = treasury;
+        emit BondTreasuryUpdated(treasury);
+    }
+
+    /**
+     * @notice Set the bond a tier requires (governance only)
+     * @param tier The tier
+     * @param token Bond token, the treasury asset or VastitasToken
+     * @param amount Bond amount (0 = no bond)
+     * @dev Applies to registrations (UNTRUSTED) and promotions afterwards; bonds already posted are kept
+     */
+    function setTierBond(PluginTypes.PluginTier tier, address token, uint256 amount) external onlyRole(GOVERNANCE_ROLE) {
+        require(amount == 0 || token != address(0), "PluginRegistry: zero bond token");
+        tierBonds[tier] = PluginTypes.TierBond({token: token, amount: amount});
+        emit TierBondUpdated(tier, token, amount);
+    }
+
+    /**
+     * @notice Add to a plugin's bond, e.g. before a promotion (depositor only)
+     * @param pluginId The plugin identifier
+     * @param token Bond token; must match the bond already posted
+     * @param amount Amount to add (approve it first)
+     */
+    function topUpBond(bytes32 pluginId, address token, uint256 amount) external {
+        PluginTypes.PluginBond storage bond = pluginBonds[pluginId];
+        require(msg.sender == bond.depositor, "PluginRegistry: not depositor");
+        require(bond.unlocksAt == 0, "PluginRegistry: plugin retired");
+        require(token != address(0) && amount > 0, "PluginRegistry: invalid bond");
+        require(bond.amount == 0 || token == bond.token, "PluginRegistry: bond token mismatch");
+        _postBond(pluginId, token, amount);
+    }
+
+    /**
+     * @notice Take over a plugin's depositor rights (the plugin contract or its owner)
+     * @param pluginId The plugin identifier
+     * @dev The plugin's owner is read from Ownable.owner(). The bond already posted, and its refund,
+     *      move to the caller, so registering someone else's plugin first only forfeits the bond.
+     */
+    function claimDepositor(bytes32 pluginId) external {
+        address pluginAddress = plugins[pluginId].pluginAddress;
+        require(pluginAddress != address(0), "PluginRegistry: plugin not found");
+        require(_isPluginOrOwner(pluginAddress, msg.sender), "PluginRegistry: not plugin owner");
+
+        PluginTypes.PluginBond storage bond = pluginBonds[pluginId];
+        address previousDepositor = bond.depositor;
+        bond.depositor = msg.sender;
+        emit DepositorClaimed(pluginId, previousDepositor, msg.sender);
+    }
+
+    /**
+     * @notice Slash a quarantined plugin's bond to the TreasuryVault (governance or emergency role)
+     * @param pluginId The plugin identifier
+     * @param amount Amount to slash, at most the bond
+     * @dev The plugin must be emergency-quarantined or inactive (deactivated, or retired with its bond
+     *      still locked). A retired plugin's bond cannot be slashed once it unlocks.
+     */
+    function slashBond(bytes32 pluginId, uint256 amount) external {
+        require(
+            hasRole(GOVERNANCE_ROLE, msg.sender) || hasRole(EMERGENCY_ROLE, msg.sender),
+            "PluginRegistry: unauthorized"
+        );
+        require(plugins[pluginId].pluginAddress != address(0), "PluginRegistry: plugin not found");
+        require(
+            !plugins[pluginId].isActive || emergencyQuarantineExpiry[pluginId] > block.timestamp,
+            "PluginRegistry: plugin not quarantined"
+        );
+        PluginTypes.PluginBond storage bond = pluginBonds[pluginId];
+        require(bond.unlocksAt == 0 || block.timestamp < bond.unlocksAt, "PluginRegistry: bond unlocked");
+        require(amount > 0 && amount <= bond.amount, "PluginRegistry: invalid slash amount");
+        require(bondTreasury != address(0), "PluginRegistry: no bond treasury");
+
+        bond.amount -= amount;
+        IERC20(bond.token).safeTransfer(bondTreasury, amount);
+        emit BondSlashed(pluginId, bond.token, amount, msg.sender);
+    }
+
+    /**
+     * @notice Retire a plugin voluntarily (the plugin contract, its owner or governance)
+     * @param pluginId The plugin identifier
+     * @return unlocksAt Time from which the depositor can withdraw the bond
+     * @dev Deactivates the plugin. Only plugins in good standing can retire, and the bond stays
+     *      slashable until it unlocks so a retirement cannot outrun a quarantine.
+     */
+    function retirePlugin(bytes32 pluginId) external returns (uint256 unlocksAt) {
+        PluginTypes.PluginBond storage bond = pluginBonds[pluginId];
+        require(
+            _isPluginOrOwner(plugins[pluginId].pluginAddress, msg.sender) || hasRole(GOVERNANCE_ROLE, msg.sender),
+            "PluginRegistry: unauthorized"
+        );
+        require(
+            plugins[pluginId].isActive && emergencyQuarantineExpiry[pluginId] <= block.timestamp,
+            "PluginRegistry: plugin not in good standing"
+        );
+
+        plugins[pluginId].isActive = false;
+        unlocksAt = block.timestamp + BOND_UNLOCK_DELAY;
+        bond.unlocksAt = unlocksAt;
+        emit PluginDeactivated(pluginId);
+        emit PluginRetired(pluginId, unlocksAt);
+    }
+
+    /**
+     * @notice Withdraw the bond of a retired plugin once it unlocks (depositor only)
+     * @param pluginId The plugin identifier
+     */
+    function withdrawBond(bytes32 pluginId) external {
+        PluginTypes.PluginBond storage bond = pluginBonds[pluginId];
+        require(msg.sender == bond.depositor, "PluginRegistry: not depositor");
+        require(bond.unlocksAt != 0, "PluginRegistry: plugin not retired");
+        require(block.timestamp >= bond.unlocksAt, "PluginRegistry: bond locked");
+        uint256 amount = bond.amount;
+        require(amount > 0, "PluginRegistry: no bond");
+
+        bond.amount = 0;
+        IERC20(bond.token).safeTransfer(msg.sender, amount);
+        emit BondRefunded(pluginId, msg.sender, bond.token, amount);
     }
 
     /**
      * @notice Deactivate a plugin (admin/governance)
      * @param pluginId The plugin identifier
+     * @dev Ratifies an emergency quarantine: the plugin stays inactive after it would have lapsed
      */
     function deactivatePlugin(bytes32 pluginId) external onlyRole(ADMIN_ROLE) {
         require(plugins[pluginId].pluginAddress != address(0), "PluginRegistry: plugin not found");
         plugins[pluginId].isActive = false;
+        _clearEmergencyQuarantine(pluginId);
         emit PluginDeactivated(pluginId);
     }
 
     /**
      * @notice Activate a plugin (admin/governance)
      * @param pluginId The plugin identifier
+     * @dev Overrides an emergency quarantine and cancels a retirement (the bond stays locked)
      */
     function activatePlugin(bytes32 pluginId) external onlyRole(ADMIN_ROLE) {
         require(plugins[pluginId].pluginAddress != address(0), "PluginRegistry: plugin not found");
         plugins[pluginId].isActive = true;
+        pluginBonds[pluginId].unlocksAt = 0;
+        _clearEmergencyQuarantine(pluginId);
         emit PluginActivated(pluginId);
     }
 
@@ -187,8 +569,26 @@ contract PluginRegistry is AccessControl {
      * @param pluginId The plugin identifier
      * @return metadata The plugin metadata
      */
-    function getPlugin(bytes32 pluginId) external view returns (PluginTypes.PluginMetadata memory) {
-        return plugins[pluginId];
+    function getPlugin(bytes32 pluginId) external view returns (PluginTypes.PluginMetadata memory metadata) {
+        metadata = plugins[pluginId];
+        if (emergencyQuarantineExpiry[pluginId] > block.timestamp) {
+            metadata.isActive = false;
+        }
+    }
+
+    /**
+     * @notice Get a plugin's emergency quarantine
+     * @param pluginId The plugin identifier
+     * @return active Whether the quarantine is in effect
+     * @return expiresAt Time at which it lapses (0 if none was imposed or it was cleared)
+     * @return cooldownEnd Time from which the plugin can be emergency-quarantined again
+     */
+    function getEmergencyQuarantine(
+        bytes32 pluginId
+    ) external view returns (bool active, uint256 expiresAt, uint256 cooldownEnd) {
+        expiresAt = emergencyQuarantineExpiry[pluginId];
+        active = expiresAt > block.timestamp;
+        cooldownEnd = emergencyQuarantineCooldownEnd[pluginId];
     }
 
     /**
@@ -212,10 +612,123 @@ contract PluginRegistry is AccessControl {
     /**
      * @notice Get per-plugin caps
      * @param pluginId The plugin identifier
-     * @return caps The per-plugin caps
+     * @return caps The per-plugin caps, tightened by any emergency reduction that has not lapsed
      */
-    function getPluginCaps(bytes32 pluginId) external view returns (PluginTypes.PluginCaps memory) {
-        return pluginCaps[pluginId];
+    function getPluginCaps(bytes32 pluginId) public view returns (PluginTypes.PluginCaps memory caps) {
+        caps = pluginCaps[pluginId];
+        if (emergencyCapsExpiry[pluginId] <= block.timestamp) {
+            return caps;
+        }
+
+        PluginTypes.PluginCaps memory reduced = emergencyCaps[pluginId];
+        if (!caps.enabled) {
+            return reduced;
+        }
+        if (caps.maxConversionAmount == 0 || reduced.maxConversionAmount < caps.maxConversionAmount) {
+            caps.maxConversionAmount = reduced.maxConversionAmount;
+        }
+        if (caps.maxSlippageBps == 0 || reduced.maxSlippageBps < caps.maxSlippageBps) {
+            caps.maxSlippageBps = reduced.maxSlippageBps;
+        }
+    }
+
+    /**
+     * @notice Get the emergency caps of a plugin
+     * @param pluginId The plugin identifier
+     * @return active Whether the emergency caps are in effect
+     * @return caps The emergency caps
+     * @return expiresAt Time at which they lapse (0 if none were set or governance cleared them)
+     */
+    function getEmergencyCaps(
+        bytes32 pluginId
+    ) external view returns (bool active, PluginTypes.PluginCaps memory caps, uint256 expiresAt) {
+        expiresAt = emergencyCapsExpiry[pluginId];
+        return (expiresAt > block.timestamp, emergencyCaps[pluginId], expiresAt);
+    }
+
+    /**
+     * @notice Get the conversion limits RevenueRouter enforces for a plugin
+     * @param pluginId The plugin identifier
+     * @return maxConversionAmount Tier limit tightened by the plugin caps (0 = no cap)
+     * @return maxSlippageBps Tier limit tightened by the plugin caps
+     */
+    function getEffectiveLimits(
+        bytes32 pluginId
+    ) public view returns (uint256 maxConversionAmount, uint256 maxSlippageBps) {
+        PluginTypes.TierConfig memory tierConfig = tierConfigs[plugins[pluginId].tier];
+        PluginTypes.PluginCaps memory caps = getPluginCaps(pluginId);
+        maxConversionAmount = tierConfig.maxConversionAmount;
+        maxSlippageBps = tierConfig.maxSlippageBps;
+        if (caps.enabled) {
+            if (caps.maxConversionAmount > 0 && caps.maxConversionAmount < maxConversionAmount) {
+                maxConversionAmount = caps.maxConversionAmount;
+            }
+            if (caps.maxSlippageBps > 0 && caps.maxSlippageBps < maxSlippageBps) {
+                maxSlippageBps = caps.maxSlippageBps;
+            }
+        }
+    }
+
+    /**
+     * @notice Get the rate limit of a tier
+     * @param tier The tier
+     * @return maxYieldPerWindow Max normalized yield per plugin and window (0 = no limit)
+     */
+    function getTierRateLimit(PluginTypes.PluginTier tier) external view returns (uint256) {
+        return tierRateLimits[tier];
+    }
+
+    /**
+     * @notice Get the per-plugin rate limit
+     * @param pluginId The plugin identifier
+     * @return maxYieldPerWindow Max normalized yield per window (0 = no extra limit)
+     */
+    function getPluginRateLimit(bytes32 pluginId) external view returns (uint256) {
+        return pluginRateLimits[pluginId];
+    }
+
+    /**
+     * @notice Get the rate limit RevenueRouter enforces for a plugin
+     * @param pluginId The plugin identifier
+     * @return maxYieldPerWindow Tier limit tightened by the plugin limit (0 = no limit)
+     * @return window Window length in seconds
+     */
+    function getEffectiveRateLimit(
+        bytes32 pluginId
+    ) external view returns (uint256 maxYieldPerWindow, uint256 window) {
+        maxYieldPerWindow = tierRateLimits[plugins[pluginId].tier];
+        uint256 pluginLimit = pluginRateLimits[pluginId];
+        if (pluginLimit > 0 && (maxYieldPerWindow == 0 || pluginLimit < maxYieldPerWindow)) {
+            maxYieldPerWindow = pluginLimit;
+        }
+        window = rateLimitWindow;
+    }
+
+    /**
+     * @notice Get the dev share split RevenueRouter pays for a plugin
+     * @param pluginId The plugin identifier
+     * @return recipients Recipients and their bps of each yield payment
+     */
+    function getDevShareSplit(bytes32 pluginId) external view returns (PluginTypes.DevShareRecipient[] memory) {
+        return devShareSplits[pluginId];
+    }
+
+    /**
+     * @notice Get the bond a tier requires
+     * @param tier The tier
+     * @return bond Bond token and amount (0 = no bond)
+     */
+    function getTierBond(PluginTypes.PluginTier tier) external view returns (PluginTypes.TierBond memory) {
+        return tierBonds[tier];
+    }
+
+    /**
+     * @notice Get the bond held for a plugin
+     * @param pluginId The plugin identifier
+     * @return bond Depositor, token, amount and unlock time (0 unless retired)
+     */
+    function getPluginBond(bytes32 pluginId) external view returns (PluginTypes.PluginBond memory) {
+        return pluginBonds[pluginId];
     }
 
     /**
@@ -226,6 +739,73 @@ contract PluginRegistry is AccessControl {
         return registeredPluginIds;
     }
 
+    /**
+     * @notice Validate and store a dev share split
+     */
+    function _setDevShareSplit(bytes32 pluginId, PluginTypes.DevShareRecipient[] memory recipients) private {
+        require(recipients.length <= MAX_DEV_SHARE_RECIPIENTS, "PluginRegistry: too many dev share recipients");
+
+        delete devShareSplits[pluginId];
+        uint256 totalBps = 0;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i].recipient != address(0), "PluginRegistry: zero dev share recipient");
+            require(recipients[i].bps > 0, "PluginRegistry: zero dev share bps");
+            for (uint256 j = 0; j < i; j++) {
+                require(
+                    recipients[j].recipient != recipients[i].recipient,
+                    "PluginRegistry: duplicate dev share recipient"
+                );
+            }
+            totalBps += recipients[i].bps;
+            devShareSplits[pluginId].push(recipients[i]);
+        }
+        require(totalBps <= MAX_DEV_SHARE_BPS, "PluginRegistry: dev share exceeds max");
+
+        emit DevShareSplitUpdated(pluginId, recipients);
+    }
+
+    /**
+     * @notice Pull bond tokens from the caller into a plugin's bond
+     */
+    function _postBond(bytes32 pluginId, address token, uint256 amount) private {
+        PluginTypes.PluginBond storage bond = pluginBonds[pluginId];
+        bond.token = token;
+        bond.amount += amount;
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        emit BondPosted(pluginId, msg.sender, token, amount);
+    }
+
+    /**
+     * @notice Whether an account is a plugin contract or its Ownable owner
+     */
+    function _isPluginOrOwner(address pluginAddress, address account) private view returns (bool) {
+        if (pluginAddress == address(0)) {
+            return false;
+        }
+        if (account == pluginAddress) {
+            return true;
+        }
+        try Ownable(pluginAddress).owner() returns (address owner) {
+            return account == owner;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @notice Drop a plugin's emergency quarantine, if any
+     * @dev Clearing a quarantine early starts its cooldown now instead of at the original expiry
+     */
+    function _clearEmergencyQuarantine(bytes32 pluginId) private {
+        if (emergencyQuarantineExpiry[pluginId] > block.timestamp) {
+            emergencyQuarantineCooldownEnd[pluginId] = block.timestamp + EMERGENCY_QUARANTINE_COOLDOWN;
+        }
+        if (emergencyQuarantineExpiry[pluginId] != 0) {
+            delete emergencyQuarantineExpiry[pluginId];
+            emit EmergencyQuarantineCleared(pluginId);
+        }
+    }
+
     /**
      * @notice Initialize default tier configurations
      */
@@ -19,12 +19,17 @@ import "@openzeppelin/contracts/utils/Pausable.sol";
  * @notice Central yield routing contract - all yield must go through here
  * @dev Enforces accounting, whitelist policies, and distribution logic
  * @dev Plugins never send directly to Vastitas token - they send here
+ * @dev Non-treasury yield of a batched asset accrues in a pending pool that a keeper converts in one swap,
+ *      attributing the output to the contributing plugins pro-rata
+ * @dev Normalized yield beyond a plugin's rate limit for the current window is quarantined in the treasury asset
+ * @dev Dev shares accrue here per recipient and asset; recipients pull them with claimDevShare
  */
 contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausable {
     using SafeERC20 for IERC20;
 
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
     bytes32 public constant GOVERNANCE_ROLE = keccak256("GOVERNANCE_ROLE");
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
 
     PluginRegistry public immutable pluginRegistry;
     ISwapModule public immutable swapModule;
@@ -40,6 +45,10 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
     uint256 public constant MAX_GOVERNANCE_REDIRECT_BPS = 3000; // 30% maximum governance redirect
     uint256 public constant MIN_STAKER_SHARE_BPS = 0; // Can be 0, but requires long delay + supermajority to change
 
+    // Batched conversion bounds
+    uint256 public constant MAX_BATCH_DELAY = 7 days;
+    uint256 public constant MAX_BATCH_PLUGINS = 50; // contributors per pending batch, bounds the attribution loop
+
     // Accounting: pluginId => total yield received (in treasury asset terms)
     mapping(bytes32 => uint256) private pluginYield;
     // Quarantined yield: pluginId => asset => amount
@@ -51,8 +60,40 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
     // Accumulated yield waiting for distribution (in treasury asset)
     uint256 private accumulatedYield;
 
-    // Dev share accounting: devRecipient => total received
-    mapping(address => uint256) private devShareReceived;
+    // Dev share accounting: devRecipient => asset => total accrued / total claimed
+    mapping(address => mapping(address => uint256)) private devShareAccrued;
+    mapping(address => mapping(address => uint256)) private devShareClaimed;
+
+    // Batched conversion parameters of a non-treasury asset
+    struct BatchConfig {
+        bool enabled;
+        uint256 minBatchAmount; // batch converts once this much is pending...
+        uint256 maxBatchDelay; // ...or this long after its first contribution
+    }
+
+    // Pending yield of an asset, converted in one swap
+    struct PendingBatch {
+        uint256 total;
+        uint256 openedAt;
+        uint256 maxSlippageBps; // tightest slippage limit among contributors
+        uint256 maxConversionAmount; // tightest conversion cap among contributors (0 = no cap)
+        PluginTypes.PluginTier tier; // lowest tier among contributors
+        bytes32[] pluginIds;
+    }
+
+    // Batching: asset => config / pending batch, asset => pluginId => pending amount
+    mapping(address => BatchConfig) private batchConfigs;
+    mapping(address => PendingBatch) private pendingBatches;
+    mapping(address => mapping(bytes32 => uint256)) private pendingYield;
+
+    // Normalized yield credited to a plugin in its current rate limit window
+    struct YieldWindow {
+        uint256 start;
+        uint256 used;
+    }
+
+    // Rate limit metering: pluginId => current window
+    mapping(bytes32 => YieldWindow) private yieldWindows;
 
     // Events
     event YieldReceived(
@@ -63,6 +104,27 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
         uint256 devShare
     );
 
+    event DevShareAccrued(
+        bytes32 indexed pluginId,
+        address indexed recipient,
+        address indexed asset,
+        uint256 amount
+    );
+
+    event DevShareClaimed(
+        address indexed recipient,
+        address indexed asset,
+        uint256 amount,
+        address indexed to,
+        uint256 paidAmount // in the treasury asset when normalized, otherwise equal to amount
+    );
+
+    event DevShareOverrideIgnored(
+        bytes32 indexed pluginId,
+        address indexed devRecipient,
+        uint256 devBps
+    );
+
     event YieldConverted(
         bytes32 indexed pluginId,
         address indexed inAsset,
@@ -97,6 +159,33 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
         address indexed recipient
     );
 
+    event YieldRateLimited(
+        bytes32 indexed pluginId,
+        uint256 amount,
+        uint256 windowStart
+    );
+
+    event YieldBatched(
+        bytes32 indexed pluginId,
+        address indexed asset,
+        uint256 amount,
+        uint256 pendingTotal
+    );
+
+    event PendingYieldConverted(
+        address indexed asset,
+        uint256 inAmount,
+        uint256 outAmount,
+        uint256 pluginCount
+    );
+
+    event BatchConfigUpdated(
+        address indexed asset,
+        bool enabled,
+        uint256 minBatchAmount,
+        uint256 maxBatchDelay
+    );
+
     event DistributorUpdated(address indexed oldDistributor, address indexed newDistributor);
 
     event DistributionModelUpdated(PluginTypes.DistributionModel oldModel, PluginTypes.DistributionModel newModel);
@@ -156,7 +245,8 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
      * @param pluginId The plugin identifier
      * @param asset The asset address
      * @param amount The yield amount
-     * @param devShare Dev share metadata (optional, can be zero address for no dev share)
+     * @param devShare Per-call dev share (optional, zero address for none); ignored unless it matches the split
+     *        registered in PluginRegistry, which is what the router pays
      */
     function receiveYield(
         bytes32 pluginId,
@@ -186,21 +276,30 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
         // Transfer asset from plugin
         IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
 
-        // Calculate dev share
-        uint256 devCut = 0;
-        uint256 daoCut = amount;
-        
+        // Accrue the registered dev share split; a per-call override cannot redirect it
+        PluginTypes.DevShareRecipient[] memory split = pluginRegistry.getDevShareSplit(pluginId);
         if (devShare.devRecipient != address(0) && devShare.devBps > 0) {
             require(devShare.devBps <= MAX_DEV_SHARE_BPS, "RevenueRouter: dev share exceeds max"); // Enforce immutable cap
-            devCut = (amount * devShare.devBps) / 10000;
-            daoCut = amount - devCut;
+            if (!_matchesDevShareSplit(devShare, split)) {
+                emit DevShareOverrideIgnored(pluginId, devShare.devRecipient, devShare.devBps);
+            }
+        }
 
-            // Transfer dev share
-            if (devCut > 0) {
-                IERC20(asset).safeTransfer(devShare.devRecipient, devCut);
-                devShareReceived[devShare.devRecipient] += devCut;
+        uint256 devCut = 0;
+        uint256 splitBps = 0;
+        for (uint256 i = 0; i < split.length; i++) {
+            splitBps += split[i].bps;
+            uint256 cut = (amount * split[i].bps) / 10000;
+            if (cut > 0) {
+                // Held for the recipient to claim, so a blocked recipient cannot make intake revert
+                devShareAccrued[split[i].recipient][asset] += cut;
+                devCut += cut;
+                emit DevShareAccrued(pluginId, split[i].recipient, asset, cut);
             }
         }
+        require(splitBps <= MAX_DEV_SHARE_BPS, "RevenueRouter: dev share exceeds max"); // Enforce immutable cap
+        uint256 daoCut = amount - devCut;
+        address devRecipient = split.length > 0 ? split[0].recipient : address(0);
 
         // Determine routing constraints
         PluginTypes.TierConfig memory tierConfig = pluginRegistry.getTierConfig(plugin.tier);
@@ -216,15 +315,27 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
             }
         }
 
-        if (tierConfig.quarantineMode || !tierConfig.allowAutoSwap) {
+        address treasuryAsset = swapModule.getTreasuryAsset();
+
+        // Batched yield is checked against the oracle when the batch converts
+        bool batched = batchConfigs[asset].enabled && _canJoinBatch(asset, pluginId);
+
+        // Keep yield in custody when the tier requires it, while SwapModule conversions are paused,
+        // or when the venue price deviates from the oracle by more than the slippage tolerance (fail closed)
+        if (
+            tierConfig.quarantineMode ||
+            !tierConfig.allowAutoSwap ||
+            (asset != treasuryAsset &&
+                (swapModule.paused() ||
+                    (!batched && !swapModule.isWithinOracleBounds(asset, daoCut, maxSlippageBps))))
+        ) {
             quarantinedYield[pluginId][asset] += daoCut;
             emit YieldQuarantined(pluginId, asset, daoCut);
-            emit YieldReceived(pluginId, asset, amount, devShare.devRecipient, devCut);
+            emit YieldReceived(pluginId, asset, amount, devRecipient, devCut);
             return;
         }
 
         // Normalize to treasury asset
-        address treasuryAsset = swapModule.getTreasuryAsset();
         uint256 normalizedAmount = daoCut;
 
         if (asset != treasuryAsset) {
@@ -233,6 +344,13 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
                 "RevenueRouter: conversion amount exceeds cap"
             );
 
+            // Defer the swap to the asset's next batch conversion
+            if (batched) {
+                _addToBatch(pluginId, asset, daoCut, plugin.tier, maxSlippageBps, maxConversionAmount);
+                emit YieldReceived(pluginId, asset, amount, devRecipient, devCut);
+                return;
+            }
+
             // Approve swapModule to transfer tokens from router
             IERC20(asset).forceApprove(address(swapModule), daoCut);
             
@@ -251,13 +369,9 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
         }
 
         // Update accounting (only normalized treasury asset amounts)
-        if (normalizedAmount > 0) {
-            pluginYield[pluginId] += normalizedAmount;
-            totalYieldReceived += normalizedAmount;
-            accumulatedYield += normalizedAmount;
-        }
+        _creditYield(pluginId, treasuryAsset, normalizedAmount);
 
-        emit YieldReceived(pluginId, asset, amount, devShare.devRecipient, devCut);
+        emit YieldReceived(pluginId, asset, amount, devRecipient, devCut);
     }
 
     /**
@@ -315,9 +429,179 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
         }
     }
 
+    /**
+     * @notice Convert the pending yield of a batched asset in one swap (keeper only)
+     * @dev Callable once the batch reaches `minBatchAmount` or is `maxBatchDelay` old, or at any time once
+     *      batching is disabled for the asset. The output is attributed to each contributing plugin pro-rata,
+     *      rounding dust going to the last contributor, and a share beyond the plugin's rate limit headroom is
+     *      quarantined in the treasury asset. If the venue price deviates from the oracle, every contribution is
+     *      quarantined instead
+     * @dev A batch above the tightest contributor's conversion cap converts at most the cap, taken from every
+     *      contribution pro-rata; the rest stays pending for the next call
+     * @param asset Batched asset
+     * @return convertedAmount Treasury asset received, 0 if the batch was quarantined
+     */
+    function convertPendingYield(address asset) external nonReentrant onlyRole(KEEPER_ROLE) returns (uint256) {
+        PendingBatch storage batch = pendingBatches[asset];
+        uint256 total = batch.total;
+        require(total > 0, "RevenueRouter: no pending yield");
+        require(isBatchReady(asset), "RevenueRouter: batch not ready");
+        require(!swapModule.paused(), "RevenueRouter: swaps paused");
+
+        bytes32[] memory pluginIds = batch.pluginIds;
+        uint256 maxSlippageBps = batch.maxSlippageBps;
+        uint256 maxConversionAmount = batch.maxConversionAmount;
+        PluginTypes.PluginTier tier = batch.tier;
+
+        uint256 amount = total;
+        uint256[] memory shares = new uint256[](pluginIds.length);
+        for (uint256 i = 0; i < pluginIds.length; i++) {
+            shares[i] = pendingYield[asset][pluginIds[i]];
+        }
+        if (maxConversionAmount > 0 && total > maxConversionAmount) {
+            amount = 0;
+            for (uint256 i = 0; i < pluginIds.length; i++) {
+                shares[i] = (shares[i] * maxConversionAmount) / total;
+                amount += shares[i];
+            }
+            require(amount > 0, "RevenueRouter: conversion amount exceeds cap");
+        }
+
+        // Fail closed: the whole batch goes to quarantine when the swap price cannot be trusted
+        if (!swapModule.isWithinOracleBounds(asset, amount, maxSlippageBps)) {
+            for (uint256 i = 0; i < pluginIds.length; i++) {
+                uint256 pending = pendingYield[asset][pluginIds[i]];
+                delete pendingYield[asset][pluginIds[i]];
+                quarantinedYield[pluginIds[i]][asset] += pending;
+                emit YieldQuarantined(pluginIds[i], asset, pending);
+            }
+            delete pendingBatches[asset];
+            return 0;
+        }
+
+        _takeFromBatch(asset, pluginIds, shares, amount);
+
+        address treasuryAsset = swapModule.getTreasuryAsset();
+        IERC20(asset).forceApprove(address(swapModule), amount);
+        (address convertedAsset, uint256 convertedAmount) = swapModule.convert(asset, amount, tier, maxSlippageBps);
+        require(convertedAsset == treasuryAsset, "RevenueRouter: conversion failed");
+
+        uint256 remaining = convertedAmount;
+        for (uint256 i = 0; i < pluginIds.length; i++) {
+            uint256 attributed = i == pluginIds.length - 1 ? remaining : (convertedAmount * shares[i]) / amount;
+            remaining -= attributed;
+            emit YieldConverted(pluginIds[i], asset, treasuryAsset, shares[i], attributed);
+            _creditYield(pluginIds[i], treasuryAsset, attributed);
+        }
+
+        emit PendingYieldConverted(asset, amount, convertedAmount, pluginIds.length);
+        return convertedAmount;
+    }
+
+    /**
+     * @notice Claim the caller's pending dev share in several assets
+     * @dev With `normalize`, non-treasury assets are converted through SwapModule and paid out in the treasury
+     *      asset in one transfer; the conversion reverts if swaps are paused, the venue price deviates from the
+     *      oracle or the output is below the minimum
+     * @param assets Assets to claim (assets with nothing pending are skipped)
+     * @param to Recipient of the payout (e.g. when the dev recipient cannot receive the asset)
+     * @param normalize Whether to convert non-treasury assets to the treasury asset
+     * @param maxSlippageBps Slippage tolerance of the conversions, at most the UNTRUSTED tier's; ignored without
+     *        `normalize`
+     * @return amounts Amount claimed per asset, in that asset
+     */
+    function claimDevShare(
+        address[] calldata assets,
+        address to,
+        bool normalize,
+        uint256 maxSlippageBps
+    ) external nonReentrant returns (uint256[] memory amounts) {
+        require(to != address(0), "RevenueRouter: zero recipient");
+        if (normalize) {
+            require(
+                maxSlippageBps <= pluginRegistry.getTierConfig(PluginTypes.PluginTier.UNTRUSTED).maxSlippageBps,
+                "RevenueRouter: slippage exceeds tier limit"
+            );
+        }
+
+        address treasuryAsset = swapModule.getTreasuryAsset();
+        uint256 treasuryPayout = 0;
+        uint256 claimedTotal = 0;
+        amounts = new uint256[](assets.length);
+        for (uint256 i = 0; i < assets.length; i++) {
+            address asset = assets[i];
+            uint256 pending = devShareAccrued[msg.sender][asset] - devShareClaimed[msg.sender][asset];
+            if (pending == 0) {
+                continue;
+            }
+            devShareClaimed[msg.sender][asset] += pending;
+            amounts[i] = pending;
+            claimedTotal += pending;
+
+            uint256 paidAmount = pending;
+            if (asset == treasuryAsset) {
+                treasuryPayout += pending;
+            } else if (normalize) {
+                require(
+                    swapModule.isWithinOracleBounds(asset, pending, maxSlippageBps),
+                    "RevenueRouter: price deviates from oracle"
+                );
+                IERC20(asset).forceApprove(address(swapModule), pending);
+                (address convertedAsset, uint256 convertedAmount) = swapModule.convert(
+                    asset,
+                    pending,
+                    PluginTypes.PluginTier.UNTRUSTED,
+                    maxSlippageBps
+                );
+                require(convertedAsset == treasuryAsset, "RevenueRouter: conversion failed");
+                paidAmount = convertedAmount;
+                treasuryPayout += convertedAmount;
+            } else {
+                IERC20(asset).safeTransfer(to, pending);
+            }
+            emit DevShareClaimed(msg.sender, asset, pending, to, paidAmount);
+        }
+        require(claimedTotal > 0, "RevenueRouter: no dev share to claim");
+
+        if (treasuryPayout > 0) {
+            IERC20(treasuryAsset).safeTransfer(to, treasuryPayout);
+        }
+    }
+
+    /**
+     * @notice Configure batched conversion of a non-treasury asset (governance only, must go through timelock)
+     * @dev Disabling batching leaves the pending batch in place; the keeper can then convert it immediately
+     * @param asset Asset to batch
+     * @param enabled Whether new yield of the asset accrues in the pending batch
+     * @param minBatchAmount Pending amount at which the batch may be converted (0 = any amount)
+     * @param maxBatchDelay Age at which the batch may be converted regardless of its amount (at most MAX_BATCH_DELAY)
+     */
+    function setBatchConfig(
+        address asset,
+        bool enabled,
+        uint256 minBatchAmount,
+        uint256 maxBatchDelay
+    ) external {
+        require(
+            msg.sender == timelock || hasRole(GOVERNANCE_ROLE, msg.sender),
+            "RevenueRouter: unauthorized"
+        );
+        require(asset != address(0), "RevenueRouter: zero asset");
+        require(asset != swapModule.getTreasuryAsset(), "RevenueRouter: treasury asset not batched");
+        require(maxBatchDelay <= MAX_BATCH_DELAY, "RevenueRouter: invalid batch delay");
+
+        batchConfigs[asset] = BatchConfig({
+            enabled: enabled,
+            minBatchAmount: minBatchAmount,
+            maxBatchDelay: maxBatchDelay
+        });
+        emit BatchConfigUpdated(asset, enabled, minBatchAmount, maxBatchDelay);
+    }
+
     /**
      * @notice Release quarantined yield for a plugin+asset.
      * @dev Converts to treasury asset (if needed) and adds to accumulatedYield so it can be distributed.
+     * @dev Released yield does not count against the plugin's rate limit
      * @param pluginId Plugin identifier
      * @param asset Quarantined asset
      * @param amount Amount to release (0 = release full quarantined balance)
@@ -529,12 +813,227 @@ contract RevenueRouter is IRevenueRouter, AccessControl, ReentrancyGuard, Pausab
     }
 
     /**
-     * @notice Get dev share received by a recipient
+     * @notice Get the batched conversion parameters of an asset
+     * @param asset The asset address
+     * @return enabled Whether new yield of the asset is batched
+     * @return minBatchAmount Pending amount at which the batch may be converted
+     * @return maxBatchDelay Age at which the batch may be converted regardless of its amount
+     */
+    function getBatchConfig(address asset) external view returns (bool, uint256, uint256) {
+        BatchConfig storage config = batchConfigs[asset];
+        return (config.enabled, config.minBatchAmount, config.maxBatchDelay);
+    }
+
+    /**
+     * @notice Get the pending batch of an asset
+     * @param asset The asset address
+     * @return total Pending amount awaiting conversion
+     * @return openedAt Timestamp of the first contribution (0 if empty)
+     * @return maxSlippageBps Slippage limit the batch converts with
+     * @return pluginIds Contributing plugins
+     */
+    function getPendingBatch(address asset)
+        external
+        view
+        returns (uint256 total, uint256 openedAt, uint256 maxSlippageBps, bytes32[] memory pluginIds)
+    {
+        PendingBatch storage batch = pendingBatches[asset];
+        return (batch.total, batch.openedAt, batch.maxSlippageBps, batch.pluginIds);
+    }
+
+    /**
+     * @notice Get the pending (not yet converted) yield of a plugin for an asset
+     * @param pluginId The plugin identifier
+     * @param asset The asset address
+     * @return amount Pending amount held in custody
+     */
+    function getPendingYield(bytes32 pluginId, address asset) external view returns (uint256) {
+        return pendingYield[asset][pluginId];
+    }
+
+    /**
+     * @notice Whether the pending batch of an asset may be converted now
+     * @param asset The asset address
+     * @return ready True if the batch is non-empty and past its amount or time threshold
+     */
+    function isBatchReady(address asset) public view returns (bool) {
+        PendingBatch storage batch = pendingBatches[asset];
+        if (batch.total == 0) {
+            return false;
+        }
+        BatchConfig storage config = batchConfigs[asset];
+        return
+            !config.enabled ||
+            batch.total >= config.minBatchAmount ||
+            block.timestamp >= batch.openedAt + config.maxBatchDelay;
+    }
+
+    /**
+     * @notice Get how much more normalized yield a plugin can credit before the rest is quarantined
+     * @param pluginId The plugin identifier
+     * @return headroom Remaining allowance in the current window (type(uint256).max if the plugin has no limit)
+     * @return used Normalized yield credited in the current window
+     * @return resetsAt Start of the next window, when the full limit is available again (0 if no limit)
+     */
+    function getYieldHeadroom(bytes32 pluginId)
+        external
+        view
+        returns (uint256 headroom, uint256 used, uint256 resetsAt)
+    {
+        (uint256 limit, uint256 window) = pluginRegistry.getEffectiveRateLimit(pluginId);
+        if (limit == 0) {
+            return (type(uint256).max, 0, 0);
+        }
+        uint256 start = block.timestamp - (block.timestamp % window);
+        YieldWindow storage current = yieldWindows[pluginId];
+        if (current.start == start) {
+            used = current.used;
+        }
+        headroom = used < limit ? limit - used : 0;
+        resetsAt = start + window;
+    }
+
+    /**
+     * @notice Get the dev share of a recipient in an asset
      * @param devRecipient Dev recipient address
-     * @return totalDevShare Total dev share received
+     * @param asset The asset address
+     * @return accrued Total dev share accrued
+     * @return claimed Total dev share claimed
+     * @return pending Dev share claimable now
+     */
+    function getDevShareReceived(
+        address devRecipient,
+        address asset
+    ) external view returns (uint256 accrued, uint256 claimed, uint256 pending) {
+        accrued = devShareAccrued[devRecipient][asset];
+        claimed = devShareClaimed[devRecipient][asset];
+        pending = accrued - claimed;
+    }
+
+    /**
+     * @notice Credit normalized yield to a plugin, quarantining what exceeds its rate limit headroom
+     * @return credited Amount added to the plugin's yield and the accumulated yield
+     */
+    function _creditYield(
+        bytes32 pluginId,
+        address treasuryAsset,
+        uint256 normalizedAmount
+    ) private returns (uint256 credited) {
+        credited = normalizedAmount;
+        (uint256 limit, uint256 window) = pluginRegistry.getEffectiveRateLimit(pluginId);
+        if (limit > 0 && normalizedAmount > 0) {
+            // Windows are aligned to multiples of their length; a new one starts with no usage
+            uint256 start = block.timestamp - (block.timestamp % window);
+            YieldWindow storage current = yieldWindows[pluginId];
+            if (current.start != start) {
+                current.start = start;
+                current.used = 0;
+            }
+            uint256 headroom = current.used < limit ? limit - current.used : 0;
+            if (credited > headroom) {
+                uint256 excess = credited - headroom;
+                credited = headroom;
+                quarantinedYield[pluginId][treasuryAsset] += excess;
+                emit YieldRateLimited(pluginId, excess, start);
+                emit YieldQuarantined(pluginId, treasuryAsset, excess);
+            }
+            current.used += credited;
+        }
+
+        if (credited > 0) {
+            pluginYield[pluginId] += credited;
+            totalYieldReceived += credited;
+            accumulatedYield += credited;
+        }
+    }
+
+    /**
+     * @notice Whether a per-call dev share is exactly the registered single-recipient split
+     */
+    function _matchesDevShareSplit(
+        PluginTypes.DevShareMetadata calldata devShare,
+        PluginTypes.DevShareRecipient[] memory split
+    ) private pure returns (bool) {
+        return split.length == 1 && split[0].recipient == devShare.devRecipient && split[0].bps == devShare.devBps;
+    }
+
+    /**
+     * @notice Whether a plugin's yield can join the pending batch of an asset
+     * @dev A batch holds at most MAX_BATCH_PLUGINS contributors; others convert immediately until it is flushed
+     */
+    function _canJoinBatch(address asset, bytes32 pluginId) private view returns (bool) {
+        return
+            pendingYield[asset][pluginId] > 0 ||
+            pendingBatches[asset].pluginIds.length < MAX_BATCH_PLUGINS;
+    }
+
+    /**
+     * @notice Add yield to the pending batch of an asset
      */
-    function getDevShareReceived(address devRecipient) external view returns (uint256) {
-        return devShareReceived[devRecipient];
+    function _addToBatch(
+        bytes32 pluginId,
+        address asset,
+        uint256 amount,
+        PluginTypes.PluginTier tier,
+        uint256 maxSlippageBps,
+        uint256 maxConversionAmount
+    ) private {
+        PendingBatch storage batch = pendingBatches[asset];
+        if (batch.total == 0) {
+            batch.openedAt = block.timestamp;
+            batch.maxSlippageBps = maxSlippageBps;
+            batch.maxConversionAmount = maxConversionAmount;
+            batch.tier = tier;
+        } else {
+            if (maxSlippageBps < batch.maxSlippageBps) {
+                batch.maxSlippageBps = maxSlippageBps;
+            }
+            if (
+                maxConversionAmount > 0 &&
+                (batch.maxConversionAmount == 0 || maxConversionAmount < batch.maxConversionAmount)
+            ) {
+                batch.maxConversionAmount = maxConversionAmount;
+            }
+            if (tier < batch.tier) {
+                batch.tier = tier;
+            }
+        }
+        if (pendingYield[asset][pluginId] == 0) {
+            batch.pluginIds.push(pluginId);
+        }
+        pendingYield[asset][pluginId] += amount;
+        batch.total += amount;
+        emit YieldBatched(pluginId, asset, amount, batch.total);
+    }
+
+    /**
+     * @notice Remove the amounts being converted from the pending batch of an asset
+     * @dev Clears the batch once it is empty; otherwise only plugins with yield still pending stay listed
+     */
+    function _takeFromBatch(
+        address asset,
+        bytes32[] memory pluginIds,
+        uint256[] memory amounts,
+        uint256 amount
+    ) private {
+        PendingBatch storage batch = pendingBatches[asset];
+        if (amount == batch.total) {
+            for (uint256 i = 0; i < pluginIds.length; i++) {
+                delete pendingYield[asset][pluginIds[i]];
+            }
+            delete pendingBatches[asset];
+            return;
+        }
+
+        batch.total -= amount;
+        delete batch.pluginIds;
+        for (uint256 i = 0; i < pluginIds.length; i++) {
+            uint256 left = pendingYield[asset][pluginIds[i]] - amounts[i];
+            pendingYield[asset][pluginIds[i]] = left;
+            if (left > 0) {
+                batch.pluginIds.push(pluginIds[i]);
+            }
+        }
     }
 
     /**
@@ -4,24 +4,36 @@ pragma solidity ^0.8.20;
 import "./interfaces/ISwapModule.sol";
 import "./interfaces/IUniswapV3SwapRouter.sol";
 import "./interfaces/IUniswapV3Quoter.sol";
+import "./interfaces/ISwapVenue.sol";
+import "./interfaces/IPriceOracle.sol";
+import "./utils/UniswapV3Path.sol";
 import "./types/PluginTypes.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 
 /**
  * @title SwapModule
  * @notice Handles asset conversion to treasury asset with tier-based limits
  * @dev Enforces slippage limits, route whitelisting, and prevents circular swaps
  * @dev Uses Uniswap V3 for DEX swaps with proper slippage protection
+ * @dev A source asset may be given a swap route: a multi-hop Uniswap V3 path, or a path on an ISwapVenue adapter
+ *      (V2-style AMM, Curve-like pool, ...). Assets without a route swap directly in a single Uniswap V3 pool
+ * @dev A source asset may be given a price oracle (Chainlink feed, Uniswap TWAP, ...): the minimum output is then
+ *      the oracle value less `maxSlippageBps` instead of a same-block venue quote, which a manipulated pool moves too
+ * @dev Conversions can be paused by PAUSER_ROLE (EmergencyCouncil); only governance or the Timelock resumes them
  */
-contract SwapModule is ISwapModule, AccessControl {
+contract SwapModule is ISwapModule, AccessControl, Pausable {
     using SafeERC20 for IERC20;
 
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant GOVERNANCE_ROLE = keccak256("GOVERNANCE_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
 
     address public immutable treasuryAsset;
     address public router; // RevenueRouter address (can be set after deployment)
+    address public timelock; // Timelock that may resume conversions (can be set after deployment)
     
     // Uniswap V3 configuration
     IUniswapV3SwapRouter public uniswapRouter;
@@ -33,6 +45,18 @@ contract SwapModule is ISwapModule, AccessControl {
     // Whitelisted swap routes: fromAsset => toAsset => whitelisted
     mapping(address => mapping(address => bool)) private whitelistedRoutes;
 
+    // Swap route for a source asset; venue zero means the Uniswap V3 router with a packed exactInput path
+    struct SwapRoute {
+        address venue;
+        bytes path;
+    }
+
+    // Swap routes: fromAsset => route to the treasury asset
+    mapping(address => SwapRoute) private swapRoutes;
+
+    // Independent price reference: fromAsset => oracle valuing it in the treasury asset
+    mapping(address => IPriceOracle) private priceOracles;
+
     // Events
     event RouteWhitelisted(address indexed fromAsset, address indexed toAsset, bool whitelisted);
     event SwapExecuted(
@@ -45,6 +69,9 @@ contract SwapModule is ISwapModule, AccessControl {
     event UniswapRouterUpdated(address indexed oldRouter, address indexed newRouter);
     event UniswapQuoterUpdated(address indexed oldQuoter, address indexed newQuoter);
     event PoolFeeUpdated(address indexed fromAsset, address indexed toAsset, uint24 fee);
+    event SwapRouteSet(address indexed fromAsset, address indexed venue, bytes path);
+    event SwapRouteRemoved(address indexed fromAsset);
+    event PriceOracleUpdated(address indexed fromAsset, address indexed oldOracle, address indexed newOracle);
 
     /**
      * @notice Constructor
@@ -81,6 +108,43 @@ contract SwapModule is ISwapModule, AccessControl {
         router = _router;
     }
 
+    /**
+     * @notice Set timelock address (admin only, can only be set once)
+     * @param _timelock Timelock contract address
+     */
+    function setTimelock(address _timelock) external onlyRole(ADMIN_ROLE) {
+        require(_timelock != address(0), "SwapModule: zero timelock");
+        require(timelock == address(0), "SwapModule: timelock already set");
+        timelock = _timelock;
+    }
+
+    /**
+     * @notice Pause conversions (pauser only, e.g. EmergencyCouncil)
+     * @dev RevenueRouter quarantines non-treasury yield while conversions are paused
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @notice Resume conversions (governance or timelock only)
+     */
+    function unpause() external {
+        require(
+            msg.sender == timelock || hasRole(GOVERNANCE_ROLE, msg.sender),
+            "SwapModule: unauthorized"
+        );
+        _unpause();
+    }
+
+    /**
+     * @notice Whether conversions are paused
+     * @return paused True if paused
+     */
+    function paused() public view override(ISwapModule, Pausable) returns (bool) {
+        return super.paused();
+    }
+
     /**
      * @notice Set Uniswap V3 router address (admin only)
      * @param _uniswapRouter Address of Uniswap V3 SwapRouter
@@ -127,6 +191,106 @@ contract SwapModule is ISwapModule, AccessControl {
         return fee > 0 ? fee : DEFAULT_POOL_FEE;
     }
 
+    /**
+     * @notice Set the swap route for a source asset (admin only)
+     * @dev The path must start at `fromAsset` and end at the treasury asset. The route is only used
+     *      while `fromAsset` -> treasury asset is whitelisted
+     * @param fromAsset Source asset
+     * @param venue ISwapVenue adapter, or zero for a Uniswap V3 packed path (token | fee | token ...)
+     * @param path Encoded path understood by the venue
+     */
+    function setSwapRoute(address fromAsset, address venue, bytes calldata path) external onlyRole(ADMIN_ROLE) {
+        require(fromAsset != address(0), "SwapModule: zero asset");
+        require(fromAsset != treasuryAsset, "SwapModule: invalid route");
+
+        address tokenIn;
+        address tokenOut;
+        if (venue == address(0)) {
+            require(UniswapV3Path.isValid(path), "SwapModule: invalid path");
+            (tokenIn, tokenOut) = UniswapV3Path.endpoints(path);
+        } else {
+            (tokenIn, tokenOut) = ISwapVenue(venue).pathTokens(path);
+        }
+        require(tokenIn == fromAsset && tokenOut == treasuryAsset, "SwapModule: path mismatch");
+
+        swapRoutes[fromAsset] = SwapRoute({venue: venue, path: path});
+        emit SwapRouteSet(fromAsset, venue, path);
+    }
+
+    /**
+     * @notice Remove the swap route for a source asset, falling back to a single Uniswap V3 pool (admin only)
+     * @param fromAsset Source asset
+     */
+    function removeSwapRoute(address fromAsset) external onlyRole(ADMIN_ROLE) {
+        require(swapRoutes[fromAsset].path.length > 0, "SwapModule: no swap route");
+        delete swapRoutes[fromAsset];
+        emit SwapRouteRemoved(fromAsset);
+    }
+
+    /**
+     * @notice Get the swap route for a source asset
+     * @param fromAsset Source asset
+     * @return venue ISwapVenue adapter, or zero for the Uniswap V3 router
+     * @return path Encoded path, empty if the asset swaps in a single Uniswap V3 pool
+     */
+    function getSwapRoute(address fromAsset) external view returns (address venue, bytes memory path) {
+        SwapRoute storage route = swapRoutes[fromAsset];
+        return (route.venue, route.path);
+    }
+
+    /**
+     * @notice Set the price oracle bounding conversions of a source asset (admin only)
+     * @param fromAsset Source asset
+     * @param oracle Oracle valuing `fromAsset` in the treasury asset, or zero to bound by the venue quote
+     */
+    function setPriceOracle(address fromAsset, address oracle) external onlyRole(ADMIN_ROLE) {
+        require(fromAsset != address(0), "SwapModule: zero asset");
+        require(fromAsset != treasuryAsset, "SwapModule: invalid route");
+        address oldOracle = address(priceOracles[fromAsset]);
+        priceOracles[fromAsset] = IPriceOracle(oracle);
+        emit PriceOracleUpdated(fromAsset, oldOracle, oracle);
+    }
+
+    /**
+     * @notice Get the price oracle bounding conversions of a source asset
+     * @param fromAsset Source asset
+     * @return oracle Oracle address, zero if conversions are bounded by the venue quote
+     */
+    function getPriceOracle(address fromAsset) external view returns (address) {
+        return address(priceOracles[fromAsset]);
+    }
+
+    /**
+     * @notice Check a conversion against the oracle bound before attempting it
+     * @dev RevenueRouter quarantines the yield instead of converting when this returns false. Not a view
+     *      because venue quoters simulate the swap
+     * @param fromAsset Source asset
+     * @param amount Amount to convert
+     * @param maxSlippageBps Maximum allowed slippage in basis points
+     * @return withinBounds False if the oracle reverts or the venue quote is below the oracle minimum;
+     *         true if no oracle is set for the asset
+     */
+    function isWithinOracleBounds(
+        address fromAsset,
+        uint256 amount,
+        uint256 maxSlippageBps
+    ) external override returns (bool) {
+        IPriceOracle oracle = priceOracles[fromAsset];
+        if (address(oracle) == address(0) || maxSlippageBps >= 10000) {
+            return true;
+        }
+
+        uint256 oracleOut;
+        try oracle.quote(fromAsset, amount, treasuryAsset) returns (uint256 value) {
+            oracleOut = value;
+        } catch {
+            return false;
+        }
+
+        (bool quoted, uint256 quotedOut) = _tryQuote(fromAsset, amount);
+        return quoted && quotedOut >= _minimumOut(oracleOut, maxSlippageBps);
+    }
+
     /**
      * @notice Convert an asset to the treasury asset
      * @param fromAsset Source asset address
@@ -141,7 +305,7 @@ contract SwapModule is ISwapModule, AccessControl {
         uint256 amount,
         PluginTypes.PluginTier tier,
         uint256 maxSlippageBps
-    ) external override returns (address, uint256) {
+    ) external override whenNotPaused returns (address, uint256) {
         require(msg.sender == router, "SwapModule: only router");
         require(fromAsset != address(0), "SwapModule: zero asset");
         require(amount > 0, "SwapModule: zero amount");
@@ -166,33 +330,59 @@ contract SwapModule is ISwapModule, AccessControl {
         // Transfer asset from router to this contract
         IERC20(fromAsset).safeTransferFrom(router, address(this), amount);
 
-        // Execute swap via Uniswap V3
+        // Store balance before swap for slippage verification
+        uint256 balanceBefore = IERC20(treasuryAsset).balanceOf(address(this));
+
+        // Execute swap on the configured route, or a single Uniswap V3 pool by default
+        SwapRoute storage route = swapRoutes[fromAsset];
+        uint256 amountOutMinimum = _amountOutMinimum(fromAsset, amount, maxSlippageBps);
         uint256 convertedAmount;
+        if (route.path.length == 0) {
+            convertedAmount = _swapSingle(fromAsset, amount, amountOutMinimum);
+        } else if (route.venue == address(0)) {
+            convertedAmount = _swapPath(fromAsset, route.path, amount, amountOutMinimum);
+        } else {
+            convertedAmount = _swapVenue(fromAsset, route, amount, amountOutMinimum);
+        }
+
+        // Verify we received the expected amount
+        uint256 balanceAfter = IERC20(treasuryAsset).balanceOf(address(this));
+        require(balanceAfter >= balanceBefore + convertedAmount, "SwapModule: balance mismatch");
         
+        // Additional safety: ensure we received some amount
+        require(convertedAmount > 0, "SwapModule: zero output");
+        
+        if (amountOutMinimum > 0) {
+            require(convertedAmount >= amountOutMinimum, "SwapModule: slippage exceeded");
+        }
+
+        // Transfer converted amount back to router
+        IERC20(treasuryAsset).safeTransfer(router, convertedAmount);
+
+        emit SwapExecuted(fromAsset, treasuryAsset, amount, convertedAmount, tier);
+
+        return (treasuryAsset, convertedAmount);
+    }
+
+    /**
+     * @notice Swap in a single Uniswap V3 pool with the per-pair fee
+     */
+    function _swapSingle(
+        address fromAsset,
+        uint256 amount,
+        uint256 amountOutMinimum
+    ) private returns (uint256 amountOut) {
         if (address(uniswapRouter) == address(0)) {
             // Fallback: if Uniswap router not set, revert (no mock behavior in production)
             revert("SwapModule: uniswap router not configured");
         }
 
-        // Approve Uniswap router to spend fromAsset
-        // Note: In OpenZeppelin v5, safeApprove is deprecated, using approve with reset pattern
-        IERC20(fromAsset).approve(address(uniswapRouter), amount);
-
         // Get pool fee for this route
         uint24 fee = getPoolFee(fromAsset, treasuryAsset);
 
-        uint256 amountOutMinimum = 0;
-        if (maxSlippageBps < 10000) {
-            require(address(uniswapQuoter) != address(0), "SwapModule: quoter not configured");
-            uint256 quotedOut = uniswapQuoter.quoteExactInputSingle(
-                fromAsset,
-                treasuryAsset,
-                fee,
-                amount,
-                0
-            );
-            amountOutMinimum = (quotedOut * (10000 - maxSlippageBps)) / 10000;
-        }
+        // Approve Uniswap router to spend fromAsset
+        // Note: In OpenZeppelin v5, safeApprove is deprecated, using approve with reset pattern
+        IERC20(fromAsset).approve(address(uniswapRouter), amount);
 
         // Execute swap with slippage protection
         IUniswapV3SwapRouter.ExactInputSingleParams memory params = IUniswapV3SwapRouter.ExactInputSingleParams({
@@ -205,33 +395,115 @@ contract SwapModule is ISwapModule, AccessControl {
             amountOutMinimum: amountOutMinimum,
             sqrtPriceLimitX96: 0 // No price limit
         });
-
-        // Store balance before swap for slippage verification
-        uint256 balanceBefore = IERC20(treasuryAsset).balanceOf(address(this));
-        
-        // Execute swap
-        convertedAmount = uniswapRouter.exactInputSingle(params);
-        
-        // Verify we received the expected amount
-        uint256 balanceAfter = IERC20(treasuryAsset).balanceOf(address(this));
-        require(balanceAfter >= balanceBefore + convertedAmount, "SwapModule: balance mismatch");
-        
-        // Additional safety: ensure we received some amount
-        require(convertedAmount > 0, "SwapModule: zero output");
-        
-        if (amountOutMinimum > 0) {
-            require(convertedAmount >= amountOutMinimum, "SwapModule: slippage exceeded");
-        }
+        amountOut = uniswapRouter.exactInputSingle(params);
 
         // Reset approval to zero (security best practice)
         IERC20(fromAsset).approve(address(uniswapRouter), 0);
+    }
+
+    /**
+     * @notice Swap along a multi-hop Uniswap V3 path
+     */
+    function _swapPath(
+        address fromAsset,
+        bytes memory path,
+        uint256 amount,
+        uint256 amountOutMinimum
+    ) private returns (uint256 amountOut) {
+        require(address(uniswapRouter) != address(0), "SwapModule: uniswap router not configured");
+
+        IERC20(fromAsset).approve(address(uniswapRouter), amount);
+        amountOut = uniswapRouter.exactInput(
+            IUniswapV3SwapRouter.ExactInputParams({
+                path: path,
+                recipient: address(this),
+                deadline: block.timestamp + 300,
+                amountIn: amount,
+                amountOutMinimum: amountOutMinimum
+            })
+        );
+        IERC20(fromAsset).approve(address(uniswapRouter), 0);
+    }
 
-        // Transfer converted amount back to router
-        IERC20(treasuryAsset).safeTransfer(router, convertedAmount);
+    /**
+     * @notice Swap through an ISwapVenue adapter, which pulls the input and sends the output here
+     */
+    function _swapVenue(
+        address fromAsset,
+        SwapRoute storage route,
+        uint256 amount,
+        uint256 amountOutMinimum
+    ) private returns (uint256 amountOut) {
+        ISwapVenue venue = ISwapVenue(route.venue);
 
-        emit SwapExecuted(fromAsset, treasuryAsset, amount, convertedAmount, tier);
+        IERC20(fromAsset).approve(address(venue), amount);
+        amountOut = venue.swap(route.path, amount, amountOutMinimum, address(this));
+        IERC20(fromAsset).approve(address(venue), 0);
+    }
 
-        return (treasuryAsset, convertedAmount);
+    /**
+     * @notice Minimum output of a conversion: the oracle value, or else the venue quote, less the slippage tolerance
+     */
+    function _amountOutMinimum(
+        address fromAsset,
+        uint256 amount,
+        uint256 maxSlippageBps
+    ) private returns (uint256) {
+        if (maxSlippageBps >= 10000) {
+            return 0;
+        }
+
+        IPriceOracle oracle = priceOracles[fromAsset];
+        if (address(oracle) != address(0)) {
+            return _minimumOut(oracle.quote(fromAsset, amount, treasuryAsset), maxSlippageBps);
+        }
+
+        SwapRoute storage route = swapRoutes[fromAsset];
+        uint256 quotedOut;
+        if (route.venue != address(0)) {
+            quotedOut = ISwapVenue(route.venue).quote(route.path, amount);
+        } else {
+            require(address(uniswapQuoter) != address(0), "SwapModule: quoter not configured");
+            quotedOut = route.path.length == 0
+                ? uniswapQuoter.quoteExactInputSingle(fromAsset, treasuryAsset, getPoolFee(fromAsset, treasuryAsset), amount, 0)
+                : uniswapQuoter.quoteExactInput(route.path, amount);
+        }
+        return _minimumOut(quotedOut, maxSlippageBps);
+    }
+
+    /**
+     * @notice Venue quote for a conversion, reporting failure instead of reverting
+     */
+    function _tryQuote(address fromAsset, uint256 amount) private returns (bool, uint256) {
+        SwapRoute storage route = swapRoutes[fromAsset];
+        if (route.venue != address(0)) {
+            try ISwapVenue(route.venue).quote(route.path, amount) returns (uint256 quotedOut) {
+                return (true, quotedOut);
+            } catch {
+                return (false, 0);
+            }
+        }
+        if (address(uniswapQuoter) == address(0)) {
+            return (false, 0);
+        }
+        if (route.path.length > 0) {
+            try uniswapQuoter.quoteExactInput(route.path, amount) returns (uint256 quotedOut) {
+                return (true, quotedOut);
+            } catch {
+                return (false, 0);
+            }
+        }
+        try
+            uniswapQuoter.quoteExactInputSingle(fromAsset, treasuryAsset, getPoolFee(fromAsset, treasuryAsset), amount, 0)
+        returns (uint256 quotedOut) {
+            return (true, quotedOut);
+        } catch {
+            return (false, 0);
+        }
+    }
+
+    function _minimumOut(uint256 quotedOut, uint256 maxSlippageBps) private pure returns (uint256) {
+        return (quotedOut * (10000 - maxSlippageBps)) / 10000;
     }
 
     /**
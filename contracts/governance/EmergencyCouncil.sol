@@ -10,21 +10,93 @@ import "../SwapModule.sol";
 /**
  * @title EmergencyCouncil
  * @notice Emergency council with narrowly scoped powers for incident response
- * @dev Multisig with limited powers - cannot move treasury, upgrade contracts, or change fee splits
+ * @dev Multisig with limited powers - cannot move treasury, upgrade contracts, or change fee splits.
+ *      Every action is proposed by a member and executes once enough current members approve it:
+ *      tightening actions need tighteningThreshold approvals, loosening and irreversible actions
+ *      looseningThreshold.
+ *      Members can only act until mandateEnd, which governance renews, and quarantines lapse
+ *      unless governance ratifies them (see PluginRegistry.emergencyQuarantine).
  */
 contract EmergencyCouncil is AccessControl, Multicall {
     bytes32 public constant COUNCIL_MEMBER_ROLE = keccak256("COUNCIL_MEMBER_ROLE");
-    
+
+    // How long a proposed action can collect approvals
+    uint256 public constant ACTION_LIFETIME = 3 days;
+
+    // Longest mandate governance can grant at once
+    uint256 public constant MAX_MANDATE_TERM = 365 days;
+
     PluginRegistry public immutable pluginRegistry;
     RevenueRouter public immutable revenueRouter;
     SwapModule public immutable swapModule;
 
+    /**
+     * @notice Council actions; all but UNQUARANTINE_PLUGIN only tighten restrictions, and SLASH_BOND
+     *         cannot be undone
+     */
+    enum ActionType {
+        PAUSE_SWAPS,
+        QUARANTINE_PLUGIN,
+        REDUCE_PLUGIN_CAPS,
+        UNQUARANTINE_PLUGIN,
+        SLASH_BOND
+    }
+
+    struct Action {
+        ActionType actionType;
+        bytes32 pluginId;
+        uint256 maxConversionAmount; // REDUCE_PLUGIN_CAPS only
+        uint256 maxSlippageBps; // REDUCE_PLUGIN_CAPS only
+        address proposer;
+        uint256 expiresAt;
+        bool executed;
+        address[] approvers;
+    }
+
+    // Approvals required for tightening and loosening actions
+    uint256 public tighteningThreshold;
+    uint256 public looseningThreshold;
+
+    // Number of COUNCIL_MEMBER_ROLE holders
+    uint256 public memberCount;
+
+    // Time at which the council's powers end
+    uint256 public mandateEnd;
+
+    // Action ID => action (IDs start at 1)
+    mapping(uint256 => Action) private actions;
+    uint256 public actionCount;
+
+    // Member => membership term, bumped every time COUNCIL_MEMBER_ROLE is granted
+    mapping(address => uint256) public membershipEpoch;
+
+    // Action ID => member => membership term the approval was given in (0 = never approved)
+    mapping(uint256 => mapping(address => uint256)) private approvalEpoch;
+
     // Events
     event SwapPaused(address indexed pausedBy);
-    event SwapUnpaused(address indexed unpausedBy);
     event PluginQuarantined(bytes32 indexed pluginId, address indexed quarantinedBy);
     event PluginUnquarantined(bytes32 indexed pluginId, address indexed unquarantinedBy);
     event CapReduced(bytes32 indexed pluginId, uint256 oldCap, uint256 newCap, address indexed reducedBy);
+    event BondSlashed(bytes32 indexed pluginId, uint256 amount, address indexed slashedBy);
+    event ActionProposed(
+        uint256 indexed actionId,
+        ActionType actionType,
+        bytes32 indexed pluginId,
+        address indexed proposer,
+        uint256 expiresAt
+    );
+    event ActionApproved(uint256 indexed actionId, address indexed approver);
+    event ApprovalRevoked(uint256 indexed actionId, address indexed approver);
+    event ActionExecuted(uint256 indexed actionId);
+    event ThresholdsUpdated(uint256 tighteningThreshold, uint256 looseningThreshold);
+    event MandateRenewed(uint256 mandateEnd);
+
+    modifier onlyActiveMember() {
+        _checkRole(COUNCIL_MEMBER_ROLE);
+        require(block.timestamp < mandateEnd, "EmergencyCouncil: mandate expired");
+        _;
+    }
 
     /**
      * @notice Constructor
@@ -32,12 +104,18 @@ contract EmergencyCouncil is AccessControl, Multicall {
      * @param _revenueRouter RevenueRouter address
      * @param _swapModule SwapModule address
      * @param councilMembers Array of council member addresses
+     * @param _tighteningThreshold Approvals required for actions that tighten restrictions
+     * @param _looseningThreshold Approvals required for actions that loosen restrictions
+     * @param mandateTerm Seconds until the initial mandate ends
      */
     constructor(
         address _pluginRegistry,
         address _revenueRouter,
         address _swapModule,
-        address[] memory councilMembers
+        address[] memory councilMembers,
+        uint256 _tighteningThreshold,
+        uint256 _looseningThreshold,
+        uint256 mandateTerm
     ) {
         require(_pluginRegistry != address(0), "EmergencyCouncil: zero registry");
         require(_revenueRouter != address(0), "EmergencyCouncil: zero router");
@@ -48,89 +126,134 @@ contract EmergencyCouncil is AccessControl, Multicall {
         swapModule = SwapModule(_swapModule);
 
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
-        
+
         // Grant council member role to all provided members
         for (uint256 i = 0; i < councilMembers.length; i++) {
             require(councilMembers[i] != address(0), "EmergencyCouncil: zero member");
             _grantRole(COUNCIL_MEMBER_ROLE, councilMembers[i]);
         }
-    }
 
-    /**
-     * @notice Pause swaps in the router (council only)
-     * @dev Can pause swap operations but NOT deposits/withdrawals
-     */
-    function pauseSwaps() external onlyRole(COUNCIL_MEMBER_ROLE) {
-        // In production, this would call a pause function on SwapModule
-        // For MVP, we emit event (actual pause would be implemented in SwapModule)
-        emit SwapPaused(msg.sender);
+        _setThresholds(_tighteningThreshold, _looseningThreshold);
+        _setMandateEnd(block.timestamp + mandateTerm);
     }
 
     /**
-     * @notice Unpause swaps in the router (council only)
+     * @notice Propose pausing SwapModule conversions (council only)
+     * @dev Can pause swap operations but NOT deposits/withdrawals: RevenueRouter quarantines
+     *      non-treasury yield until governance or the Timelock calls SwapModule.unpause.
+     *      Requires PAUSER_ROLE on SwapModule.
+     * @return actionId The proposed action, approved by the caller
      */
-    function unpauseSwaps() external onlyRole(COUNCIL_MEMBER_ROLE) {
-        emit SwapUnpaused(msg.sender);
+    function pauseSwaps() external onlyActiveMember returns (uint256 actionId) {
+        return _propose(ActionType.PAUSE_SWAPS, bytes32(0), 0, 0);
     }
 
     /**
-     * @notice Freeze a specific plugin (set to quarantine) (council only)
+     * @notice Propose freezing a specific plugin (set to quarantine) (council only)
+     * @dev Requires EMERGENCY_ROLE on PluginRegistry. The quarantine lapses after
+     *      PluginRegistry.emergencyQuarantineWindow unless governance ratifies it.
      * @param pluginId Plugin identifier
+     * @return actionId The proposed action, approved by the caller
      */
-    function quarantinePlugin(bytes32 pluginId) external onlyRole(COUNCIL_MEMBER_ROLE) {
-        // Deactivate plugin (which puts it in quarantine effectively)
-        pluginRegistry.deactivatePlugin(pluginId);
-        emit PluginQuarantined(pluginId, msg.sender);
+    function quarantinePlugin(bytes32 pluginId) external onlyActiveMember returns (uint256 actionId) {
+        return _propose(ActionType.QUARANTINE_PLUGIN, pluginId, 0, 0);
     }
 
     /**
-     * @notice Unfreeze a plugin (council only)
+     * @notice Propose unfreezing a plugin (council only)
+     * @dev Loosening action: executes at looseningThreshold approvals. Lifts an emergency quarantine
+     *      only; plugins governance deactivated stay inactive.
      * @param pluginId Plugin identifier
+     * @return actionId The proposed action, approved by the caller
      */
-    function unquarantinePlugin(bytes32 pluginId) external onlyRole(COUNCIL_MEMBER_ROLE) {
-        pluginRegistry.activatePlugin(pluginId);
-        emit PluginUnquarantined(pluginId, msg.sender);
+    function unquarantinePlugin(bytes32 pluginId) external onlyActiveMember returns (uint256 actionId) {
+        return _propose(ActionType.UNQUARANTINE_PLUGIN, pluginId, 0, 0);
     }
 
     /**
-     * @notice Reduce plugin caps immediately (council only)
+     * @notice Propose reducing plugin caps (council only)
+     * @dev Requires EMERGENCY_ROLE on PluginRegistry. Caps can only be tightened, and the reduction
+     *      lapses after PluginRegistry.EMERGENCY_CAPS_DURATION unless governance ratifies it.
      * @param pluginId Plugin identifier
      * @param newMaxConversionAmount New max conversion amount
      * @param newMaxSlippageBps New max slippage in basis points
+     * @return actionId The proposed action, approved by the caller
      */
     function reducePluginCaps(
         bytes32 pluginId,
         uint256 newMaxConversionAmount,
         uint256 newMaxSlippageBps
-    ) external onlyRole(COUNCIL_MEMBER_ROLE) {
-        // Get current tier config
-        PluginTypes.PluginMetadata memory plugin = pluginRegistry.getPlugin(pluginId);
-        require(plugin.pluginAddress != address(0), "EmergencyCouncil: plugin not found");
-        
-        PluginTypes.TierConfig memory currentConfig = pluginRegistry.getTierConfig(plugin.tier);
-        
-        // Only allow reducing caps, not increasing
-        require(
-            newMaxConversionAmount <= currentConfig.maxConversionAmount,
-            "EmergencyCouncil: cannot increase cap"
-        );
-        require(
-            newMaxSlippageBps <= currentConfig.maxSlippageBps,
-            "EmergencyCouncil: cannot increase slippage"
-        );
+    ) external onlyActiveMember returns (uint256 actionId) {
+        return _propose(ActionType.REDUCE_PLUGIN_CAPS, pluginId, newMaxConversionAmount, newMaxSlippageBps);
+    }
+
+    /**
+     * @notice Propose slashing a quarantined plugin's whole bond to the TreasuryVault (council only)
+     * @dev Irreversible: executes at looseningThreshold approvals. Requires EMERGENCY_ROLE on
+     *      PluginRegistry, and the plugin must still be quarantined or inactive when the action executes.
+     * @param pluginId Plugin identifier
+     * @return actionId The proposed action, approved by the caller
+     */
+    function slashBond(bytes32 pluginId) external onlyActiveMember returns (uint256 actionId) {
+        return _propose(ActionType.SLASH_BOND, pluginId, 0, 0);
+    }
+
+    /**
+     * @notice Approve a pending action (council only)
+     * @dev Executes the action once approvals from current members reach its threshold
+     * @param actionId Action identifier
+     */
+    function approveAction(uint256 actionId) external onlyActiveMember {
+        Action storage action = actions[actionId];
+        require(action.proposer != address(0), "EmergencyCouncil: action not found");
+        require(!action.executed, "EmergencyCouncil: action executed");
+        require(block.timestamp < action.expiresAt, "EmergencyCouncil: action expired");
+        require(!hasApproved(actionId, msg.sender), "EmergencyCouncil: already approved");
 
-        // Update tier config with reduced caps
-        PluginTypes.TierConfig memory newConfig = PluginTypes.TierConfig({
-            maxConversionAmount: newMaxConversionAmount,
-            maxSlippageBps: newMaxSlippageBps,
-            allowAutoSwap: currentConfig.allowAutoSwap,
-            quarantineMode: currentConfig.quarantineMode
-        });
+        _approve(actionId);
+    }
 
-        // This would require governance role, so we need to grant it temporarily
-        // Or we could add a separate function in PluginRegistry for emergency cap reduction
-        // For MVP, we emit event (actual implementation would need registry support)
-        emit CapReduced(pluginId, currentConfig.maxConversionAmount, newMaxConversionAmount, msg.sender);
+    /**
+     * @notice Withdraw an approval from a pending action (council only)
+     * @param actionId Action identifier
+     */
+    function revokeApproval(uint256 actionId) external onlyRole(COUNCIL_MEMBER_ROLE) {
+        Action storage action = actions[actionId];
+        require(!action.executed, "EmergencyCouncil: action executed");
+        require(hasApproved(actionId, msg.sender), "EmergencyCouncil: not approved");
+
+        approvalEpoch[actionId][msg.sender] = 0;
+        address[] storage approvers = action.approvers;
+        for (uint256 i = 0; i < approvers.length; i++) {
+            if (approvers[i] == msg.sender) {
+                approvers[i] = approvers[approvers.length - 1];
+                approvers.pop();
+                break;
+            }
+        }
+
+        emit ApprovalRevoked(actionId, msg.sender);
+    }
+
+    /**
+     * @notice Set the approval thresholds (admin only)
+     * @param _tighteningThreshold Approvals required for actions that tighten restrictions
+     * @param _looseningThreshold Approvals required for actions that loosen restrictions
+     */
+    function setThresholds(
+        uint256 _tighteningThreshold,
+        uint256 _looseningThreshold
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setThresholds(_tighteningThreshold, _looseningThreshold);
+    }
+
+    /**
+     * @notice Renew the council's mandate (admin only, governance through the Timelock after handover)
+     * @param newMandateEnd Time at which the renewed mandate ends, at most MAX_MANDATE_TERM ahead
+     * @dev An earlier end date than the current one revokes the mandate early
+     */
+    function renewMandate(uint256 newMandateEnd) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setMandateEnd(newMandateEnd);
     }
 
     /**
@@ -144,9 +267,183 @@ contract EmergencyCouncil is AccessControl, Multicall {
 
     /**
      * @notice Remove a council member (admin only)
+     * @dev Approvals already given by the member stop counting, even if the member is added again
      * @param member Council member address
      */
     function removeCouncilMember(address member) external onlyRole(DEFAULT_ADMIN_ROLE) {
         _revokeRole(COUNCIL_MEMBER_ROLE, member);
     }
+
+    /**
+     * @notice Whether the council's mandate is in effect
+     */
+    function isMandateActive() public view returns (bool) {
+        return block.timestamp < mandateEnd;
+    }
+
+    /**
+     * @notice Whether an account can currently propose and approve actions
+     * @param account The account
+     */
+    function isActiveMember(address account) external view returns (bool) {
+        return isMandateActive() && hasRole(COUNCIL_MEMBER_ROLE, account);
+    }
+
+    /**
+     * @notice Get an action
+     * @param actionId Action identifier
+     * @return action The action, including every member that approved it
+     */
+    function getAction(uint256 actionId) external view returns (Action memory) {
+        return actions[actionId];
+    }
+
+    /**
+     * @notice Whether a member's approval of an action counts in their current membership term
+     * @param actionId Action identifier
+     * @param member Council member address
+     */
+    function hasApproved(uint256 actionId, address member) public view returns (bool) {
+        return hasRole(COUNCIL_MEMBER_ROLE, member) && approvalEpoch[actionId][member] == membershipEpoch[member];
+    }
+
+    /**
+     * @notice Count the approvals of an action that are held by current members
+     * @param actionId Action identifier
+     * @return approvals Number of counting approvals
+     */
+    function getApprovalCount(uint256 actionId) public view returns (uint256 approvals) {
+        address[] storage approvers = actions[actionId].approvers;
+        for (uint256 i = 0; i < approvers.length; i++) {
+            if (hasApproved(actionId, approvers[i])) {
+                approvals++;
+            }
+        }
+    }
+
+    /**
+     * @notice Get the approvals an action type needs to execute
+     * @param actionType The action type
+     * @return threshold Required approvals
+     */
+    function getThreshold(ActionType actionType) public view returns (uint256) {
+        return actionType == ActionType.UNQUARANTINE_PLUGIN || actionType == ActionType.SLASH_BOND
+            ? looseningThreshold
+            : tighteningThreshold;
+    }
+
+    /**
+     * @notice Record a new action and the proposer's approval
+     */
+    function _propose(
+        ActionType actionType,
+        bytes32 pluginId,
+        uint256 maxConversionAmount,
+        uint256 maxSlippageBps
+    ) private returns (uint256 actionId) {
+        actionId = ++actionCount;
+        Action storage action = actions[actionId];
+        action.actionType = actionType;
+        action.pluginId = pluginId;
+        action.maxConversionAmount = maxConversionAmount;
+        action.maxSlippageBps = maxSlippageBps;
+        action.proposer = msg.sender;
+        action.expiresAt = block.timestamp + ACTION_LIFETIME;
+
+        emit ActionProposed(actionId, actionType, pluginId, msg.sender, action.expiresAt);
+        _approve(actionId);
+    }
+
+    /**
+     * @notice Record the caller's approval and execute the action once it reaches its threshold
+     */
+    function _approve(uint256 actionId) private {
+        Action storage action = actions[actionId];
+        // A member approving again in a new term is already listed from the stale approval
+        if (approvalEpoch[actionId][msg.sender] == 0) {
+            action.approvers.push(msg.sender);
+        }
+        approvalEpoch[actionId][msg.sender] = membershipEpoch[msg.sender];
+        emit ActionApproved(actionId, msg.sender);
+
+        if (getApprovalCount(actionId) >= getThreshold(action.actionType)) {
+            action.executed = true;
+            _execute(action);
+            emit ActionExecuted(actionId);
+        }
+    }
+
+    /**
+     * @notice Perform an approved action; emitted events attribute it to the proposer
+     */
+    function _execute(Action storage action) private {
+        if (action.actionType == ActionType.PAUSE_SWAPS) {
+            swapModule.pause();
+            emit SwapPaused(action.proposer);
+        } else if (action.actionType == ActionType.QUARANTINE_PLUGIN) {
+            pluginRegistry.emergencyQuarantine(action.pluginId);
+            emit PluginQuarantined(action.pluginId, action.proposer);
+        } else if (action.actionType == ActionType.REDUCE_PLUGIN_CAPS) {
+            (uint256 oldCap, ) = pluginRegistry.getEffectiveLimits(action.pluginId);
+            pluginRegistry.reducePluginCaps(action.pluginId, action.maxConversionAmount, action.maxSlippageBps);
+            emit CapReduced(action.pluginId, oldCap, action.maxConversionAmount, action.proposer);
+        } else if (action.actionType == ActionType.UNQUARANTINE_PLUGIN) {
+            pluginRegistry.liftEmergencyQuarantine(action.pluginId);
+            emit PluginUnquarantined(action.pluginId, action.proposer);
+        } else {
+            uint256 amount = pluginRegistry.getPluginBond(action.pluginId).amount;
+            pluginRegistry.slashBond(action.pluginId, amount);
+            emit BondSlashed(action.pluginId, amount, action.proposer);
+        }
+    }
+
+    /**
+     * @notice Validate and store the approval thresholds
+     */
+    function _setThresholds(uint256 _tighteningThreshold, uint256 _looseningThreshold) private {
+        require(
+            _tighteningThreshold > 0 && _tighteningThreshold <= _looseningThreshold,
+            "EmergencyCouncil: invalid thresholds"
+        );
+        require(_looseningThreshold <= memberCount, "EmergencyCouncil: threshold exceeds members");
+
+        tighteningThreshold = _tighteningThreshold;
+        looseningThreshold = _looseningThreshold;
+        emit ThresholdsUpdated(_tighteningThreshold, _looseningThreshold);
+    }
+
+    /**
+     * @notice Validate and store the mandate end
+     */
+    function _setMandateEnd(uint256 newMandateEnd) private {
+        require(
+            newMandateEnd > block.timestamp && newMandateEnd <= block.timestamp + MAX_MANDATE_TERM,
+            "EmergencyCouncil: invalid mandate end"
+        );
+        mandateEnd = newMandateEnd;
+        emit MandateRenewed(newMandateEnd);
+    }
+
+    /**
+     * @dev Tracks the member count however COUNCIL_MEMBER_ROLE is granted, and starts a new membership
+     * term so approvals from an earlier term never count again
+     */
+    function _grantRole(bytes32 role, address account) internal override returns (bool granted) {
+        granted = super._grantRole(role, account);
+        if (granted && role == COUNCIL_MEMBER_ROLE) {
+            memberCount++;
+            membershipEpoch[account]++;
+        }
+    }
+
+    /**
+     * @dev Tracks the member count and keeps enough members to reach the loosening threshold
+     */
+    function _revokeRole(bytes32 role, address account) internal override returns (bool revoked) {
+        revoked = super._revokeRole(role, account);
+        if (revoked && role == COUNCIL_MEMBER_ROLE) {
+            require(memberCount > looseningThreshold, "EmergencyCouncil: threshold exceeds members");
+            memberCount--;
+        }
+    }
 }
@@ -42,9 +42,18 @@ contract Governance is
     // Proposal type => voting threshold (basis points, e.g., 5000 = 50%)
     mapping(ProposalType => uint256) public proposalTypeThreshold;
 
-    // Proposal type => timelock delay multiplier (1 = standard, 2 = high-impact)
+    // Proposal type => timelock delay tier (0 = standard, 1 = high-impact, see Timelock.getDelayForProposalType)
     mapping(ProposalType => uint8) public proposalTypeDelayTier;
 
+    // Proposal ID => type the proposal was created with
+    mapping(uint256 => ProposalType) private _proposalTypes;
+
+    // Proposal ID => timelock operation ID (scheduled with the delay of the proposal's type)
+    mapping(uint256 => bytes32) private _timelockOperationIds;
+
+    // Target => function selector => proposal type + 1 (0 = unclassified, held to UPGRADE)
+    mapping(address => mapping(bytes4 => uint8)) private _selectorTypes;
+
     // Council for representative voting (inherited from CouncilVotes)
     // useCouncilVoting is inherited from CouncilVotes
 
@@ -57,6 +66,10 @@ contract Governance is
 
     event CouncilVotingToggled(bool useCouncil);
 
+    event SelectorTypeSet(address indexed target, bytes4 indexed selector, ProposalType proposalType);
+
+    event SelectorTypeRemoved(address indexed target, bytes4 indexed selector);
+
     /**
      * @notice Constructor
      * @param token Voting token (Vastitas)
@@ -126,8 +139,109 @@ contract Governance is
         string memory description,
         ProposalType proposalType
     ) public returns (uint256 proposalId) {
-        proposalId = propose(targets, values, calldatas, description);
-        emit ProposalCreatedWithType(proposalId, proposalType, msg.sender);
+        proposalId = _proposeWithType(targets, values, calldatas, description, proposalType);
+    }
+
+    /**
+     * @notice Classify the calls of a proposal against the selector map
+     * @dev Returns the strictest type among the calls. Calls without a mapped type count as UPGRADE.
+     * @param targets Target addresses for calls
+     * @param calldatas Calldata for calls
+     * @return proposalType Strictest proposal type present
+     */
+    function classifyProposal(
+        address[] memory targets,
+        bytes[] memory calldatas
+    ) public view returns (ProposalType proposalType) {
+        require(targets.length > 0 && targets.length == calldatas.length, "Governance: invalid proposal length");
+        proposalType = _classifyCall(targets[0], calldatas[0]);
+        for (uint256 i = 1; i < targets.length; i++) {
+            ProposalType callType = _classifyCall(targets[i], calldatas[i]);
+            if (_isStricterType(callType, proposalType)) {
+                proposalType = callType;
+            }
+        }
+    }
+
+    /**
+     * @notice Get the proposal type a function is classified as
+     * @param target Target contract
+     * @param selector Function selector
+     * @return classified Whether the function is in the selector map
+     * @return proposalType Mapped type (UPGRADE when unclassified)
+     */
+    function getSelectorType(address target, bytes4 selector) public view returns (bool classified, ProposalType proposalType) {
+        uint8 stored = _selectorTypes[target][selector];
+        if (stored == 0) {
+            return (false, ProposalType.UPGRADE);
+        }
+        return (true, ProposalType(stored - 1));
+    }
+
+    /**
+     * @notice Classify functions of a target contract (admin only, the timelock after handover)
+     * @param target Target contract
+     * @param selectors Function selectors
+     * @param proposalType Proposal type the functions require
+     */
+    function setSelectorTypes(
+        address target,
+        bytes4[] calldata selectors,
+        ProposalType proposalType
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        for (uint256 i = 0; i < selectors.length; i++) {
+            _selectorTypes[target][selectors[i]] = uint8(proposalType) + 1;
+            emit SelectorTypeSet(target, selectors[i], proposalType);
+        }
+    }
+
+    /**
+     * @notice Remove functions from the selector map, they are held to UPGRADE again (admin only)
+     * @param target Target contract
+     * @param selectors Function selectors
+     */
+    function removeSelectorTypes(address target, bytes4[] calldata selectors) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        for (uint256 i = 0; i < selectors.length; i++) {
+            delete _selectorTypes[target][selectors[i]];
+            emit SelectorTypeRemoved(target, selectors[i]);
+        }
+    }
+
+    /**
+     * @notice Get the type a proposal was created with
+     * @param proposalId Proposal ID
+     * @return proposalType Proposal type
+     */
+    function getProposalType(uint256 proposalId) public view returns (ProposalType) {
+        require(proposalSnapshot(proposalId) != 0, "Governance: unknown proposal");
+        return _proposalTypes[proposalId];
+    }
+
+    /**
+     * @notice Get the quorum a proposal must reach
+     * @dev The larger of the global quorum fraction and the quorum of the proposal's type
+     * @param proposalId Proposal ID
+     * @return Quorum in votes (for + abstain)
+     */
+    function proposalQuorum(uint256 proposalId) public view returns (uint256) {
+        uint256 snapshot = proposalSnapshot(proposalId);
+        uint256 globalQuorum = quorum(snapshot);
+        uint256 typeQuorum = (token().getPastTotalSupply(snapshot) * proposalTypeQuorum[getProposalType(proposalId)]) / 10000;
+        return typeQuorum > globalQuorum ? typeQuorum : globalQuorum;
+    }
+
+    /**
+     * @notice Get the timelock delay a proposal is queued with
+     * @dev The delay tier of the proposal's type, never below the timelock's minimum delay. Calls the
+     *      timelock registers as high-impact raise it to HIGH_IMPACT_DELAY when queued (see Timelock.getRequiredDelay).
+     * @param proposalId Proposal ID
+     * @return delay Delay in seconds
+     */
+    function proposalDelay(uint256 proposalId) public view returns (uint256) {
+        Timelock timelockController = Timelock(payable(timelock()));
+        uint256 tierDelay = timelockController.getDelayForProposalType(proposalTypeDelayTier[getProposalType(proposalId)]);
+        uint256 minDelay = timelockController.getMinDelay();
+        return tierDelay > minDelay ? tierDelay : minDelay;
     }
 
     /**
@@ -215,24 +329,114 @@ contract Governance is
         return super.quorum(blockNumber);
     }
 
+    /**
+     * @dev Same as GovernorTimelockControl.state, for operations scheduled by _queueOperations below
+     */
     function state(uint256 proposalId)
         public
         view
         override(Governor, GovernorTimelockControl)
         returns (ProposalState)
     {
-        return super.state(proposalId);
+        ProposalState currentState = Governor.state(proposalId);
+        if (currentState != ProposalState.Queued) {
+            return currentState;
+        }
+
+        TimelockController timelockController = TimelockController(payable(timelock()));
+        bytes32 operationId = _timelockOperationIds[proposalId];
+        if (timelockController.isOperationPending(operationId)) {
+            return ProposalState.Queued;
+        } else if (timelockController.isOperationDone(operationId)) {
+            return ProposalState.Executed;
+        }
+        return ProposalState.Canceled;
     }
 
+    /**
+     * @notice Untyped proposals take the strictest type of their calls (see classifyProposal)
+     */
     function propose(
         address[] memory targets,
         uint256[] memory values,
         bytes[] memory calldatas,
         string memory description
     ) public override(Governor) returns (uint256) {
-        return super.propose(targets, values, calldatas, description);
+        return _proposeWithType(targets, values, calldatas, description, classifyProposal(targets, calldatas));
+    }
+
+    /**
+     * @dev The declared type must be the classified type of the calls or a stricter one
+     */
+    function _proposeWithType(
+        address[] memory targets,
+        uint256[] memory values,
+        bytes[] memory calldatas,
+        string memory description,
+        ProposalType proposalType
+    ) internal returns (uint256 proposalId) {
+        ProposalType requiredType = classifyProposal(targets, calldatas);
+        require(
+            proposalType == requiredType || _isStricterType(proposalType, requiredType),
+            "Governance: proposal type mismatch"
+        );
+
+        proposalId = super.propose(targets, values, calldatas, description);
+        _proposalTypes[proposalId] = proposalType;
+        emit ProposalCreatedWithType(proposalId, proposalType, msg.sender);
+    }
+
+    function _classifyCall(address target, bytes memory data) private view returns (ProposalType proposalType) {
+        (, proposalType) = getSelectorType(target, bytes4(data));
+    }
+
+    /**
+     * @dev Orders types by vote threshold, then quorum, then delay tier; full ties by enum order
+     */
+    function _isStricterType(ProposalType a, ProposalType b) private view returns (bool) {
+        if (proposalTypeThreshold[a] != proposalTypeThreshold[b]) {
+            return proposalTypeThreshold[a] > proposalTypeThreshold[b];
+        }
+        if (proposalTypeQuorum[a] != proposalTypeQuorum[b]) {
+            return proposalTypeQuorum[a] > proposalTypeQuorum[b];
+        }
+        if (proposalTypeDelayTier[a] != proposalTypeDelayTier[b]) {
+            return proposalTypeDelayTier[a] > proposalTypeDelayTier[b];
+        }
+        return uint8(a) > uint8(b);
+    }
+
+    /**
+     * @dev Quorum of the proposal's type (see proposalQuorum)
+     */
+    function _quorumReached(uint256 proposalId)
+        internal
+        view
+        override(Governor, GovernorCountingSimple)
+        returns (bool)
+    {
+        (, uint256 forVotes, uint256 abstainVotes) = proposalVotes(proposalId);
+        return proposalQuorum(proposalId) <= forVotes + abstainVotes;
     }
 
+    /**
+     * @dev For votes must strictly exceed the threshold of the proposal's type, as a share of for + against
+     */
+    function _voteSucceeded(uint256 proposalId)
+        internal
+        view
+        override(Governor, GovernorCountingSimple)
+        returns (bool)
+    {
+        (uint256 againstVotes, uint256 forVotes, ) = proposalVotes(proposalId);
+        uint256 threshold = proposalTypeThreshold[getProposalType(proposalId)];
+        return forVotes > 0 && forVotes * 10000 > (forVotes + againstVotes) * threshold;
+    }
+
+    /**
+     * @dev Schedules on the timelock with the delay of the proposal's type instead of the minimum delay,
+     *      or the high-impact delay the timelock requires for the calls if longer
+     */
     function _queueOperations(
         uint256 proposalId,
         address[] memory targets,
@@ -240,7 +444,18 @@ contract Governance is
         bytes[] memory calldatas,
         bytes32 descriptionHash
     ) internal override(Governor, GovernorTimelockControl) returns (uint48) {
-        return super._queueOperations(proposalId, targets, values, calldatas, descriptionHash);
+        Timelock timelockController = Timelock(payable(timelock()));
+        uint256 delay = proposalDelay(proposalId);
+        uint256 requiredDelay = timelockController.getRequiredDelay(targets, calldatas);
+        if (requiredDelay > delay) {
+            delay = requiredDelay;
+        }
+        bytes32 salt = _typedTimelockSalt(descriptionHash);
+
+        _timelockOperationIds[proposalId] = timelockController.hashOperationBatch(targets, values, calldatas, 0, salt);
+        timelockController.scheduleBatch(targets, values, calldatas, 0, salt, delay);
+
+        return SafeCast.toUint48(block.timestamp + delay);
     }
 
     function _executeOperations(
@@ -250,7 +465,19 @@ contract Governance is
         bytes[] memory calldatas,
         bytes32 descriptionHash
     ) internal override(Governor, GovernorTimelockControl) {
-        super._executeOperations(proposalId, targets, values, calldatas, descriptionHash);
+        TimelockController(payable(timelock())).executeBatch{value: msg.value}(
+            targets,
+            values,
+            calldatas,
+            0,
+            _typedTimelockSalt(descriptionHash)
+        );
+        delete _timelockOperationIds[proposalId];
+    }
+
+    // Mirror of GovernorTimelockControl's private salt, keeps operation IDs compatible
+    function _typedTimelockSalt(bytes32 descriptionHash) private view returns (bytes32) {
+        return bytes20(address(this)) ^ descriptionHash;
     }
 
     function _getVotes(
@@ -287,7 +514,15 @@ contract Governance is
         bytes[] memory calldatas,
         bytes32 descriptionHash
     ) internal override(Governor, GovernorTimelockControl) returns (uint256) {
-        return super._cancel(targets, values, calldatas, descriptionHash);
+        uint256 proposalId = Governor._cancel(targets, values, calldatas, descriptionHash);
+
+        bytes32 operationId = _timelockOperationIds[proposalId];
+        if (operationId != 0) {
+            TimelockController(payable(timelock())).cancel(operationId);
+            delete _timelockOperationIds[proposalId];
+        }
+
+        return proposalId;
     }
 
     function _executor() internal view override(Governor, GovernorTimelockControl) returns (address) {
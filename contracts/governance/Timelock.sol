@@ -13,6 +13,34 @@ contract Timelock is TimelockController {
     uint256 public constant STANDARD_DELAY = 2 days;      // 48 hours for standard changes
     uint256 public constant HIGH_IMPACT_DELAY = 7 days;  // 7 days for upgrades, fee changes, tier-2 promotions
 
+    /**
+     * @notice Marks calls to a target function as high-impact
+     * @dev Conditional rules only apply when the static argument at argIndex is at least minArgValue
+     *      (e.g. setPluginTier(pluginId, tier) with tier >= CORE)
+     */
+    struct HighImpactRule {
+        bool registered;
+        bool conditional;
+        uint8 argIndex;
+        uint256 minArgValue;
+    }
+
+    // Target => function selector => high-impact rule
+    mapping(address => mapping(bytes4 => HighImpactRule)) private _highImpactRules;
+
+    // Operation ID => delay the operation was scheduled with
+    mapping(bytes32 => uint256) private _operationDelays;
+
+    event HighImpactSelectorSet(
+        address indexed target,
+        bytes4 indexed selector,
+        bool conditional,
+        uint8 argIndex,
+        uint256 minArgValue
+    );
+
+    event HighImpactSelectorRemoved(address indexed target, bytes4 indexed selector);
+
     /**
      * @notice Constructor
      * @param minDelay Minimum delay (will be set to STANDARD_DELAY)
@@ -28,6 +56,139 @@ contract Timelock is TimelockController {
     ) TimelockController(minDelay, proposers, executors, admin) {
         // minDelay should be set to STANDARD_DELAY
         require(minDelay >= STANDARD_DELAY, "Timelock: delay too short");
+
+        // Changes to the delays themselves are high-impact
+        _setHighImpactRule(address(this), Timelock.setHighImpactSelector.selector, false, 0, 0);
+        _setHighImpactRule(address(this), Timelock.setHighImpactSelectorWithMinArg.selector, false, 0, 0);
+        _setHighImpactRule(address(this), Timelock.removeHighImpactSelector.selector, false, 0, 0);
+        _setHighImpactRule(address(this), TimelockController.updateDelay.selector, false, 0, 0);
+    }
+
+    /**
+     * @notice Schedule an operation, with at least HIGH_IMPACT_DELAY for high-impact calls
+     */
+    function schedule(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        bytes32 predecessor,
+        bytes32 salt,
+        uint256 delay
+    ) public override {
+        require(!isHighImpactCall(target, data) || delay >= HIGH_IMPACT_DELAY, "Timelock: high-impact delay required");
+        super.schedule(target, value, data, predecessor, salt, delay);
+        _operationDelays[hashOperation(target, value, data, predecessor, salt)] = delay;
+    }
+
+    /**
+     * @notice Schedule a batch, with at least HIGH_IMPACT_DELAY when any call is high-impact
+     */
+    function scheduleBatch(
+        address[] calldata targets,
+        uint256[] calldata values,
+        bytes[] calldata payloads,
+        bytes32 predecessor,
+        bytes32 salt,
+        uint256 delay
+    ) public override {
+        require(delay >= getRequiredDelay(targets, payloads), "Timelock: high-impact delay required");
+        super.scheduleBatch(targets, values, payloads, predecessor, salt, delay);
+        _operationDelays[hashOperationBatch(targets, values, payloads, predecessor, salt)] = delay;
+    }
+
+    /**
+     * @notice Mark every call to a target function as high-impact (admin only, the Timelock itself after handover)
+     * @param target Target contract
+     * @param selector Function selector
+     */
+    function setHighImpactSelector(address target, bytes4 selector) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setHighImpactRule(target, selector, false, 0, 0);
+    }
+
+    /**
+     * @notice Mark calls to a target function as high-impact when an argument reaches a value (admin only)
+     * @param target Target contract
+     * @param selector Function selector
+     * @param argIndex Index of the static (32-byte) argument to compare
+     * @param minArgValue Calls with the argument at or above this value are high-impact
+     */
+    function setHighImpactSelectorWithMinArg(
+        address target,
+        bytes4 selector,
+        uint8 argIndex,
+        uint256 minArgValue
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setHighImpactRule(target, selector, true, argIndex, minArgValue);
+    }
+
+    /**
+     * @notice Stop treating calls to a target function as high-impact (admin only)
+     * @param target Target contract
+     * @param selector Function selector
+     */
+    function removeHighImpactSelector(address target, bytes4 selector) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_highImpactRules[target][selector].registered, "Timelock: selector not registered");
+        delete _highImpactRules[target][selector];
+        emit HighImpactSelectorRemoved(target, selector);
+    }
+
+    /**
+     * @notice Get the high-impact rule of a target function
+     * @param target Target contract
+     * @param selector Function selector
+     * @return rule High-impact rule (registered = false when none)
+     */
+    function getHighImpactRule(address target, bytes4 selector) external view returns (HighImpactRule memory) {
+        return _highImpactRules[target][selector];
+    }
+
+    /**
+     * @notice Whether a call must wait HIGH_IMPACT_DELAY
+     * @dev Calls too short to hold the argument of a conditional rule are treated as high-impact
+     * @param target Target contract
+     * @param data Calldata
+     * @return highImpact Whether the call is high-impact
+     */
+    function isHighImpactCall(address target, bytes calldata data) public view returns (bool) {
+        HighImpactRule memory rule = _highImpactRules[target][bytes4(data)];
+        if (!rule.registered) {
+            return false;
+        }
+        if (!rule.conditional) {
+            return true;
+        }
+        uint256 offset = 4 + 32 * uint256(rule.argIndex);
+        if (data.length < offset + 32) {
+            return true;
+        }
+        return abi.decode(data[offset:offset + 32], (uint256)) >= rule.minArgValue;
+    }
+
+    /**
+     * @notice Minimum delay a batch of calls can be scheduled with
+     * @param targets Target addresses for calls
+     * @param payloads Calldata for calls
+     * @return delay HIGH_IMPACT_DELAY if any call is high-impact, otherwise the minimum delay
+     */
+    function getRequiredDelay(address[] calldata targets, bytes[] calldata payloads) public view returns (uint256) {
+        require(targets.length == payloads.length, "Timelock: invalid operation length");
+        uint256 minDelay = getMinDelay();
+        for (uint256 i = 0; i < targets.length; i++) {
+            if (isHighImpactCall(targets[i], payloads[i])) {
+                return HIGH_IMPACT_DELAY > minDelay ? HIGH_IMPACT_DELAY : minDelay;
+            }
+        }
+        return minDelay;
+    }
+
+    /**
+     * @notice Get the delay a pending operation was scheduled with
+     * @param id Operation ID
+     * @return delay Delay in seconds
+     */
+    function getEffectiveDelay(bytes32 id) external view returns (uint256) {
+        require(isOperationPending(id), "Timelock: operation not pending");
+        return _operationDelays[id];
     }
 
     /**
@@ -43,4 +204,20 @@ contract Timelock is TimelockController {
         }
         revert("Timelock: invalid proposal type");
     }
+
+    function _setHighImpactRule(
+        address target,
+        bytes4 selector,
+        bool conditional,
+        uint8 argIndex,
+        uint256 minArgValue
+    ) private {
+        _highImpactRules[target][selector] = HighImpactRule({
+            registered: true,
+            conditional: conditional,
+            argIndex: argIndex,
+            minArgValue: minArgValue
+        });
+        emit HighImpactSelectorSet(target, selector, conditional, argIndex, minArgValue);
+    }
 }
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ICurveStablePool
+ * @notice Minimal interface for a Curve-like stable pool
+ */
+interface ICurveStablePool {
+    function coins(uint256 i) external view returns (address);
+
+    function get_dy(int128 i, int128 j, uint256 dx) external view returns (uint256);
+
+    function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) external returns (uint256);
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../types/PluginTypes.sol";
+
+/**
+ * @title IDevSharePlugin
+ * @notice Optional extension for plugins that pay a dev share
+ * @dev PluginRegistry reads the split once, when the plugin registers; later changes go through governance
+ */
+interface IDevSharePlugin {
+    /**
+     * @notice Returns the dev share recipients to register for this plugin
+     * @return recipients Recipients and their share of each yield payment in basis points
+     */
+    function devShareRecipients() external view returns (PluginTypes.DevShareRecipient[] memory recipients);
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IPriceOracle
+ * @notice Price reference used by SwapModule to bound conversion output independently of the swap venue
+ */
+interface IPriceOracle {
+    /**
+     * @notice Value of `amountIn` of `tokenIn` in `tokenOut`
+     * @dev Must revert if the pair is unsupported or the price cannot be trusted (e.g. stale)
+     * @param tokenIn Token being valued
+     * @param amountIn Amount of `tokenIn`
+     * @param tokenOut Token the value is expressed in
+     * @return amountOut Equivalent amount of `tokenOut`
+     */
+    function quote(address tokenIn, uint256 amountIn, address tokenOut) external view returns (uint256 amountOut);
+}
@@ -13,7 +13,7 @@ interface IRevenueRouter {
      * @param pluginId The plugin identifier
      * @param asset The asset address
      * @param amount The yield amount
-     * @param devShare Dev share metadata (optional, can be zero address for no dev share)
+     * @param devShare Per-call dev share (optional); the router accrues the split registered in PluginRegistry
      */
     function receiveYield(
         bytes32 pluginId,
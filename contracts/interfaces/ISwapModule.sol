@@ -37,4 +37,23 @@ interface ISwapModule {
      * @return whitelisted True if route is whitelisted
      */
     function isRouteWhitelisted(address fromAsset, address toAsset) external view returns (bool);
+
+    /**
+     * @notice Check a conversion against the source asset's price oracle before attempting it
+     * @param fromAsset Source asset
+     * @param amount Amount to convert
+     * @param maxSlippageBps Maximum allowed slippage in basis points
+     * @return withinBounds False if the conversion should be quarantined instead
+     */
+    function isWithinOracleBounds(
+        address fromAsset,
+        uint256 amount,
+        uint256 maxSlippageBps
+    ) external returns (bool withinBounds);
+
+    /**
+     * @notice Whether conversions are paused
+     * @return paused True if paused
+     */
+    function paused() external view returns (bool);
 }
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ISwapVenue
+ * @notice Adapter interface letting SwapModule route conversions through venues other than Uniswap V3
+ * @dev `path` is venue-specific and opaque to SwapModule (e.g. an abi-encoded token list for a V2-style AMM)
+ */
+interface ISwapVenue {
+    /**
+     * @notice Decode the input and output tokens of a path
+     * @dev Must revert if the path is malformed for this venue
+     * @param path Venue-specific encoded path
+     * @return tokenIn First token of the path
+     * @return tokenOut Last token of the path
+     */
+    function pathTokens(bytes calldata path) external view returns (address tokenIn, address tokenOut);
+
+    /**
+     * @notice Quote the output of swapping `amountIn` along `path`
+     * @param path Venue-specific encoded path
+     * @param amountIn Amount of the input token
+     * @return amountOut Expected amount of the output token
+     */
+    function quote(bytes calldata path, uint256 amountIn) external returns (uint256 amountOut);
+
+    /**
+     * @notice Pull `amountIn` of the input token from the caller and swap it along `path`
+     * @param path Venue-specific encoded path
+     * @param amountIn Amount of the input token (the caller must have approved the adapter)
+     * @param amountOutMinimum Minimum amount of the output token, reverts below it
+     * @param recipient Receiver of the output token
+     * @return amountOut Amount of the output token sent to `recipient`
+     */
+    function swap(
+        bytes calldata path,
+        uint256 amountIn,
+        uint256 amountOutMinimum,
+        address recipient
+    ) external returns (uint256 amountOut);
+}
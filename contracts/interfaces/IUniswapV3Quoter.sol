@@ -4,6 +4,7 @@ pragma solidity ^0.8.20;
 /**
  * @title IUniswapV3Quoter
  * @notice Minimal interface for Uniswap V3 quoter
+ * @dev Quoter (v1) ABI: QuoterV2 takes struct params and is not compatible
  */
 interface IUniswapV3Quoter {
     function quoteExactInputSingle(
@@ -13,5 +14,7 @@ interface IUniswapV3Quoter {
         uint256 amountIn,
         uint160 sqrtPriceLimitX96
     ) external returns (uint256 amountOut);
+
+    function quoteExactInput(bytes memory path, uint256 amountIn) external returns (uint256 amountOut);
 }
 
@@ -4,7 +4,7 @@ pragma solidity ^0.8.20;
 /**
  * @title IUniswapV3SwapRouter
  * @notice Minimal interface for Uniswap V3 SwapRouter
- * @dev Based on Uniswap V3 SwapRouter02 interface
+ * @dev Uniswap V3 SwapRouter (v1) ABI: SwapRouter02 drops `deadline` from the params and is not compatible
  */
 interface IUniswapV3SwapRouter {
     struct ExactInputSingleParams {
@@ -18,10 +18,25 @@ interface IUniswapV3SwapRouter {
         uint160 sqrtPriceLimitX96;
     }
 
+    struct ExactInputParams {
+        bytes path;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
     /**
      * @notice Swaps `amountIn` of one token for as much as possible of another token
      * @param params The parameters necessary for the swap, encoded as `ExactInputSingleParams` in calldata
      * @return amountOut The amount of the received token
      */
     function exactInputSingle(ExactInputSingleParams calldata params) external payable returns (uint256 amountOut);
+
+    /**
+     * @notice Swaps `amountIn` of one token for as much as possible of another along the specified path
+     * @param params The parameters necessary for the multi-hop swap, encoded as `ExactInputParams` in calldata
+     * @return amountOut The amount of the received token
+     */
+    function exactInput(ExactInputParams calldata params) external payable returns (uint256 amountOut);
 }
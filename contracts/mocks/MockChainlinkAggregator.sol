@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IChainlinkAggregator.sol";
+
+/**
+ * @title MockChainlinkAggregator
+ * @notice Mock Chainlink price feed for testing ChainlinkPriceOracle
+ */
+contract MockChainlinkAggregator is IChainlinkAggregator {
+    uint8 public decimals;
+    int256 private answer;
+    uint256 private updatedAt;
+
+    constructor(uint8 _decimals, int256 _answer) {
+        decimals = _decimals;
+        answer = _answer;
+        updatedAt = block.timestamp;
+    }
+
+    function setAnswer(int256 _answer, uint256 _updatedAt) external {
+        answer = _answer;
+        updatedAt = _updatedAt;
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (1, answer, updatedAt, updatedAt, 1);
+    }
+}
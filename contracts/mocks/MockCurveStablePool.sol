@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/ICurveStablePool.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockCurveStablePool
+ * @notice Mock Curve-like stable pool for testing the CurveStableVenue adapter
+ * @dev Swaps at a fixed fee in basis points; the output coin must be funded
+ */
+contract MockCurveStablePool is ICurveStablePool {
+    using SafeERC20 for IERC20;
+
+    address[] private poolCoins;
+    uint256 public feeBps;
+
+    constructor(address[] memory _coins, uint256 _feeBps) {
+        poolCoins = _coins;
+        feeBps = _feeBps;
+    }
+
+    function setFeeBps(uint256 _feeBps) external {
+        feeBps = _feeBps;
+    }
+
+    function coins(uint256 i) external view returns (address) {
+        require(i < poolCoins.length, "MockCurveStablePool: invalid coin");
+        return poolCoins[i];
+    }
+
+    function get_dy(int128 i, int128 j, uint256 dx) public view returns (uint256) {
+        require(_index(i) < poolCoins.length && _index(j) < poolCoins.length && i != j, "MockCurveStablePool: invalid coin");
+        return (dx * (10000 - feeBps)) / 10000;
+    }
+
+    function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) external returns (uint256 dy) {
+        dy = get_dy(i, j, dx);
+        require(dy >= min_dy, "MockCurveStablePool: insufficient output");
+        IERC20(poolCoins[_index(i)]).safeTransferFrom(msg.sender, address(this), dx);
+        IERC20(poolCoins[_index(j)]).safeTransfer(msg.sender, dy);
+    }
+
+    function _index(int128 i) private pure returns (uint256) {
+        require(i >= 0, "MockCurveStablePool: invalid coin");
+        return uint256(uint128(i));
+    }
+}
@@ -8,6 +8,9 @@ import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
  * @notice Mock ERC20 token for testing
  */
 contract MockERC20 is ERC20 {
+    // Accounts that can neither send nor receive, like a blacklisting stablecoin
+    mapping(address => bool) public blocked;
+
     constructor(string memory name, string memory symbol) ERC20(name, symbol) {
         _mint(msg.sender, 1000000 * 10**18);
     }
@@ -19,4 +22,13 @@ contract MockERC20 is ERC20 {
     function burn(address from, uint256 amount) external {
         _burn(from, amount);
     }
+
+    function setBlocked(address account, bool isBlocked) external {
+        blocked[account] = isBlocked;
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        require(!blocked[from] && !blocked[to], "MockERC20: blocked");
+        super._update(from, to, value);
+    }
 }
@@ -2,8 +2,10 @@
 pragma solidity ^0.8.20;
 
 import "../interfaces/IPlugin.sol";
+import "../interfaces/IDevSharePlugin.sol";
 import "../interfaces/IRevenueRouter.sol";
 import "../types/PluginTypes.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
@@ -11,7 +13,7 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
  * @title MockPlugin
  * @notice Mock plugin for testing
  */
-contract MockPlugin is IPlugin {
+contract MockPlugin is IPlugin, IDevSharePlugin, Ownable {
     using SafeERC20 for IERC20;
 
     bytes32 public immutable override pluginId;
@@ -21,12 +23,13 @@ contract MockPlugin is IPlugin {
     address public yieldAsset;
     uint256 public yieldAmount;
     PluginTypes.DevShareMetadata public devShare;
+    PluginTypes.DevShareRecipient[] private _devShareRecipients;
 
     constructor(
         bytes32 _pluginId,
         address[] memory underlyingAssetsParam,
         address _routeTo
-    ) {
+    ) Ownable(msg.sender) {
         pluginId = _pluginId;
         _underlyingAssets = underlyingAssetsParam; // Store in state variable
         routeTo = _routeTo;
@@ -52,6 +55,21 @@ contract MockPlugin is IPlugin {
         });
     }
 
+    /**
+     * @notice Set the dev share split PluginRegistry binds when this plugin registers
+     */
+    function setDevShareRecipients(address[] calldata recipients, uint256[] calldata bps) external {
+        require(recipients.length == bps.length, "MockPlugin: length mismatch");
+        delete _devShareRecipients;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            _devShareRecipients.push(PluginTypes.DevShareRecipient({recipient: recipients[i], bps: bps[i]}));
+        }
+    }
+
+    function devShareRecipients() external view override returns (PluginTypes.DevShareRecipient[] memory) {
+        return _devShareRecipients;
+    }
+
     function quoteClaimable() external view override returns (address, uint256) {
         return (yieldAsset, yieldAmount);
     }
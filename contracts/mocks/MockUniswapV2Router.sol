@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IUniswapV2Router.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockUniswapV2Router
+ * @notice Mock V2-style router for testing the UniswapV2Venue adapter
+ * @dev Chains configurable per-pair exchange rates; only the final token must be funded
+ */
+contract MockUniswapV2Router is IUniswapV2Router {
+    using SafeERC20 for IERC20;
+
+    // Exchange rate: tokenIn => tokenOut => rate (amountOut = amountIn * rate / 1e18)
+    mapping(address => mapping(address => uint256)) private exchangeRates;
+
+    uint256 public constant DEFAULT_RATE = 1e18;
+
+    function setExchangeRate(address tokenIn, address tokenOut, uint256 rate) external {
+        exchangeRates[tokenIn][tokenOut] = rate;
+    }
+
+    function getAmountsOut(uint256 amountIn, address[] calldata path) public view returns (uint256[] memory amounts) {
+        require(path.length >= 2, "MockUniswapV2Router: invalid path");
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 1; i < path.length; i++) {
+            uint256 rate = exchangeRates[path[i - 1]][path[i]];
+            if (rate == 0) {
+                rate = DEFAULT_RATE;
+            }
+            amounts[i] = (amounts[i - 1] * rate) / 1e18;
+        }
+    }
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts) {
+        require(deadline >= block.timestamp, "MockUniswapV2Router: deadline passed");
+        amounts = getAmountsOut(amountIn, path);
+        uint256 amountOut = amounts[amounts.length - 1];
+        require(amountOut >= amountOutMin, "MockUniswapV2Router: insufficient output");
+        IERC20(path[0]).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(path[path.length - 1]).safeTransfer(to, amountOut);
+    }
+}
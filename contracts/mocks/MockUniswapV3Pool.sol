@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IUniswapV3Pool.sol";
+
+/**
+ * @title MockUniswapV3Pool
+ * @notice Mock Uniswap V3 pool oracle for testing UniswapV3TwapOracle
+ * @dev Reports a constant tick over any window
+ */
+contract MockUniswapV3Pool is IUniswapV3Pool {
+    address public token0;
+    address public token1;
+    int24 public tick;
+
+    constructor(address _token0, address _token1, int24 _tick) {
+        token0 = _token0;
+        token1 = _token1;
+        tick = _tick;
+    }
+
+    function setTick(int24 _tick) external {
+        tick = _tick;
+    }
+
+    function observe(uint32[] calldata secondsAgos)
+        external
+        view
+        returns (int56[] memory tickCumulatives, uint160[] memory secondsPerLiquidityCumulativeX128s)
+    {
+        tickCumulatives = new int56[](secondsAgos.length);
+        secondsPerLiquidityCumulativeX128s = new uint160[](secondsAgos.length);
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            tickCumulatives[i] = -int56(tick) * int56(uint56(secondsAgos[i]));
+        }
+    }
+}
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.20;
 
 import "../interfaces/IUniswapV3Quoter.sol";
+import "../utils/UniswapV3Path.sol";
 
 /**
  * @title MockUniswapV3Quoter
@@ -43,5 +44,20 @@ contract MockUniswapV3Quoter is IUniswapV3Quoter {
         amountOut = (amountIn * rate) / 1e18;
         emit QuoteRequested(tokenIn, tokenOut, amountIn, amountOut);
     }
-}
 
+    function quoteExactInput(bytes memory path, uint256 amountIn) external override returns (uint256 amountOut) {
+        require(UniswapV3Path.isValid(path), "MockUniswapV3Quoter: invalid path");
+        amountOut = amountIn;
+        uint256 hops = UniswapV3Path.numHops(path);
+        for (uint256 i = 0; i < hops; i++) {
+            (address tokenIn, , address tokenOut) = UniswapV3Path.hop(path, i);
+            uint256 rate = exchangeRates[tokenIn][tokenOut];
+            if (rate == 0) {
+                rate = DEFAULT_RATE;
+            }
+            amountOut = (amountOut * rate) / 1e18;
+        }
+        (address firstToken, address lastToken) = UniswapV3Path.endpoints(path);
+        emit QuoteRequested(firstToken, lastToken, amountIn, amountOut);
+    }
+}
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.20;
 
 import "../interfaces/IUniswapV3SwapRouter.sol";
+import "../utils/UniswapV3Path.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
@@ -9,6 +10,7 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
  * @title MockUniswapV3Router
  * @notice Mock Uniswap V3 router for testing SwapModule
  * @dev Simulates swap behavior with configurable exchange rates
+ * @dev Multi-hop swaps chain the per-pair rates; only the final token must be funded
  */
 contract MockUniswapV3Router is IUniswapV3SwapRouter {
     using SafeERC20 for IERC20;
@@ -78,4 +80,36 @@ contract MockUniswapV3Router is IUniswapV3SwapRouter {
         
         return amountOut;
     }
+
+    /**
+     * @notice Execute a multi-hop swap along a packed path (mock implementation)
+     * @param params Swap parameters
+     * @return amountOut Amount of the last token of the path received
+     */
+    function exactInput(ExactInputParams calldata params) external payable returns (uint256 amountOut) {
+        require(params.deadline >= block.timestamp, "MockUniswapV3Router: deadline passed");
+        require(params.amountIn > 0, "MockUniswapV3Router: zero amount");
+        require(UniswapV3Path.isValid(params.path), "MockUniswapV3Router: invalid path");
+
+        amountOut = params.amountIn;
+        uint256 hops = UniswapV3Path.numHops(params.path);
+        for (uint256 i = 0; i < hops; i++) {
+            (address tokenIn, , address tokenOut) = UniswapV3Path.hop(params.path, i);
+            uint256 rate = exchangeRates[tokenIn][tokenOut];
+            if (rate == 0) {
+                rate = DEFAULT_RATE;
+            }
+            amountOut = (amountOut * rate) / 1e18;
+        }
+
+        if (params.amountOutMinimum > 0) {
+            require(amountOut >= params.amountOutMinimum, "MockUniswapV3Router: insufficient output");
+        }
+
+        (address firstToken, address lastToken) = UniswapV3Path.endpoints(params.path);
+        IERC20(firstToken).safeTransferFrom(msg.sender, address(this), params.amountIn);
+        IERC20(lastToken).safeTransfer(params.recipient, amountOut);
+
+        emit SwapExecuted(firstToken, lastToken, params.amountIn, amountOut);
+    }
 }
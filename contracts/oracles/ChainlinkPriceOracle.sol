@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IPriceOracle.sol";
+import "../interfaces/IChainlinkAggregator.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title ChainlinkPriceOracle
+ * @notice IPriceOracle adapter over a Chainlink-style feed pricing `baseToken` in `quoteToken`
+ * @dev Quotes both directions of the pair; reverts on a non-positive or stale answer
+ */
+contract ChainlinkPriceOracle is IPriceOracle {
+    IChainlinkAggregator public immutable feed;
+    address public immutable baseToken;
+    address public immutable quoteToken;
+    uint256 public immutable maxStaleness;
+
+    /**
+     * @notice Constructor
+     * @param _feed Feed answering the price of one `baseToken` in `quoteToken`
+     * @param _baseToken Token priced by the feed
+     * @param _quoteToken Token the feed price is expressed in
+     * @param _maxStaleness Maximum age of the feed answer in seconds
+     */
+    constructor(address _feed, address _baseToken, address _quoteToken, uint256 _maxStaleness) {
+        require(_feed != address(0), "ChainlinkPriceOracle: zero feed");
+        require(
+            _baseToken != address(0) && _quoteToken != address(0) && _baseToken != _quoteToken,
+            "ChainlinkPriceOracle: invalid pair"
+        );
+        require(_maxStaleness > 0, "ChainlinkPriceOracle: zero staleness");
+        feed = IChainlinkAggregator(_feed);
+        baseToken = _baseToken;
+        quoteToken = _quoteToken;
+        maxStaleness = _maxStaleness;
+    }
+
+    /**
+     * @inheritdoc IPriceOracle
+     */
+    function quote(address tokenIn, uint256 amountIn, address tokenOut) external view returns (uint256) {
+        (, int256 answer, , uint256 updatedAt, ) = feed.latestRoundData();
+        require(answer > 0, "ChainlinkPriceOracle: invalid price");
+        require(block.timestamp - updatedAt <= maxStaleness, "ChainlinkPriceOracle: stale price");
+
+        uint256 price = uint256(answer);
+        uint256 priceUnit = 10 ** feed.decimals();
+        if (tokenIn == baseToken && tokenOut == quoteToken) {
+            return Math.mulDiv(amountIn, price * _unit(tokenOut), priceUnit * _unit(tokenIn));
+        }
+        if (tokenIn == quoteToken && tokenOut == baseToken) {
+            return Math.mulDiv(amountIn, priceUnit * _unit(tokenOut), price * _unit(tokenIn));
+        }
+        revert("ChainlinkPriceOracle: unsupported pair");
+    }
+
+    function _unit(address token) private view returns (uint256) {
+        return 10 ** IERC20Metadata(token).decimals();
+    }
+}
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IPriceOracle.sol";
+import "../interfaces/IUniswapV3Pool.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title UniswapV3TwapOracle
+ * @notice IPriceOracle adapter over the time-weighted average tick of a Uniswap V3 pool
+ * @dev The price is 1.0001^tick token1 per token0, over a window long enough that a single-block
+ *      manipulation of the pool barely moves it
+ */
+contract UniswapV3TwapOracle is IPriceOracle {
+    uint256 private constant Q128 = 1 << 128;
+    // 1.0001 in Q128
+    uint256 private constant TICK_BASE_X128 = (Q128 * 10001) / 10000;
+    int24 private constant MAX_TICK = 887272;
+
+    uint32 public constant MIN_PERIOD = 5 minutes;
+
+    IUniswapV3Pool public immutable pool;
+    address public immutable token0;
+    address public immutable token1;
+    uint32 public immutable period;
+
+    /**
+     * @notice Constructor
+     * @param _pool Uniswap V3 pool of the pair
+     * @param _period TWAP window in seconds
+     */
+    constructor(address _pool, uint32 _period) {
+        require(_pool != address(0), "UniswapV3TwapOracle: zero pool");
+        require(_period >= MIN_PERIOD, "UniswapV3TwapOracle: period too short");
+        pool = IUniswapV3Pool(_pool);
+        token0 = IUniswapV3Pool(_pool).token0();
+        token1 = IUniswapV3Pool(_pool).token1();
+        period = _period;
+    }
+
+    /**
+     * @inheritdoc IPriceOracle
+     */
+    function quote(address tokenIn, uint256 amountIn, address tokenOut) external view returns (uint256) {
+        bool zeroForOne = tokenIn == token0 && tokenOut == token1;
+        require(zeroForOne || (tokenIn == token1 && tokenOut == token0), "UniswapV3TwapOracle: unsupported pair");
+
+        int24 tick = meanTick();
+        uint256 ratioX128 = _ratioX128(tick >= 0 ? uint256(int256(tick)) : uint256(-int256(tick)));
+        // Multiply by the price when moving along it (token0 -> token1 at a positive tick), divide otherwise
+        if (zeroForOne == (tick >= 0)) {
+            return Math.mulDiv(amountIn, ratioX128, Q128);
+        }
+        return Math.mulDiv(amountIn, Q128, ratioX128);
+    }
+
+    /**
+     * @notice Arithmetic mean tick over the window, rounded towards negative infinity
+     * @return tick Mean tick
+     */
+    function meanTick() public view returns (int24) {
+        uint32[] memory secondsAgos = new uint32[](2);
+        secondsAgos[0] = period;
+        secondsAgos[1] = 0;
+        (int56[] memory tickCumulatives, ) = pool.observe(secondsAgos);
+
+        int56 delta = tickCumulatives[1] - tickCumulatives[0];
+        int56 mean = delta / int56(uint56(period));
+        if (delta < 0 && delta % int56(uint56(period)) != 0) {
+            mean--;
+        }
+        require(mean >= -MAX_TICK && mean <= MAX_TICK, "UniswapV3TwapOracle: tick out of range");
+        return int24(mean);
+    }
+
+    /**
+     * @notice 1.0001^absTick in Q128, by binary exponentiation
+     */
+    function _ratioX128(uint256 absTick) private pure returns (uint256 ratio) {
+        ratio = Q128;
+        uint256 base = TICK_BASE_X128;
+        while (absTick > 0) {
+            if (absTick & 1 == 1) {
+                ratio = Math.mulDiv(ratio, base, Q128);
+            }
+            absTick >>= 1;
+            if (absTick > 0) {
+                base = Math.mulDiv(base, base, Q128);
+            }
+        }
+    }
+}
@@ -56,6 +56,32 @@ library PluginTypes {
         uint256 devBps; // Basis points (0-10000, max 20% = 2000)
     }
 
+    /**
+     * @notice Registered dev share recipient of a plugin
+     */
+    struct DevShareRecipient {
+        address recipient;
+        uint256 bps; // Share of each yield payment in basis points
+    }
+
+    /**
+     * @notice Registration bond required by a tier
+     */
+    struct TierBond {
+        address token;  // Treasury asset or VastitasToken
+        uint256 amount; // 0 = no bond
+    }
+
+    /**
+     * @notice Bond held for a plugin
+     */
+    struct PluginBond {
+        address depositor; // Registrant, unless the plugin or its owner claimed it; tops up and withdraws
+        address token;
+        uint256 amount;
+        uint256 unlocksAt; // Time at which a retired plugin's bond becomes refundable (0 = not retired)
+    }
+
     /**
      * @notice Yield routing data
      */
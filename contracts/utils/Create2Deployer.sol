@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/Create2.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+
+/**
+ * @title Create2Deployer
+ * @notice CREATE2 factory used by the deploy script to give protocol contracts the same
+ *         address on every chain for a given deployer, salt and init code
+ * @dev The factory itself is deployed through the deterministic deployment proxy
+ *      (0x4e59b44847b379578588920cA78FbF26c0B4956C) so it shares one address across chains.
+ * @dev Salts are namespaced by the caller: nobody can occupy another deployer's addresses.
+ * @dev Constructors that grant roles to msg.sender grant them to this factory; `initCalls`
+ *      run atomically after deployment so those roles can be handed over in the same transaction.
+ */
+contract Create2Deployer {
+    event Deployed(address indexed deployer, bytes32 indexed salt, address indexed deployed);
+
+    /**
+     * @notice Deploy a contract with CREATE2 and run follow-up calls on it
+     * @param salt Caller-chosen salt (namespaced by msg.sender)
+     * @param initCode Creation bytecode including ABI-encoded constructor arguments
+     * @param initCalls Calls made from this factory to the new contract after deployment
+     * @return deployed Address of the deployed contract
+     */
+    function deploy(
+        bytes32 salt,
+        bytes calldata initCode,
+        bytes[] calldata initCalls
+    ) external payable returns (address deployed) {
+        require(initCode.length > 0, "Create2Deployer: empty init code");
+
+        deployed = Create2.deploy(msg.value, _guardedSalt(msg.sender, salt), initCode);
+        for (uint256 i = 0; i < initCalls.length; i++) {
+            Address.functionCall(deployed, initCalls[i]);
+        }
+
+        emit Deployed(msg.sender, salt, deployed);
+    }
+
+    /**
+     * @notice Predict the address of a contract deployed through this factory
+     * @param deployer Account that will call deploy()
+     * @param salt Salt passed to deploy()
+     * @param initCodeHash keccak256 of the init code
+     * @return Predicted contract address
+     */
+    function computeAddress(
+        address deployer,
+        bytes32 salt,
+        bytes32 initCodeHash
+    ) external view returns (address) {
+        return Create2.computeAddress(_guardedSalt(deployer, salt), initCodeHash);
+    }
+
+    function _guardedSalt(address deployer, bytes32 salt) internal pure returns (bytes32) {
+        return keccak256(abi.encode(deployer, salt));
+    }
+}
@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title UniswapV3Path
+ * @notice Helpers for Uniswap V3 packed paths (token | fee | token | fee | token ...)
+ * @dev Each token is 20 bytes and each fee 3 bytes, so a path with n hops is 20 + 23 * n bytes long
+ */
+library UniswapV3Path {
+    uint256 private constant ADDR_SIZE = 20;
+    uint256 private constant FEE_SIZE = 3;
+    uint256 private constant HOP_SIZE = ADDR_SIZE + FEE_SIZE;
+
+    /**
+     * @notice Whether a path is well formed (at least one hop, no trailing bytes)
+     * @param path Packed path
+     * @return valid True if the path can be decoded
+     */
+    function isValid(bytes memory path) internal pure returns (bool) {
+        return path.length >= ADDR_SIZE + HOP_SIZE && (path.length - ADDR_SIZE) % HOP_SIZE == 0;
+    }
+
+    /**
+     * @notice Number of hops (pools) in a well formed path
+     * @param path Packed path
+     * @return hops Number of hops
+     */
+    function numHops(bytes memory path) internal pure returns (uint256) {
+        return (path.length - ADDR_SIZE) / HOP_SIZE;
+    }
+
+    /**
+     * @notice Decode one hop of a well formed path
+     * @param path Packed path
+     * @param index Hop index, starting at 0
+     * @return tokenIn Input token of the hop
+     * @return fee Pool fee of the hop
+     * @return tokenOut Output token of the hop
+     */
+    function hop(bytes memory path, uint256 index) internal pure returns (address tokenIn, uint24 fee, address tokenOut) {
+        uint256 offset = index * HOP_SIZE;
+        tokenIn = _toAddress(path, offset);
+        fee = uint24(bytes3(_slice32(path, offset + ADDR_SIZE)));
+        tokenOut = _toAddress(path, offset + HOP_SIZE);
+    }
+
+    /**
+     * @notice First and last token of a well formed path
+     * @param path Packed path
+     * @return tokenIn First token
+     * @return tokenOut Last token
+     */
+    function endpoints(bytes memory path) internal pure returns (address tokenIn, address tokenOut) {
+        tokenIn = _toAddress(path, 0);
+        tokenOut = _toAddress(path, path.length - ADDR_SIZE);
+    }
+
+    function _toAddress(bytes memory path, uint256 offset) private pure returns (address) {
+        return address(bytes20(_slice32(path, offset)));
+    }
+
+    function _slice32(bytes memory path, uint256 offset) private pure returns (bytes32 word) {
+        assembly {
+            word := mload(add(add(path, 32), offset))
+        }
+    }
+}
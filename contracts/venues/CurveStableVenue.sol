@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/ISwapVenue.sol";
+import "../interfaces/ICurveStablePool.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title CurveStableVenue
+ * @notice SwapModule venue adapter for Curve-like stable pools
+ * @dev Paths are `abi.encode(address pool, int128 i, int128 j)`, swapping coin `i` for coin `j` in one pool
+ */
+contract CurveStableVenue is ISwapVenue {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @inheritdoc ISwapVenue
+     */
+    function pathTokens(bytes calldata path) public view returns (address tokenIn, address tokenOut) {
+        (address pool, int128 i, int128 j) = _decode(path);
+        tokenIn = ICurveStablePool(pool).coins(uint256(uint128(i)));
+        tokenOut = ICurveStablePool(pool).coins(uint256(uint128(j)));
+    }
+
+    /**
+     * @inheritdoc ISwapVenue
+     */
+    function quote(bytes calldata path, uint256 amountIn) external view returns (uint256 amountOut) {
+        (address pool, int128 i, int128 j) = _decode(path);
+        return ICurveStablePool(pool).get_dy(i, j, amountIn);
+    }
+
+    /**
+     * @inheritdoc ISwapVenue
+     */
+    function swap(
+        bytes calldata path,
+        uint256 amountIn,
+        uint256 amountOutMinimum,
+        address recipient
+    ) external returns (uint256 amountOut) {
+        (address pool, int128 i, int128 j) = _decode(path);
+        (address tokenIn, address tokenOut) = pathTokens(path);
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokenIn).forceApprove(pool, amountIn);
+        amountOut = ICurveStablePool(pool).exchange(i, j, amountIn, amountOutMinimum);
+        IERC20(tokenIn).forceApprove(pool, 0);
+        IERC20(tokenOut).safeTransfer(recipient, amountOut);
+    }
+
+    function _decode(bytes calldata path) private pure returns (address pool, int128 i, int128 j) {
+        (pool, i, j) = abi.decode(path, (address, int128, int128));
+        require(pool != address(0) && i >= 0 && j >= 0 && i != j, "CurveStableVenue: invalid path");
+    }
+}
@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/ISwapVenue.sol";
+import "../interfaces/IUniswapV2Router.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title UniswapV2Venue
+ * @notice SwapModule venue adapter for V2-style AMMs (Uniswap V2, Sushiswap, ...)
+ * @dev Paths are `abi.encode(address[] tokens)`, each consecutive pair being one pool
+ */
+contract UniswapV2Venue is ISwapVenue {
+    using SafeERC20 for IERC20;
+
+    IUniswapV2Router public immutable router;
+
+    /**
+     * @notice Constructor
+     * @param _router Address of the V2-style router
+     */
+    constructor(address _router) {
+        require(_router != address(0), "UniswapV2Venue: zero router");
+        router = IUniswapV2Router(_router);
+    }
+
+    /**
+     * @inheritdoc ISwapVenue
+     */
+    function pathTokens(bytes calldata path) external pure returns (address tokenIn, address tokenOut) {
+        address[] memory tokens = _decode(path);
+        return (tokens[0], tokens[tokens.length - 1]);
+    }
+
+    /**
+     * @inheritdoc ISwapVenue
+     */
+    function quote(bytes calldata path, uint256 amountIn) external view returns (uint256 amountOut) {
+        uint256[] memory amounts = router.getAmountsOut(amountIn, _decode(path));
+        return amounts[amounts.length - 1];
+    }
+
+    /**
+     * @inheritdoc ISwapVenue
+     */
+    function swap(
+        bytes calldata path,
+        uint256 amountIn,
+        uint256 amountOutMinimum,
+        address recipient
+    ) external returns (uint256 amountOut) {
+        address[] memory tokens = _decode(path);
+        IERC20(tokens[0]).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokens[0]).forceApprove(address(router), amountIn);
+        uint256[] memory amounts = router.swapExactTokensForTokens(
+            amountIn,
+            amountOutMinimum,
+            tokens,
+            recipient,
+            block.timestamp
+        );
+        IERC20(tokens[0]).forceApprove(address(router), 0);
+        return amounts[amounts.length - 1];
+    }
+
+    function _decode(bytes calldata path) private pure returns (address[] memory tokens) {
+        tokens = abi.decode(path, (address[]));
+        require(tokens.length >= 2, "UniswapV2Venue: invalid path");
+    }
+}
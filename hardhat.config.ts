@@ -1,5 +1,7 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "./tasks/propose";
+import "./tasks/rehearse";
 const path = require("path");
 
 require("@nomicfoundation/hardhat-toolbox");
@@ -40,6 +42,12 @@ addNetwork("mumbai", process.env.MUMBAI_RPC_URL, 80001);
 addNetwork("arbitrumSepolia", process.env.ARBITRUM_SEPOLIA_RPC_URL, 421614);
 addNetwork("baseSepolia", process.env.BASE_SEPOLIA_RPC_URL, 84532);
 
+// Dry runs of scripts/deploy.ts against a live network re-run on a fork of it
+const dryRunFork = process.env.DRY_RUN_FORK ? networks[process.env.DRY_RUN_FORK] : undefined;
+if (dryRunFork) {
+  networks.hardhat.forking = { url: dryRunFork.url };
+}
+
 module.exports = {
   solidity: {
     version: "0.8.25",
@@ -0,0 +1,160 @@
+/**
+ * Deterministic (CREATE2) deployment helpers
+ *
+ * When a manifest sets `create2.salt`, scripts/deploy.ts deploys every contract through the
+ * Create2Deployer factory instead of plain CREATE transactions. The address of a contract
+ * then only depends on:
+ * - the Create2Deployer address (identical on every chain, see below)
+ * - the deployer account (salts are namespaced by the caller)
+ * - the manifest salt and the contract key
+ * - the init code (compiled bytecode + constructor arguments)
+ *
+ * Create2Deployer itself is deployed through the deterministic deployment proxy
+ * (https://github.com/Arachnid/deterministic-deployment-proxy), which lives at the same
+ * address on every supported chain. On local networks the proxy is installed with
+ * hardhat_setCode when missing.
+ *
+ * Everything here except ensureFactory() works offline (see scripts/predict-addresses.ts).
+ */
+
+import hre from "hardhat";
+import { AbiCoder, Interface, ZeroHash, concat, getCreate2Address, id, keccak256 } from "ethers";
+import {
+  CONTRACT_KEYS,
+  CONTRACT_SPECS,
+  ContractKey,
+  DeploymentManifest,
+  ResolutionContext,
+  resolveConstructorArgs,
+} from "./manifest";
+
+export const DETERMINISTIC_DEPLOYMENT_PROXY = "0x4e59b44847b379578588920cA78FbF26c0B4956C";
+
+// Runtime code of the deterministic deployment proxy: calldata = salt (32 bytes) ++ init code
+const DETERMINISTIC_DEPLOYMENT_PROXY_CODE =
+  "0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3";
+
+// Salt used for the Create2Deployer factory itself
+export const FACTORY_SALT = ZeroHash;
+
+// Networks where the proxy is installed with hardhat_setCode when missing
+export const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+const accessControl = new Interface([
+  "function grantRole(bytes32 role, address account)",
+  "function renounceRole(bytes32 role, address callerConfirmation)",
+]);
+
+/**
+ * Per-contract salt derived from the manifest salt
+ */
+export function contractSalt(salt: string, key: ContractKey): string {
+  return id(`${salt}:${key}`);
+}
+
+/**
+ * Creation bytecode with ABI-encoded constructor arguments, built from compiled artifacts only
+ */
+export async function getInitCode(artifactName: string, args: any[]): Promise<string> {
+  const artifact = await hre.artifacts.readArtifact(artifactName);
+  const encodedArgs = new Interface(artifact.abi).encodeDeploy(args);
+  return concat([artifact.bytecode, encodedArgs]);
+}
+
+/**
+ * Address of Create2Deployer on every chain
+ */
+export async function getFactoryAddress(): Promise<string> {
+  const initCode = await getInitCode("Create2Deployer", []);
+  return getCreate2Address(DETERMINISTIC_DEPLOYMENT_PROXY, FACTORY_SALT, keccak256(initCode));
+}
+
+/**
+ * Mirror of Create2Deployer.computeAddress
+ */
+export function predictAddress(factory: string, deployer: string, salt: string, initCode: string): string {
+  const guardedSalt = keccak256(AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [deployer, salt]));
+  return getCreate2Address(factory, guardedSalt, keccak256(initCode));
+}
+
+export interface DeploymentPrediction {
+  addresses: Partial<Record<ContractKey, string>>;
+  args: Partial<Record<ContractKey, any[]>>; // constructor arguments, for contracts deployed through the factory
+}
+
+/**
+ * Address of every contract of a manifest deployed through the factory by the first signer of
+ * `ctx`, computed offline. Pinned contracts keep their address, `deploy: false` ones are left out.
+ */
+export async function predictDeployment(
+  manifest: DeploymentManifest,
+  ctx: ResolutionContext,
+  salt: string,
+  factory: string
+): Promise<DeploymentPrediction> {
+  const deployer = ctx.signerAddresses[0];
+  const prediction: DeploymentPrediction = { addresses: {}, args: {} };
+  for (const key of CONTRACT_KEYS) {
+    const entry = manifest.contracts[key];
+    if (entry.address) {
+      ctx.addresses[key] = entry.address;
+      prediction.addresses[key] = entry.address;
+      continue;
+    }
+    if (!entry.deploy) {
+      continue;
+    }
+    const args = resolveConstructorArgs(key, manifest, ctx);
+    const initCode = await getInitCode(CONTRACT_SPECS[key].artifact, args);
+    const address = predictAddress(factory, deployer, contractSalt(salt, key), initCode);
+    ctx.addresses[key] = address;
+    prediction.addresses[key] = address;
+    prediction.args[key] = args;
+  }
+  return prediction;
+}
+
+/**
+ * Calls run by the factory right after deployment. Contracts whose constructor grants
+ * DEFAULT_ADMIN_ROLE to msg.sender would otherwise leave it with the factory, so it is
+ * handed to the deployer, exactly as with a plain CREATE deployment.
+ */
+export function getInitCalls(senderAdmin: boolean, factory: string, deployer: string): string[] {
+  if (!senderAdmin) {
+    return [];
+  }
+  return [
+    accessControl.encodeFunctionData("grantRole", [ZeroHash, deployer]),
+    accessControl.encodeFunctionData("renounceRole", [ZeroHash, factory]),
+  ];
+}
+
+/**
+ * Make sure the deterministic deployment proxy and Create2Deployer exist on the current
+ * network, deploying the factory when needed. Returns the factory address.
+ */
+export async function ensureFactory(signer: any, networkName: string): Promise<string> {
+  const provider = (hre as any).ethers.provider;
+  const factory = await getFactoryAddress();
+  if ((await provider.getCode(factory)) !== "0x") {
+    return factory;
+  }
+
+  if ((await provider.getCode(DETERMINISTIC_DEPLOYMENT_PROXY)) === "0x") {
+    if (!LOCAL_NETWORKS.includes(networkName)) {
+      throw new Error(
+        `Deterministic deployment proxy ${DETERMINISTIC_DEPLOYMENT_PROXY} is not deployed on ${networkName}; ` +
+          "see https://github.com/Arachnid/deterministic-deployment-proxy"
+      );
+    }
+    await provider.send("hardhat_setCode", [DETERMINISTIC_DEPLOYMENT_PROXY, DETERMINISTIC_DEPLOYMENT_PROXY_CODE]);
+  }
+
+  const initCode = await getInitCode("Create2Deployer", []);
+  const tx = await signer.sendTransaction({ to: DETERMINISTIC_DEPLOYMENT_PROXY, data: concat([FACTORY_SALT, initCode]) });
+  await tx.wait();
+  if ((await provider.getCode(factory)) === "0x") {
+    throw new Error(`Create2Deployer was not deployed at ${factory}`);
+  }
+  return factory;
+}
@@ -1,130 +1,140 @@
 /**
- * Vastitas Deployment Script (Resumable)
+ * Vastitas Deployment Script (Manifest-driven, Resumable)
  * 
- * This script supports resumable deployments - if deployment fails partway through,
- * you can resume from where it left off.
+ * The script reconciles the chain to a per-network deployment manifest
+ * (scripts/manifests/{network}.json, see scripts/manifest.ts for the format).
+ * The manifest declares every contract, its constructor arguments, role holders
+ * and post-deploy wiring. The manifest is validated before any transaction is sent.
  * 
  * USAGE:
  * 
- * 1. Normal deployment (deploy all contracts):
+ * 1. Deploy / reconcile a network:
  *    npx hardhat run scripts/deploy.ts --network sepolia
  * 
- * 2. Resume failed deployment (automatically skips already-deployed contracts):
+ * 2. Resume failed deployment (automatically reuses already-deployed contracts):
  *    npx hardhat run scripts/deploy.ts --network sepolia
  *    (The script will load addresses from deployments/{network}.json)
  * 
- * 3. Deploy only specific contracts:
- *    DEPLOY_CONTRACTS=governance,emergencyCouncil npx hardhat run scripts/deploy.ts --network sepolia
+ * 3. Use a different manifest:
+ *    DEPLOY_MANIFEST=path/to/manifest.json npx hardhat run scripts/deploy.ts --network sepolia
  * 
- * 4. Skip specific contracts:
- *    SKIP_CONTRACTS=distributor,emergencyCouncil npx hardhat run scripts/deploy.ts --network sepolia
+ * 4. Deterministic addresses - set `create2.salt` in the manifest to deploy through the
+ *    CREATE2 factory (scripts/create2.ts); predict the addresses offline with
+ *    scripts/predict-addresses.ts
  * 
- * 5. Use existing contract addresses (override deployment file):
- *    EXISTING_TOKEN_ADDRESS=0x... EXISTING_TREASURY_ADDRESS=0x... npx hardhat run scripts/deploy.ts --network sepolia
+ * 5. Dry run - print the execution plan, the gas used by every step, the total cost and a
+ *    diff against deployments/{network}.json without broadcasting anything:
+ *    DRY_RUN=true npx hardhat run scripts/deploy.ts --network mainnet
+ *    (PLAN_OUTPUT=plan.json also writes the plan as JSON for review)
+ *    The deployment is executed for real on a simulated chain, then thrown away: local
+ *    networks run it on an evm_snapshot that is reverted afterwards; other networks re-run
+ *    the script on the in-process Hardhat network forked from their RPC URL
+ *    (DRY_RUN_FORK={network}, set automatically and read by hardhat.config.ts),
+ *    impersonating the configured accounts.
  * 
- * Contract names (for DEPLOY_CONTRACTS/SKIP_CONTRACTS):
- * - treasuryAsset, token, treasury, registry, swapModule, router, distributor,
- *   timelock, council, governance, emergencyCouncil
+ * Per contract, the manifest decides what happens:
+ * - `address` set: reuse the pinned contract
+ * - recorded in deployments/{network}.json: reuse it
+ * - otherwise deploy it, unless `deploy` is false (optional contracts are then omitted)
+ * 
+ * Wiring steps are idempotent: `call` steps with a `view` are skipped when the view
+ * already returns the desired value, `grantRole` steps when the role is already held.
+ * 
+ * When the manifest has a `handover` section, a final handover phase moves every listed role
+ * (and token ownership) to its long-term holder, revokes or renounces it from the deployment
+ * accounts, and writes the final role graph, signed by the deployer, to
+ * deployments/{network}.roles.json. SKIP_HANDOVER=true defers it to a later run.
  * 
  * Deployment addresses are saved to: deployments/{network}.json
  */
 
 import hre from "hardhat";
+import { fork } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
+import {
+  CONTRACT_KEYS,
+  CONTRACT_SPECS,
+  ContractKey,
+  DeploymentManifest,
+  ManifestValidationError,
+  ResolutionContext,
+  WiringStep,
+  contractReferences,
+  getChainDisplayName,
+  getManifestPath,
+  isReference,
+  loadManifest,
+  parseUint,
+  resolveAccounts,
+  resolveConstructorArgs,
+  resolveReference,
+  resolveValue,
+} from "./manifest";
+import {
+  ADDRESS_ENV_VARS,
+  DEPLOYMENTS_DIR,
+  DeploymentAddresses,
+  getDeploymentPath,
+  loadDeploymentAddresses,
+  serializeArgs,
+} from "./deployments";
+import {
+  LOCAL_NETWORKS,
+  contractSalt,
+  ensureFactory,
+  getFactoryAddress,
+  getInitCalls,
+  getInitCode,
+  predictAddress,
+} from "./create2";
+import {
+  buildRoleGraph,
+  formatRoleGraph,
+  getScanStartBlock,
+  saveRoleGraphReport,
+  signRoleGraphReport,
+} from "./roles";
 
-interface DeploymentAddresses {
-  network: string;
-  deployedAt: string;
-  contracts: {
-    treasuryAsset?: string;
-    token?: string;
-    treasury?: string;
-    registry?: string;
-    swapModule?: string;
-    router?: string;
-    distributor?: string;
-    timelock?: string;
-    council?: string;
-    governance?: string;
-    emergencyCouncil?: string;
-  };
+type ContractAction = "deploy" | "reuse" | "omit";
+
+interface ContractPlan {
+  key: ContractKey;
+  action: ContractAction;
+  address?: string;
+  source?: "manifest" | "deployments";
 }
 
-const ethers = (hre as any).ethers;
+interface PlannedStep {
+  kind: "deploy" | "reuse" | "call" | "skip";
+  description: string;
+  from?: string;
+  gas?: bigint; // gas used on the simulated chain, set for deploy and call steps
+  note?: string;
+}
 
- function getChainDisplayName(chainId: bigint, networkName: string): string {
-   switch (Number(chainId)) {
-     case 56:
-     case 97:
-       return "BNB Smart Chain";
-     case 137:
-     case 80001:
-     case 80002:
-       return "Polygon PoS";
-     case 42161:
-     case 421614:
-       return "Arbitrum";
-     case 8453:
-     case 84532:
-       return "Base";
-     default: {
-       const normalized = (networkName || "").trim();
-       if (!normalized) return "";
-       return normalized
-         .split(/[-_\s]+/g)
-         .filter(Boolean)
-         .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-         .join(" ");
-     }
-   }
- }
-
-function resolveAddress(value: string | undefined, fallback: string): string {
-  // Treat empty, undefined, or placeholder values as missing - use fallback
-  if (!value || value.trim() === "" || value.trim().toUpperCase() === "REPLACE_ME") {
-    return fallback;
-  }
-  if (!ethers.isAddress(value)) {
-    throw new Error(`Invalid address: ${value}`);
-  }
-  return value;
-}
-
-function requireAddress(name: string, value: string | undefined): string {
-  if (!value) {
-    throw new Error(`${name} must be set for production deployments`);
-  }
-  if (!ethers.isAddress(value)) {
-    throw new Error(`Invalid ${name}: ${value}`);
-  }
-  return value;
-}
-
-function loadDeploymentAddresses(networkName: string): DeploymentAddresses | null {
-  const deploymentsDir = path.join(__dirname, "..", "deployments");
-  const deploymentFile = path.join(deploymentsDir, `${networkName}.json`);
-  
-  if (fs.existsSync(deploymentFile)) {
-    try {
-      const content = fs.readFileSync(deploymentFile, "utf-8");
-      return JSON.parse(content) as DeploymentAddresses;
-    } catch (error) {
-      console.warn(`Failed to load deployment file: ${error}`);
-      return null;
-    }
-  }
-  return null;
+interface DeployContext extends ResolutionContext {
+  networkName: string;
+  signers: any[];
+  executed?: PlannedStep[]; // set in dry runs: steps run on the simulated chain
+}
+
+interface Create2Deployment {
+  salt: string;
+  initCode: string;
+  initCalls: string[];
+  address: string;
 }
 
+const ethers = (hre as any).ethers;
+
 function saveDeploymentAddresses(networkName: string, addresses: DeploymentAddresses, updateEnv: boolean = false): void {
-  const deploymentsDir = path.join(__dirname, "..", "deployments");
-  if (!fs.existsSync(deploymentsDir)) {
-    fs.mkdirSync(deploymentsDir, { recursive: true });
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) {
+    fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
   }
-  const deploymentFile = path.join(deploymentsDir, `${networkName}.json`);
+  const deploymentFile = getDeploymentPath(networkName);
   fs.writeFileSync(deploymentFile, JSON.stringify(addresses, null, 2));
-  console.log(`âœ“ Deployment addresses saved to ${deploymentFile}`);
+  console.log(`✓ Deployment addresses saved to ${deploymentFile}`);
   
   // Only update .env file if explicitly requested (usually at the end)
   if (updateEnv) {
@@ -141,20 +151,12 @@ function updateEnvFile(addresses: DeploymentAddresses): void {
   
   let envContent = "";
   const contractVars: { [key: string]: string } = {
-    "TREASURY_ASSET_ADDRESS": addresses.contracts.treasuryAsset || "",
-    "MONTE_TOKEN_ADDRESS": addresses.contracts.token || "",
     // Alias used by other packages + production-config
     "TREASURY_ADDRESS": addresses.contracts.treasury || "",
-    "TREASURY_VAULT_ADDRESS": addresses.contracts.treasury || "",
-    "PLUGIN_REGISTRY_ADDRESS": addresses.contracts.registry || "",
-    "SWAP_MODULE_ADDRESS": addresses.contracts.swapModule || "",
-    "REVENUE_ROUTER_ADDRESS": addresses.contracts.router || "",
-    "DISTRIBUTOR_ADDRESS": addresses.contracts.distributor || "",
-    "TIMELOCK_ADDRESS": addresses.contracts.timelock || "",
-    "COUNCIL_ADDRESS": addresses.contracts.council || "",
-    "GOVERNANCE_ADDRESS": addresses.contracts.governance || "",
-    "EMERGENCY_COUNCIL_ADDRESS": addresses.contracts.emergencyCouncil || "",
   };
+  for (const key of CONTRACT_KEYS) {
+    contractVars[ADDRESS_ENV_VARS[key]] = addresses.contracts[key] || "";
+  }
 
   // Filter out empty values
   const nonEmptyVars: { [key: string]: string } = {};
@@ -240,480 +242,559 @@ function updateEnvFile(addresses: DeploymentAddresses): void {
   fs.writeFileSync(envPath, updatedLines.join("\n"));
 }
 
-function shouldDeployContract(contractName: string, existingAddresses: DeploymentAddresses | null): boolean {
-  // Check if contract should be skipped via env var
-  const skipContracts = process.env.SKIP_CONTRACTS?.split(",").map(s => s.trim().toLowerCase()) || [];
-  if (skipContracts.includes(contractName.toLowerCase())) {
-    console.log(`â­ï¸  Skipping ${contractName} (SKIP_CONTRACTS)`);
-    return false;
+/**
+ * Decide, per contract, whether it is reused, deployed or omitted, and check that the
+ * manifest can be executed against the local signers. Sends no transactions.
+ */
+function planDeployment(
+  manifest: DeploymentManifest,
+  existingAddresses: DeploymentAddresses | null,
+  ctx: DeployContext
+): ContractPlan[] {
+  const issues: string[] = [];
+  const plans: ContractPlan[] = [];
+  const omitted = new Set<ContractKey>();
+
+  for (const key of CONTRACT_KEYS) {
+    const entry = manifest.contracts[key];
+    const recorded = existingAddresses?.contracts[key];
+    if (entry.address) {
+      plans.push({ key, action: "reuse", address: entry.address, source: "manifest" });
+    } else if (recorded) {
+      plans.push({ key, action: "reuse", address: recorded, source: "deployments" });
+    } else if (entry.deploy) {
+      for (const ref of contractReferences(Object.values(entry.args))) {
+        if (omitted.has(ref)) {
+          issues.push(`contracts.${key}.args: references ${ref}, which is not deployed`);
+        }
+      }
+      plans.push({ key, action: "deploy" });
+    } else if (CONTRACT_SPECS[key].optional) {
+      omitted.add(key);
+      plans.push({ key, action: "omit" });
+    } else {
+      issues.push(
+        `contracts.${key}: deploy is false but no address is pinned or recorded in deployments/${ctx.networkName}.json`
+      );
+    }
   }
 
-  // Check if only specific contracts should be deployed
-  const deployOnly = process.env.DEPLOY_CONTRACTS?.split(",").map(s => s.trim().toLowerCase()) || [];
-  if (deployOnly.length > 0 && !deployOnly.includes(contractName.toLowerCase())) {
-    console.log(`â­ï¸  Skipping ${contractName} (not in DEPLOY_CONTRACTS)`);
-    return false;
+  manifest.wiring.forEach((step, i) => {
+    if (omitted.has(step.contract)) {
+      issues.push(`wiring[${i}].contract: ${step.contract} is not deployed`);
+    }
+    const values = step.action === "call" ? step.args : [step.account];
+    for (const ref of contractReferences(values)) {
+      if (omitted.has(ref)) {
+        issues.push(`wiring[${i}]: references ${ref}, which is not deployed`);
+      }
+    }
+    const from = resolveReference(step.from, ctx) as string;
+    if (!findSigner(from, ctx)) {
+      issues.push(`wiring[${i}].from: no local signer for ${from}`);
+    }
+  });
+
+  // The owner of a token deployed in this run mints the supply
+  if (manifest.tokenSupply && plans.find((plan) => plan.key === "token")?.action === "deploy") {
+    const owner = resolveValue(manifest.contracts.token.args.owner, "address", ctx) as string;
+    if (!findSigner(owner, ctx)) {
+      issues.push(`tokenSupply: no local signer for the token owner ${owner}`);
+    }
   }
 
-  // Check if contract already exists
-  if (existingAddresses?.contracts[contractName as keyof typeof existingAddresses.contracts]) {
-    const existingAddr = existingAddresses.contracts[contractName as keyof typeof existingAddresses.contracts];
-    console.log(`â­ï¸  Skipping ${contractName} (already deployed at ${existingAddr})`);
-    return false;
+  if (issues.length > 0) {
+    throw new ManifestValidationError(getManifestPath(ctx.networkName), issues);
   }
+  return plans;
+}
+
+function findSigner(address: string, ctx: DeployContext): any | undefined {
+  const index = ctx.signerAddresses.findIndex((a) => a.toLowerCase() === address.toLowerCase());
+  return index === -1 ? undefined : ctx.signers[index];
+}
 
-  return true;
+function describeStep(step: WiringStep): string {
+  return step.action === "call"
+    ? `${step.contract}.${step.method}(${step.args.join(", ")})`
+    : `${step.contract}.grantRole(${step.role}, ${step.account})`;
 }
 
-function getExistingContractAddress(contractName: string, existingAddresses: DeploymentAddresses | null): string | null {
-  // If FORCE_REDEPLOY is set, ignore existing addresses
-  if (process.env.FORCE_REDEPLOY === "true") {
-    return null;
+interface WiringCheck {
+  contract: any;
+  args: any[];
+  skipReason?: string;
+}
+
+/**
+ * Work out whether a wiring step still needs to be sent
+ */
+async function checkWiringStep(step: WiringStep, ctx: DeployContext): Promise<WiringCheck> {
+  const spec = CONTRACT_SPECS[step.contract];
+  const signer = findSigner(resolveReference(step.from, ctx) as string, ctx);
+  const contract = await ethers.getContractAt(spec.artifact, ctx.addresses[step.contract], signer);
+
+  if (step.action === "grantRole") {
+    const account = resolveReference(step.account, ctx) as string;
+    const role = await contract[step.role]();
+    if (await contract.hasRole(role, account)) {
+      return { contract, args: [role, account], skipReason: `${step.role} already held by ${account} on ${spec.label}` };
+    }
+    return { contract, args: [role, account] };
   }
 
-  // First check env var (highest priority)
-  const envVar = `EXISTING_${contractName.toUpperCase().replace(/([A-Z])/g, "_$1")}_ADDRESS`;
-  const envAddr = process.env[envVar];
-  if (envAddr && ethers.isAddress(envAddr)) {
-    console.log(`ðŸ“Œ Using existing ${contractName} from env: ${envAddr}`);
-    return envAddr;
+  const args = step.args.map((arg) => resolveValue(arg, undefined, ctx));
+  if (step.skipIfZero && args[0] === ethers.ZeroAddress) {
+    return { contract, args, skipReason: "not configured, must be called before use" };
+  }
+  if (step.view) {
+    const current = await contract[step.view]();
+    if (String(current).toLowerCase() === String(args[0]).toLowerCase()) {
+      return { contract, args, skipReason: `${spec.label}.${step.view}() already set: ${current}` };
+    }
   }
+  return { contract, args };
+}
 
-  // Then check deployment file
-  if (existingAddresses?.contracts[contractName as keyof typeof existingAddresses.contracts]) {
-    return existingAddresses.contracts[contractName as keyof typeof existingAddresses.contracts] || null;
+/**
+ * Apply a single wiring step if the chain does not already reflect it
+ */
+async function reconcileWiringStep(step: WiringStep, ctx: DeployContext): Promise<void> {
+  const spec = CONTRACT_SPECS[step.contract];
+  const { contract, args, skipReason } = await checkWiringStep(step, ctx);
+  if (skipReason) {
+    console.log(step.action === "call" && step.skipIfZero ? `⚠️  Skipping ${describeStep(step)} - ${skipReason}` : `📌 ${skipReason}`);
+    recordStep(ctx, { kind: "skip", description: describeStep(step), note: skipReason });
+    return;
   }
+  const method = step.action === "grantRole" ? "grantRole" : step.method;
+  await runStep(
+    ctx,
+    async () => (await contract[method](...args)).wait(),
+    () => ({
+      kind: "call",
+      description:
+        step.action === "grantRole"
+          ? `${spec.label}.grantRole(${step.role}, ${args[1]})`
+          : `${spec.label}.${method}(${args.join(", ")})`,
+      from: resolveReference(step.from, ctx) as string,
+    })
+  );
+  console.log(
+    step.action === "grantRole" ? `✓ ${step.role} granted to ${args[1]} on ${spec.label}` : `✓ ${spec.label}.${step.method} applied`
+  );
+}
 
-  return null;
+/**
+ * Keep a step that sends nothing in the dry run plan
+ */
+function recordStep(ctx: DeployContext, step: PlannedStep): void {
+  ctx.executed?.push(step);
 }
 
-async function main() {
-  const allSigners = await ethers.getSigners();
-  const deployer = allSigners[0];
-  
-  // For testnet, if only one signer is available, reuse it for all roles
-  // For production, multiple signers should be configured
-  const adminSigner = allSigners[1] || deployer;
-  const governanceSigner = allSigners[2] || deployer;
-  const treasurerSigner = allSigners[3] || deployer;
-  
-  // Use Hardhat's network name (matches `--network <name>`)
-  const networkName = hre.network.name;
-  const network = await ethers.provider.getNetwork();
-  const chainDisplayName = getChainDisplayName(network.chainId, networkName);
-  const tokenName = chainDisplayName ? `Vastitas ${chainDisplayName}` : "Vastitas";
-  
-  // Load existing deployment addresses
-  const existingAddresses = loadDeploymentAddresses(networkName);
-  const deploymentAddresses: DeploymentAddresses = {
-    network: networkName,
-    deployedAt: new Date().toISOString(),
-    contracts: existingAddresses?.contracts || {}
-  };
+/**
+ * Send the transactions of one step. In a dry run the step is recorded with the gas they
+ * used, read from the blocks mined meanwhile (the simulated chain automines).
+ */
+async function runStep<T>(ctx: DeployContext, send: () => Promise<T>, describe: (result: T) => PlannedStep): Promise<T> {
+  if (!ctx.executed) {
+    return send();
+  }
+  const fromBlock = await ethers.provider.getBlockNumber();
+  const result = await send();
+  const toBlock = await ethers.provider.getBlockNumber();
+  let gas = 0n;
+  for (let number = fromBlock + 1; number <= toBlock; number++) {
+    gas += (await ethers.provider.getBlock(number)).gasUsed;
+  }
+  ctx.executed.push({ ...describe(result), gas });
+  return result;
+}
 
-  // Also check for EXISTING_* env vars and add them to deploymentAddresses
-  // Note: treasuryAsset uses TREASURY_ASSET_ADDRESS (not EXISTING_TREASURY_ASSET_ADDRESS)
-  const contractNames = ["token", "treasury", "registry", "swapModule", "router", "distributor", 
-                         "timelock", "council", "governance", "emergencyCouncil"];
-  for (const contractName of contractNames) {
-    const envVar = `EXISTING_${contractName.toUpperCase().replace(/([A-Z])/g, "_$1")}_ADDRESS`;
-    const envAddr = process.env[envVar];
-    if (envAddr && ethers.isAddress(envAddr)) {
-      const key = contractName as keyof typeof deploymentAddresses.contracts;
-      deploymentAddresses.contracts[key] = envAddr;
-    }
+/**
+ * Mint `tokenSupply` from the token owner, unless the token already has a supply
+ */
+async function mintTokenSupply(manifest: DeploymentManifest, ctx: DeployContext): Promise<void> {
+  if (!manifest.tokenSupply) {
+    return;
   }
-  
-  // Handle treasuryAsset separately (uses TREASURY_ASSET_ADDRESS)
-  if (process.env.TREASURY_ASSET_ADDRESS && ethers.isAddress(process.env.TREASURY_ASSET_ADDRESS)) {
-    deploymentAddresses.contracts.treasuryAsset = process.env.TREASURY_ASSET_ADDRESS;
+  const token = await ethers.getContractAt(CONTRACT_SPECS.token.artifact, ctx.addresses.token);
+  const description = `${CONTRACT_SPECS.token.label}.mint(${manifest.tokenSupply.holder}, ${manifest.tokenSupply.amount})`;
+  const totalSupply: bigint = await token.totalSupply();
+  if (totalSupply > 0n) {
+    console.log(`📌 ${CONTRACT_SPECS.token.label} supply already minted: ${ethers.formatEther(totalSupply)}`);
+    recordStep(ctx, { kind: "skip", description, note: "token already has a supply" });
+    return;
   }
+  const owner: string = await token.owner();
+  const signer = findSigner(owner, ctx);
+  if (!signer) {
+    throw new Error(`tokenSupply: no local signer for the token owner ${owner}`);
+  }
+  const holder = resolveValue(manifest.tokenSupply.holder, "address", ctx) as string;
+  const amount = parseUint(manifest.tokenSupply.amount);
+  await runStep(
+    ctx,
+    async () => (await token.connect(signer).mint(holder, amount)).wait(),
+    () => ({ kind: "call", description: `${CONTRACT_SPECS.token.label}.mint(${holder}, ${amount})`, from: owner })
+  );
+  console.log(`✓ ${ethers.formatEther(amount)} ${CONTRACT_SPECS.token.label} minted to ${holder}`);
+}
 
-  // Get council members - use additional signers if available, otherwise reuse deployer
-  // This handles testnet deployments where only one private key is configured
-  const councilMembers = [];
-  for (let i = 0; i < 3; i++) {
-    if (allSigners.length > 4 + i) {
-      councilMembers.push(await allSigners[4 + i].getAddress());
-    } else {
-      // Fallback: use deployer address if not enough signers available
-      councilMembers.push(await deployer.getAddress());
+interface HandoverAction {
+  contract: ContractKey;
+  method: "grantRole" | "revokeRole" | "renounceRole" | "transferOwnership";
+  role?: string; // role name, undefined for transferOwnership
+  account: string;
+  from?: string; // undefined when no local signer is allowed to send it
+}
+
+function describeHandoverAction(action: HandoverAction): string {
+  const label = CONTRACT_SPECS[action.contract].label;
+  return action.role
+    ? `${label}.${action.method}(${action.role}, ${action.account})`
+    : `${label}.${action.method}(${action.account})`;
+}
+
+function resolveTarget(value: string, ctx: DeployContext): string {
+  return isReference(value) ? (resolveReference(value, ctx) as string) : value;
+}
+
+async function findLocalHolder(contract: any, role: string, ctx: DeployContext): Promise<string | undefined> {
+  for (const address of ctx.signerAddresses) {
+    if (await contract.hasRole(role, address)) {
+      return address;
     }
   }
+  return undefined;
+}
 
-  console.log("=".repeat(60));
-  console.log("Vastitas Deployment Script");
-  console.log("=".repeat(60));
-  console.log("Deploying contracts with account:", await deployer.getAddress());
-  console.log(`Network: ${networkName} (Chain ID: ${network.chainId})`);
-  console.log("Account balance:", (await ethers.provider.getBalance(deployer.address)).toString());
-  
-  if (existingAddresses) {
-    console.log(`\nðŸ“ Loaded existing deployment addresses from deployments/${networkName}.json`);
+/**
+ * Work out the transactions that move every role in `manifest.handover` to its new holder.
+ * Previous holders are the local signers and the manifest accounts: local signers renounce,
+ * other accounts are revoked by a local signer holding the role admin. DEFAULT_ADMIN_ROLE is
+ * handled last on each contract since it administers the other roles.
+ */
+async function planHandover(manifest: DeploymentManifest, ctx: DeployContext): Promise<HandoverAction[]> {
+  const handover = manifest.handover!;
+  const actions: HandoverAction[] = [];
+  const isLocal = (address: string) => findSigner(address, ctx) !== undefined;
+  const candidates = [...new Set([...ctx.signerAddresses, ...Object.values(ctx.accounts).flat()])].filter(
+    (address) => address !== ethers.ZeroAddress
+  );
+
+  for (const key of CONTRACT_KEYS) {
+    const address = ctx.addresses[key];
+    if (!address || key === "treasuryAsset" || key === "token") {
+      continue;
+    }
+    const contract = await ethers.getContractAt(CONTRACT_SPECS[key].artifact, address);
+    const overrides = handover.contracts[key] ?? {};
+    const roles = Object.entries({ ...handover.roles, ...overrides }).sort(
+      ([a], [b]) => Number(a === "DEFAULT_ADMIN_ROLE") - Number(b === "DEFAULT_ADMIN_ROLE")
+    );
+
+    for (const [role, value] of roles) {
+      if (!contract.interface.getFunction(role)) {
+        if (overrides[role]) {
+          throw new Error(`handover.contracts.${key}.${role}: ${CONTRACT_SPECS[key].artifact} has no ${role}`);
+        }
+        continue;
+      }
+      const target = resolveTarget(value, ctx);
+      const hash = await contract[role]();
+      const admin = await findLocalHolder(contract, await contract.getRoleAdmin(hash), ctx);
+
+      if (!(await contract.hasRole(hash, target))) {
+        actions.push({ contract: key, method: "grantRole", role, account: target, from: admin });
+      }
+      const previous: string[] = [];
+      for (const candidate of candidates) {
+        if (candidate.toLowerCase() !== target.toLowerCase() && (await contract.hasRole(hash, candidate))) {
+          previous.push(candidate);
+        }
+      }
+      // Revoke other accounts first: a local signer may need the role to do so
+      for (const holder of previous.filter((holder) => !isLocal(holder))) {
+        actions.push({ contract: key, method: "revokeRole", role, account: holder, from: admin });
+      }
+      for (const holder of previous.filter(isLocal)) {
+        actions.push({ contract: key, method: "renounceRole", role, account: holder, from: holder });
+      }
+    }
   }
-  
-  if (process.env.SKIP_CONTRACTS) {
-    console.log(`â­ï¸  SKIP_CONTRACTS: ${process.env.SKIP_CONTRACTS}`);
+
+  if (handover.tokenOwner && ctx.addresses.token) {
+    const token = await ethers.getContractAt(CONTRACT_SPECS.token.artifact, ctx.addresses.token);
+    const target = resolveTarget(handover.tokenOwner, ctx);
+    const owner: string = await token.owner();
+    if (owner.toLowerCase() !== target.toLowerCase()) {
+      actions.push({
+        contract: "token",
+        method: "transferOwnership",
+        account: target,
+        from: isLocal(owner) ? owner : undefined,
+      });
+    }
   }
-  if (process.env.DEPLOY_CONTRACTS) {
-    console.log(`ðŸŽ¯ DEPLOY_CONTRACTS: ${process.env.DEPLOY_CONTRACTS}`);
+  return actions;
+}
+
+function handoverArgs(action: HandoverAction): any[] {
+  if (!action.role) {
+    return [action.account];
   }
-  console.log("");
+  const hash = action.role === "DEFAULT_ADMIN_ROLE" ? ethers.ZeroHash : ethers.id(action.role);
+  return [hash, action.account];
+}
 
-  const isProductionNetwork = networkName === "mainnet";
-  const adminAddress = isProductionNetwork
-    ? requireAddress("ADMIN_ADDRESS", process.env.ADMIN_ADDRESS)
-    : resolveAddress(process.env.ADMIN_ADDRESS, await adminSigner.getAddress());
-  const governanceAddress = isProductionNetwork
-    ? requireAddress("GOVERNANCE_ADDRESS", process.env.GOVERNANCE_ADDRESS)
-    : resolveAddress(process.env.GOVERNANCE_ADDRESS, await governanceSigner.getAddress());
-  const treasurerAddress = isProductionNetwork
-    ? requireAddress("TREASURER_ADDRESS", process.env.TREASURER_ADDRESS)
-    : resolveAddress(process.env.TREASURER_ADDRESS, await treasurerSigner.getAddress());
-
-  // Treasury asset: require address in production, allow mock otherwise
-  const treasuryAssetAddress = process.env.TREASURY_ASSET_ADDRESS;
-  let treasuryAssetAddressResolved: string;
-  let treasuryAsset: any;
-  if (treasuryAssetAddress) {
-    if (!ethers.isAddress(treasuryAssetAddress)) {
-      throw new Error(`Invalid TREASURY_ASSET_ADDRESS: ${treasuryAssetAddress}`);
-    }
-    treasuryAssetAddressResolved = treasuryAssetAddress;
-    console.log("Treasury Asset configured:", treasuryAssetAddressResolved);
-  } else {
-    const existingTreasuryAsset = getExistingContractAddress("treasuryAsset", existingAddresses);
-    if (existingTreasuryAsset) {
-      treasuryAssetAddressResolved = existingTreasuryAsset;
-      console.log("ðŸ“Œ Using existing Treasury Asset:", treasuryAssetAddressResolved);
-    } else if (shouldDeployContract("treasuryAsset", existingAddresses)) {
-      if (isProductionNetwork) {
-        throw new Error("TREASURY_ASSET_ADDRESS must be set for mainnet");
-      }
-      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
-      treasuryAsset = await MockERC20Factory.deploy("Treasury Asset", "TREASURY");
-      await treasuryAsset.waitForDeployment();
-      treasuryAssetAddressResolved = await treasuryAsset.getAddress();
-      deploymentAddresses.contracts.treasuryAsset = treasuryAssetAddressResolved;
-      saveDeploymentAddresses(networkName, deploymentAddresses);
-      console.log("âœ“ Treasury Asset deployed to:", treasuryAssetAddressResolved);
-    } else {
-      throw new Error("Treasury Asset address required but not found");
-    }
-  }
-
-  // Deploy Vastitas Token (with voting support)
-  let token: any;
-  // Get initial token holder address (from env or use deployer as fallback)
-  // Declare at higher scope so it's available for verification commands later
-  const shouldMintInitialTokenSupply = (process.env.MINT_INITIAL_TOKEN_SUPPLY || "true").toLowerCase() === "true";
-  const initialTokenHolder = shouldMintInitialTokenSupply
-    ? process.env.INITIAL_TOKEN_HOLDER_ADDRESS
-      ? requireAddress("INITIAL_TOKEN_HOLDER_ADDRESS", process.env.INITIAL_TOKEN_HOLDER_ADDRESS)
-      : deployer.address
-    : deployer.address;
-
-  const primaryTokenNetworks = (process.env.PRIMARY_TOKEN_NETWORKS || "mainnet,sepolia")
-    .split(",")
-    .map((v) => v.trim())
-    .filter(Boolean);
-  const isPrimaryTokenNetwork = primaryTokenNetworks.includes(networkName);
-  const tokenMinterAddress = process.env.TOKEN_MINTER_ADDRESS
-    ? requireAddress("TOKEN_MINTER_ADDRESS", process.env.TOKEN_MINTER_ADDRESS)
-    : adminAddress;
-  
-  // If MINT_INITIAL_TOKEN_SUPPLY is explicitly set, respect it regardless of network
-  // If not set, only mint on primary networks by default
-  const mintExplicitlyEnabled = process.env.MINT_INITIAL_TOKEN_SUPPLY?.toLowerCase() === "true";
-  const mintExplicitlyDisabled = process.env.MINT_INITIAL_TOKEN_SUPPLY?.toLowerCase() === "false";
-  
-  let initialTokenSupply: bigint;
-  if (mintExplicitlyDisabled) {
-    // Explicitly disabled: 0 supply
-    initialTokenSupply = ethers.parseEther("0");
-  } else if (mintExplicitlyEnabled) {
-    // Explicitly enabled: mint regardless of network
-    initialTokenSupply = ethers.parseEther("1000000000"); // 1 billion tokens
-  } else {
-    // Not explicitly set (default "true" used): only mint on primary networks
-    initialTokenSupply = isPrimaryTokenNetwork
-      ? ethers.parseEther("1000000000") // 1 billion tokens
-      : ethers.parseEther("0");
+/**
+ * Send the handover transactions, then write the signed role graph report.
+ * Returns the number of actions that could not be sent.
+ */
+async function runHandover(
+  manifest: DeploymentManifest,
+  deploymentAddresses: DeploymentAddresses,
+  ctx: DeployContext
+): Promise<number> {
+  const actions = await planHandover(manifest, ctx);
+  const blocked = actions.filter((action) => !action.from);
+  if (actions.length === 0) {
+    console.log("📌 All roles already handed over");
   }
-  
-  const existingToken = getExistingContractAddress("token", existingAddresses);
-  if (existingToken) {
-    const TokenFactory = await ethers.getContractFactory("VastitasToken");
-    token = TokenFactory.attach(existingToken);
-    console.log("ðŸ“Œ Using existing Vastitas Token:", existingToken);
-  } else if (shouldDeployContract("token", existingAddresses)) {
-    const TokenFactory = await ethers.getContractFactory("VastitasToken");
-    
-    token = await TokenFactory.deploy(
-      tokenName,
-      "Vastitas",
-      initialTokenSupply,
-      initialTokenHolder,
-      tokenMinterAddress
+  for (const action of actions) {
+    const description = describeHandoverAction(action);
+    if (!action.from) {
+      console.log(`⚠️  Cannot send ${description} - no local signer is allowed to`);
+      recordStep(ctx, { kind: "skip", description, note: "no local signer is allowed to send it" });
+      continue;
+    }
+    const contract = await ethers.getContractAt(
+      CONTRACT_SPECS[action.contract].artifact,
+      ctx.addresses[action.contract],
+      findSigner(action.from, ctx)
     );
-    await token.waitForDeployment();
-    deploymentAddresses.contracts.token = await token.getAddress();
-    saveDeploymentAddresses(networkName, deploymentAddresses);
-    console.log("âœ“ Vastitas Token deployed to:", await token.getAddress());
-  } else {
-    throw new Error("Vastitas Token address required but not found");
-  }
-
-  // Deploy Treasury Vault
-  let treasury: any;
-  const existingTreasury = getExistingContractAddress("treasury", existingAddresses);
-  if (existingTreasury) {
-    const TreasuryFactory = await ethers.getContractFactory("TreasuryVault");
-    treasury = TreasuryFactory.attach(existingTreasury);
-    console.log("ðŸ“Œ Using existing Treasury Vault:", existingTreasury);
-  } else if (shouldDeployContract("treasury", existingAddresses)) {
-    const TreasuryFactory = await ethers.getContractFactory("TreasuryVault");
-    treasury = await TreasuryFactory.deploy(adminAddress, treasurerAddress);
-    await treasury.waitForDeployment();
-    deploymentAddresses.contracts.treasury = await treasury.getAddress();
-    saveDeploymentAddresses(networkName, deploymentAddresses);
-    console.log("âœ“ Treasury Vault deployed to:", await treasury.getAddress());
-  } else {
-    throw new Error("Treasury Vault address required but not found");
-  }
-
-  // Deploy Plugin Registry
-  let registry: any;
-  const existingRegistry = getExistingContractAddress("registry", existingAddresses);
-  if (existingRegistry) {
-    const RegistryFactory = await ethers.getContractFactory("PluginRegistry");
-    registry = RegistryFactory.attach(existingRegistry);
-    console.log("ðŸ“Œ Using existing Plugin Registry:", existingRegistry);
-  } else if (shouldDeployContract("registry", existingAddresses)) {
-    const RegistryFactory = await ethers.getContractFactory("PluginRegistry");
-    registry = await RegistryFactory.deploy(adminAddress, governanceAddress);
-    await registry.waitForDeployment();
-    deploymentAddresses.contracts.registry = await registry.getAddress();
-    saveDeploymentAddresses(networkName, deploymentAddresses);
-    console.log("âœ“ Plugin Registry deployed to:", await registry.getAddress());
-  } else {
-    throw new Error("Plugin Registry address required but not found");
-  }
-
-  // Deploy Swap Module
-  // Uniswap V3 SwapRouter02 addresses:
-  // Mainnet: 0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45
-  // Goerli: 0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45
-  // Sepolia: 0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E
-  // For testnet/local, can use zero address and set later via setUniswapRouter()
-  const uniswapRouterAddress = process.env.UNISWAP_V3_ROUTER || ethers.ZeroAddress;
-  if (isProductionNetwork && uniswapRouterAddress === ethers.ZeroAddress) {
-    throw new Error("UNISWAP_V3_ROUTER must be set for mainnet");
-  }
-  const uniswapQuoterAddress = process.env.UNISWAP_V3_QUOTER || ethers.ZeroAddress;
-  if (isProductionNetwork && uniswapQuoterAddress === ethers.ZeroAddress) {
-    throw new Error("UNISWAP_V3_QUOTER must be set for mainnet");
-  }
-  // Deploy Swap Module
-  let swapModule: any;
-  const existingSwapModule = getExistingContractAddress("swapModule", existingAddresses);
-  if (existingSwapModule) {
-    const SwapModuleFactory = await ethers.getContractFactory("SwapModule");
-    swapModule = SwapModuleFactory.attach(existingSwapModule);
-    console.log("ðŸ“Œ Using existing Swap Module:", existingSwapModule);
-  } else if (shouldDeployContract("swapModule", existingAddresses)) {
-    const SwapModuleFactory = await ethers.getContractFactory("SwapModule");
-    swapModule = await SwapModuleFactory.deploy(
-      treasuryAssetAddressResolved,
-      ethers.ZeroAddress, // Router address - will be updated after router deployment
-      uniswapRouterAddress, // Uniswap V3 SwapRouter address
-      adminAddress
+    await runStep(
+      ctx,
+      async () => (await contract[action.method](...handoverArgs(action))).wait(),
+      () => ({ kind: "call", description, from: action.from })
     );
-    await swapModule.waitForDeployment();
-    deploymentAddresses.contracts.swapModule = await swapModule.getAddress();
-    saveDeploymentAddresses(networkName, deploymentAddresses);
-    console.log("âœ“ Swap Module deployed to:", await swapModule.getAddress());
-  } else {
-    throw new Error("Swap Module address required but not found");
+    console.log(`✓ ${description}`);
+  }
+  if (ctx.executed) {
+    // The role graph report describes the real chain only
+    return blocked.length;
   }
-  if (uniswapRouterAddress === ethers.ZeroAddress) {
-    console.log("âš ï¸  Uniswap V3 Router not set - must be configured via setUniswapRouter() before swaps");
-  } else {
-    console.log("Uniswap V3 Router configured:", uniswapRouterAddress);
+
+  const blockNumber = await ethers.provider.getBlockNumber();
+  const graph = await buildRoleGraph(ctx.addresses, getScanStartBlock(deploymentAddresses.startBlock), blockNumber);
+
+  const labels: Record<string, string> = {};
+  for (const key of CONTRACT_KEYS) {
+    if (ctx.addresses[key]) {
+      labels[ctx.addresses[key]!.toLowerCase()] = CONTRACT_SPECS[key].label;
+    }
   }
-  if (uniswapQuoterAddress === ethers.ZeroAddress) {
-    console.log("Ã¢Å¡Â Ã¯Â¸Â  Uniswap V3 Quoter not set - must be configured via setUniswapQuoter() before swaps");
-  } else {
-    console.log("Uniswap V3 Quoter configured:", uniswapQuoterAddress);
+  for (const [name, value] of Object.entries(ctx.accounts)) {
+    for (const address of [value].flat()) {
+      labels[address.toLowerCase()] ??= `accounts.${name}`;
+    }
   }
+  labels[ctx.signerAddresses[0].toLowerCase()] = "deployer";
 
-  if (uniswapQuoterAddress !== ethers.ZeroAddress) {
-    try {
-      const currentQuoter = await swapModule.uniswapQuoter();
-      if (currentQuoter === ethers.ZeroAddress) {
-        await swapModule.connect(adminSigner).setUniswapQuoter(uniswapQuoterAddress);
-        console.log("Ã¢Å“â€œ Uniswap V3 Quoter set in SwapModule");
+  const warnings = blocked.map((action) => `not sent: ${describeHandoverAction(action)}`);
+  for (const key of CONTRACT_KEYS) {
+    const entry = graph[key];
+    if (!entry) {
+      continue;
+    }
+    for (const [role, holders] of Object.entries(entry.roles)) {
+      if (holders.some((holder) => holder.toLowerCase() === ctx.signerAddresses[0].toLowerCase())) {
+        warnings.push(`deployer still holds ${role} on ${CONTRACT_SPECS[key].label}`);
       }
-    } catch (error: any) {
-      console.warn("Ã¢Å¡Â Ã¯Â¸Â  Failed to set Uniswap V3 Quoter:", error.message);
-    }
-  }
-
-  // Deploy Revenue Router
-  let router: any;
-  const existingRouter = getExistingContractAddress("router", existingAddresses);
-  if (existingRouter) {
-    const RouterFactory = await ethers.getContractFactory("RevenueRouter");
-    router = RouterFactory.attach(existingRouter);
-    console.log("ðŸ“Œ Using existing Revenue Router:", existingRouter);
-  } else if (shouldDeployContract("router", existingAddresses)) {
-    const RouterFactory = await ethers.getContractFactory("RevenueRouter");
-    // DistributionModel enum: BUYBACK_ONLY = 0, STAKING_REWARDS = 1, HYBRID = 2
-    const distributionModel = 0; // BUYBACK_ONLY
-    router = await RouterFactory.deploy(
-      await registry.getAddress(),
-      await swapModule.getAddress(),
-      await token.getAddress(),
-      await treasury.getAddress(),
-      distributionModel,
-      adminAddress,
-      governanceAddress
-    );
-    await router.waitForDeployment();
-    deploymentAddresses.contracts.router = await router.getAddress();
-    saveDeploymentAddresses(networkName, deploymentAddresses);
-    console.log("âœ“ Revenue Router deployed to:", await router.getAddress());
-  } else {
-    throw new Error("Revenue Router address required but not found");
-  }
-
-  // Deploy Distributor (optional)
-  let distributor: any;
-  const existingDistributor = getExistingContractAddress("distributor", existingAddresses);
-  if (existingDistributor) {
-    const DistributorFactory = await ethers.getContractFactory("Distributor");
-    distributor = DistributorFactory.attach(existingDistributor);
-    console.log("ðŸ“Œ Using existing Distributor:", existingDistributor);
-  } else if (shouldDeployContract("distributor", existingAddresses)) {
-    const DistributorFactory = await ethers.getContractFactory("Distributor");
-    distributor = await DistributorFactory.deploy(
-      await token.getAddress(),
-      treasuryAssetAddressResolved,
-      7 * 24 * 60 * 60, // 7 days epoch
-      adminAddress,
-      await router.getAddress()
-    );
-    await distributor.waitForDeployment();
-    deploymentAddresses.contracts.distributor = await distributor.getAddress();
-    saveDeploymentAddresses(networkName, deploymentAddresses);
-    console.log("âœ“ Distributor deployed to:", await distributor.getAddress());
+    }
+    if (entry.owner && entry.owner.toLowerCase() === ctx.signerAddresses[0].toLowerCase()) {
+      warnings.push(`deployer still owns ${CONTRACT_SPECS[key].label}`);
+    }
+  }
+
+  const network = await ethers.provider.getNetwork();
+  const report = await signRoleGraphReport(
+    {
+      network: ctx.networkName,
+      chainId: network.chainId.toString(),
+      blockNumber,
+      generatedAt: new Date().toISOString(),
+      contracts: graph,
+      labels,
+      warnings,
+    },
+    ctx.signers[0]
+  );
+  const file = saveRoleGraphReport(ctx.networkName, report);
+
+  console.log("\n=== Final Role Graph ===");
+  for (const line of formatRoleGraph(graph, labels)) {
+    console.log(line);
+  }
+  for (const warning of warnings) {
+    console.log(`⚠️  ${warning}`);
+  }
+  console.log(`\n✓ Role graph report signed by ${report.signoff!.signer} and saved to ${file}`);
+  return blocked.length;
+}
+
+/**
+ * Init code, salt and predicted address of a contract deployed through the CREATE2 factory
+ */
+async function prepareCreate2(
+  key: ContractKey,
+  args: any[],
+  manifest: DeploymentManifest,
+  factory: string,
+  ctx: DeployContext
+): Promise<Create2Deployment> {
+  const spec = CONTRACT_SPECS[key];
+  const deployer = ctx.signerAddresses[0];
+  const salt = contractSalt(manifest.create2!.salt, key);
+  const initCode = await getInitCode(spec.artifact, args);
+  return {
+    salt,
+    initCode,
+    initCalls: getInitCalls(spec.senderAdmin === true, factory, deployer),
+    address: predictAddress(factory, deployer, salt, initCode),
+  };
+}
+
+/**
+ * Compare the planned addresses with deployments/{network}.json
+ */
+function diffDeployment(
+  existingAddresses: DeploymentAddresses | null,
+  ctx: DeployContext
+): string[] {
+  const lines: string[] = [];
+  const existing = existingAddresses?.contracts || {};
+  for (const key of CONTRACT_KEYS) {
+    const before = existing[key];
+    const after = ctx.addresses[key];
+    if (before && !after) {
+      lines.push(`- ${key}: ${before}`);
+    } else if (!before && after) {
+      lines.push(`+ ${key}: ${after}`);
+    } else if (before && after && before.toLowerCase() !== after.toLowerCase()) {
+      lines.push(`~ ${key}: ${before} -> ${after}`);
+    } else if (after) {
+      lines.push(`  ${key}: ${after}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Deploy the planned contracts, apply the wiring and run the handover.
+ * Returns the number of handover transactions that could not be sent.
+ */
+async function executeDeployment(
+  manifest: DeploymentManifest,
+  plans: ContractPlan[],
+  deploymentAddresses: DeploymentAddresses,
+  deployedArgs: Partial<Record<ContractKey, any[]>>,
+  ctx: DeployContext
+): Promise<number> {
+  const deployer = ctx.signers[0];
+  const deployerAddress = ctx.signerAddresses[0];
+  // A dry run leaves deployments/ untouched
+  const save = () => {
+    if (!ctx.executed) {
+      saveDeploymentAddresses(ctx.networkName, deploymentAddresses);
+    }
+  };
+
+  let factory: string | undefined;
+  if (manifest.create2 && plans.some((plan) => plan.action === "deploy")) {
+    factory = await getFactoryAddress();
+    if ((await ethers.provider.getCode(factory)) !== "0x") {
+      recordStep(ctx, { kind: "reuse", description: `Create2Deployer at ${factory}`, note: "already deployed" });
+    } else {
+      await runStep(
+        ctx,
+        () => ensureFactory(deployer, ctx.networkName),
+        (address) => ({ kind: "deploy", description: `Create2Deployer -> ${address}`, from: deployerAddress })
+      );
+    }
+    deploymentAddresses.create2 = { factory, salt: manifest.create2.salt };
+    console.log(`✓ CREATE2 factory: ${factory} (salt: ${manifest.create2.salt})\n`);
   }
 
-  if (distributor) {
+  for (const plan of plans) {
+    const spec = CONTRACT_SPECS[plan.key];
+    if (plan.key === "governance") {
+      console.log("\n=== Deploying Governance Contracts ===");
+    }
+
+    if (plan.action === "omit") {
+      console.log(`⏭️  Skipping ${spec.label} (deploy: false)`);
+      continue;
+    }
+
+    if (plan.action === "reuse") {
+      ctx.addresses[plan.key] = plan.address;
+      deploymentAddresses.contracts[plan.key] = plan.address;
+      if (plan.source === "manifest") {
+        // Pinned contracts were not deployed by this pipeline
+        delete deploymentAddresses.constructorArgs![plan.key];
+      }
+      console.log(`📌 Using existing ${spec.label}:`, plan.address);
+      recordStep(ctx, {
+        kind: "reuse",
+        description: `${spec.label} at ${plan.address}`,
+        note: plan.source === "manifest" ? "pinned in manifest" : `from deployments/${ctx.networkName}.json`,
+      });
+      continue;
+    }
+
+    const args = resolveConstructorArgs(plan.key, manifest, ctx);
+    let address: string;
     try {
-      const currentDistributor = await router.distributor();
-      if (currentDistributor === ethers.ZeroAddress) {
-        const adminRouter = router.connect(adminSigner);
-        await adminRouter.setDistributor(await distributor.getAddress());
-        console.log("Ã¢Å“â€œ Distributor set in RevenueRouter");
+      if (factory) {
+        const deployment = await prepareCreate2(plan.key, args, manifest, factory, ctx);
+        if ((await ethers.provider.getCode(deployment.address)) !== "0x") {
+          ctx.addresses[plan.key] = deployment.address;
+          deploymentAddresses.contracts[plan.key] = deployment.address;
+          deploymentAddresses.constructorArgs![plan.key] = serializeArgs(args);
+          save();
+          console.log(`📌 ${spec.label} already deployed at its CREATE2 address:`, deployment.address);
+          recordStep(ctx, {
+            kind: "reuse",
+            description: `${spec.label} at ${deployment.address}`,
+            note: "already deployed at its CREATE2 address",
+          });
+          continue;
+        }
+        const factoryContract = await ethers.getContractAt("Create2Deployer", factory, deployer);
+        address = await runStep(
+          ctx,
+          async () => {
+            await (await factoryContract.deploy(deployment.salt, deployment.initCode, deployment.initCalls)).wait();
+            return deployment.address;
+          },
+          (address) => ({ kind: "deploy", description: `${spec.label} (${spec.artifact}) -> ${address}`, from: deployerAddress })
+        );
       } else {
-        console.log("Ã°Å¸â€œÅ’ Distributor already set in RevenueRouter:", currentDistributor);
+        const Factory = await ethers.getContractFactory(spec.artifact, deployer);
+        address = await runStep(
+          ctx,
+          async () => {
+            const contract = await Factory.deploy(...args);
+            await contract.waitForDeployment();
+            return (await contract.getAddress()) as string;
+          },
+          (address) => ({ kind: "deploy", description: `${spec.label} (${spec.artifact}) -> ${address}`, from: deployerAddress })
+        );
       }
     } catch (error: any) {
-      console.warn("Ã¢Å¡Â Ã¯Â¸Â  Failed to set distributor (may already be set):", error.message);
-    }
-  }
-
-  // Deploy Governance Contracts
-  console.log("\n=== Deploying Governance Contracts ===");
-
-  // Deploy Timelock
-  let timelock: any;
-  const existingTimelock = getExistingContractAddress("timelock", existingAddresses);
-  if (existingTimelock) {
-    const TimelockFactory = await ethers.getContractFactory("Timelock");
-    timelock = TimelockFactory.attach(existingTimelock);
-    console.log("ðŸ“Œ Using existing Timelock:", existingTimelock);
-  } else if (shouldDeployContract("timelock", existingAddresses)) {
-    const proposers = [governanceAddress]; // Governance can propose
-    const executors = [governanceAddress]; // Governance can execute
-    const TimelockFactory = await ethers.getContractFactory("Timelock");
-    timelock = await TimelockFactory.deploy(
-      2 * 24 * 60 * 60, // 2 days standard delay
-      proposers,
-      executors,
-      adminAddress // Admin as canceler
-    );
-    await timelock.waitForDeployment();
-    deploymentAddresses.contracts.timelock = await timelock.getAddress();
-    saveDeploymentAddresses(networkName, deploymentAddresses);
-    console.log("âœ“ Timelock deployed to:", await timelock.getAddress());
-  } else {
-    throw new Error("Timelock address required but not found");
-  }
-
-  // Deploy Council (for representative voting)
-  let council: any;
-  const existingCouncil = getExistingContractAddress("council", existingAddresses);
-  if (existingCouncil) {
-    const CouncilFactory = await ethers.getContractFactory("Council");
-    council = CouncilFactory.attach(existingCouncil);
-    console.log("ðŸ“Œ Using existing Council:", existingCouncil);
-  } else if (shouldDeployContract("council", existingAddresses)) {
-    const CouncilFactory = await ethers.getContractFactory("Council");
-    // Assuming 15 second blocks: 30 days = 172,800 blocks, 90 days = 518,400 blocks
-    const blocksPerDay = 5760; // 15 second blocks
-    const electionPeriod = 30 * blocksPerDay; // 30 days in blocks
-    const termLength = 90 * blocksPerDay; // 90 days in blocks
-    council = await CouncilFactory.deploy(
-      await token.getAddress(),
-      electionPeriod,
-      termLength,
-      ethers.ZeroAddress // Will be set after governance deployment
-    );
-    await council.waitForDeployment();
-    deploymentAddresses.contracts.council = await council.getAddress();
-    saveDeploymentAddresses(networkName, deploymentAddresses);
-    console.log("âœ“ Council deployed to:", await council.getAddress());
-  } else {
-    throw new Error("Council address required but not found");
-  }
-
-  // Deploy Governance (with council, but start with direct voting disabled)
-  let governanceContract: any;
-  const existingGovernance = getExistingContractAddress("governance", existingAddresses);
-  if (existingGovernance) {
-    const GovernanceFactory = await ethers.getContractFactory("Governance");
-    governanceContract = GovernanceFactory.attach(existingGovernance);
-    console.log("ðŸ“Œ Using existing Governance:", existingGovernance);
-  } else if (shouldDeployContract("governance", existingAddresses)) {
-    const GovernanceFactory = await ethers.getContractFactory("Governance");
-    console.log("Deploying Governance with parameters:");
-    console.log(`  Token: ${await token.getAddress()}`);
-    console.log(`  Timelock: ${await timelock.getAddress()}`);
-    console.log(`  Council: ${await council.getAddress()}`);
-    console.log(`  Voting delay: 1 block`);
-    console.log(`  Voting period: 5760 blocks`);
-    console.log(`  Proposal threshold: ${ethers.formatEther(ethers.parseEther("10000"))} tokens`);
-    console.log(`  Quorum: 5 (5% - numerator/100, where denominator=100)`);
-    
-    try {
-      governanceContract = await GovernanceFactory.deploy(
-        await token.getAddress(),
-        await timelock.getAddress(),
-        await council.getAddress(),
-        1, // 1 block voting delay
-        5760, // ~1 day voting period (assuming 15s blocks)
-        ethers.parseEther("10000"), // 0.1% proposal threshold (10k tokens)
-        5, // 5% quorum (numerator: 5/100 = 5%. Note: OpenZeppelin uses denominator=100, not 10000)
-        false // Start with direct voting (can be toggled to council voting later)
-      );
-      await governanceContract.waitForDeployment();
-      deploymentAddresses.contracts.governance = await governanceContract.getAddress();
-      saveDeploymentAddresses(networkName, deploymentAddresses);
-      console.log("âœ“ Governance deployed to:", await governanceContract.getAddress());
-    } catch (error: any) {
-      console.error("Failed to deploy Governance contract:");
+      console.error(`Failed to deploy ${spec.label}:`);
       console.error("Error:", error.message);
       if (error.data) {
         console.error("Error data:", error.data);
@@ -723,111 +804,290 @@ async function main() {
       }
       throw error;
     }
+    ctx.addresses[plan.key] = address;
+    deployedArgs[plan.key] = args;
+    deploymentAddresses.contracts[plan.key] = address;
+    deploymentAddresses.constructorArgs![plan.key] = serializeArgs(args);
+    save();
+    console.log(`✓ ${spec.label} deployed to:`, address);
+  }
 
-    // Grant governance role to council (only if we just deployed)
-    try {
-      const councilContract = council.connect(adminSigner);
-      await councilContract.grantRole(
-        await councilContract.GOVERNANCE_ROLE(),
-        await governanceContract.getAddress()
-      );
-      console.log("âœ“ Governance role granted to Governance contract");
-    } catch (error: any) {
-      console.warn("âš ï¸  Failed to grant governance role (may already be granted):", error.message);
-    }
-  } else {
-    throw new Error("Governance address required but not found");
-  }
-
-  // Deploy Emergency Council
-  let emergencyCouncil: any;
-  const existingEmergencyCouncil = getExistingContractAddress("emergencyCouncil", existingAddresses);
-  if (existingEmergencyCouncil) {
-    const EmergencyCouncilFactory = await ethers.getContractFactory("EmergencyCouncil");
-    emergencyCouncil = EmergencyCouncilFactory.attach(existingEmergencyCouncil);
-    console.log("ðŸ“Œ Using existing Emergency Council:", existingEmergencyCouncil);
-  } else if (shouldDeployContract("emergencyCouncil", existingAddresses)) {
-    const EmergencyCouncilFactory = await ethers.getContractFactory("EmergencyCouncil");
-    emergencyCouncil = await EmergencyCouncilFactory.deploy(
-      await registry.getAddress(),
-      await router.getAddress(),
-      await swapModule.getAddress(),
-      councilMembers
+  console.log("\n=== Wiring ===");
+  for (const step of manifest.wiring) {
+    await reconcileWiringStep(step, ctx);
+  }
+  await mintTokenSupply(manifest, ctx);
+
+  if (manifest.handover && process.env.SKIP_HANDOVER === "true") {
+    console.log("\n⏭️  Skipping role handover (SKIP_HANDOVER=true)");
+    return 0;
+  } else if (manifest.handover) {
+    console.log("\n=== Handover ===");
+    return runHandover(manifest, deploymentAddresses, ctx);
+  }
+  return 0;
+}
+
+/**
+ * Deployment record to fill in, continuing deployments/{network}.json when it exists
+ */
+async function newDeploymentRecord(
+  existingAddresses: DeploymentAddresses | null,
+  ctx: DeployContext
+): Promise<DeploymentAddresses> {
+  return {
+    network: ctx.networkName,
+    deployedAt: new Date().toISOString(),
+    deployer: existingAddresses?.deployer ?? ctx.signerAddresses[0],
+    startBlock: existingAddresses ? existingAddresses.startBlock : await ethers.provider.getBlockNumber(),
+    create2: existingAddresses?.create2,
+    contracts: { ...existingAddresses?.contracts },
+    constructorArgs: { ...existingAddresses?.constructorArgs },
+  };
+}
+
+/**
+ * Addresses of the accounts configured for a network in hardhat.config.ts
+ */
+function configuredAccounts(networkName: string, config: any): string[] {
+  if (Array.isArray(config.accounts)) {
+    return config.accounts.map((key: string) => new ethers.Wallet(key).address);
+  }
+  if (config.accounts?.mnemonic) {
+    const { mnemonic, passphrase, path: hdPath, initialIndex, count } = config.accounts;
+    return Array.from(
+      { length: count },
+      (_, i) => ethers.HDNodeWallet.fromPhrase(mnemonic, passphrase, `${hdPath}/${initialIndex + i}`).address
     );
-    await emergencyCouncil.waitForDeployment();
-    deploymentAddresses.contracts.emergencyCouncil = await emergencyCouncil.getAddress();
-    saveDeploymentAddresses(networkName, deploymentAddresses);
-    console.log("âœ“ Emergency Council deployed to:", await emergencyCouncil.getAddress());
   }
+  throw new Error(`DRY_RUN_FORK: accounts of ${networkName} must be private keys or a mnemonic in hardhat.config.ts`);
+}
+
+/**
+ * Re-run this script on the in-process Hardhat network, forked from `networkName`.
+ * Resolves with the exit code of the dry run.
+ */
+function rerunOnFork(networkName: string): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child = fork(process.argv[1], process.argv.slice(2), {
+      stdio: "inherit",
+      execArgv: process.execArgv,
+      env: { ...process.env, HARDHAT_NETWORK: "hardhat", DRY_RUN_FORK: networkName },
+    });
+    child.once("close", resolve);
+    child.once("error", reject);
+  });
+}
+
+/**
+ * Impersonate the accounts configured for `networkName` on the in-process Hardhat network,
+ * which hardhat.config.ts forks from it. Returns the impersonated signers.
+ */
+async function startFork(networkName: string): Promise<any[]> {
+  const config = hre.config.networks[networkName] as any;
+  if (hre.network.name !== "hardhat" || !config?.url || (hre.network.config as any).forking?.url !== config.url) {
+    throw new Error(`DRY_RUN_FORK: the Hardhat network is not forked from ${networkName}`);
+  }
+  const accounts = configuredAccounts(networkName, config);
+  if (accounts.length === 0) {
+    throw new Error(`DRY_RUN_FORK: no accounts configured for ${networkName}`);
+  }
+  const signers = [];
+  for (const address of accounts) {
+    // Balances do not change gas usage; funding keeps an underfunded account from stopping the run
+    await ethers.provider.send("hardhat_setBalance", [address, ethers.toQuantity(ethers.parseEther("1000000"))]);
+    signers.push(await ethers.getImpersonatedSigner(address));
+  }
+  return signers;
+}
 
-  // Setup: Set timelock in router (only if router was just deployed or not already set)
+/**
+ * Gas price of the target network, read from its RPC URL when running on a fork
+ */
+async function getGasPrice(forkedNetwork?: string): Promise<bigint> {
+  const provider = forkedNetwork
+    ? new ethers.JsonRpcProvider((hre.config.networks[forkedNetwork] as any).url)
+    : ethers.provider;
   try {
-    const currentTimelock = await router.timelock();
-    if (currentTimelock === ethers.ZeroAddress) {
-      const adminRouter = router.connect(adminSigner);
-      await adminRouter.setTimelock(await timelock.getAddress());
-      console.log("âœ“ Timelock set in RevenueRouter");
-    } else {
-      console.log("ðŸ“Œ Timelock already set in RevenueRouter:", currentTimelock);
+    const feeData = await provider.getFeeData();
+    return feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+  } finally {
+    if (forkedNetwork) {
+      provider.destroy();
     }
+  }
+}
+
+/**
+ * Execute the deployment on a snapshot of the current chain, recording every step with the
+ * gas it used, then revert to the snapshot. A failing transaction ends the simulation, as it
+ * would end the real run; the steps before it are kept.
+ */
+async function simulateDeployment(
+  manifest: DeploymentManifest,
+  plans: ContractPlan[],
+  existingAddresses: DeploymentAddresses | null,
+  ctx: DeployContext
+): Promise<{ steps: PlannedStep[]; error?: any }> {
+  const snapshot = await ethers.provider.send("evm_snapshot", []);
+  ctx.executed = [];
+  console.log("=== Simulated deployment (reverted afterwards) ===");
+  try {
+    await executeDeployment(manifest, plans, await newDeploymentRecord(existingAddresses, ctx), {}, ctx);
+    return { steps: ctx.executed };
   } catch (error: any) {
-    console.warn("âš ï¸  Failed to set timelock (may already be set):", error.message);
+    return { steps: ctx.executed, error };
+  } finally {
+    await ethers.provider.send("evm_revert", [snapshot]);
+  }
+}
+
+function printExecutionPlan(
+  manifest: DeploymentManifest,
+  steps: PlannedStep[],
+  gasPrice: bigint,
+  existingAddresses: DeploymentAddresses | null,
+  ctx: DeployContext
+): void {
+  console.log("\n=== Execution Plan (dry run, nothing was broadcast) ===");
+  let totalGas = 0n;
+  steps.forEach((step, i) => {
+    const gas = step.gas !== undefined ? ` - ${step.gas} gas` : "";
+    const from = step.from ? ` from ${step.from}` : "";
+    console.log(`${String(i + 1).padStart(3)}. [${step.kind}] ${step.description}${from}${gas}`);
+    if (step.note) {
+      console.log(`       ${step.note}`);
+    }
+    totalGas += step.gas ?? 0n;
+  });
+
+  console.log("\n=== Cost ===");
+  console.log(`Gas price: ${ethers.formatUnits(gasPrice, "gwei")} gwei`);
+  console.log(`Total gas: ${totalGas}`);
+  console.log(`Total cost: ${ethers.formatEther(totalGas * gasPrice)} (native token)`);
+
+  console.log(`\n=== Diff against deployments/${ctx.networkName}.json ===`);
+  if (!existingAddresses) {
+    console.log("(no deployment file yet)");
+  }
+  for (const line of diffDeployment(existingAddresses, ctx)) {
+    console.log(line);
   }
 
-  // Update deployment addresses with all current addresses (including existing ones)
-  deploymentAddresses.contracts.treasuryAsset = treasuryAssetAddressResolved;
-  deploymentAddresses.contracts.token = await token.getAddress();
-  deploymentAddresses.contracts.treasury = await treasury.getAddress();
-  deploymentAddresses.contracts.registry = await registry.getAddress();
-  deploymentAddresses.contracts.swapModule = await swapModule.getAddress();
-  deploymentAddresses.contracts.router = await router.getAddress();
-  if (distributor) {
-    deploymentAddresses.contracts.distributor = await distributor.getAddress();
+  if (process.env.PLAN_OUTPUT) {
+    const output = {
+      network: ctx.networkName,
+      manifest: getManifestPath(ctx.networkName),
+      create2: manifest.create2,
+      gasPrice: gasPrice.toString(),
+      totalGas: totalGas.toString(),
+      steps: steps.map((step) => ({ ...step, gas: step.gas?.toString() })),
+      contracts: ctx.addresses,
+    };
+    fs.writeFileSync(path.resolve(process.env.PLAN_OUTPUT), JSON.stringify(output, null, 2));
+    console.log(`\n✓ Plan written to ${process.env.PLAN_OUTPUT}`);
+  }
+}
+
+async function main() {
+  // Use Hardhat's network name (matches `--network <name>`), or the network a dry run forks
+  const forkedNetwork = process.env.DRY_RUN_FORK;
+  const networkName = forkedNetwork ?? hre.network.name;
+  const dryRun = process.env.DRY_RUN === "true";
+
+  // Validate the manifest before touching the chain
+  const manifest = loadManifest(networkName);
+
+  if (dryRun && !forkedNetwork && !LOCAL_NETWORKS.includes(networkName)) {
+    const status = await rerunOnFork(networkName);
+    if (status !== 0) {
+      throw new Error(`Dry run on a fork of ${networkName} failed`);
+    }
+    return;
   }
-  deploymentAddresses.contracts.timelock = await timelock.getAddress();
-  deploymentAddresses.contracts.council = await council.getAddress();
-  deploymentAddresses.contracts.governance = await governanceContract.getAddress();
-  if (emergencyCouncil) {
-    deploymentAddresses.contracts.emergencyCouncil = await emergencyCouncil.getAddress();
+
+  const allSigners = forkedNetwork ? await startFork(forkedNetwork) : await ethers.getSigners();
+  const deployer = allSigners[0];
+  const chainId: bigint = forkedNetwork
+    ? BigInt((hre.config.networks[forkedNetwork] as any).chainId ?? (await ethers.provider.getNetwork()).chainId)
+    : (await ethers.provider.getNetwork()).chainId;
+
+  const ctx: DeployContext = {
+    networkName,
+    chainDisplayName: getChainDisplayName(chainId, networkName),
+    signers: allSigners,
+    signerAddresses: await Promise.all(allSigners.map((signer: any) => signer.getAddress())),
+    accounts: {},
+    addresses: {},
+  };
+  ctx.accounts = resolveAccounts(manifest, ctx);
+
+  // Load existing deployment addresses
+  const existingAddresses = loadDeploymentAddresses(networkName);
+  const plans = planDeployment(manifest, existingAddresses, ctx);
+
+  if (dryRun) {
+    console.log(`Network: ${networkName} (Chain ID: ${chainId})${forkedNetwork ? ", forked in-process" : ""}`);
+    console.log(`Manifest: ${getManifestPath(networkName)}\n`);
+    const { steps, error } = await simulateDeployment(manifest, plans, existingAddresses, ctx);
+    printExecutionPlan(manifest, steps, await getGasPrice(forkedNetwork), existingAddresses, ctx);
+    if (error) {
+      throw new Error(`Dry run: the deployment fails after step ${steps.length}: ${error.shortMessage || error.message}`);
+    }
+    return;
   }
+
+  const deploymentAddresses = await newDeploymentRecord(existingAddresses, ctx);
+
+  console.log("=".repeat(60));
+  console.log("Vastitas Deployment Script");
+  console.log("=".repeat(60));
+  console.log("Deploying contracts with account:", await deployer.getAddress());
+  console.log(`Network: ${networkName} (Chain ID: ${chainId})`);
+  console.log(`Manifest: ${getManifestPath(networkName)}`);
+  console.log("Account balance:", (await ethers.provider.getBalance(deployer.address)).toString());
   
+  if (existingAddresses) {
+    console.log(`\n📁 Loaded existing deployment addresses from deployments/${networkName}.json`);
+  }
+  console.log("");
+
+  const deployedArgs: Partial<Record<ContractKey, any[]>> = {};
+  const blockedHandover = await executeDeployment(manifest, plans, deploymentAddresses, deployedArgs, ctx);
+
   // Final save to both JSON and .env
   saveDeploymentAddresses(networkName, deploymentAddresses, true);
 
   console.log("\n" + "=".repeat(60));
   console.log("=== Deployment Summary ===");
   console.log("=".repeat(60));
-  console.log("Treasury Asset:", treasuryAssetAddressResolved);
-  console.log("Vastitas Token:", await token.getAddress());
-  console.log("Treasury Vault:", await treasury.getAddress());
-  console.log("Plugin Registry:", await registry.getAddress());
-  console.log("Swap Module:", await swapModule.getAddress());
-  console.log("Revenue Router:", await router.getAddress());
-  if (distributor) {
-    console.log("Distributor:", await distributor.getAddress());
-  }
-  console.log("Timelock:", await timelock.getAddress());
-  console.log("Council:", await council.getAddress());
-  console.log("Governance:", await governanceContract.getAddress());
-  if (emergencyCouncil) {
-    console.log("Emergency Council:", await emergencyCouncil.getAddress());
+  for (const key of CONTRACT_KEYS) {
+    if (ctx.addresses[key]) {
+      console.log(`${CONTRACT_SPECS[key].label}:`, ctx.addresses[key]);
+    }
   }
   console.log("=".repeat(60));
-  console.log("\nâœ“ All contract addresses saved to:");
+  console.log("\n✓ All contract addresses saved to:");
   console.log(`  - deployments/${networkName}.json`);
   console.log(`  - .env`);
-  
-  if (networkName === "mainnet" || networkName === "sepolia") {
+
+  const deployedKeys = CONTRACT_KEYS.filter((key) => deployedArgs[key]);
+  if (deployedKeys.length > 0 && networkName !== "hardhat") {
     console.log("\nNext Steps:");
-    console.log("1. Verify contracts on Etherscan (examples):");
-    console.log(`   npx hardhat verify --network ${networkName} ${await token.getAddress()} "Vastitas" "Vastitas" ${initialTokenSupply} ${initialTokenHolder} ${tokenMinterAddress}`);
-    console.log(`   npx hardhat verify --network ${networkName} ${await treasury.getAddress()} ${adminAddress} ${treasurerAddress}`);
+    console.log("1. Verify contracts on the block explorer (constructor arguments are recorded in the deployment file):");
+    console.log(`   npx hardhat run scripts/verify-sources.ts --network ${networkName}`);
+  }
+
+  if (blockedHandover > 0) {
+    throw new Error(
+      `Role handover incomplete: ${blockedHandover} transaction(s) could not be sent, see deployments/${networkName}.roles.json`
+    );
   }
 }
 
 main()
   .then(() => process.exit(0))
   .catch((error) => {
-    console.error(error);
+    console.error(error instanceof ManifestValidationError ? error.message : error);
     process.exit(1);
   });
@@ -0,0 +1,85 @@
+/**
+ * Deployment records
+ *
+ * scripts/deploy.ts records every deployed (or reused) contract in deployments/{network}.json;
+ * verification and the other post-deploy scripts read the same file. The addresses are also
+ * exported to the shared .env file under the names in ADDRESS_ENV_VARS.
+ *
+ * Constructor arguments of the contracts deployed by the pipeline are recorded alongside the
+ * addresses (integers as decimal strings) so scripts/verify-sources.ts can replay them.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ContractKey } from "./manifest";
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export interface DeploymentAddresses {
+  network: string;
+  deployedAt: string;
+  deployer?: string; // `$deployer` in role policies
+  startBlock?: number; // block of the first deployment, role events are scanned from here
+  create2?: {
+    factory: string;
+    salt: string;
+  };
+  contracts: {
+    treasuryAsset?: string;
+    token?: string;
+    treasury?: string;
+    registry?: string;
+    swapModule?: string;
+    router?: string;
+    distributor?: string;
+    timelock?: string;
+    council?: string;
+    governance?: string;
+    emergencyCouncil?: string;
+  };
+  constructorArgs?: Partial<Record<ContractKey, any[]>>;
+}
+
+// .env variable holding the address of each contract
+export const ADDRESS_ENV_VARS: Record<ContractKey, string> = {
+  treasuryAsset: "TREASURY_ASSET_ADDRESS",
+  token: "MONTE_TOKEN_ADDRESS",
+  treasury: "TREASURY_VAULT_ADDRESS",
+  registry: "PLUGIN_REGISTRY_ADDRESS",
+  swapModule: "SWAP_MODULE_ADDRESS",
+  router: "REVENUE_ROUTER_ADDRESS",
+  distributor: "DISTRIBUTOR_ADDRESS",
+  timelock: "TIMELOCK_ADDRESS",
+  council: "COUNCIL_ADDRESS",
+  governance: "GOVERNANCE_ADDRESS",
+  emergencyCouncil: "EMERGENCY_COUNCIL_ADDRESS",
+};
+
+/**
+ * JSON-safe copy of resolved constructor arguments
+ */
+export function serializeArgs(args: any[]): any[] {
+  return args.map((arg) => (Array.isArray(arg) ? serializeArgs(arg) : typeof arg === "bigint" ? arg.toString() : arg));
+}
+
+export function getDeploymentPath(networkName: string): string {
+  return path.join(DEPLOYMENTS_DIR, `${networkName}.json`);
+}
+
+/**
+ * Load deployments/{network}.json, or null when the network has not been deployed
+ */
+export function loadDeploymentAddresses(networkName: string): DeploymentAddresses | null {
+  const deploymentFile = getDeploymentPath(networkName);
+
+  if (fs.existsSync(deploymentFile)) {
+    try {
+      const content = fs.readFileSync(deploymentFile, "utf-8");
+      return JSON.parse(content) as DeploymentAddresses;
+    } catch (error) {
+      console.warn(`Failed to load deployment file: ${error}`);
+      return null;
+    }
+  }
+  return null;
+}
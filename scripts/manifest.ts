@@ -0,0 +1,903 @@
+/**
+ * Vastitas Deployment Manifest
+ *
+ * A manifest declares, per network, every contract the deploy script manages, its
+ * constructor arguments, the accounts that hold roles, and the post-deploy wiring.
+ * `scripts/deploy.ts` reconciles the chain to the manifest.
+ *
+ * Manifests live in scripts/manifests/{network}.json (override with DEPLOY_MANIFEST).
+ * A manifest may `extends` another manifest: objects are merged key by key, arrays
+ * and scalars from the extending manifest replace the base value.
+ *
+ * VALUES:
+ * - Literal addresses, numbers, strings and booleans
+ * - References (strings starting with `$`):
+ *     $deployer            first signer
+ *     $signer:N            Nth signer (falls back to the deployer when not configured)
+ *     $zero                the zero address
+ *     $accounts.<name>     an entry of the manifest `accounts` section
+ *     $contracts.<key>     address of a managed contract
+ * - Unsigned integers may be written as "10000 ether" (scaled by 1e18)
+ * - String arguments may contain `{chain}`, replaced with the chain display name
+ *
+ * TOKEN SUPPLY:
+ * - `"tokenSupply": { "amount": "1000000000 ether", "holder": "$deployer" }` mints the initial
+ *   VastitasToken supply from the token owner once wiring is done, unless the token already
+ *   has a supply. Networks set their own amount here instead of in the constructor.
+ *
+ * DETERMINISTIC DEPLOYMENT:
+ * - `"create2": { "salt": "vastitas-v1" }` deploys contracts through the Create2Deployer
+ *   factory (see scripts/create2.ts). For a given deployer and salt a contract gets the same
+ *   address on every chain as long as its constructor arguments are identical. Per-network
+ *   values therefore stay out of constructor arguments: the Uniswap router and quoter are
+ *   wiring steps, the token supply is `tokenSupply`, and `{chain}` is rejected in arguments.
+ *   The accounts and the treasury asset must also match for the addresses to match.
+ *   scripts/predict-addresses.ts predicts the addresses offline.
+ *
+ * HANDOVER:
+ * - `handover` moves roles from the deployment accounts to their long-term holders (Timelock
+ *   or multisig) once deployment and wiring are done, e.g.
+ *   `"roles": { "DEFAULT_ADMIN_ROLE": "$contracts.timelock" }`, with per-contract overrides in
+ *   `"contracts": { "council": { "GOVERNANCE_ROLE": "$contracts.governance" } }` and the token
+ *   in `"tokenOwner"`. Previous holders known to the manifest lose the role; the deployer
+ *   renounces it. See the handover phase in scripts/deploy.ts.
+ *
+ * Validation collects every problem (named by its key path) and throws
+ * ManifestValidationError before the deploy script sends any transaction.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ZeroAddress, isAddress, parseEther } from "ethers";
+
+export type ContractKey =
+  | "treasuryAsset"
+  | "token"
+  | "treasury"
+  | "registry"
+  | "swapModule"
+  | "router"
+  | "distributor"
+  | "timelock"
+  | "council"
+  | "governance"
+  | "emergencyCouncil";
+
+export type ParamType = "address" | "address[]" | "uint" | "string" | "bool" | "distributionModel";
+
+export interface ContractSpec {
+  artifact: string;
+  label: string;
+  optional: boolean;
+  senderAdmin?: boolean; // constructor grants DEFAULT_ADMIN_ROLE to msg.sender
+  params: Array<{ name: string; type: ParamType }>;
+}
+
+export type ManifestValue = string | number | boolean | ManifestValue[];
+
+export interface ContractEntry {
+  deploy: boolean; // false = never deploy, reuse `address` or deployments/{network}.json
+  address?: string; // pins an already-deployed contract
+  args: Record<string, ManifestValue>;
+}
+
+export interface CallStep {
+  action: "call";
+  contract: ContractKey;
+  method: string;
+  args: ManifestValue[];
+  from: string;
+  view?: string; // skip when this view already returns the first argument
+  skipIfZero?: boolean; // skip when the first argument resolves to the zero address
+}
+
+export interface GrantRoleStep {
+  action: "grantRole";
+  contract: ContractKey;
+  role: string;
+  account: string;
+  from: string;
+}
+
+export type WiringStep = CallStep | GrantRoleStep;
+
+export interface Create2Options {
+  salt: string;
+}
+
+/**
+ * Initial token supply, minted by the token owner after wiring
+ */
+export interface TokenSupplyConfig {
+  amount: ManifestValue; // unsigned integer or "<n> ether"
+  holder: string; // address or reference receiving the supply
+}
+
+/**
+ * Post-deploy role handover. `roles` maps a role name to its new holder on every managed
+ * contract that defines the role, `contracts` overrides or extends it per contract.
+ */
+export interface HandoverConfig {
+  roles: Record<string, string>;
+  contracts: Partial<Record<ContractKey, Record<string, string>>>;
+  tokenOwner?: string; // new VastitasToken owner
+}
+
+export interface DeploymentManifest {
+  network: string;
+  production: boolean;
+  create2?: Create2Options; // deploy through the CREATE2 factory instead of CREATE
+  accounts: Record<string, string | string[]>;
+  contracts: Record<ContractKey, ContractEntry>;
+  wiring: WiringStep[];
+  tokenSupply?: TokenSupplyConfig;
+  handover?: HandoverConfig;
+}
+
+/**
+ * Managed contracts in deployment order. A constructor argument may only
+ * reference contracts listed before it.
+ */
+export const CONTRACT_KEYS: ContractKey[] = [
+  "treasuryAsset",
+  "token",
+  "treasury",
+  "registry",
+  "swapModule",
+  "router",
+  "distributor",
+  "timelock",
+  "council",
+  "governance",
+  "emergencyCouncil",
+];
+
+export const CONTRACT_SPECS: Record<ContractKey, ContractSpec> = {
+  treasuryAsset: {
+    artifact: "MockERC20",
+    label: "Treasury Asset",
+    optional: false,
+    params: [
+      { name: "name", type: "string" },
+      { name: "symbol", type: "string" },
+    ],
+  },
+  token: {
+    artifact: "VastitasToken",
+    label: "Vastitas Token",
+    optional: false,
+    params: [
+      { name: "name", type: "string" },
+      { name: "symbol", type: "string" },
+      { name: "initialSupply", type: "uint" },
+      { name: "initialHolder", type: "address" },
+      { name: "owner", type: "address" },
+    ],
+  },
+  treasury: {
+    artifact: "TreasuryVault",
+    label: "Treasury Vault",
+    optional: false,
+    params: [
+      { name: "admin", type: "address" },
+      { name: "treasurer", type: "address" },
+    ],
+  },
+  registry: {
+    artifact: "PluginRegistry",
+    label: "Plugin Registry",
+    optional: false,
+    params: [
+      { name: "admin", type: "address" },
+      { name: "governance", type: "address" },
+    ],
+  },
+  swapModule: {
+    artifact: "SwapModule",
+    label: "Swap Module",
+    optional: false,
+    params: [
+      { name: "treasuryAsset", type: "address" },
+      { name: "router", type: "address" },
+      { name: "uniswapRouter", type: "address" },
+      { name: "admin", type: "address" },
+    ],
+  },
+  router: {
+    artifact: "RevenueRouter",
+    label: "Revenue Router",
+    optional: false,
+    params: [
+      { name: "registry", type: "address" },
+      { name: "swapModule", type: "address" },
+      { name: "token", type: "address" },
+      { name: "treasury", type: "address" },
+      { name: "distributionModel", type: "distributionModel" },
+      { name: "admin", type: "address" },
+      { name: "governance", type: "address" },
+    ],
+  },
+  distributor: {
+    artifact: "Distributor",
+    label: "Distributor",
+    optional: true,
+    params: [
+      { name: "stakeToken", type: "address" },
+      { name: "rewardToken", type: "address" },
+      { name: "epochDuration", type: "uint" },
+      { name: "admin", type: "address" },
+      { name: "router", type: "address" },
+    ],
+  },
+  timelock: {
+    artifact: "Timelock",
+    label: "Timelock",
+    optional: false,
+    params: [
+      { name: "minDelay", type: "uint" },
+      { name: "proposers", type: "address[]" },
+      { name: "executors", type: "address[]" },
+      { name: "admin", type: "address" },
+    ],
+  },
+  council: {
+    artifact: "Council",
+    label: "Council",
+    optional: false,
+    senderAdmin: true,
+    params: [
+      { name: "token", type: "address" },
+      { name: "electionPeriod", type: "uint" },
+      { name: "termLength", type: "uint" },
+      { name: "governance", type: "address" },
+    ],
+  },
+  governance: {
+    artifact: "Governance",
+    label: "Governance",
+    optional: false,
+    senderAdmin: true,
+    params: [
+      { name: "token", type: "address" },
+      { name: "timelock", type: "address" },
+      { name: "council", type: "address" },
+      { name: "votingDelay", type: "uint" },
+      { name: "votingPeriod", type: "uint" },
+      { name: "proposalThreshold", type: "uint" },
+      { name: "quorumNumerator", type: "uint" },
+      { name: "useCouncilVoting", type: "bool" },
+    ],
+  },
+  emergencyCouncil: {
+    artifact: "EmergencyCouncil",
+    label: "Emergency Council",
+    optional: true,
+    senderAdmin: true,
+    params: [
+      { name: "registry", type: "address" },
+      { name: "router", type: "address" },
+      { name: "swapModule", type: "address" },
+      { name: "members", type: "address[]" },
+      { name: "tighteningThreshold", type: "uint" },
+      { name: "looseningThreshold", type: "uint" },
+      { name: "mandateTerm", type: "uint" },
+    ],
+  },
+};
+
+// DistributionModel enum: BUYBACK_ONLY = 0, STAKING_REWARDS = 1, HYBRID = 2
+export const DISTRIBUTION_MODELS: Record<string, number> = {
+  BUYBACK_ONLY: 0,
+  STAKING_REWARDS: 1,
+  HYBRID: 2,
+};
+
+/**
+ * Values `$` references and `{chain}` resolve to
+ */
+export interface ResolutionContext {
+  chainDisplayName: string;
+  signerAddresses: string[];
+  accounts: Record<string, string | string[]>;
+  addresses: Partial<Record<ContractKey, string>>;
+}
+
+export const MANIFESTS_DIR = path.join(__dirname, "manifests");
+
+export class ManifestValidationError extends Error {
+  constructor(public readonly source: string, public readonly issues: string[], kind: string = "deployment manifest") {
+    super(
+      `Invalid ${kind} ${source}:\n` + issues.map((issue) => `  - ${issue}`).join("\n")
+    );
+    this.name = "ManifestValidationError";
+  }
+}
+
+export function isReference(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith("$");
+}
+
+/**
+ * Parse a manifest uint ("123", 123 or "1.5 ether")
+ */
+export function parseUint(value: ManifestValue): bigint {
+  if (typeof value === "number") {
+    return BigInt(value);
+  }
+  const trimmed = String(value).trim();
+  const etherMatch = trimmed.match(/^(\d+(?:\.\d+)?)\s+ether$/);
+  if (etherMatch) {
+    return parseEther(etherMatch[1]);
+  }
+  return BigInt(trimmed);
+}
+
+function isUint(value: unknown): boolean {
+  if (typeof value === "number") {
+    return Number.isSafeInteger(value) && value >= 0;
+  }
+  return typeof value === "string" && /^(\d+|\d+(\.\d+)?\s+ether)$/.test(value.trim());
+}
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeManifests(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isPlainObject(value) && isPlainObject(base[key]) ? mergeManifests(base[key], value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Read a JSON file, following `extends` (also used for role policies, see scripts/roles.ts)
+ */
+export function readManifestFile(
+  file: string,
+  seen: string[] = [],
+  kind: string = "deployment manifest"
+): Record<string, any> {
+  if (seen.includes(file)) {
+    throw new Error(`Circular ${kind} extends: ${[...seen, file].join(" -> ")}`);
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`${kind.charAt(0).toUpperCase()}${kind.slice(1)} not found: ${file}`);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Failed to parse ${kind} ${file}: ${error.message}`);
+  }
+  if (!isPlainObject(raw)) {
+    throw new ManifestValidationError(file, ["(root): expected an object"], kind);
+  }
+  const { extends: parent, ...own } = raw;
+  if (parent === undefined) {
+    return own;
+  }
+  if (typeof parent !== "string") {
+    throw new ManifestValidationError(file, ["extends: expected a relative file path"], kind);
+  }
+  const base = readManifestFile(path.resolve(path.dirname(file), parent), [...seen, file], kind);
+  return mergeManifests(base, own);
+}
+
+/**
+ * Resolve the manifest path for a network (DEPLOY_MANIFEST takes precedence)
+ */
+export function getManifestPath(networkName: string): string {
+  if (process.env.DEPLOY_MANIFEST) {
+    return path.resolve(process.env.DEPLOY_MANIFEST);
+  }
+  return path.join(MANIFESTS_DIR, `${networkName}.json`);
+}
+
+/**
+ * Load, merge and validate the deployment manifest for a network
+ */
+export function loadManifest(networkName: string, manifestPath: string = getManifestPath(networkName)): DeploymentManifest {
+  const raw = readManifestFile(manifestPath);
+  return validateManifest(raw, networkName, manifestPath);
+}
+
+/**
+ * Validate a merged manifest object and return its typed form
+ */
+export function validateManifest(
+  raw: Record<string, any>,
+  networkName: string,
+  source: string = networkName
+): DeploymentManifest {
+  const issues: string[] = [];
+  const allowedRootKeys = [
+    "network",
+    "production",
+    "create2",
+    "accounts",
+    "contracts",
+    "wiring",
+    "tokenSupply",
+    "handover",
+  ];
+  for (const key of Object.keys(raw)) {
+    if (!allowedRootKeys.includes(key)) {
+      issues.push(`${key}: unknown key`);
+    }
+  }
+
+  if (raw.network !== undefined && raw.network !== networkName) {
+    issues.push(`network: manifest is for "${raw.network}" but deploying to "${networkName}"`);
+  }
+  if (raw.production !== undefined && typeof raw.production !== "boolean") {
+    issues.push("production: expected a boolean");
+  }
+  const production = raw.production === true || networkName === "mainnet";
+
+  let create2: Create2Options | undefined;
+  if (raw.create2 !== undefined) {
+    if (!isPlainObject(raw.create2)) {
+      issues.push("create2: expected an object");
+    } else {
+      for (const field of Object.keys(raw.create2)) {
+        if (field !== "salt") {
+          issues.push(`create2.${field}: unknown key`);
+        }
+      }
+      if (typeof raw.create2.salt !== "string" || raw.create2.salt.trim() === "") {
+        issues.push("create2.salt: expected a non-empty string");
+      } else {
+        create2 = { salt: raw.create2.salt };
+      }
+    }
+  }
+
+  // Accounts
+  const accounts: Record<string, string | string[]> = {};
+  if (!isPlainObject(raw.accounts)) {
+    issues.push("accounts: expected an object");
+  } else {
+    for (const [name, value] of Object.entries(raw.accounts)) {
+      const key = `accounts.${name}`;
+      const entries = Array.isArray(value) ? value : [value];
+      entries.forEach((entry, i) => {
+        const entryKey = Array.isArray(value) ? `${key}[${i}]` : key;
+        if (typeof entry !== "string") {
+          issues.push(`${entryKey}: expected an address or reference`);
+        } else if (entry.startsWith("$accounts.") || entry.startsWith("$contracts.")) {
+          issues.push(`${entryKey}: accounts may only reference $deployer, $signer:N or $zero`);
+        } else if (isReference(entry)) {
+          if (!/^\$(deployer|zero|signer:\d+)$/.test(entry)) {
+            issues.push(`${entryKey}: unknown reference ${entry}`);
+          } else if (production && entry !== "$zero") {
+            issues.push(`${entryKey}: must be a literal address on production networks (got ${entry})`);
+          }
+        } else if (!isAddress(entry)) {
+          issues.push(`${entryKey}: invalid address ${entry}`);
+        }
+      });
+      accounts[name] = value as string | string[];
+    }
+  }
+
+  // Contracts
+  const contracts = {} as Record<ContractKey, ContractEntry>;
+  const rawContracts = isPlainObject(raw.contracts) ? raw.contracts : {};
+  if (!isPlainObject(raw.contracts)) {
+    issues.push("contracts: expected an object");
+  }
+  for (const key of Object.keys(rawContracts)) {
+    if (!CONTRACT_KEYS.includes(key as ContractKey)) {
+      issues.push(`contracts.${key}: unknown contract (expected one of ${CONTRACT_KEYS.join(", ")})`);
+    }
+  }
+
+  const validateValue = (value: unknown, type: ParamType, key: string, position: number): void => {
+    if (isReference(value)) {
+      validateReference(value, type, key, position);
+      return;
+    }
+    switch (type) {
+      case "address":
+        if (typeof value !== "string" || !isAddress(value)) {
+          issues.push(`${key}: expected an address, got ${JSON.stringify(value)}`);
+        }
+        break;
+      case "address[]":
+        if (!Array.isArray(value)) {
+          issues.push(`${key}: expected an array of addresses`);
+        } else {
+          value.forEach((entry, i) => validateValue(entry, "address", `${key}[${i}]`, position));
+        }
+        break;
+      case "uint":
+        if (!isUint(value)) {
+          issues.push(`${key}: expected an unsigned integer (or "<n> ether"), got ${JSON.stringify(value)}`);
+        }
+        break;
+      case "string":
+        if (typeof value !== "string") {
+          issues.push(`${key}: expected a string`);
+        }
+        break;
+      case "bool":
+        if (typeof value !== "boolean") {
+          issues.push(`${key}: expected a boolean`);
+        }
+        break;
+      case "distributionModel":
+        if (typeof value !== "string" || DISTRIBUTION_MODELS[value] === undefined) {
+          issues.push(`${key}: expected one of ${Object.keys(DISTRIBUTION_MODELS).join(", ")}`);
+        }
+        break;
+    }
+  };
+
+  // position = deployment index of the contract whose arguments are validated (Infinity for wiring)
+  const validateReference = (value: string, type: ParamType, key: string, position: number): void => {
+    if (type !== "address" && type !== "address[]") {
+      issues.push(`${key}: references are only allowed for address arguments`);
+      return;
+    }
+    if (value === "$deployer" || value === "$zero" || /^\$signer:\d+$/.test(value)) {
+      if (type === "address[]") {
+        issues.push(`${key}: ${value} is a single address, expected a list`);
+      }
+      return;
+    }
+    const accountMatch = value.match(/^\$accounts\.(\w+)$/);
+    if (accountMatch) {
+      const account = isPlainObject(raw.accounts) ? raw.accounts[accountMatch[1]] : undefined;
+      if (account === undefined) {
+        issues.push(`${key}: unknown account ${accountMatch[1]}`);
+      } else if (Array.isArray(account) !== (type === "address[]")) {
+        issues.push(`${key}: account ${accountMatch[1]} is ${Array.isArray(account) ? "a list" : "a single address"}`);
+      }
+      return;
+    }
+    const contractMatch = value.match(/^\$contracts\.(\w+)$/);
+    if (contractMatch) {
+      const index = CONTRACT_KEYS.indexOf(contractMatch[1] as ContractKey);
+      if (index === -1) {
+        issues.push(`${key}: unknown contract ${contractMatch[1]}`);
+      } else if (index >= position) {
+        issues.push(`${key}: ${contractMatch[1]} is deployed after this contract`);
+      } else if (type === "address[]") {
+        issues.push(`${key}: ${value} is a single address, expected a list`);
+      }
+      return;
+    }
+    issues.push(`${key}: unknown reference ${value}`);
+  };
+
+  CONTRACT_KEYS.forEach((contractKey, position) => {
+    const spec = CONTRACT_SPECS[contractKey];
+    const entry = rawContracts[contractKey];
+    const key = `contracts.${contractKey}`;
+    if (entry === undefined) {
+      issues.push(`${key}: missing contract entry`);
+      return;
+    }
+    if (!isPlainObject(entry)) {
+      issues.push(`${key}: expected an object`);
+      return;
+    }
+    for (const field of Object.keys(entry)) {
+      if (!["deploy", "address", "args"].includes(field)) {
+        issues.push(`${key}.${field}: unknown key`);
+      }
+    }
+    if (entry.deploy !== undefined && typeof entry.deploy !== "boolean") {
+      issues.push(`${key}.deploy: expected a boolean`);
+    }
+    if (entry.address !== undefined && (typeof entry.address !== "string" || !isAddress(entry.address))) {
+      issues.push(`${key}.address: invalid address ${JSON.stringify(entry.address)}`);
+    }
+
+    const deploy = entry.deploy !== false;
+    const args = isPlainObject(entry.args) ? entry.args : {};
+    if (deploy && entry.address === undefined) {
+      if (!isPlainObject(entry.args)) {
+        issues.push(`${key}.args: expected an object`);
+      }
+      for (const param of spec.params) {
+        if (args[param.name] === undefined) {
+          issues.push(`${key}.args.${param.name}: missing constructor argument (${param.type})`);
+        } else {
+          validateValue(args[param.name], param.type, `${key}.args.${param.name}`, position);
+          if (create2 && typeof args[param.name] === "string" && args[param.name].includes("{chain}")) {
+            issues.push(`${key}.args.${param.name}: {chain} makes the CREATE2 address differ per network`);
+          }
+        }
+      }
+      for (const argName of Object.keys(args)) {
+        if (!spec.params.some((param) => param.name === argName)) {
+          issues.push(`${key}.args.${argName}: unknown constructor argument for ${spec.artifact}`);
+        }
+      }
+    }
+    if (production && contractKey === "treasuryAsset" && deploy && entry.address === undefined) {
+      issues.push(`${key}: a mock treasury asset cannot be deployed on production networks, set address`);
+    }
+
+    contracts[contractKey] = {
+      deploy,
+      address: entry.address,
+      args: args as Record<string, ManifestValue>,
+    };
+  });
+
+  if (production && isPlainObject(raw.accounts) && [undefined, "$zero"].includes(raw.accounts.uniswapRouter)) {
+    issues.push("accounts.uniswapRouter: must be set on production networks");
+  }
+
+  // Wiring
+  const wiring: WiringStep[] = [];
+  if (raw.wiring !== undefined && !Array.isArray(raw.wiring)) {
+    issues.push("wiring: expected an array");
+  }
+  (Array.isArray(raw.wiring) ? raw.wiring : []).forEach((step: any, i: number) => {
+    const key = `wiring[${i}]`;
+    if (!isPlainObject(step)) {
+      issues.push(`${key}: expected an object`);
+      return;
+    }
+    if (!CONTRACT_KEYS.includes(step.contract)) {
+      issues.push(`${key}.contract: unknown contract ${JSON.stringify(step.contract)}`);
+    }
+    const from = step.from ?? "$deployer";
+    validateValue(from, "address", `${key}.from`, Infinity);
+
+    if (step.action === "call") {
+      for (const field of Object.keys(step)) {
+        if (!["action", "contract", "method", "args", "from", "view", "skipIfZero"].includes(field)) {
+          issues.push(`${key}.${field}: unknown key`);
+        }
+      }
+      if (typeof step.method !== "string" || !/^[A-Za-z_]\w*$/.test(step.method)) {
+        issues.push(`${key}.method: expected a function name`);
+      }
+      const args = step.args ?? [];
+      if (!Array.isArray(args)) {
+        issues.push(`${key}.args: expected an array`);
+      } else {
+        args.forEach((arg: unknown, j: number) => {
+          if (isReference(arg)) {
+            const listAccount =
+              arg.startsWith("$accounts.") && Array.isArray(raw.accounts?.[arg.slice("$accounts.".length)]);
+            validateReference(arg, listAccount ? "address[]" : "address", `${key}.args[${j}]`, Infinity);
+          } else if (!["string", "number", "boolean"].includes(typeof arg) && !Array.isArray(arg)) {
+            issues.push(`${key}.args[${j}]: unsupported value ${JSON.stringify(arg)}`);
+          }
+        });
+      }
+      if (step.view !== undefined && (typeof step.view !== "string" || !/^[A-Za-z_]\w*$/.test(step.view))) {
+        issues.push(`${key}.view: expected a view function name`);
+      }
+      if (step.skipIfZero !== undefined && typeof step.skipIfZero !== "boolean") {
+        issues.push(`${key}.skipIfZero: expected a boolean`);
+      }
+      wiring.push({
+        action: "call",
+        contract: step.contract,
+        method: step.method,
+        args: Array.isArray(args) ? args : [],
+        from,
+        view: step.view,
+        skipIfZero: step.skipIfZero,
+      });
+    } else if (step.action === "grantRole") {
+      for (const field of Object.keys(step)) {
+        if (!["action", "contract", "role", "account", "from"].includes(field)) {
+          issues.push(`${key}.${field}: unknown key`);
+        }
+      }
+      if (typeof step.role !== "string" || !/^[A-Z_]+_ROLE$/.test(step.role)) {
+        issues.push(`${key}.role: expected a role constant name such as GOVERNANCE_ROLE`);
+      }
+      validateValue(step.account, "address", `${key}.account`, Infinity);
+      wiring.push({
+        action: "grantRole",
+        contract: step.contract,
+        role: step.role,
+        account: step.account,
+        from,
+      });
+    } else {
+      issues.push(`${key}.action: expected "call" or "grantRole"`);
+    }
+  });
+
+  // Token supply
+  let tokenSupply: TokenSupplyConfig | undefined;
+  if (raw.tokenSupply !== undefined) {
+    if (!isPlainObject(raw.tokenSupply)) {
+      issues.push("tokenSupply: expected an object");
+    } else {
+      for (const field of Object.keys(raw.tokenSupply)) {
+        if (!["amount", "holder"].includes(field)) {
+          issues.push(`tokenSupply.${field}: unknown key`);
+        }
+      }
+      validateValue(raw.tokenSupply.amount, "uint", "tokenSupply.amount", Infinity);
+      validateValue(raw.tokenSupply.holder, "address", "tokenSupply.holder", Infinity);
+      tokenSupply = { amount: raw.tokenSupply.amount, holder: raw.tokenSupply.holder };
+    }
+  }
+
+  // Handover
+  let handover: HandoverConfig | undefined;
+  if (raw.handover !== undefined) {
+    const validateTarget = (value: unknown, key: string): void => {
+      validateValue(value, "address", key, Infinity);
+      if (value === "$zero" || value === ZeroAddress) {
+        issues.push(`${key}: roles cannot be handed over to the zero address`);
+      } else if (production && (value === "$deployer" || (typeof value === "string" && value.startsWith("$signer:")))) {
+        issues.push(`${key}: must not be a deployer account on production networks`);
+      }
+    };
+    const validateRoles = (value: unknown, key: string): Record<string, string> => {
+      if (!isPlainObject(value)) {
+        issues.push(`${key}: expected an object mapping role names to new holders`);
+        return {};
+      }
+      for (const [role, target] of Object.entries(value)) {
+        if (!/^[A-Z_]+_ROLE$/.test(role)) {
+          issues.push(`${key}.${role}: expected a role constant name such as ADMIN_ROLE`);
+        }
+        validateTarget(target, `${key}.${role}`);
+      }
+      return value as Record<string, string>;
+    };
+
+    if (!isPlainObject(raw.handover)) {
+      issues.push("handover: expected an object");
+    } else {
+      for (const field of Object.keys(raw.handover)) {
+        if (!["roles", "contracts", "tokenOwner"].includes(field)) {
+          issues.push(`handover.${field}: unknown key`);
+        }
+      }
+      const roles = raw.handover.roles === undefined ? {} : validateRoles(raw.handover.roles, "handover.roles");
+      const overrides: Partial<Record<ContractKey, Record<string, string>>> = {};
+      if (raw.handover.contracts !== undefined) {
+        if (!isPlainObject(raw.handover.contracts)) {
+          issues.push("handover.contracts: expected an object");
+        } else {
+          for (const [contractKey, value] of Object.entries(raw.handover.contracts)) {
+            if (!CONTRACT_KEYS.includes(contractKey as ContractKey)) {
+              issues.push(`handover.contracts.${contractKey}: unknown contract`);
+              continue;
+            }
+            overrides[contractKey as ContractKey] = validateRoles(value, `handover.contracts.${contractKey}`);
+          }
+        }
+      }
+      if (raw.handover.tokenOwner !== undefined) {
+        validateTarget(raw.handover.tokenOwner, "handover.tokenOwner");
+      }
+      handover = { roles, contracts: overrides, tokenOwner: raw.handover.tokenOwner };
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ManifestValidationError(source, issues);
+  }
+
+  return {
+    network: networkName,
+    production,
+    create2,
+    accounts,
+    contracts,
+    wiring,
+    tokenSupply,
+    handover,
+  };
+}
+
+/**
+ * Display name substituted for `{chain}` in string arguments
+ */
+export function getChainDisplayName(chainId: bigint, networkName: string): string {
+  switch (Number(chainId)) {
+    case 56:
+    case 97:
+      return "BNB Smart Chain";
+    case 137:
+    case 80001:
+    case 80002:
+      return "Polygon PoS";
+    case 42161:
+    case 421614:
+      return "Arbitrum";
+    case 8453:
+    case 84532:
+      return "Base";
+    default: {
+      const normalized = (networkName || "").trim();
+      if (!normalized) return "";
+      return normalized
+        .split(/[-_\s]+/g)
+        .filter(Boolean)
+        .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+        .join(" ");
+    }
+  }
+}
+
+/**
+ * Resolve a `$` reference to an address (or list of addresses for list accounts)
+ */
+export function resolveReference(ref: string, ctx: ResolutionContext): string | string[] {
+  if (ref === "$deployer") {
+    return ctx.signerAddresses[0];
+  }
+  if (ref === "$zero") {
+    return ZeroAddress;
+  }
+  const signerMatch = ref.match(/^\$signer:(\d+)$/);
+  if (signerMatch) {
+    // For testnet, if not enough signers are configured, reuse the deployer
+    return ctx.signerAddresses[Number(signerMatch[1])] ?? ctx.signerAddresses[0];
+  }
+  if (ref.startsWith("$accounts.")) {
+    return ctx.accounts[ref.slice("$accounts.".length)];
+  }
+  if (ref.startsWith("$contracts.")) {
+    const key = ref.slice("$contracts.".length) as ContractKey;
+    const address = ctx.addresses[key];
+    if (!address) {
+      throw new Error(`${ref} has no address`);
+    }
+    return address;
+  }
+  throw new Error(`Unknown reference ${ref}`);
+}
+
+export function resolveValue(value: ManifestValue, type: ParamType | undefined, ctx: ResolutionContext): any {
+  if (isReference(value)) {
+    return resolveReference(value, ctx);
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => resolveValue(entry, type === "address[]" ? "address" : undefined, ctx));
+  }
+  switch (type) {
+    case "uint":
+      return parseUint(value);
+    case "distributionModel":
+      return DISTRIBUTION_MODELS[String(value)];
+    case "string":
+      return String(value).replace(/\{chain\}/g, ctx.chainDisplayName).replace(/\s+/g, " ").trim();
+    default:
+      return value;
+  }
+}
+
+export function resolveAccounts(manifest: DeploymentManifest, ctx: ResolutionContext): Record<string, string | string[]> {
+  const accounts: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(manifest.accounts)) {
+    const resolve = (entry: string) => (isReference(entry) ? (resolveReference(entry, ctx) as string) : entry);
+    accounts[name] = Array.isArray(value) ? value.map(resolve) : resolve(value);
+  }
+  return accounts;
+}
+
+export function resolveConstructorArgs(key: ContractKey, manifest: DeploymentManifest, ctx: ResolutionContext): any[] {
+  const entry = manifest.contracts[key];
+  return CONTRACT_SPECS[key].params.map((param) => resolveValue(entry.args[param.name], param.type, ctx));
+}
+
+export function contractReferences(values: ManifestValue[]): ContractKey[] {
+  const refs: ContractKey[] = [];
+  for (const value of values) {
+    if (Array.isArray(value)) {
+      refs.push(...contractReferences(value));
+    } else if (typeof value === "string" && value.startsWith("$contracts.")) {
+      refs.push(value.slice("$contracts.".length) as ContractKey);
+    }
+  }
+  return refs;
+}
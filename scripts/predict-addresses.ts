@@ -0,0 +1,185 @@
+/**
+ * Predict CREATE2 deployment addresses offline
+ *
+ * Resolves the deployment manifest of each network and computes the address every contract
+ * gets when deployed through the CREATE2 factory (see scripts/create2.ts). No RPC access is
+ * needed: init code comes from the compiled artifacts. Pinned `address` entries are used as-is,
+ * deployments/{network}.json files are ignored.
+ *
+ * USAGE:
+ *   DEPLOYER_ADDRESS=0x... PREDICT_NETWORKS=mainnet,polygon,base \
+ *     npx hardhat run scripts/predict-addresses.ts
+ *
+ * - DEPLOYER_ADDRESS: account that will run deploy.ts (defaults to the PRIVATE_KEY account)
+ * - PREDICT_NETWORKS: comma-separated networks (defaults to every manifest in scripts/manifests)
+ * - CREATE2_SALT: salt for manifests that do not set `create2.salt`
+ * - PREDICT_OUTPUT: also write the predictions as JSON
+ *
+ * On networks without enough configured signers `$signer:N` resolves to the deployer,
+ * exactly as in deploy.ts.
+ */
+
+import hre from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { Wallet, isAddress } from "ethers";
+import {
+  CONTRACT_KEYS,
+  CONTRACT_SPECS,
+  ContractKey,
+  MANIFESTS_DIR,
+  ResolutionContext,
+  getChainDisplayName,
+  loadManifest,
+  resolveAccounts,
+} from "./manifest";
+import { getFactoryAddress, predictDeployment } from "./create2";
+
+// Chain IDs of the networks registered in hardhat.config.ts, needed to resolve `{chain}`
+// when the network is not configured locally
+const CHAIN_IDS: Record<string, number> = {
+  hardhat: 1337,
+  sepolia: 11155111,
+  mainnet: 1,
+  polygon: 137,
+  arbitrum: 42161,
+  base: 8453,
+  bsc: 56,
+  bscTestnet: 97,
+  mumbai: 80001,
+  arbitrumSepolia: 421614,
+  baseSepolia: 84532,
+};
+
+interface NetworkPrediction {
+  network: string;
+  salt: string;
+  addresses: Partial<Record<ContractKey, string>>;
+  args: Partial<Record<ContractKey, any[]>>;
+}
+
+function getDeployerAddress(): string {
+  if (process.env.DEPLOYER_ADDRESS) {
+    if (!isAddress(process.env.DEPLOYER_ADDRESS)) {
+      throw new Error(`DEPLOYER_ADDRESS is not an address: ${process.env.DEPLOYER_ADDRESS}`);
+    }
+    return process.env.DEPLOYER_ADDRESS;
+  }
+  const privateKey = process.env.ethereum_private_key || process.env.PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("Set DEPLOYER_ADDRESS (or PRIVATE_KEY) to the account that will deploy");
+  }
+  return new Wallet(privateKey).address;
+}
+
+function getNetworks(): string[] {
+  if (process.env.PREDICT_NETWORKS) {
+    return process.env.PREDICT_NETWORKS.split(",").map((name) => name.trim()).filter(Boolean);
+  }
+  return fs
+    .readdirSync(MANIFESTS_DIR)
+    .filter((file) => file.endsWith(".json") && file !== "defaults.json")
+    .map((file) => path.basename(file, ".json"));
+}
+
+async function predictNetwork(networkName: string, deployer: string, factory: string): Promise<NetworkPrediction> {
+  const manifest = loadManifest(networkName);
+  const salt = manifest.create2?.salt ?? process.env.CREATE2_SALT;
+  if (!salt) {
+    throw new Error(`create2.salt is not set in the ${networkName} manifest (or pass CREATE2_SALT)`);
+  }
+
+  const chainId = (hre.config.networks[networkName] as any)?.chainId ?? CHAIN_IDS[networkName];
+  const ctx: ResolutionContext = {
+    chainDisplayName: getChainDisplayName(BigInt(chainId ?? 0), networkName),
+    signerAddresses: [deployer],
+    accounts: {},
+    addresses: {},
+  };
+  ctx.accounts = resolveAccounts(manifest, ctx);
+  return { network: networkName, salt, ...(await predictDeployment(manifest, ctx, salt, factory)) };
+}
+
+/**
+ * Names of the constructor arguments whose resolved values differ between networks
+ */
+function differingArgs(key: ContractKey, predictions: NetworkPrediction[]): string[] {
+  const params = CONTRACT_SPECS[key].params;
+  return params
+    .filter((_, i) => {
+      const values = predictions.map((p) =>
+        JSON.stringify(p.args[key]?.[i], (_k, v) => (typeof v === "bigint" ? v.toString() : v))
+      );
+      return new Set(values).size > 1;
+    })
+    .map((param) => param.name);
+}
+
+async function main() {
+  const deployer = getDeployerAddress();
+  const factory = await getFactoryAddress();
+  console.log(`Deployer: ${deployer}`);
+  console.log(`CREATE2 factory: ${factory}\n`);
+
+  const predictions: NetworkPrediction[] = [];
+  for (const networkName of getNetworks()) {
+    try {
+      predictions.push(await predictNetwork(networkName, deployer, factory));
+    } catch (error: any) {
+      console.log(`⚠️  ${networkName}: ${error.message}\n`);
+    }
+  }
+  if (predictions.length === 0) {
+    throw new Error("No network could be predicted");
+  }
+
+  for (const prediction of predictions) {
+    console.log(`=== ${prediction.network} (salt: ${prediction.salt}) ===`);
+    for (const key of CONTRACT_KEYS) {
+      if (prediction.addresses[key]) {
+        const pinned = prediction.args[key] ? "" : " (pinned)";
+        console.log(`${CONTRACT_SPECS[key].label}: ${prediction.addresses[key]}${pinned}`);
+      }
+    }
+    console.log("");
+  }
+
+  if (predictions.length > 1) {
+    console.log("=== Cross-chain ===");
+    for (const key of CONTRACT_KEYS) {
+      const addresses = predictions.map((p) => p.addresses[key]?.toLowerCase());
+      if (addresses.every((address) => !address)) {
+        continue;
+      }
+      const label = CONTRACT_SPECS[key].label;
+      if (new Set(addresses).size === 1) {
+        console.log(`✓ ${label}: same address on every network`);
+        continue;
+      }
+      const inPredictions = predictions.filter((p) => p.args[key]);
+      const reasons = [
+        ...(inPredictions.length < predictions.length ? ["pinned or not deployed on some networks"] : []),
+        ...(new Set(predictions.map((p) => p.salt)).size > 1 ? ["salt"] : []),
+        ...differingArgs(key, inPredictions).map((name) => `args.${name}`),
+      ];
+      console.log(`⚠️  ${label}: differs across networks (${reasons.join(", ")})`);
+    }
+  }
+
+  if (process.env.PREDICT_OUTPUT) {
+    const output = {
+      deployer,
+      factory,
+      networks: Object.fromEntries(predictions.map((p) => [p.network, { salt: p.salt, contracts: p.addresses }])),
+    };
+    fs.writeFileSync(path.resolve(process.env.PREDICT_OUTPUT), JSON.stringify(output, null, 2));
+    console.log(`\n✓ Predictions written to ${process.env.PREDICT_OUTPUT}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
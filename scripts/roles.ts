@@ -0,0 +1,384 @@
+/**
+ * Role graph helpers
+ *
+ * Reconstructs who holds which AccessControl role on the managed contracts by replaying
+ * RoleGranted/RoleRevoked events, confirms every holder with hasRole(), and writes signed
+ * role graph reports (deployments/{network}.roles.json).
+ *
+ * Events are scanned from the block recorded as `startBlock` in deployments/{network}.json
+ * (override with ROLE_SCAN_FROM_BLOCK) in chunks of ROLE_SCAN_BLOCK_RANGE blocks.
+ *
+ * ROLE POLICIES:
+ * scripts/policies/{network}.json (falling back to default.json, override with ROLE_POLICY)
+ * lists, per contract, the accounts allowed to hold each role and the expected token owner:
+ *   { "contracts": { "registry": { "ADMIN_ROLE": ["$accounts.admin"] }, "token": { "owner": "$accounts.admin" } } }
+ * Holders use the manifest reference syntax ($deployer, $accounts.<name>, $contracts.<key>)
+ * or literal addresses; policies may `extends` another policy. A role missing from the
+ * policy of a contract may not be held by anyone.
+ */
+
+import hre from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { Interface, ZeroHash, getBytes, id, isAddress, keccak256, toUtf8Bytes, verifyMessage } from "ethers";
+import {
+  CONTRACT_KEYS,
+  CONTRACT_SPECS,
+  ContractKey,
+  ManifestValidationError,
+  ResolutionContext,
+  isPlainObject,
+  isReference,
+  readManifestFile,
+  resolveReference,
+} from "./manifest";
+import { DEPLOYMENTS_DIR } from "./deployments";
+
+// Roles defined by the protocol contracts and TimelockController
+export const KNOWN_ROLES = [
+  "DEFAULT_ADMIN_ROLE",
+  "ADMIN_ROLE",
+  "GOVERNANCE_ROLE",
+  "ROUTER_ROLE",
+  "TREASURER_ROLE",
+  "COUNCIL_MEMBER_ROLE",
+  "PAUSER_ROLE",
+  "EMERGENCY_ROLE",
+  "KEEPER_ROLE",
+  "PROPOSER_ROLE",
+  "EXECUTOR_ROLE",
+  "CANCELLER_ROLE",
+];
+
+const DEFAULT_BLOCK_RANGE = 10000;
+
+export const POLICIES_DIR = path.join(__dirname, "policies");
+
+const roleEvents = new Interface([
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function owner() view returns (address)",
+]);
+
+export interface ContractRoles {
+  address: string;
+  roles: Record<string, string[]>; // role name (or hash when unknown) => holders
+  owner?: string;
+}
+
+export type RoleGraph = Partial<Record<ContractKey, ContractRoles>>;
+
+export interface RoleGraphReport {
+  network: string;
+  chainId: string;
+  blockNumber: number;
+  generatedAt: string;
+  contracts: RoleGraph;
+  labels: Record<string, string>; // lowercased address => human-readable name
+  warnings: string[];
+  signoff?: {
+    signer: string;
+    digest: string; // keccak256 of the report without `signoff`
+    signature: string; // EIP-191 signature of the digest
+  };
+}
+
+export function roleHash(role: string): string {
+  return role === "DEFAULT_ADMIN_ROLE" ? ZeroHash : id(role);
+}
+
+export function roleName(hash: string): string {
+  return KNOWN_ROLES.find((role) => roleHash(role) === hash.toLowerCase()) ?? hash;
+}
+
+/**
+ * Replay RoleGranted/RoleRevoked events of one contract and confirm the result on chain
+ * (`provider` defaults to the network hardhat is connected to)
+ */
+export async function getRoleHolders(
+  address: string,
+  fromBlock: number,
+  toBlock: number,
+  provider: any = (hre as any).ethers.provider
+): Promise<Record<string, string[]>> {
+  const range = Number(process.env.ROLE_SCAN_BLOCK_RANGE || DEFAULT_BLOCK_RANGE);
+  const topics = [[roleEvents.getEvent("RoleGranted")!.topicHash, roleEvents.getEvent("RoleRevoked")!.topicHash]];
+
+  const holders = new Map<string, Set<string>>();
+  for (let start = fromBlock; start <= toBlock; start += range) {
+    const logs = await provider.getLogs({ address, topics, fromBlock: start, toBlock: Math.min(start + range - 1, toBlock) });
+    for (const log of logs) {
+      const event = roleEvents.parseLog(log)!;
+      const role = String(event.args.role).toLowerCase();
+      const set = holders.get(role) ?? new Set<string>();
+      if (event.name === "RoleGranted") {
+        set.add(event.args.account);
+      } else {
+        set.delete(event.args.account);
+      }
+      holders.set(role, set);
+    }
+  }
+
+  const contract = new (hre as any).ethers.Contract(address, roleEvents, provider);
+  const roles: Record<string, string[]> = {};
+  for (const [role, accounts] of holders) {
+    const confirmed: string[] = [];
+    for (const account of accounts) {
+      if (await contract.hasRole(role, account, { blockTag: toBlock })) {
+        confirmed.push(account);
+      }
+    }
+    if (confirmed.length > 0) {
+      roles[roleName(role)] = confirmed;
+    }
+  }
+  return roles;
+}
+
+/**
+ * Role graph of every managed contract
+ */
+export async function buildRoleGraph(
+  addresses: Partial<Record<ContractKey, string>>,
+  fromBlock: number,
+  toBlock: number,
+  provider: any = (hre as any).ethers.provider
+): Promise<RoleGraph> {
+  const graph: RoleGraph = {};
+  for (const key of CONTRACT_KEYS) {
+    const address = addresses[key];
+    if (!address || key === "treasuryAsset") {
+      continue;
+    }
+    const entry: ContractRoles = { address, roles: await getRoleHolders(address, fromBlock, toBlock, provider) };
+    if (key === "token") {
+      const token = new (hre as any).ethers.Contract(address, roleEvents, provider);
+      entry.owner = await token.owner({ blockTag: toBlock });
+    }
+    graph[key] = entry;
+  }
+  return graph;
+}
+
+/**
+ * Default first block to scan for role events
+ */
+export function getScanStartBlock(startBlock?: number): number {
+  if (process.env.ROLE_SCAN_FROM_BLOCK) {
+    return Number(process.env.ROLE_SCAN_FROM_BLOCK);
+  }
+  return startBlock ?? 0;
+}
+
+function reportDigest(report: RoleGraphReport): string {
+  const { signoff, ...body } = report;
+  return keccak256(toUtf8Bytes(JSON.stringify(body)));
+}
+
+/**
+ * Sign the report with `signer` (EIP-191 over the digest of the report body)
+ */
+export async function signRoleGraphReport(report: RoleGraphReport, signer: any): Promise<RoleGraphReport> {
+  const digest = reportDigest(report);
+  const signature = await signer.signMessage(getBytes(digest));
+  return { ...report, signoff: { signer: await signer.getAddress(), digest, signature } };
+}
+
+/**
+ * Check that a report is unmodified and signed by the recorded signer
+ */
+export function verifyRoleGraphReport(report: RoleGraphReport): boolean {
+  if (!report.signoff) {
+    return false;
+  }
+  const digest = reportDigest(report);
+  return (
+    digest === report.signoff.digest &&
+    verifyMessage(getBytes(digest), report.signoff.signature).toLowerCase() === report.signoff.signer.toLowerCase()
+  );
+}
+
+export function saveRoleGraphReport(networkName: string, report: RoleGraphReport): string {
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) {
+    fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  }
+  const file = path.join(DEPLOYMENTS_DIR, `${networkName}.roles.json`);
+  fs.writeFileSync(file, JSON.stringify(report, null, 2));
+  return file;
+}
+
+/**
+ * Human-readable role graph, one line per role
+ */
+export function formatRoleGraph(graph: RoleGraph, labels: Record<string, string>): string[] {
+  const label = (address: string) => {
+    const name = labels[address.toLowerCase()];
+    return name ? `${address} (${name})` : address;
+  };
+  const lines: string[] = [];
+  for (const key of CONTRACT_KEYS) {
+    const entry = graph[key];
+    if (!entry) {
+      continue;
+    }
+    lines.push(`${CONTRACT_SPECS[key].label} ${entry.address}`);
+    if (entry.owner) {
+      lines.push(`  owner: ${label(entry.owner)}`);
+    }
+    for (const [role, holders] of Object.entries(entry.roles)) {
+      lines.push(`  ${role}: ${holders.map(label).join(", ")}`);
+    }
+  }
+  return lines;
+}
+
+export interface RolePolicy {
+  source: string;
+  // role name => allowed holders, or "owner" => expected owner
+  contracts: Partial<Record<ContractKey, Record<string, string | string[]>>>;
+}
+
+export type ExpectedRoles = Partial<Record<ContractKey, Record<string, string[]>>>;
+
+export interface RoleFinding {
+  severity: "unexpected" | "missing";
+  contract: ContractKey;
+  role: string; // role name, or "owner"
+  account: string;
+}
+
+/**
+ * Resolve the role policy path for a network (ROLE_POLICY takes precedence)
+ */
+export function getRolePolicyPath(networkName: string): string {
+  if (process.env.ROLE_POLICY) {
+    return path.resolve(process.env.ROLE_POLICY);
+  }
+  const networkPolicy = path.join(POLICIES_DIR, `${networkName}.json`);
+  return fs.existsSync(networkPolicy) ? networkPolicy : path.join(POLICIES_DIR, "default.json");
+}
+
+/**
+ * Load and validate the role policy for a network
+ */
+export function loadRolePolicy(networkName: string, file: string = getRolePolicyPath(networkName)): RolePolicy {
+  const raw = readManifestFile(file, [], "role policy");
+  const issues: string[] = [];
+  for (const key of Object.keys(raw)) {
+    if (key !== "contracts") {
+      issues.push(`${key}: unknown key`);
+    }
+  }
+
+  const validateHolder = (value: unknown, key: string): void => {
+    if (typeof value !== "string") {
+      issues.push(`${key}: expected an address or reference`);
+    } else if (isReference(value)) {
+      const contractMatch = value.match(/^\$contracts\.(\w+)$/);
+      if (contractMatch && !CONTRACT_KEYS.includes(contractMatch[1] as ContractKey)) {
+        issues.push(`${key}: unknown contract ${contractMatch[1]}`);
+      } else if (!contractMatch && !/^\$(deployer|zero|signer:\d+|accounts\.\w+)$/.test(value)) {
+        issues.push(`${key}: unknown reference ${value}`);
+      }
+    } else if (!isAddress(value)) {
+      issues.push(`${key}: invalid address ${value}`);
+    }
+  };
+
+  const contracts: RolePolicy["contracts"] = {};
+  if (!isPlainObject(raw.contracts)) {
+    issues.push("contracts: expected an object");
+  } else {
+    for (const [contractKey, roles] of Object.entries(raw.contracts)) {
+      const key = `contracts.${contractKey}`;
+      if (!CONTRACT_KEYS.includes(contractKey as ContractKey)) {
+        issues.push(`${key}: unknown contract`);
+        continue;
+      }
+      if (!isPlainObject(roles)) {
+        issues.push(`${key}: expected an object`);
+        continue;
+      }
+      for (const [role, holders] of Object.entries(roles)) {
+        if (role === "owner") {
+          validateHolder(holders, `${key}.owner`);
+        } else if (!/^[A-Z_]+_ROLE$/.test(role)) {
+          issues.push(`${key}.${role}: expected a role constant name or "owner"`);
+        } else if (!Array.isArray(holders)) {
+          issues.push(`${key}.${role}: expected an array of holders`);
+        } else {
+          holders.forEach((holder, i) => validateHolder(holder, `${key}.${role}[${i}]`));
+        }
+      }
+      contracts[contractKey as ContractKey] = roles;
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ManifestValidationError(file, issues, "role policy");
+  }
+  return { source: file, contracts };
+}
+
+/**
+ * Resolve policy references to addresses. Holders referencing contracts that are not
+ * deployed are dropped.
+ */
+export function resolveRolePolicy(policy: RolePolicy, ctx: ResolutionContext): ExpectedRoles {
+  const expected: ExpectedRoles = {};
+  for (const [contractKey, roles] of Object.entries(policy.contracts)) {
+    const resolved: Record<string, string[]> = {};
+    for (const [role, holders] of Object.entries(roles!)) {
+      resolved[role] = [holders].flat().flatMap((holder) => {
+        if (!isReference(holder)) {
+          return [holder];
+        }
+        if (holder.startsWith("$contracts.") && !ctx.addresses[holder.slice("$contracts.".length) as ContractKey]) {
+          return [];
+        }
+        return [resolveReference(holder, ctx)].flat();
+      });
+    }
+    expected[contractKey as ContractKey] = resolved;
+  }
+  return expected;
+}
+
+/**
+ * Compare a role graph with the expected holders
+ */
+export function auditRoleGraph(graph: RoleGraph, expected: ExpectedRoles): RoleFinding[] {
+  const findings: RoleFinding[] = [];
+  const includes = (list: string[], account: string) => list.some((a) => a.toLowerCase() === account.toLowerCase());
+
+  for (const key of CONTRACT_KEYS) {
+    const entry = graph[key];
+    if (!entry) {
+      continue;
+    }
+    const policy = expected[key] ?? {};
+    for (const [role, holders] of Object.entries(entry.roles)) {
+      for (const holder of holders) {
+        if (!includes(policy[role] ?? [], holder)) {
+          findings.push({ severity: "unexpected", contract: key, role, account: holder });
+        }
+      }
+    }
+    for (const [role, holders] of Object.entries(policy)) {
+      if (role === "owner") {
+        if (entry.owner && holders.length > 0 && !includes(holders, entry.owner)) {
+          findings.push({ severity: "unexpected", contract: key, role, account: entry.owner });
+        }
+        continue;
+      }
+      for (const holder of holders) {
+        if (!includes(entry.roles[role] ?? [], holder)) {
+          findings.push({ severity: "missing", contract: key, role, account: holder });
+        }
+      }
+    }
+  }
+  return findings;
+}
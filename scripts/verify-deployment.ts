@@ -2,10 +2,123 @@
  * @title Production Deployment Verification Script
  * @notice Verifies all contracts are deployed correctly and configured for production
  * @dev Run this script after deployment to ensure everything is production-ready
+ *
+ * USAGE:
+ *   npx hardhat run scripts/verify-deployment.ts --network sepolia
+ *   VERIFY_NETWORKS=sepolia,baseSepolia npx hardhat run scripts/verify-deployment.ts
+ *
+ * Addresses come from deployments/{network}.json, as written by scripts/deploy.ts. The
+ * variables deploy.ts exports to .env (REVENUE_ROUTER_ADDRESS, ...) override single entries;
+ * prefix them with the network name (BASE_SEPOLIA_REVENUE_ROUTER_ADDRESS) to target one network
+ * when several are verified. Networks other than --network are reached through the RPC URL
+ * configured in hardhat.config.ts. A consolidated report is written to
+ * deployments/verification-report.json (override with VERIFY_REPORT).
+ *
+ * Wiring checks compare the cross-contract references (router, timelock, registry, role
+ * grants...) with the deployed addresses, so a redeploy that leaves one contract pointing at
+ * a stale sibling fails verification.
+ *
+ * The role graph audit reconstructs every role holder from RoleGranted/RoleRevoked events
+ * and compares it with the role policy of the network (see scripts/roles.ts). Findings are
+ * written to deployments/{network}.role-audit.json (override with ROLE_AUDIT_OUTPUT, where
+ * `{network}` is replaced by the network name); any
+ * unexpected holder fails the run, missing holders are reported as warnings.
  */
 
-import { ethers } from "hardhat";
-import { Contract } from "ethers";
+import { artifacts, config, ethers, network as hardhatNetwork } from "hardhat";
+import { Contract, JsonRpcProvider, Wallet } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CONTRACT_KEYS,
+  CONTRACT_SPECS,
+  ContractKey,
+  ResolutionContext,
+  getChainDisplayName,
+  loadManifest,
+  resolveAccounts,
+} from "./manifest";
+import { ADDRESS_ENV_VARS, DEPLOYMENTS_DIR, DeploymentAddresses, loadDeploymentAddresses } from "./deployments";
+import {
+  RoleFinding,
+  auditRoleGraph,
+  buildRoleGraph,
+  formatRoleGraph,
+  getScanStartBlock,
+  loadRolePolicy,
+  resolveRolePolicy,
+} from "./roles";
+
+type Addresses = Partial<Record<ContractKey, string>>;
+
+interface NetworkTarget {
+  name: string;
+  provider: any;
+  signerAddresses: string[];
+}
+
+interface NetworkResult {
+  network: string;
+  chainId?: string;
+  deployed: boolean;
+  configured: boolean;
+  wiring: boolean;
+  roles: boolean;
+  error?: string;
+}
+
+function getNetworks(): string[] {
+  if (process.env.VERIFY_NETWORKS) {
+    return process.env.VERIFY_NETWORKS.split(",").map((name) => name.trim()).filter(Boolean);
+  }
+  return [hardhatNetwork.name];
+}
+
+/**
+ * Provider and local accounts of a network: the connected network uses the hardhat
+ * provider, other networks their configured RPC URL
+ */
+async function connect(networkName: string): Promise<NetworkTarget> {
+  if (networkName === hardhatNetwork.name) {
+    const signers = await ethers.getSigners();
+    return { name: networkName, provider: ethers.provider, signerAddresses: signers.map((signer: any) => signer.address) };
+  }
+  const networkConfig = config.networks[networkName] as any;
+  if (!networkConfig?.url) {
+    throw new Error(`Network ${networkName} has no RPC URL configured in hardhat.config.ts`);
+  }
+  const provider = new JsonRpcProvider(networkConfig.url);
+  // "remote" means the node manages the accounts (e.g. localhost)
+  const signerAddresses: string[] = Array.isArray(networkConfig.accounts)
+    ? networkConfig.accounts.map((key: string) => new Wallet(key).address)
+    : networkConfig.accounts === "remote"
+      ? await provider.send("eth_accounts", [])
+      : [];
+  return { name: networkName, provider, signerAddresses };
+}
+
+/**
+ * Addresses recorded in deployments/{network}.json, with .env overrides applied
+ */
+function loadAddresses(networkName: string, deployment: DeploymentAddresses | null): Addresses {
+  const addresses: Addresses = { ...deployment?.contracts };
+  const prefix = networkName.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+  for (const key of CONTRACT_KEYS) {
+    const variable = ADDRESS_ENV_VARS[key];
+    const override =
+      process.env[`${prefix}_${variable}`] || (networkName === hardhatNetwork.name ? process.env[variable] : undefined);
+    if (override && override !== addresses[key]) {
+      console.log(`  ${CONTRACT_SPECS[key].label}: ${override} (from .env)`);
+      addresses[key] = override;
+    }
+  }
+  return addresses;
+}
+
+async function contractAt(name: string, address: string, provider: any): Promise<any> {
+  const { abi } = await artifacts.readArtifact(name);
+  return new Contract(address, abi, provider);
+}
 
 interface DeploymentConfig {
   network: string;
@@ -18,31 +131,6 @@ interface DeploymentConfig {
   };
 }
 
-async function verifyContract(
-  name: string,
-  address: string,
-  constructorArgs: any[],
-  libraries?: { [key: string]: string }
-): Promise<boolean> {
-  try {
-    console.log(`\nðŸ” Verifying ${name} at ${address}...`);
-    await hre.run("verify:verify", {
-      address: address,
-      constructorArguments: constructorArgs,
-      libraries: libraries,
-    });
-    console.log(`âœ… ${name} verified successfully`);
-    return true;
-  } catch (error: any) {
-    if (error.message.includes("Already Verified")) {
-      console.log(`âœ… ${name} already verified`);
-      return true;
-    }
-    console.error(`âŒ Failed to verify ${name}:`, error.message);
-    return false;
-  }
-}
-
 async function checkContractConfiguration(
   contract: Contract,
   name: string,
@@ -69,30 +157,289 @@ async function checkContractConfiguration(
   return allPassed;
 }
 
-async function main() {
-  console.log("ðŸš€ Starting Production Deployment Verification...\n");
+interface WiringCheck {
+  description: string;
+  check: () => Promise<string | undefined>; // mismatch details, undefined when consistent
+}
+
+/**
+ * `read()` must return `expected`
+ */
+function pointsTo(description: string, read: () => Promise<string>, expected: string): WiringCheck {
+  return {
+    description,
+    check: async () => {
+      const actual = await read();
+      return actual.toLowerCase() === expected.toLowerCase() ? undefined : `found ${actual}, expected ${expected}`;
+    },
+  };
+}
 
-  const [deployer] = await ethers.getSigners();
-  const network = await ethers.provider.getNetwork();
-  console.log(`Network: ${network.name} (Chain ID: ${network.chainId})`);
-  console.log(`Deployer: ${deployer.address}\n`);
-
-  // Load deployment addresses from environment or deployment artifacts
-  // In production, these should be stored in a deployment registry
-  const deploymentAddresses = {
-    treasuryAsset: process.env.TREASURY_ASSET || "",
-    VastitasToken: process.env.MONTE_DAO_TOKEN || "",
-    treasuryVault: process.env.TREASURY_VAULT || "",
-    pluginRegistry: process.env.PLUGIN_REGISTRY || "",
-    swapModule: process.env.SWAP_MODULE || "",
-    revenueRouter: process.env.REVENUE_ROUTER || "",
-    distributor: process.env.DISTRIBUTOR || "",
-    timelock: process.env.TIMELOCK || "",
-    council: process.env.COUNCIL || "",
-    governance: process.env.GOVERNANCE || "",
-    emergencyCouncil: process.env.EMERGENCY_COUNCIL || "",
-    uniswapRouter: process.env.UNISWAP_V3_ROUTER || "",
+/**
+ * `account` must hold `role` on `contract`
+ */
+function holdsRole(description: string, contract: any, role: string, account: string): WiringCheck {
+  return {
+    description,
+    check: async () => ((await contract.hasRole(await contract[role](), account)) ? undefined : `${account} lacks ${role}`),
   };
+}
+
+/**
+ * Check that contracts reference each other consistently. References to contracts whose
+ * address is unknown are skipped.
+ */
+async function checkWiring(addresses: Addresses, provider: any): Promise<boolean> {
+  const {
+    treasuryAsset,
+    token,
+    treasury: treasuryVault,
+    registry: pluginRegistry,
+    swapModule,
+    router: revenueRouter,
+    distributor,
+    timelock,
+    council,
+    governance,
+    emergencyCouncil,
+  } = addresses;
+  const groups: Array<{ name: string; checks: WiringCheck[] }> = [];
+
+  if (swapModule) {
+    const contract = await contractAt("SwapModule", swapModule, provider);
+    groups.push({
+      name: "SwapModule",
+      checks: [
+        ...(revenueRouter ? [pointsTo("router() is the RevenueRouter", () => contract.router(), revenueRouter)] : []),
+        ...(treasuryAsset
+          ? [pointsTo("Treasury asset matches", () => contract.getTreasuryAsset(), treasuryAsset)]
+          : []),
+        ...(timelock ? [pointsTo("timelock() is the Timelock", () => contract.timelock(), timelock)] : []),
+      ],
+    });
+  }
+
+  if (pluginRegistry && treasuryVault) {
+    const contract = await contractAt("PluginRegistry", pluginRegistry, provider);
+    groups.push({
+      name: "PluginRegistry",
+      checks: [pointsTo("bondTreasury() is the TreasuryVault", () => contract.bondTreasury(), treasuryVault)],
+    });
+  }
+
+  if (revenueRouter) {
+    const contract = await contractAt("RevenueRouter", revenueRouter, provider);
+    groups.push({
+      name: "RevenueRouter",
+      checks: [
+        ...(pluginRegistry
+          ? [pointsTo("pluginRegistry() is the PluginRegistry", () => contract.pluginRegistry(), pluginRegistry)]
+          : []),
+        ...(swapModule ? [pointsTo("swapModule() is the SwapModule", () => contract.swapModule(), swapModule)] : []),
+        ...(token ? [pointsTo("vastitasToken() is the Vastitas token", () => contract.vastitasToken(), token)] : []),
+        ...(treasuryVault
+          ? [pointsTo("treasuryVault() is the TreasuryVault", () => contract.treasuryVault(), treasuryVault)]
+          : []),
+        ...(distributor
+          ? [pointsTo("distributor() is the Distributor", () => contract.distributor(), distributor)]
+          : []),
+        ...(timelock ? [pointsTo("timelock() is the Timelock", () => contract.timelock(), timelock)] : []),
+      ],
+    });
+  }
+
+  if (distributor) {
+    const contract = await contractAt("Distributor", distributor, provider);
+    groups.push({
+      name: "Distributor",
+      checks: [
+        ...(revenueRouter
+          ? [holdsRole("ROUTER_ROLE is held by the RevenueRouter", contract, "ROUTER_ROLE", revenueRouter)]
+          : []),
+        ...(token ? [pointsTo("stakeToken() is the Vastitas token", () => contract.stakeToken(), token)] : []),
+        ...(treasuryAsset
+          ? [pointsTo("rewardToken() is the treasury asset", () => contract.rewardToken(), treasuryAsset)]
+          : []),
+      ],
+    });
+  }
+
+  if (governance) {
+    const contract = await contractAt("Governance", governance, provider);
+    groups.push({
+      name: "Governance",
+      checks: [
+        ...(timelock ? [pointsTo("timelock() is the Timelock", () => contract.timelock(), timelock)] : []),
+        ...(token ? [pointsTo("token() is the Vastitas token", () => contract.token(), token)] : []),
+        ...(council ? [pointsTo("council() is the Council", () => contract.council(), council)] : []),
+      ],
+    });
+  }
+
+  if (council) {
+    const contract = await contractAt("Council", council, provider);
+    groups.push({
+      name: "Council",
+      checks: [
+        ...(governance
+          ? [holdsRole("GOVERNANCE_ROLE is held by Governance", contract, "GOVERNANCE_ROLE", governance)]
+          : []),
+        ...(token ? [pointsTo("token() is the Vastitas token", () => contract.token(), token)] : []),
+      ],
+    });
+  }
+
+  if (emergencyCouncil) {
+    const contract = await contractAt("EmergencyCouncil", emergencyCouncil, provider);
+    groups.push({
+      name: "EmergencyCouncil",
+      checks: [
+        ...(pluginRegistry
+          ? [pointsTo("pluginRegistry() is the PluginRegistry", () => contract.pluginRegistry(), pluginRegistry)]
+          : []),
+        ...(revenueRouter
+          ? [pointsTo("revenueRouter() is the RevenueRouter", () => contract.revenueRouter(), revenueRouter)]
+          : []),
+        ...(swapModule ? [pointsTo("swapModule() is the SwapModule", () => contract.swapModule(), swapModule)] : []),
+        {
+          description: "No single member can act alone",
+          check: async () => {
+            const threshold = await contract.tighteningThreshold();
+            return threshold > 1n ? undefined : `tighteningThreshold is ${threshold}`;
+          },
+        },
+      ],
+    });
+  }
+
+  console.log("\n🔗 Checking wiring consistency...");
+  let allPassed = true;
+  for (const { name, checks } of groups) {
+    for (const { description, check } of checks) {
+      try {
+        const mismatch = await check();
+        if (mismatch) {
+          console.log(`  ❌ ${name}: ${description} - ${mismatch}`);
+          allPassed = false;
+        } else {
+          console.log(`  ✅ ${name}: ${description}`);
+        }
+      } catch (error: any) {
+        console.log(`  ❌ ${name}: ${description} - Error: ${error.message}`);
+        allPassed = false;
+      }
+    }
+  }
+  return allPassed;
+}
+
+/**
+ * Audit role holders against the role policy; returns false when an unexpected holder is found
+ */
+async function auditRoles(
+  target: NetworkTarget,
+  addresses: Addresses,
+  deployment: DeploymentAddresses | null
+): Promise<boolean> {
+  const { name: networkName, provider, signerAddresses } = target;
+  console.log("\n🔐 Auditing role graph...");
+
+  const auditedAddresses = { ...addresses };
+  delete auditedAddresses.treasuryAsset;
+  const chainId = (await provider.getNetwork()).chainId;
+  const ctx: ResolutionContext = {
+    chainDisplayName: getChainDisplayName(chainId, networkName),
+    signerAddresses: [deployment?.deployer ?? signerAddresses[0], ...signerAddresses.slice(1)],
+    accounts: {},
+    addresses: auditedAddresses,
+  };
+  ctx.accounts = resolveAccounts(loadManifest(networkName), ctx);
+
+  const policy = loadRolePolicy(networkName);
+  console.log(`  Policy: ${policy.source}`);
+  const blockNumber = await provider.getBlockNumber();
+  const graph = await buildRoleGraph(auditedAddresses, getScanStartBlock(deployment?.startBlock), blockNumber, provider);
+  const findings = auditRoleGraph(graph, resolveRolePolicy(policy, ctx));
+  const unexpected = findings.filter((finding) => finding.severity === "unexpected");
+
+  const labels: Record<string, string> = {};
+  for (const [key, address] of Object.entries(auditedAddresses)) {
+    labels[address.toLowerCase()] = CONTRACT_SPECS[key as ContractKey].label;
+  }
+  for (const [name, value] of Object.entries(ctx.accounts)) {
+    for (const account of [value].flat()) {
+      labels[account.toLowerCase()] ??= name;
+    }
+  }
+  labels[ctx.signerAddresses[0].toLowerCase()] ??= "deployer";
+  for (const line of formatRoleGraph(graph, labels)) {
+    console.log(`  ${line}`);
+  }
+
+  const describe = (finding: RoleFinding) => {
+    const label = labels[finding.account.toLowerCase()];
+    const account = label ? `${finding.account} (${label})` : finding.account;
+    const contract = CONTRACT_SPECS[finding.contract].label;
+    if (finding.role === "owner") {
+      return `${contract} is owned by ${account}`;
+    }
+    return finding.severity === "unexpected"
+      ? `${account} holds ${finding.role} on ${contract}`
+      : `${account} does not hold ${finding.role} on ${contract}`;
+  };
+  for (const finding of findings) {
+    console.log(`  ${finding.severity === "unexpected" ? "❌" : "⚠️ "} ${describe(finding)}`);
+  }
+  if (findings.length === 0) {
+    console.log("  ✅ Role holders match the policy");
+  }
+
+  const report = {
+    network: networkName,
+    chainId: chainId.toString(),
+    blockNumber,
+    generatedAt: new Date().toISOString(),
+    policy: policy.source,
+    ok: unexpected.length === 0,
+    findings,
+    contracts: graph,
+  };
+  const output = process.env.ROLE_AUDIT_OUTPUT
+    ? path.resolve(process.env.ROLE_AUDIT_OUTPUT.replace(/\{network\}/g, networkName))
+    : path.join(DEPLOYMENTS_DIR, `${networkName}.role-audit.json`);
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, JSON.stringify(report, null, 2));
+  console.log(`  Report: ${output}`);
+
+  return report.ok;
+}
+
+async function verifyNetwork(networkName: string): Promise<NetworkResult> {
+  const target = await connect(networkName);
+  const { provider } = target;
+  const network = await provider.getNetwork();
+  const deployment = loadDeploymentAddresses(networkName);
+  const deployer = deployment?.deployer ?? target.signerAddresses[0];
+  console.log(`Network: ${networkName} (Chain ID: ${network.chainId})`);
+  console.log(`Deployer: ${deployer}\n`);
+
+  if (!deployment) {
+    console.log(`  ⚠️  No deployment record for ${networkName}, using .env addresses only`);
+  }
+  const addresses = loadAddresses(networkName, deployment);
+  const deploymentAddresses: Record<string, string> = {};
+  for (const key of CONTRACT_KEYS) {
+    if (addresses[key]) {
+      deploymentAddresses[CONTRACT_SPECS[key].label] = addresses[key]!;
+    }
+  }
+  if (addresses.swapModule) {
+    const swapModule = await contractAt("SwapModule", addresses.swapModule, provider);
+    const uniswapRouter = await swapModule.uniswapRouter().catch(() => ethers.ZeroAddress);
+    if (uniswapRouter !== ethers.ZeroAddress) {
+      deploymentAddresses["Uniswap V3 Router"] = uniswapRouter;
+    }
+  }
 
   const verificationResults: { [key: string]: boolean } = {};
   const configurationResults: { [key: string]: boolean } = {};
@@ -105,7 +452,7 @@ async function main() {
       continue;
     }
 
-    const code = await ethers.provider.getCode(address);
+    const code = await provider.getCode(address);
     if (code === "0x") {
       console.log(`  âŒ ${name}: No contract at ${address}`);
       verificationResults[name] = false;
@@ -116,8 +463,8 @@ async function main() {
   }
 
   // Verify SwapModule configuration
-  if (deploymentAddresses.swapModule) {
-    const swapModule = await ethers.getContractAt("SwapModule", deploymentAddresses.swapModule);
+  if (addresses.swapModule) {
+    const swapModule = await contractAt("SwapModule", addresses.swapModule, provider);
     const configPassed = await checkContractConfiguration(
       swapModule,
       "SwapModule",
@@ -149,11 +496,8 @@ async function main() {
   }
 
   // Verify RevenueRouter configuration
-  if (deploymentAddresses.revenueRouter) {
-    const revenueRouter = await ethers.getContractAt(
-      "RevenueRouter",
-      deploymentAddresses.revenueRouter
-    );
+  if (addresses.router) {
+    const revenueRouter = await contractAt("RevenueRouter", addresses.router, provider);
     const configPassed = await checkContractConfiguration(
       revenueRouter,
       "RevenueRouter",
@@ -192,18 +536,18 @@ async function main() {
   }
 
   // Verify PluginRegistry configuration
-  if (deploymentAddresses.pluginRegistry) {
-    const registry = await ethers.getContractAt("PluginRegistry", deploymentAddresses.pluginRegistry);
+  if (addresses.registry) {
+    const registry = await contractAt("PluginRegistry", addresses.registry, provider);
     const configPassed = await checkContractConfiguration(
       registry,
       "PluginRegistry",
       [
         {
-          description: "Admin role is set",
+          description: "Deployer has renounced the admin role",
           check: async () => {
             const adminRole = await registry.DEFAULT_ADMIN_ROLE();
-            const hasAdmin = await registry.hasRole(adminRole, deployer.address);
-            return hasAdmin;
+            const hasAdmin = await registry.hasRole(adminRole, deployer);
+            return !hasAdmin;
           },
         },
       ]
@@ -211,9 +555,12 @@ async function main() {
     configurationResults["PluginRegistry"] = configPassed;
   }
 
+  const wiringPassed = await checkWiring(addresses, provider);
+  const rolesPassed = await auditRoles(target, addresses, deployment);
+
   // Summary
   console.log("\n" + "=".repeat(60));
-  console.log("ðŸ“Š Verification Summary");
+  console.log(`ðŸ“Š Verification Summary (${networkName})`);
   console.log("=".repeat(60));
 
   const allDeployed = Object.values(verificationResults).every((v) => v);
@@ -221,8 +568,65 @@ async function main() {
 
   console.log(`\nDeployment Status: ${allDeployed ? "âœ… PASS" : "âŒ FAIL"}`);
   console.log(`Configuration Status: ${allConfigured ? "âœ… PASS" : "âŒ FAIL"}`);
+  console.log(`Wiring Status: ${wiringPassed ? "âœ… PASS" : "âŒ FAIL"}`);
+  console.log(`Role Audit Status: ${rolesPassed ? "âœ… PASS" : "âŒ FAIL"}`);
+
+  return {
+    network: networkName,
+    chainId: network.chainId.toString(),
+    deployed: allDeployed,
+    configured: allConfigured,
+    wiring: wiringPassed,
+    roles: rolesPassed,
+  };
+}
+
+async function main() {
+  console.log("ðŸš€ Starting Production Deployment Verification...\n");
+
+  const results: NetworkResult[] = [];
+  for (const networkName of getNetworks()) {
+    console.log("=".repeat(60));
+    try {
+      results.push(await verifyNetwork(networkName));
+    } catch (error: any) {
+      console.log(`❌ ${networkName}: ${error.message}`);
+      results.push({ network: networkName, deployed: false, configured: false, wiring: false, roles: false, error: error.message });
+    }
+    console.log("");
+  }
+
+  const passed = (result: NetworkResult) =>
+    !result.error && result.deployed && result.configured && result.wiring && result.roles;
+  if (results.length > 1) {
+    console.log("=".repeat(60));
+    console.log("📊 Consolidated Report");
+    console.log("=".repeat(60));
+    const status = (ok: boolean) => (ok ? "PASS" : "FAIL");
+    for (const result of results) {
+      const columns = result.error
+        ? `ERROR: ${result.error}`
+        : [
+            `deployment ${status(result.deployed)}`,
+            `configuration ${status(result.configured)}`,
+            `wiring ${status(result.wiring)}`,
+            `roles ${status(result.roles)}`,
+          ].join("  ");
+      console.log(`${passed(result) ? "✅" : "❌"} ${result.network.padEnd(16)} ${columns}`);
+    }
+  }
+
+  const reportFile = process.env.VERIFY_REPORT
+    ? path.resolve(process.env.VERIFY_REPORT)
+    : path.join(DEPLOYMENTS_DIR, "verification-report.json");
+  fs.mkdirSync(path.dirname(reportFile), { recursive: true });
+  fs.writeFileSync(
+    reportFile,
+    JSON.stringify({ generatedAt: new Date().toISOString(), ok: results.every(passed), networks: results }, null, 2)
+  );
+  console.log(`\nReport: ${reportFile}`);
 
-  if (allDeployed && allConfigured) {
+  if (results.every(passed)) {
     console.log("\nðŸŽ‰ All checks passed! Contracts are production-ready.");
     process.exit(0);
   } else {
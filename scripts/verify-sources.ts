@@ -0,0 +1,208 @@
+/**
+ * Block explorer source verification
+ *
+ * Replays the constructor arguments recorded in deployments/{network}.json (see
+ * scripts/deployments.ts) through hardhat-verify for every contract deployed by the pipeline,
+ * plus the CREATE2 factory when one was used. Contracts pinned in the manifest are skipped.
+ *
+ * USAGE:
+ *   npx hardhat run scripts/verify-sources.ts --network sepolia
+ *   VERIFY_NETWORKS=all npx hardhat run scripts/verify-sources.ts
+ *
+ * - VERIFY_NETWORKS: comma-separated networks, or "all" for every network configured in
+ *   hardhat.config.ts that has a deployment record (defaults to --network)
+ * - VERIFY_RETRIES: attempts per contract (default 5); explorers often need a few blocks
+ *   before they can see freshly deployed bytecode
+ * - VERIFY_RETRY_DELAY: seconds between attempts (default 15)
+ *
+ * Every network other than --network is verified in its own hardhat process. The run ends
+ * with a per-contract status table and exits non-zero when a verification failed.
+ */
+
+import hre from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { CONTRACT_KEYS, CONTRACT_SPECS } from "./manifest";
+import { LOCAL_NETWORKS } from "./create2";
+import { getDeploymentPath, loadDeploymentAddresses } from "./deployments";
+
+type SourceStatus = "verified" | "already verified" | "failed" | "skipped";
+
+interface SourceResult {
+  network: string;
+  contract: string;
+  address: string;
+  status: SourceStatus;
+  attempts: number;
+  message?: string;
+}
+
+function getNetworks(): string[] {
+  const requested = process.env.VERIFY_NETWORKS;
+  if (!requested) {
+    return [hre.network.name];
+  }
+  if (requested === "all") {
+    return Object.keys(hre.config.networks).filter(
+      (name) => !LOCAL_NETWORKS.includes(name) && fs.existsSync(getDeploymentPath(name))
+    );
+  }
+  return requested.split(",").map((name) => name.trim()).filter(Boolean);
+}
+
+/**
+ * Verify one contract, retrying until the explorer accepts it or attempts run out
+ */
+async function verifyContract(
+  network: string,
+  name: string,
+  artifactName: string,
+  address: string,
+  constructorArgs: any[],
+  attempts: number,
+  delaySeconds: number
+): Promise<SourceResult> {
+  const { sourceName } = await hre.artifacts.readArtifact(artifactName);
+  let message = "";
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      console.log(`\n🔍 Verifying ${name} at ${address} (attempt ${attempt}/${attempts})...`);
+      await hre.run("verify:verify", {
+        address,
+        constructorArguments: constructorArgs,
+        contract: `${sourceName}:${artifactName}`,
+      });
+      console.log(`✅ ${name} verified successfully`);
+      return { network, contract: name, address, status: "verified", attempts: attempt };
+    } catch (error: any) {
+      message = error.message.split("\n")[0];
+      if (/already verified/i.test(error.message)) {
+        console.log(`✅ ${name} already verified`);
+        return { network, contract: name, address, status: "already verified", attempts: attempt };
+      }
+      console.error(`❌ Failed to verify ${name}: ${message}`);
+      if (attempt < attempts) {
+        await new Promise((resolve) => setTimeout(resolve, delaySeconds * 1000));
+      }
+    }
+  }
+  return { network, contract: name, address, status: "failed", attempts, message };
+}
+
+/**
+ * Verify every recorded contract of the network hardhat is connected to
+ */
+async function verifyConnectedNetwork(): Promise<SourceResult[]> {
+  const network = hre.network.name;
+  const deployment = loadDeploymentAddresses(network);
+  if (!deployment) {
+    throw new Error(`No deployment record for ${network} (${getDeploymentPath(network)})`);
+  }
+  const attempts = Number(process.env.VERIFY_RETRIES || 5);
+  const delaySeconds = Number(process.env.VERIFY_RETRY_DELAY || 15);
+
+  const results: SourceResult[] = [];
+  if (deployment.create2) {
+    results.push(
+      await verifyContract(network, "Create2Deployer", "Create2Deployer", deployment.create2.factory, [], attempts, delaySeconds)
+    );
+  }
+  for (const key of CONTRACT_KEYS) {
+    const address = deployment.contracts[key];
+    if (!address) {
+      continue;
+    }
+    const spec = CONTRACT_SPECS[key];
+    const args = deployment.constructorArgs?.[key];
+    if (!args) {
+      results.push({
+        network,
+        contract: spec.label,
+        address,
+        status: "skipped",
+        attempts: 0,
+        message: "no recorded constructor arguments (pinned or deployed outside the pipeline)",
+      });
+      continue;
+    }
+    results.push(await verifyContract(network, spec.label, spec.artifact, address, args, attempts, delaySeconds));
+  }
+  return results;
+}
+
+/**
+ * Run this script for another network in a child hardhat process and collect its results
+ */
+function verifyInChildProcess(network: string): SourceResult[] {
+  const resultsFile = path.join(os.tmpdir(), `verify-sources-${network}-${process.pid}.json`);
+  const child = spawnSync(
+    "npx",
+    ["hardhat", "--config", hre.config.paths.configFile, "run", __filename, "--network", network],
+    { stdio: "inherit", env: { ...process.env, VERIFY_NETWORKS: network, VERIFY_RESULTS_FILE: resultsFile } }
+  );
+  if (!fs.existsSync(resultsFile)) {
+    throw new Error(`Verification of ${network} exited with status ${child.status}`);
+  }
+  const results = JSON.parse(fs.readFileSync(resultsFile, "utf-8")) as SourceResult[];
+  fs.unlinkSync(resultsFile);
+  return results;
+}
+
+function printTable(results: SourceResult[]): void {
+  const headers = ["Network", "Contract", "Address", "Attempts", "Status"];
+  const rows = results.map((result) => [
+    result.network,
+    result.contract,
+    result.address,
+    String(result.attempts),
+    result.message && result.status !== "verified" ? `${result.status} (${result.message})` : result.status,
+  ]);
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map((row) => row[i].length)));
+  // The status column is last and left unpadded, messages can be long
+  const format = (row: string[]) => row.map((cell, i) => (i < row.length - 1 ? cell.padEnd(widths[i]) : cell)).join("  ");
+  console.log(format(headers));
+  for (const row of rows) {
+    console.log(format(row));
+  }
+}
+
+async function main() {
+  const results: SourceResult[] = [];
+  for (const network of getNetworks()) {
+    if (LOCAL_NETWORKS.includes(network)) {
+      console.log(`⏭️  Skipping ${network}: local networks have no block explorer`);
+      continue;
+    }
+    try {
+      results.push(...(network === hre.network.name ? await verifyConnectedNetwork() : verifyInChildProcess(network)));
+    } catch (error: any) {
+      console.error(`❌ ${network}: ${error.message}`);
+      results.push({ network, contract: "-", address: "-", status: "failed", attempts: 0, message: error.message });
+    }
+  }
+
+  if (process.env.VERIFY_RESULTS_FILE) {
+    // Child process: hand the results back to the parent, which prints the table
+    fs.writeFileSync(process.env.VERIFY_RESULTS_FILE, JSON.stringify(results, null, 2));
+    return;
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("Source Verification");
+  console.log("=".repeat(60));
+  printTable(results);
+
+  const failed = results.filter((result) => result.status === "failed");
+  if (failed.length > 0) {
+    throw new Error(`${failed.length} contract(s) could not be verified`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error.message ?? error);
+    process.exit(1);
+  });
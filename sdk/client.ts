@@ -0,0 +1,555 @@
+/**
+ * High-level client over the typechain bindings
+ *
+ *   const client = VastitasClient.fromDeployment("sepolia", signer);
+ *   const plugin = await client.getPlugin(pluginAddress);
+ *   const preview = await client.previewReceiveYield({ pluginId, asset, amount });
+ *
+ * Reads work with any ethers runner; transactions need a Signer. Methods that move tokens
+ * approve the exact amount first when the current allowance is too low.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ContractRunner, ContractTransactionReceipt, Signer, ZeroAddress, isAddress } from "ethers";
+import {
+  Distributor,
+  Distributor__factory,
+  EmergencyCouncil,
+  EmergencyCouncil__factory,
+  Governance,
+  Governance__factory,
+  IERC20__factory,
+  PluginRegistry,
+  PluginRegistry__factory,
+  RevenueRouter,
+  RevenueRouter__factory,
+  SwapModule,
+  SwapModule__factory,
+} from "../typechain-types";
+import { DEPLOYMENTS_DIR, DeploymentAddresses } from "../scripts/deployments";
+import { hashProposal, proposeWithTypeArgs } from "./proposals";
+import {
+  BatchConfig,
+  ClaimDevShareOptions,
+  DevShareBalance,
+  DevShareRecipient,
+  DistributionModel,
+  EmergencyCaps,
+  EmergencyMeasures,
+  PluginBond,
+  PluginCaps,
+  PluginMetadata,
+  PluginTier,
+  PolicyPreview,
+  PendingBatch,
+  Proposal,
+  ProposalAction,
+  ProposalType,
+  ReceiveYieldParams,
+  TierBond,
+  TierConfig,
+  YieldHeadroom,
+  YieldPreview,
+} from "./types";
+
+export type VastitasAddresses = DeploymentAddresses["contracts"];
+
+export class VastitasClient {
+  readonly registry: PluginRegistry;
+  readonly router: RevenueRouter;
+  readonly swapModule?: SwapModule;
+  readonly distributor?: Distributor;
+  readonly governance?: Governance;
+  readonly emergencyCouncil?: EmergencyCouncil;
+
+  constructor(readonly addresses: VastitasAddresses, readonly runner: ContractRunner) {
+    if (!addresses.registry || !addresses.router) {
+      throw new Error("VastitasClient: registry and router addresses are required");
+    }
+    this.registry = PluginRegistry__factory.connect(addresses.registry, runner);
+    this.router = RevenueRouter__factory.connect(addresses.router, runner);
+    if (addresses.swapModule) {
+      this.swapModule = SwapModule__factory.connect(addresses.swapModule, runner);
+    }
+    if (addresses.distributor) {
+      this.distributor = Distributor__factory.connect(addresses.distributor, runner);
+    }
+    if (addresses.governance) {
+      this.governance = Governance__factory.connect(addresses.governance, runner);
+    }
+    if (addresses.emergencyCouncil) {
+      this.emergencyCouncil = EmergencyCouncil__factory.connect(addresses.emergencyCouncil, runner);
+    }
+  }
+
+  /**
+   * Client for the contracts recorded in deployments/{network}.json by scripts/deploy.ts
+   */
+  static fromDeployment(network: string, runner: ContractRunner, deploymentsDir: string = DEPLOYMENTS_DIR): VastitasClient {
+    const file = path.join(deploymentsDir, `${network}.json`);
+    if (!fs.existsSync(file)) {
+      throw new Error(`VastitasClient: no deployment record for ${network} (${file})`);
+    }
+    const deployment = JSON.parse(fs.readFileSync(file, "utf-8")) as DeploymentAddresses;
+    return new VastitasClient(deployment.contracts, runner);
+  }
+
+  /**
+   * Same contracts, another runner (e.g. a different signer)
+   */
+  connect(runner: ContractRunner): VastitasClient {
+    return new VastitasClient(this.addresses, runner);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Plugins
+  // ---------------------------------------------------------------------------
+
+  async registerPlugin(pluginAddress: string): Promise<{ pluginId: string; receipt: ContractTransactionReceipt }> {
+    const bond = await this.getTierBond(PluginTier.UNTRUSTED);
+    if (bond.amount > 0n) {
+      await this.approve(bond.token, await this.registry.getAddress(), bond.amount);
+    }
+    const receipt = await this.send(this.registry.registerPlugin(pluginAddress));
+    return { pluginId: await this.registry.getPluginId(pluginAddress), receipt };
+  }
+
+  /**
+   * Plugin metadata by plugin id or plugin address
+   */
+  async getPlugin(pluginIdOrAddress: string): Promise<PluginMetadata> {
+    const pluginId = isAddress(pluginIdOrAddress)
+      ? await this.registry.getPluginId(pluginIdOrAddress)
+      : pluginIdOrAddress;
+    const metadata = await this.registry.getPlugin(pluginId);
+    if (metadata.pluginAddress === ZeroAddress) {
+      throw new Error(`VastitasClient: plugin ${pluginIdOrAddress} is not registered`);
+    }
+    return {
+      pluginId: metadata.pluginId,
+      pluginAddress: metadata.pluginAddress,
+      tier: Number(metadata.tier) as PluginTier,
+      underlyingAssets: [...metadata.underlyingAssets],
+      routeTo: metadata.routeTo,
+      registrationBlock: metadata.registrationBlock,
+      isActive: metadata.isActive,
+    };
+  }
+
+  async getPlugins(): Promise<PluginMetadata[]> {
+    const pluginIds = await this.registry.getAllPluginIds();
+    return Promise.all(pluginIds.map((pluginId) => this.getPlugin(pluginId)));
+  }
+
+  async getTierConfig(tier: PluginTier): Promise<TierConfig> {
+    const config = await this.registry.getTierConfig(tier);
+    return {
+      maxConversionAmount: config.maxConversionAmount,
+      maxSlippageBps: config.maxSlippageBps,
+      allowAutoSwap: config.allowAutoSwap,
+      quarantineMode: config.quarantineMode,
+    };
+  }
+
+  async getPluginCaps(pluginId: string): Promise<PluginCaps> {
+    const caps = await this.registry.getPluginCaps(pluginId);
+    return { enabled: caps.enabled, maxConversionAmount: caps.maxConversionAmount, maxSlippageBps: caps.maxSlippageBps };
+  }
+
+  /**
+   * Dev share split the router pays for a plugin
+   */
+  async getDevShareSplit(pluginId: string): Promise<DevShareRecipient[]> {
+    const split = await this.registry.getDevShareSplit(pluginId);
+    return split.map(({ recipient, bps }) => ({ recipient, bps }));
+  }
+
+  async getTierBond(tier: PluginTier): Promise<TierBond> {
+    const { token, amount } = await this.registry.getTierBond(tier);
+    return { token, amount };
+  }
+
+  async getPluginBond(pluginId: string): Promise<PluginBond> {
+    const { depositor, token, amount, unlocksAt } = await this.registry.getPluginBond(pluginId);
+    return { depositor, token, amount, unlocksAt };
+  }
+
+  /**
+   * Bring a plugin's bond up to what a tier requires, e.g. before proposing its promotion
+   */
+  async topUpBond(pluginId: string, tier: PluginTier): Promise<ContractTransactionReceipt> {
+    const required = await this.getTierBond(tier);
+    const bond = await this.getPluginBond(pluginId);
+    if (bond.amount > 0n && bond.token.toLowerCase() !== required.token.toLowerCase()) {
+      throw new Error(`VastitasClient: the bond is in ${bond.token}, the ${PluginTier[tier]} tier requires ${required.token}`);
+    }
+    if (bond.amount >= required.amount) {
+      throw new Error(`VastitasClient: the bond already covers the ${PluginTier[tier]} tier`);
+    }
+    const amount = required.amount - bond.amount;
+    await this.approve(required.token, await this.registry.getAddress(), amount);
+    return this.send(this.registry.topUpBond(pluginId, required.token, amount));
+  }
+
+  /**
+   * Take over a plugin's depositor rights as the plugin's owner, e.g. after someone else registered it
+   */
+  async claimDepositor(pluginId: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.registry.claimDepositor(pluginId));
+  }
+
+  /**
+   * Retire a plugin; its bond becomes refundable through withdrawBond at PluginBond.unlocksAt
+   */
+  async retirePlugin(pluginId: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.registry.retirePlugin(pluginId));
+  }
+
+  async withdrawBond(pluginId: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.registry.withdrawBond(pluginId));
+  }
+
+  async getEmergencyCaps(pluginId: string): Promise<EmergencyCaps> {
+    const [active, caps, expiresAt] = await this.registry.getEmergencyCaps(pluginId);
+    return {
+      active,
+      caps: { enabled: caps.enabled, maxConversionAmount: caps.maxConversionAmount, maxSlippageBps: caps.maxSlippageBps },
+      expiresAt,
+    };
+  }
+
+  /**
+   * Emergency quarantines and cap reductions still in effect, plus the SwapModule pause and the
+   * EmergencyCouncil mandate
+   */
+  async getEmergencyMeasures(): Promise<EmergencyMeasures> {
+    const measures: EmergencyMeasures = {
+      mandateActive: false,
+      swapsPaused: this.swapModule ? await this.swapModule.paused() : false,
+      quarantines: [],
+      capReductions: [],
+    };
+    if (this.emergencyCouncil) {
+      measures.mandateEnd = await this.emergencyCouncil.mandateEnd();
+      measures.mandateActive = await this.emergencyCouncil.isMandateActive();
+    }
+
+    for (const pluginId of await this.registry.getAllPluginIds()) {
+      const [quarantined, quarantineExpiresAt] = await this.registry.getEmergencyQuarantine(pluginId);
+      if (quarantined) {
+        measures.quarantines.push({ pluginId, expiresAt: quarantineExpiresAt });
+      }
+      const { active, caps, expiresAt } = await this.getEmergencyCaps(pluginId);
+      if (active) {
+        measures.capReductions.push({ pluginId, caps, expiresAt });
+      }
+    }
+    return measures;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Yield routing
+  // ---------------------------------------------------------------------------
+
+  /**
+   * How much more normalized yield a plugin can credit before the router quarantines the rest
+   */
+  async getYieldHeadroom(pluginId: string): Promise<YieldHeadroom> {
+    const [maxYieldPerWindow, window] = await this.registry.getEffectiveRateLimit(pluginId);
+    const [headroom, used, resetsAt] = await this.router.getYieldHeadroom(pluginId);
+    return { maxYieldPerWindow, window, used, headroom, resetsAt };
+  }
+
+  async getBatchConfig(asset: string): Promise<BatchConfig> {
+    const [enabled, minBatchAmount, maxBatchDelay] = await this.router.getBatchConfig(asset);
+    return { enabled, minBatchAmount, maxBatchDelay };
+  }
+
+  /**
+   * Yield of an asset awaiting the keeper's batch conversion, per contributing plugin
+   */
+  async getPendingBatch(asset: string): Promise<PendingBatch> {
+    const [total, openedAt, maxSlippageBps, pluginIds] = await this.router.getPendingBatch(asset);
+    const contributions = await Promise.all(
+      pluginIds.map(async (pluginId) => ({ pluginId, amount: await this.router.getPendingYield(pluginId, asset) }))
+    );
+    return { total, openedAt, maxSlippageBps, ready: await this.router.isBatchReady(asset), contributions };
+  }
+
+  /**
+   * Mirror of RevenueRouter.receiveYield: dev share, routing decision and the revert reason,
+   * if any, for a payment sent by the plugin itself
+   */
+  async previewReceiveYield(params: ReceiveYieldParams): Promise<YieldPreview> {
+    const { pluginId, asset, amount } = params;
+    const devRecipient = params.devShare?.devRecipient ?? ZeroAddress;
+    const devBps = BigInt(params.devShare?.devBps ?? 0);
+    const preview: YieldPreview = {
+      devCut: 0n,
+      daoCut: amount,
+      action: "accumulate",
+      maxConversionAmount: 0n,
+      maxSlippageBps: 0n,
+      headroom: 0n,
+    };
+    const revert = (reason: string): YieldPreview => ({ ...preview, revertReason: reason });
+
+    if (await this.router.paused()) return revert("EnforcedPause()");
+    if (asset === ZeroAddress) return revert("RevenueRouter: zero asset");
+    if (amount === 0n) return revert("RevenueRouter: zero amount");
+
+    const plugin = await this.registry.getPlugin(pluginId);
+    if (plugin.pluginAddress === ZeroAddress) return revert("RevenueRouter: plugin not found");
+    if (!plugin.isActive) return revert("RevenueRouter: plugin inactive");
+    if (!plugin.underlyingAssets.some((underlying) => underlying.toLowerCase() === asset.toLowerCase())) {
+      return revert("RevenueRouter: invalid asset for plugin");
+    }
+
+    if (devRecipient !== ZeroAddress && devBps > 0n) {
+      if (devBps > (await this.router.MAX_DEV_SHARE_BPS())) return revert("RevenueRouter: dev share exceeds max");
+    }
+    // The registered split is paid whatever the per-call dev share says
+    for (const { bps } of await this.getDevShareSplit(pluginId)) {
+      preview.devCut += (amount * BigInt(bps)) / 10000n;
+    }
+    preview.daoCut = amount - preview.devCut;
+
+    [preview.headroom] = await this.router.getYieldHeadroom(pluginId);
+    const tierConfig = await this.registry.getTierConfig(plugin.tier);
+    const caps = await this.registry.getPluginCaps(pluginId);
+    preview.maxConversionAmount = tierConfig.maxConversionAmount;
+    preview.maxSlippageBps = tierConfig.maxSlippageBps;
+    if (caps.enabled) {
+      if (caps.maxConversionAmount > 0n && caps.maxConversionAmount < preview.maxConversionAmount) {
+        preview.maxConversionAmount = caps.maxConversionAmount;
+      }
+      if (caps.maxSlippageBps > 0n && caps.maxSlippageBps < preview.maxSlippageBps) {
+        preview.maxSlippageBps = caps.maxSlippageBps;
+      }
+    }
+
+    if (tierConfig.quarantineMode || !tierConfig.allowAutoSwap) {
+      preview.action = "quarantine";
+      return preview;
+    }
+
+    const swapModule = this.swapModule ?? SwapModule__factory.connect(await this.router.swapModule(), this.runner);
+    const treasuryAsset = await swapModule.getTreasuryAsset();
+    if (asset.toLowerCase() === treasuryAsset.toLowerCase()) {
+      return preview;
+    }
+    // Conversions paused by the emergency council: the router keeps the yield in custody
+    if (await swapModule.paused()) {
+      preview.action = "quarantine";
+      return preview;
+    }
+    // Batched assets join the pending batch (unless it is full) and are checked against the oracle on conversion
+    const [batchEnabled] = await this.router.getBatchConfig(asset);
+    const batched =
+      batchEnabled &&
+      ((await this.router.getPendingYield(pluginId, asset)) > 0n ||
+        (await this.router.getPendingBatch(asset)).pluginIds.length < Number(await this.router.MAX_BATCH_PLUGINS()));
+    // Venue price too far from the oracle: the router fails closed into quarantine
+    if (!batched && !(await swapModule.isWithinOracleBounds.staticCall(asset, preview.daoCut, preview.maxSlippageBps))) {
+      preview.action = "quarantine";
+      return preview;
+    }
+    preview.action = batched ? "batch" : "convert";
+    if (preview.maxConversionAmount !== 0n && preview.daoCut > preview.maxConversionAmount) {
+      return revert("RevenueRouter: conversion amount exceeds cap");
+    }
+    if (batched) {
+      return preview;
+    }
+    if (!(await swapModule.isRouteWhitelisted(asset, treasuryAsset))) {
+      return revert("SwapModule: route not whitelisted");
+    }
+    const [venue] = await swapModule.getSwapRoute(asset);
+    if (venue === ZeroAddress && (await swapModule.uniswapRouter()) === ZeroAddress) {
+      return revert("SwapModule: uniswap router not configured");
+    }
+    return preview;
+  }
+
+  /**
+   * Send yield as the plugin (the runner must be the plugin account)
+   */
+  async receiveYield(params: ReceiveYieldParams): Promise<ContractTransactionReceipt> {
+    const signer = this.signer();
+    const plugin = await this.registry.getPlugin(params.pluginId);
+    if (plugin.pluginAddress.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+      throw new Error("VastitasClient: receiveYield must be sent by the plugin (RevenueRouter: unauthorized plugin)");
+    }
+    const preview = await this.previewReceiveYield(params);
+    if (preview.revertReason) {
+      throw new Error(`VastitasClient: receiveYield would revert: ${preview.revertReason}`);
+    }
+    await this.approve(params.asset, await this.router.getAddress(), params.amount);
+    const devShare = params.devShare ?? { devRecipient: ZeroAddress, devBps: 0 };
+    return this.send(this.router.receiveYield(params.pluginId, params.asset, params.amount, devShare));
+  }
+
+  /**
+   * Dev share held for a recipient, by default in every plugin asset plus the treasury asset
+   */
+  async getDevShareBalances(recipient?: string, assets?: string[]): Promise<DevShareBalance[]> {
+    const account = recipient ?? (await this.signer().getAddress());
+    if (!assets) {
+      const all = (await this.getPlugins()).flatMap((plugin) => plugin.underlyingAssets);
+      all.push(await this.treasuryAsset());
+      assets = [...new Map(all.map((asset) => [asset.toLowerCase(), asset])).values()];
+    }
+    return Promise.all(
+      assets.map(async (asset) => {
+        const [accrued, claimed, pending] = await this.router.getDevShareReceived(account, asset);
+        return { asset, accrued, claimed, pending };
+      })
+    );
+  }
+
+  /**
+   * Claim the signer's pending dev share; assets with nothing pending are skipped
+   */
+  async claimDevShare(assets: string[], options: ClaimDevShareOptions = {}): Promise<ContractTransactionReceipt> {
+    const signer = this.signer();
+    const balances = await this.getDevShareBalances(await signer.getAddress(), assets);
+    const claimable = balances.filter(({ pending }) => pending > 0n).map(({ asset }) => asset);
+    if (claimable.length === 0) {
+      throw new Error("VastitasClient: no dev share to claim");
+    }
+    return this.send(
+      this.router.claimDevShare(
+        claimable,
+        options.to ?? (await signer.getAddress()),
+        options.normalize ?? false,
+        options.maxSlippageBps ?? 0
+      )
+    );
+  }
+
+  /**
+   * Mirror of RevenueRouter.applyPolicy: where the accumulated yield would go
+   */
+  async previewApplyPolicy(): Promise<PolicyPreview> {
+    const model = Number(await this.router.distributionModel()) as DistributionModel;
+    const accumulatedYield = await this.router.getAccumulatedYield();
+    if (model !== DistributionModel.HYBRID) {
+      return { model, accumulatedYield, toDistributor: accumulatedYield, toTreasury: 0n };
+    }
+    // Buyback is deprecated: its share goes to stakers as well
+    const buyback = (accumulatedYield * (await this.router.buybackShareBps())) / 10000n;
+    const staker = (accumulatedYield * (await this.router.stakerShareBps())) / 10000n;
+    return {
+      model,
+      accumulatedYield,
+      toDistributor: buyback + staker,
+      toTreasury: accumulatedYield - buyback - staker,
+    };
+  }
+
+  async applyPolicy(): Promise<ContractTransactionReceipt> {
+    return this.send(this.router.applyPolicy());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Staking
+  // ---------------------------------------------------------------------------
+
+  async stake(amount: bigint): Promise<ContractTransactionReceipt> {
+    const distributor = this.requireDistributor();
+    await this.approve(await distributor.stakeToken(), await distributor.getAddress(), amount);
+    return this.send(distributor.stake(amount));
+  }
+
+  async unstake(amount: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(this.requireDistributor().unstake(amount));
+  }
+
+  async claimRewards(epoch: bigint | number): Promise<ContractTransactionReceipt> {
+    return this.send(this.requireDistributor().claimRewards(epoch));
+  }
+
+  async getStakedAmount(account?: string): Promise<bigint> {
+    return this.requireDistributor().getStakedAmount(account ?? (await this.signer().getAddress()));
+  }
+
+  async getEpochRewards(epoch: bigint | number): Promise<bigint> {
+    return this.requireDistributor().getEpochRewards(epoch);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Governance
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Proposal type Governance requires for a set of actions: the strictest type among them, with
+   * functions missing from its selector map counted as UPGRADE
+   */
+  async classifyProposal(actions: ProposalAction[]): Promise<ProposalType> {
+    const governance = this.requireGovernance();
+    return Number(
+      await governance.classifyProposal(
+        actions.map((action) => action.target),
+        actions.map((action) => action.calldata)
+      )
+    ) as ProposalType;
+  }
+
+  /**
+   * Submit a proposal built with the helpers in ./proposals
+   */
+  async propose(proposal: Proposal): Promise<{ proposalId: bigint; receipt: ContractTransactionReceipt }> {
+    const governance = this.requireGovernance();
+    const receipt = await this.send(governance.proposeWithType(...proposeWithTypeArgs(proposal)));
+    return { proposalId: hashProposal(proposal), receipt };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private signer(): Signer {
+    if (!this.runner || typeof (this.runner as Signer).getAddress !== "function") {
+      throw new Error("VastitasClient: a Signer is required to send transactions");
+    }
+    return this.runner as Signer;
+  }
+
+  private async treasuryAsset(): Promise<string> {
+    return this.swapModule
+      ? this.swapModule.getTreasuryAsset()
+      : SwapModule__factory.connect(await this.router.swapModule(), this.runner).getTreasuryAsset();
+  }
+
+  private requireGovernance(): Governance {
+    if (!this.governance) {
+      throw new Error("VastitasClient: governance address is not configured");
+    }
+    return this.governance;
+  }
+
+  private requireDistributor(): Distributor {
+    if (!this.distributor) {
+      throw new Error("VastitasClient: distributor address is not configured");
+    }
+    return this.distributor;
+  }
+
+  private async approve(token: string, spender: string, amount: bigint): Promise<void> {
+    const signer = this.signer();
+    const erc20 = IERC20__factory.connect(token, signer);
+    if ((await erc20.allowance(await signer.getAddress(), spender)) < amount) {
+      await this.send(erc20.approve(spender, amount));
+    }
+  }
+
+  private async send(tx: Promise<{ wait(): Promise<ContractTransactionReceipt | null> }>): Promise<ContractTransactionReceipt> {
+    this.signer();
+    const receipt = await (await tx).wait();
+    if (!receipt) {
+      throw new Error("VastitasClient: transaction was dropped");
+    }
+    return receipt;
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./proposals";
+export * from "./client";
+export * from "./state";
@@ -0,0 +1,292 @@
+/**
+ * Governance proposal builders
+ *
+ * Every builder returns a ProposalAction (target, value, calldata) for Governance.proposeWithType.
+ * Parameters are checked against the same constraints the target contract enforces, so an
+ * invalid proposal fails here instead of at execution time after the voting period.
+ */
+
+import { AbiCoder, Interface, id, keccak256 } from "ethers";
+import {
+  EmergencyCouncil__factory,
+  Governance__factory,
+  PluginRegistry__factory,
+  RevenueRouter__factory,
+  TreasuryVault__factory,
+} from "../typechain-types";
+import {
+  BatchConfig,
+  DevShareRecipient,
+  DistributionModel,
+  PluginCaps,
+  PluginTier,
+  Proposal,
+  ProposalAction,
+  TierConfig,
+} from "./types";
+
+// Mirrors of RevenueRouter constants
+export const BPS_DENOMINATOR = 10000n;
+export const MAX_GOVERNANCE_REDIRECT_BPS = 3000n;
+export const MAX_BATCH_DELAY = 7n * 24n * 60n * 60n;
+
+// Mirrors of PluginRegistry and EmergencyCouncil constants
+export const MAX_EMERGENCY_QUARANTINE_WINDOW = 30n * 24n * 60n * 60n;
+export const MIN_RATE_LIMIT_WINDOW = 60n * 60n;
+export const MAX_RATE_LIMIT_WINDOW = 30n * 24n * 60n * 60n;
+export const MAX_MANDATE_TERM = 365n * 24n * 60n * 60n;
+export const MAX_DEV_SHARE_BPS = 2000n;
+export const MAX_DEV_SHARE_RECIPIENTS = 5;
+
+export interface DistributionSplits {
+  buybackBps: bigint | number;
+  stakerBps: bigint | number;
+  treasuryBps: bigint | number;
+}
+
+const routerInterface = RevenueRouter__factory.createInterface();
+const registryInterface = PluginRegistry__factory.createInterface();
+const treasuryInterface = TreasuryVault__factory.createInterface();
+const governanceInterface = Governance__factory.createInterface();
+const emergencyCouncilInterface = EmergencyCouncil__factory.createInterface();
+
+function encodeAction(target: string, iface: Interface, contractName: string, method: string, args: any[]): ProposalAction {
+  return {
+    target,
+    value: 0n,
+    calldata: iface.encodeFunctionData(method, args),
+    signature: `${contractName}.${method}(${args.map((arg) => String(arg)).join(", ")})`,
+  };
+}
+
+/**
+ * Problems RevenueRouter.setDistributionSplits would reject the splits for
+ * @param maxRedirectBps The router's MAX_GOVERNANCE_REDIRECT_BPS when read on-chain
+ */
+export function validateDistributionSplits(
+  splits: DistributionSplits,
+  maxRedirectBps: bigint = MAX_GOVERNANCE_REDIRECT_BPS
+): string[] {
+  const buyback = BigInt(splits.buybackBps);
+  const staker = BigInt(splits.stakerBps);
+  const treasury = BigInt(splits.treasuryBps);
+  const issues: string[] = [];
+  if (buyback < 0n || staker < 0n || treasury < 0n) {
+    issues.push("splits cannot be negative");
+  }
+  if (buyback + staker + treasury !== BPS_DENOMINATOR) {
+    issues.push(`splits must sum to ${BPS_DENOMINATOR} bps (got ${buyback + staker + treasury})`);
+  }
+  if (treasury > maxRedirectBps) {
+    issues.push(`treasury share ${treasury} bps exceeds MAX_GOVERNANCE_REDIRECT_BPS (${maxRedirectBps})`);
+  }
+  return issues;
+}
+
+export function setDistributionSplits(
+  router: string,
+  splits: DistributionSplits,
+  maxRedirectBps: bigint = MAX_GOVERNANCE_REDIRECT_BPS
+): ProposalAction {
+  const issues = validateDistributionSplits(splits, maxRedirectBps);
+  if (issues.length > 0) {
+    throw new Error(`Invalid distribution splits: ${issues.join("; ")}`);
+  }
+  return encodeAction(router, routerInterface, "RevenueRouter", "setDistributionSplits", [
+    BigInt(splits.buybackBps),
+    BigInt(splits.stakerBps),
+    BigInt(splits.treasuryBps),
+  ]);
+}
+
+export function setDistributionModel(router: string, model: DistributionModel): ProposalAction {
+  return encodeAction(router, routerInterface, "RevenueRouter", "setDistributionModel", [model]);
+}
+
+export function setBatchConfig(router: string, asset: string, config: BatchConfig): ProposalAction {
+  if (config.maxBatchDelay > MAX_BATCH_DELAY) {
+    throw new Error(`Invalid batch config: maxBatchDelay ${config.maxBatchDelay} exceeds ${MAX_BATCH_DELAY} seconds`);
+  }
+  return encodeAction(router, routerInterface, "RevenueRouter", "setBatchConfig", [
+    asset,
+    config.enabled,
+    config.minBatchAmount,
+    config.maxBatchDelay,
+  ]);
+}
+
+export function setPluginTier(registry: string, pluginId: string, tier: PluginTier): ProposalAction {
+  return encodeAction(registry, registryInterface, "PluginRegistry", "setPluginTier", [pluginId, tier]);
+}
+
+export function setTierConfig(registry: string, tier: PluginTier, config: TierConfig): ProposalAction {
+  if (config.maxSlippageBps > BPS_DENOMINATOR) {
+    throw new Error(`Invalid tier config: maxSlippageBps ${config.maxSlippageBps} exceeds ${BPS_DENOMINATOR}`);
+  }
+  return encodeAction(registry, registryInterface, "PluginRegistry", "setTierConfig", [
+    tier,
+    [config.maxConversionAmount, config.maxSlippageBps, config.allowAutoSwap, config.quarantineMode],
+  ]);
+}
+
+export function setPluginCaps(registry: string, pluginId: string, caps: PluginCaps): ProposalAction {
+  if (caps.maxSlippageBps > BPS_DENOMINATOR) {
+    throw new Error(`Invalid plugin caps: maxSlippageBps ${caps.maxSlippageBps} exceeds ${BPS_DENOMINATOR}`);
+  }
+  return encodeAction(registry, registryInterface, "PluginRegistry", "setPluginCaps", [
+    pluginId,
+    [caps.enabled, caps.maxConversionAmount, caps.maxSlippageBps],
+  ]);
+}
+
+/**
+ * @param maxYieldPerWindow Max normalized yield each plugin of the tier may credit per window, 0 = no limit
+ */
+export function setTierRateLimit(registry: string, tier: PluginTier, maxYieldPerWindow: bigint): ProposalAction {
+  return encodeAction(registry, registryInterface, "PluginRegistry", "setTierRateLimit", [tier, maxYieldPerWindow]);
+}
+
+/**
+ * @param maxYieldPerWindow Max normalized yield per window, tightening the tier limit; 0 = no extra limit
+ */
+export function setPluginRateLimit(registry: string, pluginId: string, maxYieldPerWindow: bigint): ProposalAction {
+  return encodeAction(registry, registryInterface, "PluginRegistry", "setPluginRateLimit", [pluginId, maxYieldPerWindow]);
+}
+
+export function setRateLimitWindow(registry: string, window: bigint): ProposalAction {
+  if (window < MIN_RATE_LIMIT_WINDOW || window > MAX_RATE_LIMIT_WINDOW) {
+    throw new Error(
+      `Invalid rate limit window: must be between ${MIN_RATE_LIMIT_WINDOW} and ${MAX_RATE_LIMIT_WINDOW} seconds`
+    );
+  }
+  return encodeAction(registry, registryInterface, "PluginRegistry", "setRateLimitWindow", [window]);
+}
+
+/**
+ * Problems PluginRegistry.setDevShareSplit would reject the recipients for
+ */
+export function validateDevShareSplit(recipients: DevShareRecipient[]): string[] {
+  const issues: string[] = [];
+  if (recipients.length > MAX_DEV_SHARE_RECIPIENTS) {
+    issues.push(`at most ${MAX_DEV_SHARE_RECIPIENTS} dev share recipients (got ${recipients.length})`);
+  }
+  const seen = new Set<string>();
+  for (const { recipient, bps } of recipients) {
+    if (/^0x0{40}$/i.test(recipient)) {
+      issues.push("dev share recipient cannot be the zero address");
+    }
+    if (BigInt(bps) <= 0n) {
+      issues.push(`dev share of ${recipient} must be positive`);
+    }
+    if (seen.has(recipient.toLowerCase())) {
+      issues.push(`duplicate dev share recipient ${recipient}`);
+    }
+    seen.add(recipient.toLowerCase());
+  }
+  const totalBps = recipients.reduce((sum, { bps }) => sum + BigInt(bps), 0n);
+  if (totalBps > MAX_DEV_SHARE_BPS) {
+    issues.push(`dev share totals ${totalBps} bps, more than MAX_DEV_SHARE_BPS (${MAX_DEV_SHARE_BPS})`);
+  }
+  return issues;
+}
+
+/**
+ * Replace a plugin's dev share split; the deploy wiring makes this a high-impact call (7-day timelock delay)
+ * @param recipients Empty to stop paying a dev share
+ */
+export function setDevShareSplit(registry: string, pluginId: string, recipients: DevShareRecipient[]): ProposalAction {
+  const issues = validateDevShareSplit(recipients);
+  if (issues.length > 0) {
+    throw new Error(`Invalid dev share split: ${issues.join("; ")}`);
+  }
+  return encodeAction(registry, registryInterface, "PluginRegistry", "setDevShareSplit", [
+    pluginId,
+    recipients.map(({ recipient, bps }) => [recipient, BigInt(bps)]),
+  ]);
+}
+
+/**
+ * @param token Treasury asset or Vastitas token
+ * @param amount 0 = no bond; applies to registrations (UNTRUSTED) and promotions afterwards
+ */
+export function setTierBond(registry: string, tier: PluginTier, token: string, amount: bigint): ProposalAction {
+  if (amount > 0n && /^0x0{40}$/i.test(token)) {
+    throw new Error("Invalid tier bond: token cannot be the zero address");
+  }
+  return encodeAction(registry, registryInterface, "PluginRegistry", "setTierBond", [tier, token, amount]);
+}
+
+/**
+ * Send part or all of a quarantined or deactivated plugin's bond to the TreasuryVault
+ */
+export function slashBond(registry: string, pluginId: string, amount: bigint): ProposalAction {
+  if (amount <= 0n) {
+    throw new Error("Invalid bond slash: amount must be positive");
+  }
+  return encodeAction(registry, registryInterface, "PluginRegistry", "slashBond", [pluginId, amount]);
+}
+
+/**
+ * Keep a plugin the EmergencyCouncil quarantined inactive after the quarantine would lapse
+ */
+export function ratifyQuarantine(registry: string, pluginId: string): ProposalAction {
+  return encodeAction(registry, registryInterface, "PluginRegistry", "deactivatePlugin", [pluginId]);
+}
+
+export function setEmergencyQuarantineWindow(registry: string, window: bigint): ProposalAction {
+  if (window <= 0n || window > MAX_EMERGENCY_QUARANTINE_WINDOW) {
+    throw new Error(`Invalid quarantine window: must be between 1 and ${MAX_EMERGENCY_QUARANTINE_WINDOW} seconds`);
+  }
+  return encodeAction(registry, registryInterface, "PluginRegistry", "setEmergencyQuarantineWindow", [window]);
+}
+
+/**
+ * @param mandateEnd Unix time the renewed mandate ends; at most MAX_MANDATE_TERM after execution
+ */
+export function renewEmergencyMandate(emergencyCouncil: string, mandateEnd: bigint): ProposalAction {
+  return encodeAction(emergencyCouncil, emergencyCouncilInterface, "EmergencyCouncil", "renewMandate", [mandateEnd]);
+}
+
+export function treasuryWithdraw(treasury: string, token: string, to: string, amount: bigint): ProposalAction {
+  if (amount <= 0n) {
+    throw new Error("Invalid treasury withdrawal: amount must be positive");
+  }
+  return encodeAction(treasury, treasuryInterface, "TreasuryVault", "withdraw", [token, to, amount]);
+}
+
+export function setUseCouncilVoting(governance: string, enabled: boolean): ProposalAction {
+  return encodeAction(governance, governanceInterface, "Governance", "setUseCouncilVoting", [enabled]);
+}
+
+export function descriptionHash(description: string): string {
+  return id(description);
+}
+
+/**
+ * Mirror of Governor.hashProposal
+ */
+export function hashProposal(proposal: Proposal): bigint {
+  const encoded = AbiCoder.defaultAbiCoder().encode(
+    ["address[]", "uint256[]", "bytes[]", "bytes32"],
+    [
+      proposal.actions.map((action) => action.target),
+      proposal.actions.map((action) => action.value),
+      proposal.actions.map((action) => action.calldata),
+      descriptionHash(proposal.description),
+    ]
+  );
+  return BigInt(keccak256(encoded));
+}
+
+/**
+ * Arguments of Governance.proposeWithType
+ */
+export function proposeWithTypeArgs(proposal: Proposal): [string[], bigint[], string[], string, number] {
+  return [
+    proposal.actions.map((action) => action.target),
+    proposal.actions.map((action) => action.value),
+    proposal.actions.map((action) => action.calldata),
+    proposal.description,
+    proposal.type,
+  ];
+}
@@ -0,0 +1,141 @@
+/**
+ * Protocol state snapshots
+ *
+ * A snapshot flattens the governable parameters and balances of a deployment into
+ * "Contract.field" keys so two snapshots can be diffed, e.g. around a proposal execution.
+ */
+
+import { ZeroAddress } from "ethers";
+import { IERC20__factory, Timelock__factory, VastitasToken__factory } from "../typechain-types";
+import { VastitasClient } from "./client";
+import { PluginTier, ProposalType } from "./types";
+
+export type StateSnapshot = Record<string, string>;
+
+export interface StateChange {
+  key: string;
+  before?: string;
+  after?: string;
+}
+
+function tierNames(): string[] {
+  return Object.keys(PluginTier).filter((key) => isNaN(Number(key)));
+}
+
+export async function captureState(client: VastitasClient): Promise<StateSnapshot> {
+  const { addresses, registry, router, swapModule, distributor, governance, emergencyCouncil, runner } = client;
+  const state: StateSnapshot = {};
+  const set = (key: string, value: unknown) => {
+    state[key] = String(value);
+  };
+
+  set("RevenueRouter.distributionModel", await router.distributionModel());
+  set("RevenueRouter.buybackShareBps", await router.buybackShareBps());
+  set("RevenueRouter.stakerShareBps", await router.stakerShareBps());
+  set("RevenueRouter.treasuryShareBps", await router.treasuryShareBps());
+  set("RevenueRouter.accumulatedYield", await router.getAccumulatedYield());
+  set("RevenueRouter.totalYield", await router.getTotalYield());
+  set("RevenueRouter.paused", await router.paused());
+
+  for (const name of tierNames()) {
+    const config = await client.getTierConfig(PluginTier[name as keyof typeof PluginTier]);
+    set(`PluginRegistry.tierConfig.${name}.maxConversionAmount`, config.maxConversionAmount);
+    set(`PluginRegistry.tierConfig.${name}.maxSlippageBps`, config.maxSlippageBps);
+    set(`PluginRegistry.tierConfig.${name}.allowAutoSwap`, config.allowAutoSwap);
+    set(`PluginRegistry.tierConfig.${name}.quarantineMode`, config.quarantineMode);
+    set(
+      `PluginRegistry.tierRateLimit.${name}`,
+      await registry.getTierRateLimit(PluginTier[name as keyof typeof PluginTier])
+    );
+    const bond = await client.getTierBond(PluginTier[name as keyof typeof PluginTier]);
+    set(`PluginRegistry.tierBond.${name}`, `${bond.token}/${bond.amount}`);
+  }
+  set("PluginRegistry.bondTreasury", await registry.bondTreasury());
+  set("PluginRegistry.emergencyQuarantineWindow", await registry.emergencyQuarantineWindow());
+  set("PluginRegistry.rateLimitWindow", await registry.rateLimitWindow());
+  const plugins = await client.getPlugins();
+  for (const plugin of plugins) {
+    const caps = await client.getPluginCaps(plugin.pluginId);
+    const prefix = `PluginRegistry.plugin.${plugin.pluginId}`;
+    set(`${prefix}.tier`, PluginTier[plugin.tier]);
+    set(`${prefix}.isActive`, plugin.isActive);
+    set(`${prefix}.caps`, `${caps.enabled}/${caps.maxConversionAmount}/${caps.maxSlippageBps}`);
+    set(`${prefix}.rateLimit`, await registry.getPluginRateLimit(plugin.pluginId));
+    const split = await client.getDevShareSplit(plugin.pluginId);
+    set(`${prefix}.devShareSplit`, split.map(({ recipient, bps }) => `${recipient}:${bps}`).join(","));
+    const bond = await client.getPluginBond(plugin.pluginId);
+    set(`${prefix}.bond`, `${bond.token}/${bond.amount}/${bond.unlocksAt}`);
+    set(`${prefix}.emergencyCapsExpiry`, (await client.getEmergencyCaps(plugin.pluginId)).expiresAt);
+    const quarantine = await registry.getEmergencyQuarantine(plugin.pluginId);
+    set(`${prefix}.emergencyQuarantineExpiry`, quarantine.expiresAt);
+    set(`${prefix}.emergencyQuarantineCooldownEnd`, quarantine.cooldownEnd);
+    set(`RevenueRouter.pluginYield.${plugin.pluginId}`, await router.getPluginYield(plugin.pluginId));
+  }
+  // Batching of the assets plugins pay in
+  const assets = new Set(plugins.flatMap((plugin) => plugin.underlyingAssets.map((asset) => asset.toLowerCase())));
+  for (const asset of assets) {
+    const config = await client.getBatchConfig(asset);
+    if (config.enabled || config.minBatchAmount > 0n || config.maxBatchDelay > 0n) {
+      set(`RevenueRouter.batchConfig.${asset}`, `${config.enabled}/${config.minBatchAmount}/${config.maxBatchDelay}`);
+    }
+    const [pendingTotal] = await router.getPendingBatch(asset);
+    if (pendingTotal > 0n) {
+      set(`RevenueRouter.pendingBatch.${asset}`, pendingTotal);
+    }
+  }
+
+  if (swapModule) {
+    set("SwapModule.paused", await swapModule.paused());
+  }
+
+  if (emergencyCouncil) {
+    set("EmergencyCouncil.mandateEnd", await emergencyCouncil.mandateEnd());
+    set("EmergencyCouncil.tighteningThreshold", await emergencyCouncil.tighteningThreshold());
+    set("EmergencyCouncil.looseningThreshold", await emergencyCouncil.looseningThreshold());
+  }
+
+  if (distributor) {
+    set("Distributor.totalStaked", await distributor.getTotalStaked());
+    set("Distributor.currentEpoch", await distributor.currentEpoch());
+  }
+
+  if (governance) {
+    set("Governance.useCouncilVoting", await governance.useCouncilVoting());
+    set("Governance.votingDelay", await governance.votingDelay());
+    set("Governance.votingPeriod", await governance.votingPeriod());
+    set("Governance.proposalThreshold", await governance.proposalThreshold());
+    set("Governance.quorumNumerator", await governance["quorumNumerator()"]());
+    for (const name of Object.keys(ProposalType).filter((key) => isNaN(Number(key)))) {
+      const type = ProposalType[name as keyof typeof ProposalType];
+      set(`Governance.proposalTypeQuorum.${name}`, await governance.proposalTypeQuorum(type));
+      set(`Governance.proposalTypeThreshold.${name}`, await governance.proposalTypeThreshold(type));
+    }
+  }
+
+  if (addresses.timelock) {
+    set("Timelock.minDelay", await Timelock__factory.connect(addresses.timelock, runner).getMinDelay());
+  }
+
+  if (addresses.token) {
+    const token = VastitasToken__factory.connect(addresses.token, runner);
+    set("VastitasToken.totalSupply", await token.totalSupply());
+    set("VastitasToken.owner", await token.owner());
+  }
+
+  if (addresses.treasury && addresses.treasuryAsset && addresses.treasuryAsset !== ZeroAddress) {
+    const asset = IERC20__factory.connect(addresses.treasuryAsset, runner);
+    set("TreasuryVault.balance.treasuryAsset", await asset.balanceOf(addresses.treasury));
+  }
+
+  return state;
+}
+
+/**
+ * Keys whose value differs between two snapshots, in snapshot order
+ */
+export function diffState(before: StateSnapshot, after: StateSnapshot): StateChange[] {
+  const keys = [...Object.keys(before), ...Object.keys(after).filter((key) => !(key in before))];
+  return keys
+    .filter((key) => before[key] !== after[key])
+    .map((key) => ({ key, before: before[key], after: after[key] }));
+}
@@ -0,0 +1,179 @@
+/**
+ * Plain TypeScript mirrors of the protocol enums and structs
+ */
+
+// PluginTypes.PluginTier
+export enum PluginTier {
+  UNTRUSTED = 0,
+  VERIFIED = 1,
+  CORE = 2,
+}
+
+// PluginTypes.DistributionModel
+export enum DistributionModel {
+  BUYBACK_ONLY = 0,
+  STAKING_REWARDS = 1,
+  HYBRID = 2,
+}
+
+// Governance.ProposalType
+export enum ProposalType {
+  REGISTRY = 0,
+  ROUTER_PARAM = 1,
+  UPGRADE = 2,
+  TREASURY = 3,
+}
+
+export interface PluginMetadata {
+  pluginId: string;
+  pluginAddress: string;
+  tier: PluginTier;
+  underlyingAssets: string[];
+  routeTo: string;
+  registrationBlock: bigint;
+  isActive: boolean;
+}
+
+export interface TierConfig {
+  maxConversionAmount: bigint; // 0 = no cap
+  maxSlippageBps: bigint;
+  allowAutoSwap: boolean;
+  quarantineMode: boolean;
+}
+
+export interface PluginCaps {
+  enabled: boolean;
+  maxConversionAmount: bigint; // 0 = no extra cap
+  maxSlippageBps: bigint; // 0 = no extra cap
+}
+
+// PluginTypes.TierBond: what registrants (UNTRUSTED) and promotions to the tier must post
+export interface TierBond {
+  token: string; // treasury asset or Vastitas token
+  amount: bigint; // 0 = no bond
+}
+
+// PluginTypes.PluginBond
+export interface PluginBond {
+  depositor: string; // registrant, unless the plugin or its owner claimed it; tops up and withdraws
+  token: string;
+  amount: bigint;
+  unlocksAt: bigint; // refundable from then on after a retirement, 0 = not retired
+}
+
+export interface EmergencyCaps {
+  active: boolean;
+  caps: PluginCaps;
+  expiresAt: bigint; // lapsed once passed, 0 = none set or cleared by governance
+}
+
+/**
+ * Emergency measures in effect: they lapse at expiresAt unless governance ratifies them
+ */
+export interface EmergencyMeasures {
+  // EmergencyCouncil mandate end, undefined when no council is configured
+  mandateEnd?: bigint;
+  mandateActive: boolean;
+  swapsPaused: boolean;
+  quarantines: { pluginId: string; expiresAt: bigint }[];
+  capReductions: { pluginId: string; caps: PluginCaps; expiresAt: bigint }[];
+}
+
+/**
+ * Rolling rate limit on a plugin's normalized yield; the excess is quarantined in the treasury asset
+ */
+export interface YieldHeadroom {
+  maxYieldPerWindow: bigint; // tier limit tightened by the plugin limit, 0 = no limit
+  window: bigint; // seconds
+  used: bigint; // credited in the current window
+  headroom: bigint; // MaxUint256 when there is no limit
+  resetsAt: bigint; // start of the next window, 0 when there is no limit
+}
+
+export interface BatchConfig {
+  enabled: boolean;
+  minBatchAmount: bigint; // pending amount at which the keeper may convert, 0 = any
+  maxBatchDelay: bigint; // seconds after the first contribution at which the keeper may convert
+}
+
+export interface PendingBatch {
+  total: bigint;
+  openedAt: bigint; // 0 when empty
+  maxSlippageBps: bigint; // tightest limit among contributors
+  ready: boolean;
+  contributions: { pluginId: string; amount: bigint }[];
+}
+
+// Per-call dev share passed to receiveYield; the router accrues the registered split regardless
+export interface DevShare {
+  devRecipient: string;
+  devBps: bigint | number;
+}
+
+// PluginTypes.DevShareRecipient: an entry of the split PluginRegistry holds for a plugin
+export interface DevShareRecipient {
+  recipient: string;
+  bps: bigint | number; // share of each yield payment
+}
+
+// Dev share the router holds for a recipient in one asset
+export interface DevShareBalance {
+  asset: string;
+  accrued: bigint;
+  claimed: bigint;
+  pending: bigint; // claimable now
+}
+
+export interface ClaimDevShareOptions {
+  to?: string; // defaults to the signer
+  normalize?: boolean; // pay non-treasury assets out in the treasury asset
+  maxSlippageBps?: bigint | number; // for normalized conversions, at most the UNTRUSTED tier's
+}
+
+export interface ReceiveYieldParams {
+  pluginId: string;
+  asset: string;
+  amount: bigint;
+  devShare?: DevShare;
+}
+
+/**
+ * What RevenueRouter.receiveYield would do with a payment
+ */
+export interface YieldPreview {
+  // Revert reason receiveYield would fail with, if any
+  revertReason?: string;
+  devCut: bigint;
+  daoCut: bigint;
+  // quarantine: held per plugin/asset; accumulate: already the treasury asset; convert: swapped first;
+  // batch: added to the asset's pending batch, swapped later by the keeper
+  action: "quarantine" | "accumulate" | "convert" | "batch";
+  maxConversionAmount: bigint; // effective cap (tier and plugin caps), 0 = no cap
+  maxSlippageBps: bigint; // effective slippage limit
+  // Normalized yield the plugin can still credit this window; the rest of the converted amount is quarantined
+  headroom: bigint;
+}
+
+/**
+ * Where RevenueRouter.applyPolicy would send the accumulated yield
+ */
+export interface PolicyPreview {
+  model: DistributionModel;
+  accumulatedYield: bigint;
+  toDistributor: bigint;
+  toTreasury: bigint;
+}
+
+export interface ProposalAction {
+  target: string;
+  value: bigint;
+  calldata: string;
+  // Human-readable call, e.g. "RevenueRouter.setDistributionSplits(7000, 2000, 1000)"
+  signature?: string;
+}
+
+export interface Proposal {
+  type: ProposalType;
+  actions: ProposalAction[];
+  description: string;
+}
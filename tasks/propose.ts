@@ -0,0 +1,646 @@
+/**
+ * Governance proposal builder
+ *
+ * Builds a typed proposal from a high-level spec, checks it against the on-chain constraints the
+ * target contract enforces at execution time, prints the preview and optionally submits it.
+ *
+ * USAGE:
+ *   npx hardhat propose router-splits --buyback 7000 --staker 2000 --treasury 1000 --network sepolia
+ *   npx hardhat propose distribution-model --model HYBRID --network sepolia
+ *   npx hardhat propose plugin-tier --plugin 0x... --tier VERIFIED --network sepolia
+ *   npx hardhat propose tier-config --tier VERIFIED --max-slippage 200 --network sepolia
+ *   npx hardhat propose treasury-withdraw --token 0x... --to 0x... --amount 1000000 --network sepolia
+ *   npx hardhat propose council-voting --enabled true --network sepolia
+ *   npx hardhat propose ratify-quarantine --plugin 0x... --network sepolia
+ *   npx hardhat propose emergency-mandate --days 180 --network sepolia
+ *   npx hardhat propose batch-config --asset 0x... --enabled true --min-batch 1000000000 --max-delay 86400 --network sepolia
+ *   npx hardhat propose rate-limit --tier VERIFIED --max-yield 50000000000 --window 86400 --network sepolia
+ *   npx hardhat propose dev-share --plugin 0x... --recipients 0xabc...:500,0xdef...:250 --network sepolia
+ *   npx hardhat propose tier-bond --tier UNTRUSTED --token 0x... --amount 1000000000 --network sepolia
+ *   npx hardhat propose slash-bond --plugin 0x... --network sepolia
+ *
+ * Nothing is sent without --submit. Contract addresses come from deployments/{network}.json.
+ * The printed descriptionHash is what Governance.queue and Governance.execute expect.
+ * tasks/rehearse.ts runs the same proposals through their whole lifecycle on a local fork.
+ */
+
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Proposal, ProposalAction, VastitasAddresses, VastitasClient } from "../sdk";
+
+const TASK_NAME = "propose";
+
+export const PROPOSAL_KINDS = [
+  "router-splits",
+  "distribution-model",
+  "plugin-tier",
+  "tier-config",
+  "treasury-withdraw",
+  "council-voting",
+  "ratify-quarantine",
+  "emergency-mandate",
+  "batch-config",
+  "rate-limit",
+  "dev-share",
+  "tier-bond",
+  "slash-bond",
+];
+
+export interface ProposalSpec {
+  kind: string;
+  buyback?: string;
+  staker?: string;
+  treasury?: string;
+  model?: string;
+  plugin?: string;
+  tier?: string;
+  maxConversion?: string;
+  maxSlippage?: string;
+  autoSwap?: string;
+  quarantine?: string;
+  token?: string;
+  to?: string;
+  amount?: string;
+  enabled?: string;
+  days?: string;
+  asset?: string;
+  minBatch?: string;
+  maxDelay?: string;
+  maxYield?: string;
+  window?: string;
+  recipients?: string;
+  description?: string;
+}
+
+interface ProposeArgs extends ProposalSpec {
+  submit: boolean;
+}
+
+export interface BuiltProposal {
+  proposal: Proposal;
+  // Reasons the proposal would revert on execution; a proposal with issues must not be submitted
+  issues: string[];
+  notes: string[];
+}
+
+/**
+ * Enum member by name ("VERIFIED") or value ("1")
+ */
+function parseEnum<T extends Record<string, string | number>>(
+  taskName: string,
+  enumType: T,
+  value: string | undefined,
+  flag: string
+): T[keyof T] {
+  const raw = required(taskName, value, flag);
+  const names = Object.keys(enumType).filter((key) => isNaN(Number(key)));
+  const name = /^\d+$/.test(raw) ? enumType[raw as keyof T] : raw.toUpperCase();
+  if (typeof name !== "string" || !names.includes(name)) {
+    throw new HardhatPluginError(taskName, `--${flag} must be one of ${names.join(", ")} (got ${value})`);
+  }
+  return enumType[name as keyof T];
+}
+
+function required(taskName: string, value: string | undefined, flag: string): string {
+  if (value === undefined || value === "") {
+    throw new HardhatPluginError(taskName, `--${flag} is required`);
+  }
+  return value;
+}
+
+function parseUint(taskName: string, value: string | undefined, flag: string): bigint {
+  if (!/^\d+$/.test(required(taskName, value, flag))) {
+    throw new HardhatPluginError(taskName, `--${flag} must be a non-negative whole number (got ${value})`);
+  }
+  return BigInt(value!);
+}
+
+function parseBool(taskName: string, value: string | undefined, flag: string): boolean {
+  if (value !== "true" && value !== "false") {
+    throw new HardhatPluginError(taskName, `--${flag} must be true or false (got ${value})`);
+  }
+  return value === "true";
+}
+
+/**
+ * Deployed addresses of the network hardhat is connected to (or `network` when given)
+ */
+export async function loadProposalContracts(
+  taskName: string,
+  hre: HardhatRuntimeEnvironment,
+  network: string = hre.network.name
+): Promise<VastitasAddresses> {
+  const { loadDeploymentAddresses, getDeploymentPath } = await import("../scripts/deployments");
+  const deployment = loadDeploymentAddresses(network);
+  if (!deployment) {
+    throw new HardhatPluginError(taskName, `No deployment record for ${network} (${getDeploymentPath(network)})`);
+  }
+  if (!deployment.contracts.governance) {
+    throw new HardhatPluginError(taskName, `No governance address in ${getDeploymentPath(network)}`);
+  }
+  return deployment.contracts;
+}
+
+/**
+ * Build the proposal for a spec and collect what the target contract would revert on
+ */
+export async function buildProposal(
+  taskName: string,
+  spec: ProposalSpec,
+  client: VastitasClient,
+  hre: HardhatRuntimeEnvironment
+): Promise<BuiltProposal> {
+  // Loaded lazily: the SDK needs typechain-types, which only exist after compiling
+  const sdk = await import("../sdk");
+  const { ethers } = hre;
+  const contracts = client.addresses;
+  const governance = client.governance!;
+  const issues: string[] = [];
+  const notes: string[] = [];
+  let proposal: Proposal;
+
+  switch (spec.kind) {
+    case "router-splits": {
+      const splits = {
+        buybackBps: parseUint(taskName, spec.buyback, "buyback"),
+        stakerBps: parseUint(taskName, spec.staker, "staker"),
+        treasuryBps: parseUint(taskName, spec.treasury, "treasury"),
+      };
+      const maxRedirectBps = await client.router.MAX_GOVERNANCE_REDIRECT_BPS();
+      issues.push(...sdk.validateDistributionSplits(splits, maxRedirectBps));
+      const currentStakerBps = await client.router.stakerShareBps();
+      if (splits.stakerBps < currentStakerBps) {
+        notes.push(`staker share drops from ${currentStakerBps} to ${splits.stakerBps} bps: only executable through the timelock`);
+      }
+      proposal = {
+        type: sdk.ProposalType.ROUTER_PARAM,
+        actions: issues.length === 0 ? [sdk.setDistributionSplits(contracts.router!, splits, maxRedirectBps)] : [],
+        description:
+          spec.description ??
+          `Set distribution splits to buyback ${splits.buybackBps}, staker ${splits.stakerBps}, treasury ${splits.treasuryBps} bps`,
+      };
+      break;
+    }
+    case "distribution-model": {
+      const model = parseEnum(taskName, sdk.DistributionModel, spec.model, "model");
+      if (Number(await client.router.distributionModel()) === model) {
+        notes.push(`distribution model is already ${sdk.DistributionModel[model]}`);
+      }
+      proposal = {
+        type: sdk.ProposalType.ROUTER_PARAM,
+        actions: [sdk.setDistributionModel(contracts.router!, model)],
+        description: spec.description ?? `Set distribution model to ${sdk.DistributionModel[model]}`,
+      };
+      break;
+    }
+    case "plugin-tier": {
+      const tier = parseEnum(taskName, sdk.PluginTier, spec.tier, "tier");
+      const plugin = await client.getPlugin(required(taskName, spec.plugin, "plugin")).catch((error: Error) => {
+        throw new HardhatPluginError(taskName, error.message);
+      });
+      if (plugin.tier === tier) {
+        notes.push(`plugin is already ${sdk.PluginTier[tier]}`);
+      }
+      if (!plugin.isActive) {
+        notes.push("plugin is deactivated");
+      }
+      if (tier > plugin.tier) {
+        const requiredBond = await client.getTierBond(tier);
+        const bond = await client.getPluginBond(plugin.pluginId);
+        const covered =
+          requiredBond.amount === 0n ||
+          (bond.token.toLowerCase() === requiredBond.token.toLowerCase() && bond.amount >= requiredBond.amount);
+        if (!covered) {
+          issues.push(
+            `the ${sdk.PluginTier[tier]} tier requires a bond of ${requiredBond.amount} of ${requiredBond.token}, ` +
+              `the plugin holds ${bond.amount} of ${bond.token} (its depositor can top it up)`
+          );
+        }
+      }
+      proposal = {
+        type: sdk.ProposalType.REGISTRY,
+        actions: [sdk.setPluginTier(contracts.registry!, plugin.pluginId, tier)],
+        description: spec.description ?? `Move plugin ${plugin.pluginId} to ${sdk.PluginTier[tier]} tier`,
+      };
+      break;
+    }
+    case "tier-config": {
+      // Fields left out keep their current on-chain value
+      const tier = parseEnum(taskName, sdk.PluginTier, spec.tier, "tier");
+      const current = await client.getTierConfig(tier);
+      const config = {
+        maxConversionAmount:
+          spec.maxConversion !== undefined ? parseUint(taskName, spec.maxConversion, "max-conversion") : current.maxConversionAmount,
+        maxSlippageBps:
+          spec.maxSlippage !== undefined ? parseUint(taskName, spec.maxSlippage, "max-slippage") : current.maxSlippageBps,
+        allowAutoSwap: spec.autoSwap !== undefined ? parseBool(taskName, spec.autoSwap, "auto-swap") : current.allowAutoSwap,
+        quarantineMode:
+          spec.quarantine !== undefined ? parseBool(taskName, spec.quarantine, "quarantine") : current.quarantineMode,
+      };
+      if (config.maxSlippageBps > sdk.BPS_DENOMINATOR) {
+        issues.push(`maxSlippageBps ${config.maxSlippageBps} exceeds ${sdk.BPS_DENOMINATOR}`);
+      }
+      proposal = {
+        type: sdk.ProposalType.REGISTRY,
+        actions: issues.length === 0 ? [sdk.setTierConfig(contracts.registry!, tier, config)] : [],
+        description:
+          spec.description ??
+          `Set ${sdk.PluginTier[tier]} tier config: max conversion ${config.maxConversionAmount}, max slippage ${config.maxSlippageBps} bps, ` +
+            `auto-swap ${config.allowAutoSwap}, quarantine ${config.quarantineMode}`,
+      };
+      break;
+    }
+    case "ratify-quarantine": {
+      const plugin = await client.getPlugin(required(taskName, spec.plugin, "plugin")).catch((error: Error) => {
+        throw new HardhatPluginError(taskName, error.message);
+      });
+      const [quarantined, expiresAt] = await client.registry.getEmergencyQuarantine(plugin.pluginId);
+      if (quarantined) {
+        notes.push(`the emergency quarantine lapses at ${expiresAt} unless this executes first`);
+      } else {
+        notes.push("plugin has no emergency quarantine in effect; this deactivates it outright");
+      }
+      const timelock = contracts.timelock ?? (await governance.timelock());
+      if (!(await client.registry.hasRole(await client.registry.ADMIN_ROLE(), timelock))) {
+        issues.push(`timelock ${timelock} lacks ADMIN_ROLE on PluginRegistry`);
+      }
+      proposal = {
+        type: sdk.ProposalType.REGISTRY,
+        actions: [sdk.ratifyQuarantine(contracts.registry!, plugin.pluginId)],
+        description: spec.description ?? `Ratify the emergency quarantine of plugin ${plugin.pluginId}`,
+      };
+      break;
+    }
+    case "emergency-mandate": {
+      const emergencyCouncil = client.emergencyCouncil;
+      if (!emergencyCouncil) {
+        throw new HardhatPluginError(taskName, "No emergencyCouncil address in the deployment record");
+      }
+      const days = parseUint(taskName, spec.days, "days");
+      const term = days * 24n * 60n * 60n;
+      if (days === 0n || term > sdk.MAX_MANDATE_TERM) {
+        issues.push(`--days must be between 1 and ${sdk.MAX_MANDATE_TERM / 86400n}`);
+      }
+      // The end date is fixed now, so the mandate runs slightly shorter than --days after execution
+      const latest = await ethers.provider.getBlock("latest");
+      const mandateEnd = BigInt(latest!.timestamp) + term;
+      notes.push(`current mandate ends at ${await emergencyCouncil.mandateEnd()}, renewed mandate ends at ${mandateEnd}`);
+      const timelock = contracts.timelock ?? (await governance.timelock());
+      if (!(await emergencyCouncil.hasRole(await emergencyCouncil.DEFAULT_ADMIN_ROLE(), timelock))) {
+        issues.push(`timelock ${timelock} lacks DEFAULT_ADMIN_ROLE on EmergencyCouncil`);
+      }
+      proposal = {
+        type: sdk.ProposalType.UPGRADE,
+        actions: [sdk.renewEmergencyMandate(await emergencyCouncil.getAddress(), mandateEnd)],
+        description: spec.description ?? `Renew the EmergencyCouncil mandate for ${days} days`,
+      };
+      break;
+    }
+    case "batch-config": {
+      // Fields left out keep their current on-chain value
+      const asset = required(taskName, spec.asset, "asset");
+      if (!ethers.isAddress(asset)) {
+        throw new HardhatPluginError(taskName, "--asset must be an address");
+      }
+      const current = await client.getBatchConfig(asset);
+      const config = {
+        enabled: spec.enabled !== undefined ? parseBool(taskName, spec.enabled, "enabled") : current.enabled,
+        minBatchAmount: spec.minBatch !== undefined ? parseUint(taskName, spec.minBatch, "min-batch") : current.minBatchAmount,
+        maxBatchDelay: spec.maxDelay !== undefined ? parseUint(taskName, spec.maxDelay, "max-delay") : current.maxBatchDelay,
+      };
+      if (config.maxBatchDelay > sdk.MAX_BATCH_DELAY) {
+        issues.push(`maxBatchDelay ${config.maxBatchDelay} exceeds ${sdk.MAX_BATCH_DELAY} seconds`);
+      }
+      const swapModule = client.swapModule ?? (await ethers.getContractAt("SwapModule", await client.router.swapModule()));
+      const treasuryAsset = await swapModule.getTreasuryAsset();
+      if (asset.toLowerCase() === treasuryAsset.toLowerCase()) {
+        issues.push("the treasury asset is never converted, so it cannot be batched");
+      }
+      const pending = await client.getPendingBatch(asset);
+      if (!config.enabled && pending.total > 0n) {
+        notes.push(`${pending.total} is pending; the keeper can convert it as soon as batching is disabled`);
+      }
+      proposal = {
+        type: sdk.ProposalType.ROUTER_PARAM,
+        actions: issues.length === 0 ? [sdk.setBatchConfig(contracts.router!, asset, config)] : [],
+        description:
+          spec.description ??
+          `${config.enabled ? "Batch" : "Stop batching"} conversions of ${asset}: min batch ${config.minBatchAmount}, ` +
+            `max delay ${config.maxBatchDelay} s`,
+      };
+      break;
+    }
+    case "rate-limit": {
+      // A tier or plugin limit, the window length, or both
+      const actions: ProposalAction[] = [];
+      const changes: string[] = [];
+      if (spec.maxYield !== undefined) {
+        const maxYield = parseUint(taskName, spec.maxYield, "max-yield");
+        if ((spec.tier === undefined) === (spec.plugin === undefined)) {
+          throw new HardhatPluginError(taskName, "--max-yield needs exactly one of --tier or --plugin");
+        }
+        if (spec.plugin !== undefined) {
+          const plugin = await client.getPlugin(spec.plugin).catch((error: Error) => {
+            throw new HardhatPluginError(taskName, error.message);
+          });
+          const tierLimit = await client.registry.getTierRateLimit(plugin.tier);
+          if (maxYield > 0n && tierLimit > 0n && maxYield >= tierLimit) {
+            notes.push(`the ${sdk.PluginTier[plugin.tier]} tier limit of ${tierLimit} is tighter and stays in effect`);
+          }
+          actions.push(sdk.setPluginRateLimit(contracts.registry!, plugin.pluginId, maxYield));
+          changes.push(`plugin ${plugin.pluginId} rate limit to ${maxYield}`);
+        } else {
+          const tier = parseEnum(taskName, sdk.PluginTier, spec.tier, "tier");
+          actions.push(sdk.setTierRateLimit(contracts.registry!, tier, maxYield));
+          changes.push(`${sdk.PluginTier[tier]} tier rate limit to ${maxYield}`);
+        }
+      }
+      if (spec.window !== undefined) {
+        const window = parseUint(taskName, spec.window, "window");
+        if (window < sdk.MIN_RATE_LIMIT_WINDOW || window > sdk.MAX_RATE_LIMIT_WINDOW) {
+          issues.push(`--window must be between ${sdk.MIN_RATE_LIMIT_WINDOW} and ${sdk.MAX_RATE_LIMIT_WINDOW} seconds`);
+        } else {
+          actions.push(sdk.setRateLimitWindow(contracts.registry!, window));
+        }
+        notes.push("a new window length starts a fresh window for every plugin");
+        changes.push(`rate limit window to ${window} s`);
+      }
+      if (changes.length === 0) {
+        throw new HardhatPluginError(taskName, "--max-yield or --window is required");
+      }
+      proposal = {
+        type: sdk.ProposalType.REGISTRY,
+        actions: issues.length === 0 ? actions : [],
+        description: spec.description ?? `Set ${changes.join(" and ")}`,
+      };
+      break;
+    }
+    case "dev-share": {
+      const plugin = await client.getPlugin(required(taskName, spec.plugin, "plugin")).catch((error: Error) => {
+        throw new HardhatPluginError(taskName, error.message);
+      });
+      // "address:bps,address:bps", or "none" to stop paying a dev share
+      const raw = required(taskName, spec.recipients, "recipients");
+      const recipients =
+        raw === "none"
+          ? []
+          : raw.split(",").map((entry) => {
+              const [recipient, bps] = entry.split(":");
+              if (!ethers.isAddress(recipient)) {
+                throw new HardhatPluginError(taskName, `--recipients entry "${entry}" must be address:bps`);
+              }
+              return { recipient, bps: parseUint(taskName, bps, "recipients") };
+            });
+      issues.push(...sdk.validateDevShareSplit(recipients));
+      const current = await client.getDevShareSplit(plugin.pluginId);
+      notes.push(
+        `current split: ${current.length === 0 ? "none" : current.map(({ recipient, bps }) => `${recipient} ${bps} bps`).join(", ")}`
+      );
+      const timelock = contracts.timelock ?? (await governance.timelock());
+      if (!(await client.registry.hasRole(await client.registry.GOVERNANCE_ROLE(), timelock))) {
+        issues.push(`timelock ${timelock} lacks GOVERNANCE_ROLE on PluginRegistry`);
+      }
+      proposal = {
+        type: sdk.ProposalType.REGISTRY,
+        actions: issues.length === 0 ? [sdk.setDevShareSplit(contracts.registry!, plugin.pluginId, recipients)] : [],
+        description:
+          spec.description ??
+          (recipients.length === 0
+            ? `Remove the dev share of plugin ${plugin.pluginId}`
+            : `Set the dev share of plugin ${plugin.pluginId} to ` +
+              recipients.map(({ recipient, bps }) => `${recipient} ${bps} bps`).join(", ")),
+      };
+      break;
+    }
+    case "tier-bond": {
+      const tier = parseEnum(taskName, sdk.PluginTier, spec.tier, "tier");
+      const amount = parseUint(taskName, spec.amount, "amount");
+      const current = await client.getTierBond(tier);
+      // --token defaults to the tier's current bond token
+      const token = spec.token ?? current.token;
+      if (!ethers.isAddress(token)) {
+        throw new HardhatPluginError(taskName, "--token must be an address");
+      }
+      if (amount > 0n) {
+        const treasuryAsset = client.swapModule ? await client.swapModule.getTreasuryAsset() : undefined;
+        const bondTokens = [treasuryAsset, contracts.token].filter((address): address is string => !!address);
+        if (token === ethers.ZeroAddress) {
+          issues.push("--token is required for a nonzero bond");
+        } else if (!bondTokens.some((address) => address.toLowerCase() === token.toLowerCase())) {
+          notes.push(`${token} is neither the treasury asset nor the Vastitas token`);
+        }
+      }
+      notes.push(`current ${sdk.PluginTier[tier]} bond: ${current.amount} of ${current.token}; bonds already posted are kept`);
+      proposal = {
+        type: sdk.ProposalType.REGISTRY,
+        actions: issues.length === 0 ? [sdk.setTierBond(contracts.registry!, tier, token, amount)] : [],
+        description:
+          spec.description ??
+          (amount === 0n
+            ? `Remove the ${sdk.PluginTier[tier]} tier bond`
+            : `Set the ${sdk.PluginTier[tier]} tier bond to ${amount} of ${token}`),
+      };
+      break;
+    }
+    case "slash-bond": {
+      const plugin = await client.getPlugin(required(taskName, spec.plugin, "plugin")).catch((error: Error) => {
+        throw new HardhatPluginError(taskName, error.message);
+      });
+      const bond = await client.getPluginBond(plugin.pluginId);
+      // --amount defaults to the whole bond
+      const amount = spec.amount !== undefined ? parseUint(taskName, spec.amount, "amount") : bond.amount;
+      if (amount === 0n || amount > bond.amount) {
+        issues.push(`amount must be between 1 and the bond of ${bond.amount}`);
+      }
+      const [quarantined, expiresAt] = await client.registry.getEmergencyQuarantine(plugin.pluginId);
+      if (plugin.isActive) {
+        issues.push("plugin is neither quarantined nor deactivated");
+      } else if (quarantined) {
+        notes.push(`the emergency quarantine lapses at ${expiresAt}; ratify it first if the vote ends later`);
+      }
+      if (bond.unlocksAt > 0n) {
+        notes.push(`plugin retired: its depositor can withdraw the bond from ${bond.unlocksAt}`);
+      }
+      if ((await client.registry.bondTreasury()) === ethers.ZeroAddress) {
+        issues.push("PluginRegistry has no bond treasury set");
+      }
+      const timelock = contracts.timelock ?? (await governance.timelock());
+      if (!(await client.registry.hasRole(await client.registry.GOVERNANCE_ROLE(), timelock))) {
+        issues.push(`timelock ${timelock} lacks GOVERNANCE_ROLE on PluginRegistry`);
+      }
+      proposal = {
+        type: sdk.ProposalType.REGISTRY,
+        actions: issues.length === 0 ? [sdk.slashBond(contracts.registry!, plugin.pluginId, amount)] : [],
+        description: spec.description ?? `Slash ${amount} of ${bond.token} from the bond of plugin ${plugin.pluginId}`,
+      };
+      break;
+    }
+    case "treasury-withdraw": {
+      const treasuryAddress = required(taskName, contracts.treasury, "treasury address in the deployment record");
+      const token = required(taskName, spec.token, "token");
+      const to = required(taskName, spec.to, "to");
+      const amount = parseUint(taskName, spec.amount, "amount");
+      if (!ethers.isAddress(token) || !ethers.isAddress(to)) {
+        throw new HardhatPluginError(taskName, "--token and --to must be addresses");
+      }
+      const treasuryVault = await ethers.getContractAt("TreasuryVault", treasuryAddress);
+      const balance = await treasuryVault.getBalance(token);
+      if (balance < amount) {
+        issues.push(`treasury holds ${balance} of ${token}, less than ${amount}`);
+      }
+      const timelock = contracts.timelock ?? (await governance.timelock());
+      const canWithdraw =
+        (await treasuryVault.hasRole(await treasuryVault.TREASURER_ROLE(), timelock)) ||
+        (await treasuryVault.hasRole(await treasuryVault.ADMIN_ROLE(), timelock));
+      if (!canWithdraw) {
+        issues.push(`timelock ${timelock} holds neither TREASURER_ROLE nor ADMIN_ROLE on TreasuryVault`);
+      }
+      if (amount === 0n) {
+        issues.push("amount must be positive");
+      }
+      proposal = {
+        type: sdk.ProposalType.TREASURY,
+        actions: amount > 0n ? [sdk.treasuryWithdraw(treasuryAddress, token, to, amount)] : [],
+        description: spec.description ?? `Withdraw ${amount} of ${token} from the treasury to ${to}`,
+      };
+      break;
+    }
+    case "council-voting": {
+      const enabled = parseBool(taskName, spec.enabled, "enabled");
+      if (enabled && (await governance.council()) === ethers.ZeroAddress) {
+        issues.push("Governance has no council set");
+      }
+      if ((await governance.useCouncilVoting()) === enabled) {
+        notes.push(`council voting is already ${enabled ? "enabled" : "disabled"}`);
+      }
+      proposal = {
+        type: sdk.ProposalType.UPGRADE,
+        actions: [sdk.setUseCouncilVoting(await governance.getAddress(), enabled)],
+        description: spec.description ?? `${enabled ? "Enable" : "Disable"} council voting`,
+      };
+      break;
+    }
+    default:
+      throw new HardhatPluginError(
+        taskName,
+        `Unknown proposal kind "${spec.kind}" (expected one of ${PROPOSAL_KINDS.join(", ")})`
+      );
+  }
+
+  // Governance rejects a type less strict than its classification of the actions
+  if (proposal.actions.length > 0) {
+    const classified = await client.classifyProposal(proposal.actions);
+    if (classified !== proposal.type) {
+      notes.push(
+        `Governance classifies these actions as ${sdk.ProposalType[classified]}, proposing as ${sdk.ProposalType[classified]} ` +
+          `instead of ${sdk.ProposalType[proposal.type]}`
+      );
+      proposal.type = classified;
+    }
+  }
+
+  return { proposal, issues, notes };
+}
+
+/**
+ * Print the proposal preview; throws when the proposal would revert on execution
+ */
+export async function printProposal(taskName: string, built: BuiltProposal, network: string): Promise<void> {
+  const sdk = await import("../sdk");
+  const { proposal, issues, notes } = built;
+
+  console.log("\n" + "=".repeat(60));
+  console.log(`Proposal (${sdk.ProposalType[proposal.type]}) on ${network}`);
+  console.log("=".repeat(60));
+  console.log(`Description:     ${proposal.description}`);
+  for (const action of proposal.actions) {
+    console.log(`\nAction:          ${action.signature}`);
+    console.log(`  target:        ${action.target}`);
+    console.log(`  value:         ${action.value}`);
+    console.log(`  calldata:      ${action.calldata}`);
+  }
+  for (const note of notes) {
+    console.log(`\nℹ️  ${note}`);
+  }
+  if (issues.length > 0) {
+    console.error("\n❌ The proposal would revert on execution:");
+    for (const issue of issues) {
+      console.error(`   - ${issue}`);
+    }
+    throw new HardhatPluginError(taskName, "Proposal rejected, nothing submitted");
+  }
+
+  console.log(`\nProposal ID:     ${sdk.hashProposal(proposal)}`);
+  console.log(`descriptionHash: ${sdk.descriptionHash(proposal.description)}`);
+  console.log("(queue and execute take the same targets, values and calldatas plus this descriptionHash)");
+}
+
+/**
+ * The proposal spec parameters shared by propose and rehearse
+ */
+export function addProposalParams(definition: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+  return definition
+    .addPositionalParam("kind", `Proposal kind: ${PROPOSAL_KINDS.join(", ")}`)
+    .addOptionalParam("buyback", "router-splits: buyback share in bps", undefined, types.string)
+    .addOptionalParam("staker", "router-splits: staker share in bps", undefined, types.string)
+    .addOptionalParam("treasury", "router-splits: treasury share in bps", undefined, types.string)
+    .addOptionalParam("model", "distribution-model: BUYBACK_ONLY, STAKING_REWARDS or HYBRID", undefined, types.string)
+    .addOptionalParam("plugin", "plugin-tier, ratify-quarantine, rate-limit, dev-share, slash-bond: plugin id or plugin address", undefined, types.string)
+    .addOptionalParam("tier", "plugin-tier, tier-config, rate-limit, tier-bond: UNTRUSTED, VERIFIED or CORE", undefined, types.string)
+    .addOptionalParam("maxConversion", "tier-config: max conversion amount, 0 = no cap", undefined, types.string)
+    .addOptionalParam("maxSlippage", "tier-config: max slippage in bps", undefined, types.string)
+    .addOptionalParam("autoSwap", "tier-config: true or false", undefined, types.string)
+    .addOptionalParam("quarantine", "tier-config: true or false", undefined, types.string)
+    .addOptionalParam("token", "treasury-withdraw, tier-bond: token address", undefined, types.string)
+    .addOptionalParam("to", "treasury-withdraw: recipient address", undefined, types.string)
+    .addOptionalParam("amount", "treasury-withdraw, tier-bond, slash-bond: amount in token base units", undefined, types.string)
+    .addOptionalParam("enabled", "council-voting, batch-config: true or false", undefined, types.string)
+    .addOptionalParam("days", "emergency-mandate: mandate length in days from now", undefined, types.string)
+    .addOptionalParam("asset", "batch-config: asset address", undefined, types.string)
+    .addOptionalParam("minBatch", "batch-config: pending amount at which the keeper may convert, 0 = any", undefined, types.string)
+    .addOptionalParam("maxDelay", "batch-config: seconds after the first contribution at which the keeper may convert", undefined, types.string)
+    .addOptionalParam("maxYield", "rate-limit: max normalized yield per window in treasury asset base units, 0 = no limit", undefined, types.string)
+    .addOptionalParam("window", "rate-limit: window length in seconds", undefined, types.string)
+    .addOptionalParam("recipients", "dev-share: comma-separated address:bps entries, or none", undefined, types.string)
+    .addOptionalParam("description", "Proposal description (defaults to a summary of the action)", undefined, types.string);
+}
+
+async function propose(args: ProposeArgs, hre: HardhatRuntimeEnvironment): Promise<void> {
+  const sdk = await import("../sdk");
+  const { ethers, network } = hre;
+
+  const [signer] = await ethers.getSigners();
+  const client = new sdk.VastitasClient(await loadProposalContracts(TASK_NAME, hre), signer);
+  const governance = client.governance!;
+
+  const built = await buildProposal(TASK_NAME, args, client, hre);
+  await printProposal(TASK_NAME, built, network.name);
+
+  if (!args.submit) {
+    console.log("\nDry run: re-run with --submit to create the proposal");
+    return;
+  }
+
+  const proposer = await signer.getAddress();
+  const clock = await governance.clock();
+  const votes = await governance.getVotes(proposer, clock - 1n);
+  const threshold = await governance.proposalThreshold();
+  if (votes < threshold) {
+    throw new HardhatPluginError(
+      TASK_NAME,
+      `${proposer} has ${ethers.formatEther(votes)} votes, the proposal threshold is ${ethers.formatEther(threshold)}`
+    );
+  }
+
+  console.log(`\n📝 Submitting from ${proposer}...`);
+  const { proposalId, receipt } = await client.propose(built.proposal);
+  console.log(`✅ Proposal created in tx ${receipt.hash}`);
+  console.log(
+    `   Voting starts at ${await governance.proposalSnapshot(proposalId)}, ends at ${await governance.proposalDeadline(proposalId)}`
+  );
+}
+
+addProposalParams(task(TASK_NAME, "Build, check and optionally submit a typed governance proposal"))
+  .addFlag("submit", "Submit the proposal instead of only previewing it")
+  .setAction(propose);
@@ -0,0 +1,216 @@
+/**
+ * Proposal lifecycle rehearsal
+ *
+ * Runs a proposal built by the propose task through propose → vote → queue → execute on a local
+ * chain, advancing blocks and time past votingDelay, votingPeriod and the Timelock delay, and
+ * prints every Governor state transition and a diff of the protocol state before and after.
+ *
+ * USAGE:
+ *   npx hardhat rehearse router-splits --buyback 0 --staker 8000 --treasury 2000 --fork mainnet
+ *   npx hardhat rehearse council-voting --enabled true --fork mainnet --voters 0xabc...,0xdef...
+ *   npx hardhat rehearse tier-config --tier VERIFIED --max-slippage 200 --network localhost
+ *
+ * - --fork: reset the in-process hardhat network to a fork of a network configured in
+ *   hardhat.config.ts (optionally at --fork-block) and use deployments/{fork}.json. Without it
+ *   the connected local network (hardhat or localhost) and its deployment record are used.
+ * - --voters: comma-separated accounts that vote, impersonated on the local chain. The first one
+ *   proposes. Defaults to the deployer recorded in the deployment file. Voters without a
+ *   delegate are self-delegated before the proposal is created.
+ * - --support: for (default), against or abstain
+ *
+ * Nothing leaves the local chain. The task exits non-zero when the proposal does not reach
+ * Executed, e.g. because quorum was not met or the timelock call reverted.
+ */
+
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { addProposalParams, buildProposal, loadProposalContracts, printProposal, ProposalSpec } from "./propose";
+
+const TASK_NAME = "rehearse";
+
+// OpenZeppelin IGovernor.ProposalState
+const PROPOSAL_STATES = ["Pending", "Active", "Canceled", "Defeated", "Succeeded", "Queued", "Expired", "Executed"];
+
+const SUPPORT = { against: 0, for: 1, abstain: 2 } as const;
+
+interface RehearseArgs extends ProposalSpec {
+  fork?: string;
+  forkBlock?: number;
+  voters?: string;
+  support: string;
+}
+
+async function rehearse(args: RehearseArgs, hre: HardhatRuntimeEnvironment): Promise<void> {
+  // Loaded lazily: the SDK needs typechain-types, which only exist after compiling
+  const sdk = await import("../sdk");
+  const { LOCAL_NETWORKS } = await import("../scripts/create2");
+  const { loadDeploymentAddresses } = await import("../scripts/deployments");
+  const { Council__factory, Timelock__factory, VastitasToken__factory } = await import("../typechain-types");
+  const helpers = await import("@nomicfoundation/hardhat-network-helpers");
+  const { ethers, network } = hre;
+
+  if (!LOCAL_NETWORKS.includes(network.name)) {
+    throw new HardhatPluginError(TASK_NAME, `Rehearsals only run on local networks, use --fork ${network.name} instead`);
+  }
+  if (!(args.support in SUPPORT)) {
+    throw new HardhatPluginError(TASK_NAME, `--support must be one of ${Object.keys(SUPPORT).join(", ")}`);
+  }
+
+  let deploymentNetwork = network.name;
+  if (args.fork) {
+    if (network.name !== "hardhat") {
+      throw new HardhatPluginError(TASK_NAME, "--fork needs the in-process hardhat network (drop --network)");
+    }
+    const forkConfig = hre.config.networks[args.fork];
+    if (!forkConfig || !("url" in forkConfig)) {
+      throw new HardhatPluginError(TASK_NAME, `Network ${args.fork} has no RPC URL in hardhat.config.ts`);
+    }
+    console.log(`🍴 Forking ${args.fork}${args.forkBlock ? ` at block ${args.forkBlock}` : ""}...`);
+    await helpers.reset(forkConfig.url, args.forkBlock);
+    deploymentNetwork = args.fork;
+  }
+
+  const contracts = await loadProposalContracts(TASK_NAME, hre, deploymentNetwork);
+  const voters = args.voters
+    ? args.voters.split(",").map((voter) => voter.trim())
+    : [loadDeploymentAddresses(deploymentNetwork)?.deployer].filter((voter): voter is string => !!voter);
+  if (voters.length === 0 || voters.some((voter) => !ethers.isAddress(voter))) {
+    throw new HardhatPluginError(TASK_NAME, "--voters must list voter addresses (no deployer in the deployment record)");
+  }
+  for (const voter of voters) {
+    await helpers.impersonateAccount(voter);
+    await helpers.setBalance(voter, ethers.parseEther("100"));
+  }
+  const signers = await Promise.all(voters.map((voter) => ethers.getSigner(voter)));
+  const client = new sdk.VastitasClient(contracts, signers[0]);
+  const governance = client.governance!;
+
+  const built = await buildProposal(TASK_NAME, args, client, hre);
+  await printProposal(TASK_NAME, built, `${deploymentNetwork} (rehearsal)`);
+  const { proposal } = built;
+
+  // The timelock must accept the governor, otherwise queue or execute reverts
+  const timelock = Timelock__factory.connect(await governance.timelock(), ethers.provider);
+  const governanceAddress = await governance.getAddress();
+  if (!(await timelock.hasRole(await timelock.PROPOSER_ROLE(), governanceAddress))) {
+    throw new HardhatPluginError(TASK_NAME, `Governance ${governanceAddress} lacks PROPOSER_ROLE on the Timelock`);
+  }
+  const executorRole = await timelock.EXECUTOR_ROLE();
+  if (
+    !(await timelock.hasRole(executorRole, governanceAddress)) &&
+    !(await timelock.hasRole(executorRole, ethers.ZeroAddress))
+  ) {
+    throw new HardhatPluginError(TASK_NAME, `Governance ${governanceAddress} lacks EXECUTOR_ROLE on the Timelock`);
+  }
+
+  if (await governance.useCouncilVoting()) {
+    const council = Council__factory.connect(await governance.council(), ethers.provider);
+    const outsiders = [];
+    for (const voter of voters) {
+      if (!(await council.isCouncilMember(voter))) {
+        outsiders.push(voter);
+      }
+    }
+    if (outsiders.length > 0) {
+      throw new HardhatPluginError(TASK_NAME, `Council voting is on and ${outsiders.join(", ")} are not council members`);
+    }
+  }
+
+  const timestampClock = (await governance.CLOCK_MODE()).includes("mode=timestamp");
+  const advanceClockTo = async (clock: bigint) => {
+    if (timestampClock) {
+      await helpers.time.increaseTo(clock);
+    } else {
+      await helpers.mineUpTo(clock);
+    }
+  };
+  const logState = async (proposalId: bigint, step: string) => {
+    const state = Number(await governance.state(proposalId));
+    console.log(`   ${step.padEnd(28)} → ${PROPOSAL_STATES[state]} (block ${await ethers.provider.getBlockNumber()})`);
+    return PROPOSAL_STATES[state];
+  };
+
+  const before = await sdk.captureState(client);
+
+  console.log("\n" + "=".repeat(60));
+  console.log("Lifecycle");
+  console.log("=".repeat(60));
+
+  const token = VastitasToken__factory.connect(contracts.token ?? (await governance.token()), ethers.provider);
+  for (const signer of signers) {
+    if ((await token.delegates(signer.address)) === ethers.ZeroAddress) {
+      await (await token.connect(signer).delegate(signer.address)).wait();
+      console.log(`   Self-delegated ${signer.address}`);
+    }
+  }
+  await helpers.mine();
+
+  const threshold = await governance.proposalThreshold();
+  const proposerVotes = await governance.getVotes(voters[0], (await governance.clock()) - 1n);
+  if (proposerVotes < threshold) {
+    throw new HardhatPluginError(
+      TASK_NAME,
+      `Proposer ${voters[0]} has ${ethers.formatEther(proposerVotes)} votes, the threshold is ${ethers.formatEther(threshold)}`
+    );
+  }
+
+  const { proposalId } = await client.propose(proposal);
+  await logState(proposalId, "proposeWithType");
+
+  await advanceClockTo((await governance.proposalSnapshot(proposalId)) + 1n);
+  await logState(proposalId, `voting delay (${await governance.votingDelay()})`);
+
+  for (const signer of signers) {
+    await (await governance.connect(signer).castVote(proposalId, SUPPORT[args.support as keyof typeof SUPPORT])).wait();
+  }
+  const votes = await governance.proposalVotes(proposalId);
+  const quorum = await governance.proposalQuorum(proposalId);
+  console.log(
+    `   Votes: for ${ethers.formatEther(votes.forVotes)}, against ${ethers.formatEther(votes.againstVotes)}, ` +
+      `abstain ${ethers.formatEther(votes.abstainVotes)} (quorum ${ethers.formatEther(quorum)})`
+  );
+
+  await advanceClockTo((await governance.proposalDeadline(proposalId)) + 1n);
+  const outcome = await logState(proposalId, `voting period (${await governance.votingPeriod()})`);
+  if (outcome !== "Succeeded") {
+    throw new HardhatPluginError(TASK_NAME, `Proposal ended ${outcome}, nothing was executed`);
+  }
+
+  const [targets, values, calldatas] = sdk.proposeWithTypeArgs(proposal);
+  const descriptionHash = sdk.descriptionHash(proposal.description);
+  await (await governance.queue(targets, values, calldatas, descriptionHash)).wait();
+  await logState(proposalId, "queue");
+
+  // The delay of the proposal type, or the Timelock's high-impact delay if the calls need it
+  const eta = await governance.proposalEta(proposalId);
+  const delay = eta - BigInt(await helpers.time.latest());
+  await helpers.time.increaseTo(eta);
+  await logState(proposalId, `timelock delay (${delay}s)`);
+
+  try {
+    await (await governance.execute(targets, values, calldatas, descriptionHash)).wait();
+  } catch (error: any) {
+    throw new HardhatPluginError(TASK_NAME, `Execution reverted: ${error.shortMessage ?? error.message}`);
+  }
+  await logState(proposalId, "execute");
+
+  const changes = sdk.diffState(before, await sdk.captureState(client));
+  console.log("\n" + "=".repeat(60));
+  console.log("State Diff");
+  console.log("=".repeat(60));
+  if (changes.length === 0) {
+    console.log("No tracked state changed");
+  }
+  const width = Math.max(0, ...changes.map((change) => change.key.length));
+  for (const change of changes) {
+    console.log(`${change.key.padEnd(width)}  ${change.before ?? "-"} → ${change.after ?? "-"}`);
+  }
+}
+
+addProposalParams(task(TASK_NAME, "Rehearse a governance proposal end to end on a local fork"))
+  .addOptionalParam("fork", "Network from hardhat.config.ts to fork", undefined, types.string)
+  .addOptionalParam("forkBlock", "Block number to fork at", undefined, types.int)
+  .addOptionalParam("voters", "Comma-separated voter addresses, the first one proposes", undefined, types.string)
+  .addOptionalParam("support", "Vote cast by every voter: for, against or abstain", "for", types.string)
+  .setAction(rehearse);
@@ -373,6 +373,31 @@ describe("Wash-Yield Attack Tests", function () {
     });
   });
 
+  describe("Protection: Rolling rate limits", function () {
+    it("should quarantine looped per-call-sized yield beyond the window limit", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const govRegistry = registry.connect(await ethers.getSigner(governance));
+      await govRegistry.setPluginTier(pluginId, PluginTier.VERIFIED);
+      await govRegistry.setTierRateLimit(PluginTier.VERIFIED, ethers.parseEther("1000"));
+
+      // Each call stays far below the per-call maxConversionAmount
+      const perCall = ethers.parseEther("500");
+      expect(perCall).to.be.lt((await registry.getTierConfig(PluginTier.VERIFIED)).maxConversionAmount);
+      for (let i = 0; i < 10; i++) {
+        await mockPlugin.setYield(await yieldAsset.getAddress(), perCall);
+        await mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
+      }
+
+      // 10 x 500 YIELD converts to 2500 TREASURY: only the window limit is credited
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("1000"));
+      expect(await router.getTotalYield()).to.equal(ethers.parseEther("1000"));
+      expect(await router.getQuarantinedYield(pluginId, await treasuryAsset.getAddress())).to.equal(
+        ethers.parseEther("1500")
+      );
+      expect((await router.getYieldHeadroom(pluginId)).headroom).to.equal(0);
+    });
+  });
+
   describe("Protection: Quarantine mode", function () {
     it("should hold assets in custody for tier 0", async function () {
       const pluginId = await mockPlugin.pluginId();
@@ -451,14 +476,17 @@ describe("Wash-Yield Attack Tests", function () {
         await mockPlugin.getAddress(),
         ethers.MaxUint256
       );
+      await registry
+        .connect(await ethers.getSigner(governance))
+        .setDevShareSplit(await mockPlugin.pluginId(), [{ recipient: pluginOwner, bps: devBps }]);
       await mockPlugin.setDevShare(pluginOwner, devBps);
       await mockPlugin.setYield(await yieldAsset.getAddress(), yieldAmount);
       await mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
 
-      const devShare = await router.getDevShareReceived(pluginOwner);
+      const devShare = await router.getDevShareReceived(pluginOwner, await yieldAsset.getAddress());
       const expectedDevShare = (yieldAmount * BigInt(devBps)) / 10000n;
 
-      expect(devShare).to.equal(expectedDevShare);
+      expect(devShare.accrued).to.equal(expectedDevShare);
 
       // High dev shares can be a red flag for wash-yield
       // (Off-chain monitoring can detect this)
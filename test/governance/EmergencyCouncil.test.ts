@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import {
   EmergencyCouncil,
   PluginRegistry,
@@ -18,8 +19,26 @@ describe("EmergencyCouncil - Governance Tests", function () {
   let admin: string;
   let councilMember1: string;
   let councilMember2: string;
+  let councilMember3: string;
   let user: string;
 
+  const TIGHTENING_THRESHOLD = 2;
+  const LOOSENING_THRESHOLD = 3;
+  const MANDATE_TERM = 180 * 24 * 60 * 60;
+
+  // Propose an action as the first signer, then approve it with the others
+  async function proposeAndApprove(
+    propose: (member: EmergencyCouncil) => Promise<unknown>,
+    members: string[]
+  ): Promise<bigint> {
+    await propose(council.connect(await ethers.getSigner(members[0])));
+    const actionId = await council.actionCount();
+    for (const member of members.slice(1)) {
+      await council.connect(await ethers.getSigner(member)).approveAction(actionId);
+    }
+    return actionId;
+  }
+
   beforeEach(async function () {
     const [
       deployer,
@@ -27,11 +46,14 @@ describe("EmergencyCouncil - Governance Tests", function () {
       councilMember1Account,
       councilMember2Account,
       userAccount,
+      ,
+      councilMember3Account,
     ] = await ethers.getSigners();
 
     admin = await adminAccount.getAddress();
     councilMember1 = await councilMember1Account.getAddress();
     councilMember2 = await councilMember2Account.getAddress();
+    councilMember3 = await councilMember3Account.getAddress();
     user = await userAccount.getAddress();
 
     // Deploy registry
@@ -88,14 +110,23 @@ describe("EmergencyCouncil - Governance Tests", function () {
       await registry.getAddress(),
       await router.getAddress(),
       await swapModule.getAddress(),
-      [councilMember1, councilMember2]
+      [councilMember1, councilMember2, councilMember3],
+      TIGHTENING_THRESHOLD,
+      LOOSENING_THRESHOLD,
+      MANDATE_TERM
     );
     await council.waitForDeployment();
 
-    // Grant ADMIN_ROLE to EmergencyCouncil on PluginRegistry so it can quarantine plugins
-    // Use adminAccount (which has DEFAULT_ADMIN_ROLE) to grant the role
+    // Grant EMERGENCY_ROLE to EmergencyCouncil on PluginRegistry so it can quarantine plugins
+    // and tighten plugin caps. Use adminAccount (which has DEFAULT_ADMIN_ROLE) to grant the role
     await registry.connect(adminAccount).grantRole(
-      await registry.ADMIN_ROLE(),
+      await registry.EMERGENCY_ROLE(),
+      await council.getAddress()
+    );
+
+    // Grant PAUSER_ROLE to EmergencyCouncil on SwapModule so it can pause conversions
+    await swapModule.connect(adminAccount).grantRole(
+      await swapModule.PAUSER_ROLE(),
       await council.getAddress()
     );
 
@@ -122,24 +153,37 @@ describe("EmergencyCouncil - Governance Tests", function () {
   describe("Council Powers", function () {
     it("should allow council to pause swaps", async function () {
       const councilMember1Signer = await ethers.getSigner(councilMember1);
-      await expect(council.connect(councilMember1Signer).pauseSwaps())
+      const councilMember2Signer = await ethers.getSigner(councilMember2);
+      await council.connect(councilMember1Signer).pauseSwaps();
+      expect(await swapModule.paused()).to.be.false;
+
+      await expect(council.connect(councilMember2Signer).approveAction(await council.actionCount()))
         .to.emit(council, "SwapPaused")
         .withArgs(councilMember1);
+      expect(await swapModule.paused()).to.be.true;
     });
 
-    it("should allow council to unpause swaps", async function () {
+    it("should leave resuming swaps to governance", async function () {
       const councilMember1Signer = await ethers.getSigner(councilMember1);
-      await council.connect(councilMember1Signer).pauseSwaps();
-      await expect(council.connect(councilMember1Signer).unpauseSwaps())
-        .to.emit(council, "SwapUnpaused")
-        .withArgs(councilMember1);
+      await proposeAndApprove((member) => member.pauseSwaps(), [councilMember1, councilMember2]);
+
+      await expect(swapModule.connect(councilMember1Signer).unpause()).to.be.revertedWith(
+        "SwapModule: unauthorized"
+      );
+
+      const adminSigner = await ethers.getSigner(admin);
+      await swapModule.connect(adminSigner).grantRole(await swapModule.GOVERNANCE_ROLE(), admin);
+      await swapModule.connect(adminSigner).unpause();
+      expect(await swapModule.paused()).to.be.false;
     });
 
     it("should allow council to quarantine plugin", async function () {
       const pluginId = await mockPlugin.pluginId();
       const councilMember1Signer = await ethers.getSigner(councilMember1);
+      const councilMember2Signer = await ethers.getSigner(councilMember2);
 
-      await expect(council.connect(councilMember1Signer).quarantinePlugin(pluginId))
+      await council.connect(councilMember1Signer).quarantinePlugin(pluginId);
+      await expect(council.connect(councilMember2Signer).approveAction(await council.actionCount()))
         .to.emit(council, "PluginQuarantined")
         .withArgs(pluginId, councilMember1);
 
@@ -149,10 +193,15 @@ describe("EmergencyCouncil - Governance Tests", function () {
 
     it("should allow council to unquarantine plugin", async function () {
       const pluginId = await mockPlugin.pluginId();
-      const councilMember1Signer = await ethers.getSigner(councilMember1);
+      await proposeAndApprove((member) => member.quarantinePlugin(pluginId), [councilMember1, councilMember2]);
 
-      await council.connect(councilMember1Signer).quarantinePlugin(pluginId);
-      await expect(council.connect(councilMember1Signer).unquarantinePlugin(pluginId))
+      const actionId = await proposeAndApprove(
+        (member) => member.unquarantinePlugin(pluginId),
+        [councilMember1, councilMember2]
+      );
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.false;
+
+      await expect(council.connect(await ethers.getSigner(councilMember3)).approveAction(actionId))
         .to.emit(council, "PluginUnquarantined")
         .withArgs(pluginId, councilMember1);
 
@@ -160,6 +209,96 @@ describe("EmergencyCouncil - Governance Tests", function () {
       expect(plugin.isActive).to.be.true;
     });
 
+    it("should allow council to reduce plugin caps", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const councilMember1Signer = await ethers.getSigner(councilMember1);
+      const councilMember2Signer = await ethers.getSigner(councilMember2);
+
+      await council.connect(councilMember1Signer).reducePluginCaps(pluginId, ethers.parseEther("500"), 50);
+      await expect(council.connect(councilMember2Signer).approveAction(await council.actionCount()))
+        .to.emit(council, "CapReduced")
+        .withArgs(pluginId, ethers.parseEther("10000"), ethers.parseEther("500"), councilMember1);
+
+      const caps = await registry.getPluginCaps(pluginId);
+      expect(caps.enabled).to.be.true;
+      expect(caps.maxConversionAmount).to.equal(ethers.parseEther("500"));
+      expect(caps.maxSlippageBps).to.equal(50);
+    });
+
+    it("should allow council to slash a quarantined plugin's bond to the treasury", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const bond = ethers.parseEther("100");
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      const bondToken = await MockERC20Factory.deploy("Bond", "BOND");
+      await bondToken.waitForDeployment();
+      const treasuryVault = await router.treasuryVault();
+      await registry.connect(await ethers.getSigner(admin)).setBondTreasury(treasuryVault);
+      await bondToken.approve(await registry.getAddress(), bond);
+      await registry.topUpBond(pluginId, await bondToken.getAddress(), bond);
+
+      // Irreversible, so it needs the loosening threshold, and the plugin must be quarantined
+      const members = [councilMember1, councilMember2, councilMember3];
+      await expect(proposeAndApprove((member) => member.slashBond(pluginId), members)).to.be.revertedWith(
+        "PluginRegistry: plugin not quarantined"
+      );
+      await proposeAndApprove((member) => member.quarantinePlugin(pluginId), [councilMember1, councilMember2]);
+      const actionId = await proposeAndApprove((member) => member.slashBond(pluginId), [councilMember1, councilMember2]);
+      expect(await bondToken.balanceOf(treasuryVault)).to.equal(0);
+
+      await expect(council.connect(await ethers.getSigner(councilMember3)).approveAction(actionId))
+        .to.emit(council, "BondSlashed")
+        .withArgs(pluginId, bond, councilMember1);
+      expect(await bondToken.balanceOf(treasuryVault)).to.equal(bond);
+      expect((await registry.getPluginBond(pluginId)).amount).to.equal(0);
+    });
+
+    it("should not allow council to raise plugin caps", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const councilMember2Signer = await ethers.getSigner(councilMember2);
+
+      await council.connect(await ethers.getSigner(councilMember1)).reducePluginCaps(
+        pluginId,
+        ethers.parseEther("10001"),
+        50
+      );
+      await expect(
+        council.connect(councilMember2Signer).approveAction(await council.actionCount())
+      ).to.be.revertedWith("PluginRegistry: cannot increase cap");
+
+      await proposeAndApprove(
+        (member) => member.reducePluginCaps(pluginId, ethers.parseEther("500"), 50),
+        [councilMember1, councilMember2]
+      );
+      await council.connect(await ethers.getSigner(councilMember1)).reducePluginCaps(
+        pluginId,
+        ethers.parseEther("600"),
+        50
+      );
+      await expect(
+        council.connect(councilMember2Signer).approveAction(await council.actionCount())
+      ).to.be.revertedWith("PluginRegistry: cannot increase cap");
+    });
+
+    it("should let cap reductions lapse unless governance ratifies them", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const adminSigner = await ethers.getSigner(admin);
+      const reduce = (member: EmergencyCouncil) => member.reducePluginCaps(pluginId, ethers.parseEther("500"), 50);
+
+      await proposeAndApprove(reduce, [councilMember1, councilMember2]);
+      await time.increase(await registry.EMERGENCY_CAPS_DURATION());
+      expect((await registry.getPluginCaps(pluginId)).enabled).to.be.false;
+
+      // Ratified reductions outlive the emergency window
+      await proposeAndApprove(reduce, [councilMember1, councilMember2]);
+      await registry.connect(adminSigner).setPluginCaps(pluginId, {
+        enabled: true,
+        maxConversionAmount: ethers.parseEther("500"),
+        maxSlippageBps: 50,
+      });
+      await time.increase(await registry.EMERGENCY_CAPS_DURATION());
+      expect((await registry.getPluginCaps(pluginId)).maxConversionAmount).to.equal(ethers.parseEther("500"));
+    });
+
     it("should reject non-council member actions", async function () {
       const pluginId = await mockPlugin.pluginId();
       const userSigner = await ethers.getSigner(user);
@@ -171,6 +310,211 @@ describe("EmergencyCouncil - Governance Tests", function () {
       await expect(
         council.connect(userSigner).quarantinePlugin(pluginId)
       ).to.be.reverted;
+
+      await expect(
+        council.connect(userSigner).reducePluginCaps(pluginId, 1, 1)
+      ).to.be.reverted;
+
+      await council.connect(await ethers.getSigner(councilMember1)).quarantinePlugin(pluginId);
+      await expect(
+        council.connect(userSigner).approveAction(await council.actionCount())
+      ).to.be.reverted;
+    });
+  });
+
+  describe("Threshold Approvals", function () {
+    it("should not let a single member act alone", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      await council.connect(await ethers.getSigner(councilMember1)).quarantinePlugin(pluginId);
+
+      const actionId = await council.actionCount();
+      const action = await council.getAction(actionId);
+      expect(action.executed).to.be.false;
+      expect(action.approvers).to.deep.equal([councilMember1]);
+      expect(await council.getApprovalCount(actionId)).to.equal(1);
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.true;
+
+      await expect(
+        council.connect(await ethers.getSigner(councilMember1)).approveAction(actionId)
+      ).to.be.revertedWith("EmergencyCouncil: already approved");
+    });
+
+    it("should require more approvals to loosen than to tighten", async function () {
+      expect(await council.getThreshold(0)).to.equal(TIGHTENING_THRESHOLD); // PAUSE_SWAPS
+      expect(await council.getThreshold(1)).to.equal(TIGHTENING_THRESHOLD); // QUARANTINE_PLUGIN
+      expect(await council.getThreshold(2)).to.equal(TIGHTENING_THRESHOLD); // REDUCE_PLUGIN_CAPS
+      expect(await council.getThreshold(3)).to.equal(LOOSENING_THRESHOLD); // UNQUARANTINE_PLUGIN
+      expect(await council.getThreshold(4)).to.equal(LOOSENING_THRESHOLD); // SLASH_BOND
+    });
+
+    it("should reject approvals after execution or expiry", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const executedId = await proposeAndApprove(
+        (member) => member.quarantinePlugin(pluginId),
+        [councilMember1, councilMember2]
+      );
+      await expect(
+        council.connect(await ethers.getSigner(councilMember3)).approveAction(executedId)
+      ).to.be.revertedWith("EmergencyCouncil: action executed");
+
+      await council.connect(await ethers.getSigner(councilMember1)).pauseSwaps();
+      const pendingId = await council.actionCount();
+      await time.increase(await council.ACTION_LIFETIME());
+      await expect(
+        council.connect(await ethers.getSigner(councilMember2)).approveAction(pendingId)
+      ).to.be.revertedWith("EmergencyCouncil: action expired");
+
+      await expect(
+        council.connect(await ethers.getSigner(councilMember2)).approveAction(999)
+      ).to.be.revertedWith("EmergencyCouncil: action not found");
+    });
+
+    it("should allow members to revoke approvals", async function () {
+      await council.connect(await ethers.getSigner(councilMember1)).pauseSwaps();
+      const actionId = await council.actionCount();
+
+      await expect(council.connect(await ethers.getSigner(councilMember1)).revokeApproval(actionId))
+        .to.emit(council, "ApprovalRevoked")
+        .withArgs(actionId, councilMember1);
+      expect(await council.getApprovalCount(actionId)).to.equal(0);
+
+      await council.connect(await ethers.getSigner(councilMember2)).approveAction(actionId);
+      expect(await swapModule.paused()).to.be.false;
+      await council.connect(await ethers.getSigner(councilMember3)).approveAction(actionId);
+      expect(await swapModule.paused()).to.be.true;
+    });
+
+    it("should not count approvals from an earlier membership after re-adding", async function () {
+      const adminSigner = await ethers.getSigner(admin);
+      const member1Signer = await ethers.getSigner(councilMember1);
+      await council.connect(adminSigner).setThresholds(2, 2);
+      await council.connect(member1Signer).pauseSwaps();
+      const actionId = await council.actionCount();
+
+      await council.connect(adminSigner).removeCouncilMember(councilMember1);
+      await council.connect(adminSigner).addCouncilMember(councilMember1);
+      expect(await council.hasApproved(actionId, councilMember1)).to.be.false;
+      expect(await council.getApprovalCount(actionId)).to.equal(0);
+
+      // One fresh approval stays below the threshold of two
+      await council.connect(await ethers.getSigner(councilMember2)).approveAction(actionId);
+      expect(await council.getApprovalCount(actionId)).to.equal(1);
+      expect(await swapModule.paused()).to.be.false;
+
+      // The re-added member can approve again, and is only counted once
+      await council.connect(member1Signer).approveAction(actionId);
+      expect(await council.getApprovalCount(actionId)).to.equal(2);
+      expect((await council.getAction(actionId)).approvers).to.have.lengthOf(2);
+      expect(await swapModule.paused()).to.be.true;
+    });
+
+    it("should not count approvals from removed members", async function () {
+      const adminSigner = await ethers.getSigner(admin);
+      await council.connect(adminSigner).setThresholds(2, 2);
+      await council.connect(await ethers.getSigner(councilMember1)).pauseSwaps();
+      const actionId = await council.actionCount();
+
+      await council.connect(adminSigner).removeCouncilMember(councilMember1);
+      expect(await council.getApprovalCount(actionId)).to.equal(0);
+
+      await council.connect(await ethers.getSigner(councilMember2)).approveAction(actionId);
+      expect(await swapModule.paused()).to.be.false;
+      await council.connect(await ethers.getSigner(councilMember3)).approveAction(actionId);
+      expect(await swapModule.paused()).to.be.true;
+    });
+
+    it("should validate thresholds against the council size", async function () {
+      const adminSigner = await ethers.getSigner(admin);
+
+      await expect(council.connect(adminSigner).setThresholds(1, 2))
+        .to.emit(council, "ThresholdsUpdated")
+        .withArgs(1, 2);
+      await expect(council.connect(adminSigner).setThresholds(0, 2)).to.be.revertedWith(
+        "EmergencyCouncil: invalid thresholds"
+      );
+      await expect(council.connect(adminSigner).setThresholds(3, 2)).to.be.revertedWith(
+        "EmergencyCouncil: invalid thresholds"
+      );
+      await expect(council.connect(adminSigner).setThresholds(2, 4)).to.be.revertedWith(
+        "EmergencyCouncil: threshold exceeds members"
+      );
+      await expect(council.connect(await ethers.getSigner(user)).setThresholds(1, 1)).to.be.reverted;
+    });
+  });
+
+  describe("Sunset", function () {
+    it("should let quarantines lapse unless governance ratifies them", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const quarantine = (member: EmergencyCouncil) => member.quarantinePlugin(pluginId);
+      const adminSigner = await ethers.getSigner(admin);
+
+      await proposeAndApprove(quarantine, [councilMember1, councilMember2]);
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.false;
+      await time.increase(await registry.emergencyQuarantineWindow());
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.true;
+
+      // The council cannot quarantine the plugin again straight after a lapse
+      await council.connect(await ethers.getSigner(councilMember1)).quarantinePlugin(pluginId);
+      await expect(
+        council.connect(await ethers.getSigner(councilMember2)).approveAction(await council.actionCount())
+      ).to.be.revertedWith("PluginRegistry: quarantine cooldown");
+      await time.increase(await registry.EMERGENCY_QUARANTINE_COOLDOWN());
+
+      // Ratified quarantines outlive the window and the council cannot lift them
+      await proposeAndApprove(quarantine, [councilMember1, councilMember2]);
+      await registry.connect(adminSigner).deactivatePlugin(pluginId);
+      await time.increase(await registry.emergencyQuarantineWindow());
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.false;
+
+      await council.connect(await ethers.getSigner(councilMember1)).unquarantinePlugin(pluginId);
+      const actionId = await council.actionCount();
+      await council.connect(await ethers.getSigner(councilMember2)).approveAction(actionId);
+      await expect(
+        council.connect(await ethers.getSigner(councilMember3)).approveAction(actionId)
+      ).to.be.revertedWith("PluginRegistry: not quarantined");
+    });
+
+    it("should end the council's powers with its mandate", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const mandateEnd = await council.mandateEnd();
+      expect(await council.isMandateActive()).to.be.true;
+      expect(await council.isActiveMember(councilMember1)).to.be.true;
+
+      await council.connect(await ethers.getSigner(councilMember1)).quarantinePlugin(pluginId);
+      const actionId = await council.actionCount();
+
+      await time.increaseTo(mandateEnd);
+      expect(await council.isMandateActive()).to.be.false;
+      expect(await council.isActiveMember(councilMember1)).to.be.false;
+      await expect(
+        council.connect(await ethers.getSigner(councilMember2)).approveAction(actionId)
+      ).to.be.revertedWith("EmergencyCouncil: mandate expired");
+      await expect(
+        council.connect(await ethers.getSigner(councilMember1)).pauseSwaps()
+      ).to.be.revertedWith("EmergencyCouncil: mandate expired");
+    });
+
+    it("should let governance renew the mandate", async function () {
+      const adminSigner = await ethers.getSigner(admin);
+      await time.increaseTo(await council.mandateEnd());
+
+      const renewedEnd = BigInt(await time.latest()) + 365n * 24n * 60n * 60n;
+      await expect(council.connect(adminSigner).renewMandate(renewedEnd))
+        .to.emit(council, "MandateRenewed")
+        .withArgs(renewedEnd);
+      expect(await council.isMandateActive()).to.be.true;
+      await proposeAndApprove((member) => member.pauseSwaps(), [councilMember1, councilMember2]);
+      expect(await swapModule.paused()).to.be.true;
+
+      await expect(council.connect(adminSigner).renewMandate(renewedEnd + 60n)).to.be.revertedWith(
+        "EmergencyCouncil: invalid mandate end"
+      );
+      await expect(council.connect(adminSigner).renewMandate(await time.latest())).to.be.revertedWith(
+        "EmergencyCouncil: invalid mandate end"
+      );
+      await expect(
+        council.connect(await ethers.getSigner(councilMember1)).renewMandate(renewedEnd)
+      ).to.be.reverted;
     });
   });
 
@@ -189,6 +533,7 @@ describe("EmergencyCouncil - Governance Tests", function () {
 
     it("should allow admin to remove council member", async function () {
       const adminSigner = await ethers.getSigner(admin);
+      await council.connect(adminSigner).setThresholds(TIGHTENING_THRESHOLD, 2);
 
       await council.connect(adminSigner).removeCouncilMember(councilMember1);
       
@@ -196,6 +541,15 @@ describe("EmergencyCouncil - Governance Tests", function () {
       expect(await council.hasRole(councilMemberRole, councilMember1)).to.be.false;
     });
 
+    it("should not remove members below the loosening threshold", async function () {
+      const adminSigner = await ethers.getSigner(admin);
+
+      expect(await council.memberCount()).to.equal(3);
+      await expect(
+        council.connect(adminSigner).removeCouncilMember(councilMember1)
+      ).to.be.revertedWith("EmergencyCouncil: threshold exceeds members");
+    });
+
     it("should reject non-admin council management", async function () {
       const userSigner = await ethers.getSigner(user);
       const [_, __, ___, ____, _____, newMemberAccount] = await ethers.getSigners();
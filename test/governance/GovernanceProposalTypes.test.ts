@@ -0,0 +1,362 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { Governance, PluginRegistry, Timelock, VastitasToken } from "../../typechain-types";
+import { PluginTier, ProposalState, ProposalType } from "../helpers/TestConstants";
+
+describe("Governance - Proposal Type Enforcement", function () {
+  let governance: Governance;
+  let timelock: Timelock;
+  let token: VastitasToken;
+  let registry: PluginRegistry;
+
+  let deployer: any;
+  let admin: any;
+  let majority: any; // 11% of supply
+  let minority: any; // 9% of supply
+  let small: any; // 7% of supply
+
+  const VOTING_PERIOD = 100;
+  const STANDARD_DELAY = 2 * 24 * 60 * 60;
+  const HIGH_IMPACT_DELAY = 7 * 24 * 60 * 60;
+
+  beforeEach(async function () {
+    [deployer, admin, majority, minority, small] = await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("VastitasToken");
+    token = await TokenFactory.deploy(
+      "Vastitas",
+      "Vastitas",
+      ethers.parseEther("1000000000"),
+      deployer.address,
+      deployer.address
+    );
+    for (const [voter, amount] of [
+      [majority, "110000000"],
+      [minority, "90000000"],
+      [small, "70000000"],
+    ]) {
+      await token.transfer(voter.address, ethers.parseEther(amount));
+      await token.connect(voter).delegate(voter.address);
+    }
+
+    const TimelockFactory = await ethers.getContractFactory("Timelock");
+    timelock = await TimelockFactory.deploy(STANDARD_DELAY, [], [], admin.address);
+
+    const CouncilFactory = await ethers.getContractFactory("Council");
+    const council = await CouncilFactory.deploy(await token.getAddress(), 5760, 5760, ethers.ZeroAddress);
+
+    const GovernanceFactory = await ethers.getContractFactory("Governance");
+    governance = await GovernanceFactory.deploy(
+      token,
+      timelock,
+      council,
+      1, // voting delay
+      VOTING_PERIOD,
+      ethers.parseEther("10000"), // proposal threshold
+      5, // global quorum: 5%
+      false
+    );
+
+    await timelock.connect(admin).grantRole(await timelock.PROPOSER_ROLE(), await governance.getAddress());
+    await timelock.connect(admin).grantRole(await timelock.EXECUTOR_ROLE(), await governance.getAddress());
+    await timelock.connect(admin).grantRole(await timelock.CANCELLER_ROLE(), await governance.getAddress());
+
+    const RegistryFactory = await ethers.getContractFactory("PluginRegistry");
+    registry = await RegistryFactory.deploy(admin.address, await timelock.getAddress());
+    await governance.setSelectorTypes(
+      await registry.getAddress(),
+      [registry.interface.getFunction("setTierConfig")!.selector],
+      ProposalType.REGISTRY
+    );
+    await mine();
+  });
+
+  async function proposal(description: string) {
+    const calldata = registry.interface.encodeFunctionData("setTierConfig", [
+      PluginTier.UNTRUSTED,
+      [ethers.parseEther("5000"), 50, false, true],
+    ]);
+    return {
+      targets: [await registry.getAddress()],
+      values: [0n],
+      calldatas: [calldata],
+      description,
+      descriptionHash: ethers.id(description),
+    };
+  }
+
+  async function proposeAndVote(type: number, votes: [any, number][], description = `Proposal of type ${type}`) {
+    const p = await proposal(description);
+    const proposalId = await governance
+      .connect(majority)
+      .proposeWithType.staticCall(p.targets, p.values, p.calldatas, p.description, type);
+    await governance.connect(majority).proposeWithType(p.targets, p.values, p.calldatas, p.description, type);
+    await mine(2);
+    for (const [voter, support] of votes) {
+      await governance.connect(voter).castVote(proposalId, support);
+    }
+    await mine(VOTING_PERIOD);
+    return { proposalId, ...p };
+  }
+
+  describe("Proposal type storage", function () {
+    it("should persist the type of each proposal", async function () {
+      const p = await proposal("Typed proposal");
+      const proposalId = await governance
+        .connect(majority)
+        .proposeWithType.staticCall(p.targets, p.values, p.calldatas, p.description, ProposalType.TREASURY);
+
+      await expect(
+        governance.connect(majority).proposeWithType(p.targets, p.values, p.calldatas, p.description, ProposalType.TREASURY)
+      )
+        .to.emit(governance, "ProposalCreatedWithType")
+        .withArgs(proposalId, ProposalType.TREASURY, majority.address);
+      expect(await governance.getProposalType(proposalId)).to.equal(ProposalType.TREASURY);
+    });
+
+    it("should classify untyped proposals from their calls", async function () {
+      const p = await proposal("Untyped proposal");
+      const proposalId = await governance.connect(majority).propose.staticCall(p.targets, p.values, p.calldatas, p.description);
+      await governance.connect(majority).propose(p.targets, p.values, p.calldatas, p.description);
+
+      expect(await governance.getProposalType(proposalId)).to.equal(ProposalType.REGISTRY);
+    });
+
+    it("should hold untyped proposals with unclassified calls to the UPGRADE rules", async function () {
+      const targets = [await registry.getAddress()];
+      const calldatas = [registry.interface.encodeFunctionData("activatePlugin", [ethers.id("plugin")])];
+      const proposalId = await governance.connect(majority).propose.staticCall(targets, [0n], calldatas, "Untyped");
+      await governance.connect(majority).propose(targets, [0n], calldatas, "Untyped");
+
+      expect(await governance.getProposalType(proposalId)).to.equal(ProposalType.UPGRADE);
+    });
+
+    it("should reject unknown proposals", async function () {
+      await expect(governance.getProposalType(1)).to.be.revertedWith("Governance: unknown proposal");
+    });
+  });
+
+  describe("Classification", function () {
+    const router = ethers.Wallet.createRandom().address;
+    const treasury = ethers.Wallet.createRandom().address;
+    let splitsCall: string;
+    let withdrawCall: string;
+
+    beforeEach(async function () {
+      const routerInterface = (await ethers.getContractFactory("RevenueRouter")).interface;
+      const treasuryInterface = (await ethers.getContractFactory("TreasuryVault")).interface;
+      await governance.setSelectorTypes(
+        router,
+        [routerInterface.getFunction("setDistributionSplits")!.selector],
+        ProposalType.ROUTER_PARAM
+      );
+      await governance.setSelectorTypes(treasury, [treasuryInterface.getFunction("withdraw")!.selector], ProposalType.TREASURY);
+      splitsCall = routerInterface.encodeFunctionData("setDistributionSplits", [0, 8000, 2000]);
+      withdrawCall = treasuryInterface.encodeFunctionData("withdraw", [ethers.ZeroAddress, majority.address, 1n]);
+    });
+
+    it("should classify each call from the selector map", async function () {
+      const p = await proposal("Classified");
+      expect(await governance.classifyProposal(p.targets, p.calldatas)).to.equal(ProposalType.REGISTRY);
+      expect(await governance.classifyProposal([router], [splitsCall])).to.equal(ProposalType.ROUTER_PARAM);
+      expect(await governance.classifyProposal([treasury], [withdrawCall])).to.equal(ProposalType.TREASURY);
+
+      // The selector is only mapped for the router it was registered for
+      expect(await governance.classifyProposal([treasury], [splitsCall])).to.equal(ProposalType.UPGRADE);
+      const [classified] = await governance.getSelectorType(treasury, splitsCall.slice(0, 10));
+      expect(classified).to.be.false;
+    });
+
+    it("should apply the strictest type present", async function () {
+      const p = await proposal("Mixed");
+      expect(
+        await governance.classifyProposal([...p.targets, router, treasury], [...p.calldatas, splitsCall, withdrawCall])
+      ).to.equal(ProposalType.ROUTER_PARAM);
+      expect(await governance.classifyProposal([...p.targets, router, registry], [...p.calldatas, splitsCall, "0x"])).to.equal(
+        ProposalType.UPGRADE
+      );
+    });
+
+    it("should reject a proposal labelled with a less strict type", async function () {
+      await expect(
+        governance.connect(majority).proposeWithType([router], [0n], [splitsCall], "Mislabelled splits", ProposalType.REGISTRY)
+      ).to.be.revertedWith("Governance: proposal type mismatch");
+
+      const p = await proposal("Mislabelled mix");
+      await expect(
+        governance
+          .connect(majority)
+          .proposeWithType([...p.targets, router], [0n, 0n], [...p.calldatas, splitsCall], p.description, ProposalType.REGISTRY)
+      ).to.be.revertedWith("Governance: proposal type mismatch");
+    });
+
+    it("should accept a proposal labelled with a stricter type", async function () {
+      const proposalId = await governance
+        .connect(majority)
+        .proposeWithType.staticCall([router], [0n], [splitsCall], "Strict splits", ProposalType.UPGRADE);
+      await governance.connect(majority).proposeWithType([router], [0n], [splitsCall], "Strict splits", ProposalType.UPGRADE);
+
+      expect(await governance.getProposalType(proposalId)).to.equal(ProposalType.UPGRADE);
+    });
+
+    it("should only let the admin manage the selector map", async function () {
+      const selector = splitsCall.slice(0, 10);
+      await expect(governance.connect(majority).setSelectorTypes(router, [selector], ProposalType.REGISTRY)).to.be.reverted;
+      await expect(governance.connect(majority).removeSelectorTypes(router, [selector])).to.be.reverted;
+
+      await expect(governance.removeSelectorTypes(router, [selector]))
+        .to.emit(governance, "SelectorTypeRemoved")
+        .withArgs(router, selector);
+      expect(await governance.classifyProposal([router], [splitsCall])).to.equal(ProposalType.UPGRADE);
+
+      await expect(governance.setSelectorTypes(router, [selector], ProposalType.REGISTRY))
+        .to.emit(governance, "SelectorTypeSet")
+        .withArgs(router, selector, ProposalType.REGISTRY);
+      expect(await governance.getSelectorType(router, selector)).to.deep.equal([true, BigInt(ProposalType.REGISTRY)]);
+    });
+  });
+
+  describe("Vote threshold", function () {
+    it("should defeat an UPGRADE proposal with 55% support", async function () {
+      const { proposalId } = await proposeAndVote(ProposalType.UPGRADE, [
+        [majority, 1],
+        [minority, 0],
+      ]);
+
+      // Quorum (10%) is reached, the 66% threshold is not
+      const votes = await governance.proposalVotes(proposalId);
+      expect(votes.forVotes + votes.abstainVotes).to.be.gte(await governance.proposalQuorum(proposalId));
+      expect(await governance.state(proposalId)).to.equal(ProposalState.Defeated);
+    });
+
+    it("should pass a REGISTRY proposal with the same 55% support", async function () {
+      const { proposalId } = await proposeAndVote(ProposalType.REGISTRY, [
+        [majority, 1],
+        [minority, 0],
+      ]);
+
+      expect(await governance.state(proposalId)).to.equal(ProposalState.Succeeded);
+    });
+
+    it("should pass an UPGRADE proposal above 66% support", async function () {
+      // 18% for, 9% against = 66.7%
+      const { proposalId } = await proposeAndVote(ProposalType.UPGRADE, [
+        [majority, 1],
+        [small, 1],
+        [minority, 0],
+      ]);
+
+      expect(await governance.state(proposalId)).to.equal(ProposalState.Succeeded);
+    });
+
+    it("should not count abstentions towards support", async function () {
+      // 7% for, 9% abstain: quorum reached, support is 100% of for + against
+      const { proposalId } = await proposeAndVote(ProposalType.REGISTRY, [
+        [small, 1],
+        [minority, 2],
+      ]);
+
+      expect(await governance.state(proposalId)).to.equal(ProposalState.Succeeded);
+    });
+  });
+
+  describe("Quorum", function () {
+    it("should apply the quorum of the proposal type", async function () {
+      const registryProposal = await proposeAndVote(ProposalType.REGISTRY, [[small, 1]], "Registry change");
+      const upgradeProposal = await proposeAndVote(ProposalType.UPGRADE, [[small, 1]], "Upgrade");
+
+      const supply = await token.totalSupply();
+      expect(await governance.proposalQuorum(registryProposal.proposalId)).to.equal((supply * 500n) / 10000n);
+      expect(await governance.proposalQuorum(upgradeProposal.proposalId)).to.equal((supply * 1000n) / 10000n);
+
+      // 7% of supply clears the 5% REGISTRY quorum but not the 10% UPGRADE quorum
+      expect(await governance.state(registryProposal.proposalId)).to.equal(ProposalState.Succeeded);
+      expect(await governance.state(upgradeProposal.proposalId)).to.equal(ProposalState.Defeated);
+    });
+  });
+
+  describe("Timelock delay tiers", function () {
+    it("should queue TREASURY proposals with the standard delay", async function () {
+      const p = await proposeAndVote(ProposalType.TREASURY, [[majority, 1]]);
+      expect(await governance.proposalDelay(p.proposalId)).to.equal(STANDARD_DELAY);
+
+      await governance.queue(p.targets, p.values, p.calldatas, p.descriptionHash);
+      expect(await governance.proposalEta(p.proposalId)).to.equal((await time.latest()) + STANDARD_DELAY);
+
+      await time.increase(STANDARD_DELAY);
+      await governance.execute(p.targets, p.values, p.calldatas, p.descriptionHash);
+      expect(await governance.state(p.proposalId)).to.equal(ProposalState.Executed);
+    });
+
+    it("should queue UPGRADE proposals with the high-impact delay", async function () {
+      const p = await proposeAndVote(ProposalType.UPGRADE, [
+        [majority, 1],
+        [small, 1],
+      ]);
+      expect(await governance.proposalDelay(p.proposalId)).to.equal(HIGH_IMPACT_DELAY);
+
+      await governance.queue(p.targets, p.values, p.calldatas, p.descriptionHash);
+      expect(await governance.state(p.proposalId)).to.equal(ProposalState.Queued);
+      expect(await governance.proposalEta(p.proposalId)).to.equal((await time.latest()) + HIGH_IMPACT_DELAY);
+
+      // The standard delay is not enough
+      await time.increase(STANDARD_DELAY);
+      await expect(governance.execute(p.targets, p.values, p.calldatas, p.descriptionHash)).to.be.reverted;
+
+      await time.increase(HIGH_IMPACT_DELAY - STANDARD_DELAY);
+      await governance.execute(p.targets, p.values, p.calldatas, p.descriptionHash);
+      expect(await governance.state(p.proposalId)).to.equal(ProposalState.Executed);
+      expect((await registry.getTierConfig(PluginTier.UNTRUSTED)).maxSlippageBps).to.equal(50);
+    });
+
+    it("should queue a REGISTRY promotion to CORE with the high-impact delay", async function () {
+      const MockPluginFactory = await ethers.getContractFactory("MockPlugin");
+      const mockPlugin = await MockPluginFactory.deploy(ethers.id("core-plugin"), [], admin.address);
+      await registry.registerPlugin(await mockPlugin.getAddress());
+      const setPluginTier = registry.interface.getFunction("setPluginTier")!.selector;
+      await governance.setSelectorTypes(await registry.getAddress(), [setPluginTier], ProposalType.REGISTRY);
+      await timelock
+        .connect(admin)
+        .setHighImpactSelectorWithMinArg(await registry.getAddress(), setPluginTier, 1, PluginTier.CORE);
+
+      const targets = [await registry.getAddress()];
+      const calldatas = [registry.interface.encodeFunctionData("setPluginTier", [ethers.id("core-plugin"), PluginTier.CORE])];
+      const description = "Promote to CORE";
+      const proposalId = await governance
+        .connect(majority)
+        .proposeWithType.staticCall(targets, [0n], calldatas, description, ProposalType.REGISTRY);
+      await governance.connect(majority).proposeWithType(targets, [0n], calldatas, description, ProposalType.REGISTRY);
+      await mine(2);
+      await governance.connect(majority).castVote(proposalId, 1);
+      await mine(VOTING_PERIOD);
+
+      // The type's delay is standard, the timelock raises it for the promotion
+      expect(await governance.proposalDelay(proposalId)).to.equal(STANDARD_DELAY);
+      await governance.queue(targets, [0n], calldatas, ethers.id(description));
+      expect(await governance.proposalEta(proposalId)).to.equal((await time.latest()) + HIGH_IMPACT_DELAY);
+
+      await time.increase(HIGH_IMPACT_DELAY);
+      await governance.execute(targets, [0n], calldatas, ethers.id(description));
+      expect((await registry.getPlugin(ethers.id("core-plugin"))).tier).to.equal(PluginTier.CORE);
+    });
+
+    it("should report a proposal canceled on the timelock as Canceled", async function () {
+      const p = await proposeAndVote(ProposalType.TREASURY, [[majority, 1]]);
+      await governance.queue(p.targets, p.values, p.calldatas, p.descriptionHash);
+
+      const operationId = await timelock.hashOperationBatch(
+        p.targets,
+        p.values,
+        p.calldatas,
+        ethers.ZeroHash,
+        ethers.toBeHex(BigInt(await governance.getAddress()) << 96n ^ BigInt(p.descriptionHash), 32)
+      );
+      expect(await timelock.isOperationPending(operationId)).to.be.true;
+
+      await timelock.connect(admin).grantRole(await timelock.CANCELLER_ROLE(), admin.address);
+      await timelock.connect(admin).cancel(operationId);
+      expect(await governance.state(p.proposalId)).to.equal(ProposalState.Canceled);
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { Timelock } from "../../typechain-types";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PluginRegistry, Timelock } from "../../typechain-types";
+import { PluginTier } from "../helpers/TestConstants";
 
 describe("Timelock - Governance Tests", function () {
   let timelock: Timelock;
@@ -50,6 +52,119 @@ describe("Timelock - Governance Tests", function () {
     });
   });
 
+  describe("High-Impact Operations", function () {
+    const STANDARD_DELAY = 2 * 24 * 60 * 60;
+    const HIGH_IMPACT_DELAY = 7 * 24 * 60 * 60;
+    let registry: PluginRegistry;
+    let proposer: any;
+    let executor: any;
+    let adminSigner: any;
+    let pluginId: string;
+    let setPluginTierSelector: string;
+
+    beforeEach(async function () {
+      const signers = await ethers.getSigners();
+      [proposer, executor, adminSigner] = [signers[1], signers[3], signers[5]];
+
+      const RegistryFactory = await ethers.getContractFactory("PluginRegistry");
+      registry = await RegistryFactory.deploy(admin, await timelock.getAddress());
+      const MockPluginFactory = await ethers.getContractFactory("MockPlugin");
+      const mockPlugin = await MockPluginFactory.deploy(ethers.id("timelock-plugin"), [], admin);
+      await registry.registerPlugin(await mockPlugin.getAddress());
+      pluginId = ethers.id("timelock-plugin");
+
+      setPluginTierSelector = registry.interface.getFunction("setPluginTier")!.selector;
+      await timelock
+        .connect(adminSigner)
+        .setHighImpactSelectorWithMinArg(await registry.getAddress(), setPluginTierSelector, 1, PluginTier.CORE);
+    });
+
+    function setTier(tier: number) {
+      return registry.interface.encodeFunctionData("setPluginTier", [pluginId, tier]);
+    }
+
+    it("should require the high-impact delay to promote a plugin to CORE", async function () {
+      const target = await registry.getAddress();
+      const data = setTier(PluginTier.CORE);
+      expect(await timelock.isHighImpactCall(target, data)).to.be.true;
+
+      await expect(
+        timelock.connect(proposer).schedule(target, 0, data, ethers.ZeroHash, ethers.ZeroHash, STANDARD_DELAY)
+      ).to.be.revertedWith("Timelock: high-impact delay required");
+
+      await timelock.connect(proposer).schedule(target, 0, data, ethers.ZeroHash, ethers.ZeroHash, HIGH_IMPACT_DELAY);
+      const id = await timelock.hashOperation(target, 0, data, ethers.ZeroHash, ethers.ZeroHash);
+      expect(await timelock.getEffectiveDelay(id)).to.equal(HIGH_IMPACT_DELAY);
+
+      await time.increase(STANDARD_DELAY);
+      await expect(timelock.connect(executor).execute(target, 0, data, ethers.ZeroHash, ethers.ZeroHash)).to.be.reverted;
+
+      await time.increase(HIGH_IMPACT_DELAY - STANDARD_DELAY);
+      await timelock.connect(executor).execute(target, 0, data, ethers.ZeroHash, ethers.ZeroHash);
+      expect((await registry.getPlugin(pluginId)).tier).to.equal(PluginTier.CORE);
+      await expect(timelock.getEffectiveDelay(id)).to.be.revertedWith("Timelock: operation not pending");
+    });
+
+    it("should keep the standard delay for promotions below CORE", async function () {
+      const target = await registry.getAddress();
+      const data = setTier(PluginTier.VERIFIED);
+      expect(await timelock.isHighImpactCall(target, data)).to.be.false;
+
+      await timelock.connect(proposer).schedule(target, 0, data, ethers.ZeroHash, ethers.ZeroHash, STANDARD_DELAY);
+      const id = await timelock.hashOperation(target, 0, data, ethers.ZeroHash, ethers.ZeroHash);
+      expect(await timelock.getEffectiveDelay(id)).to.equal(STANDARD_DELAY);
+    });
+
+    it("should require the high-impact delay for a batch with any high-impact call", async function () {
+      const target = await registry.getAddress();
+      const payloads = [setTier(PluginTier.VERIFIED), setTier(PluginTier.CORE)];
+      expect(await timelock.getRequiredDelay([target], [payloads[0]])).to.equal(STANDARD_DELAY);
+      expect(await timelock.getRequiredDelay([target, target], payloads)).to.equal(HIGH_IMPACT_DELAY);
+
+      await expect(
+        timelock
+          .connect(proposer)
+          .scheduleBatch([target, target], [0, 0], payloads, ethers.ZeroHash, ethers.ZeroHash, STANDARD_DELAY)
+      ).to.be.revertedWith("Timelock: high-impact delay required");
+      await timelock
+        .connect(proposer)
+        .scheduleBatch([target, target], [0, 0], payloads, ethers.ZeroHash, ethers.ZeroHash, HIGH_IMPACT_DELAY);
+      const id = await timelock.hashOperationBatch([target, target], [0, 0], payloads, ethers.ZeroHash, ethers.ZeroHash);
+      expect(await timelock.getEffectiveDelay(id)).to.equal(HIGH_IMPACT_DELAY);
+    });
+
+    it("should treat its own delay settings as high-impact", async function () {
+      const target = await timelock.getAddress();
+      const data = timelock.interface.encodeFunctionData("removeHighImpactSelector", [
+        await registry.getAddress(),
+        setPluginTierSelector,
+      ]);
+      expect(await timelock.isHighImpactCall(target, data)).to.be.true;
+      expect(
+        await timelock.isHighImpactCall(target, timelock.interface.encodeFunctionData("updateDelay", [STANDARD_DELAY]))
+      ).to.be.true;
+    });
+
+    it("should only let the admin manage high-impact selectors", async function () {
+      const target = await registry.getAddress();
+      await expect(timelock.connect(proposer).setHighImpactSelector(target, setPluginTierSelector)).to.be.reverted;
+      await expect(timelock.connect(proposer).removeHighImpactSelector(target, setPluginTierSelector)).to.be.reverted;
+
+      await expect(timelock.connect(adminSigner).removeHighImpactSelector(target, setPluginTierSelector))
+        .to.emit(timelock, "HighImpactSelectorRemoved")
+        .withArgs(target, setPluginTierSelector);
+      expect(await timelock.isHighImpactCall(target, setTier(PluginTier.CORE))).to.be.false;
+      await expect(
+        timelock.connect(adminSigner).removeHighImpactSelector(target, setPluginTierSelector)
+      ).to.be.revertedWith("Timelock: selector not registered");
+
+      // Unconditional rules cover every tier
+      await timelock.connect(adminSigner).setHighImpactSelector(target, setPluginTierSelector);
+      expect(await timelock.isHighImpactCall(target, setTier(PluginTier.UNTRUSTED))).to.be.true;
+      expect((await timelock.getHighImpactRule(target, setPluginTierSelector)).conditional).to.be.false;
+    });
+  });
+
   describe("Access Control", function () {
     it("should allow proposers to propose", async function () {
       // proposers array is set up in beforeEach with proposer1 and proposer2
@@ -14,3 +14,22 @@ export const DistributionModel = {
   STAKING_REWARDS: 1,
   HYBRID: 2,
 } as const;
+
+export const ProposalType = {
+  REGISTRY: 0,
+  ROUTER_PARAM: 1,
+  UPGRADE: 2,
+  TREASURY: 3,
+} as const;
+
+// OpenZeppelin IGovernor.ProposalState
+export const ProposalState = {
+  Pending: 0,
+  Active: 1,
+  Canceled: 2,
+  Defeated: 3,
+  Succeeded: 4,
+  Queued: 5,
+  Expired: 6,
+  Executed: 7,
+} as const;
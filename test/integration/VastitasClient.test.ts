@@ -0,0 +1,406 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  VastitasToken,
+  PluginRegistry,
+  RevenueRouter,
+  SwapModule,
+  TreasuryVault,
+  Distributor,
+  Governance,
+  MockPlugin,
+  MockERC20,
+} from "../../typechain-types";
+import { PluginTier, DistributionModel } from "../helpers/TestConstants";
+import {
+  ProposalType,
+  VastitasClient,
+  captureState,
+  diffState,
+  setDistributionSplits,
+  setPluginTier,
+  validateDistributionSplits,
+} from "../../sdk";
+
+describe("VastitasClient SDK - Integration Tests", function () {
+  let token: VastitasToken;
+  let registry: PluginRegistry;
+  let router: RevenueRouter;
+  let swapModule: SwapModule;
+  let treasury: TreasuryVault;
+  let distributor: Distributor;
+  let governance: Governance;
+  let mockPlugin: MockPlugin;
+  let yieldAsset: MockERC20;
+  let treasuryAsset: MockERC20;
+  let client: VastitasClient;
+
+  let deployer: any;
+  let admin: any;
+  let governanceAccount: any;
+  let pluginOwner: any;
+
+  beforeEach(async function () {
+    [deployer, admin, governanceAccount, pluginOwner] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    treasuryAsset = await MockERC20Factory.deploy("Treasury Asset", "TREASURY");
+    yieldAsset = await MockERC20Factory.deploy("Yield Asset", "YIELD");
+
+    const TokenFactory = await ethers.getContractFactory("VastitasToken");
+    token = await TokenFactory.deploy(
+      "Vastitas",
+      "Vastitas",
+      ethers.parseEther("1000000000"),
+      deployer.address,
+      deployer.address
+    );
+
+    const TreasuryFactory = await ethers.getContractFactory("TreasuryVault");
+    treasury = await TreasuryFactory.deploy(admin.address, governanceAccount.address);
+
+    const RegistryFactory = await ethers.getContractFactory("PluginRegistry");
+    registry = await RegistryFactory.deploy(admin.address, governanceAccount.address);
+
+    // No Uniswap router: only treasury-asset yield and quarantine can be routed
+    const SwapModuleFactory = await ethers.getContractFactory("SwapModule");
+    swapModule = await SwapModuleFactory.deploy(
+      await treasuryAsset.getAddress(),
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      admin.address
+    );
+
+    const RouterFactory = await ethers.getContractFactory("RevenueRouter");
+    router = await RouterFactory.deploy(
+      await registry.getAddress(),
+      await swapModule.getAddress(),
+      await token.getAddress(),
+      await treasury.getAddress(),
+      DistributionModel.STAKING_REWARDS,
+      admin.address,
+      governanceAccount.address
+    );
+    await swapModule.connect(admin).setRouter(await router.getAddress());
+
+    const DistributorFactory = await ethers.getContractFactory("Distributor");
+    distributor = await DistributorFactory.deploy(
+      await token.getAddress(),
+      await treasuryAsset.getAddress(),
+      7 * 24 * 60 * 60,
+      admin.address,
+      await router.getAddress()
+    );
+    await router.connect(admin).setDistributor(await distributor.getAddress());
+
+    const TimelockFactory = await ethers.getContractFactory("Timelock");
+    const timelock = await TimelockFactory.deploy(2 * 24 * 60 * 60, [], [], admin.address);
+    const CouncilFactory = await ethers.getContractFactory("Council");
+    const council = await CouncilFactory.deploy(await token.getAddress(), 5760, 5760, ethers.ZeroAddress);
+    const GovernanceFactory = await ethers.getContractFactory("Governance");
+    governance = await GovernanceFactory.deploy(
+      token,
+      timelock,
+      council,
+      1, // voting delay
+      5760, // voting period
+      ethers.parseEther("10000"), // proposal threshold
+      50, // quorum
+      false
+    );
+
+    const MockPluginFactory = await ethers.getContractFactory("MockPlugin");
+    mockPlugin = await MockPluginFactory.deploy(
+      ethers.id("sdk-plugin"),
+      [await yieldAsset.getAddress(), await treasuryAsset.getAddress()],
+      await router.getAddress()
+    );
+
+    client = new VastitasClient(
+      {
+        token: await token.getAddress(),
+        registry: await registry.getAddress(),
+        swapModule: await swapModule.getAddress(),
+        router: await router.getAddress(),
+        distributor: await distributor.getAddress(),
+        governance: await governance.getAddress(),
+      },
+      deployer
+    );
+  });
+
+  describe("Construction", function () {
+    it("should load addresses from a deployment record", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vastitas-sdk-"));
+      fs.writeFileSync(
+        path.join(dir, "testnet.json"),
+        JSON.stringify({ network: "testnet", deployedAt: "", contracts: client.addresses })
+      );
+
+      const loaded = VastitasClient.fromDeployment("testnet", deployer, dir);
+      expect(await loaded.router.getAddress()).to.equal(await router.getAddress());
+      expect(() => VastitasClient.fromDeployment("missing", deployer, dir)).to.throw("no deployment record");
+      fs.rmSync(dir, { recursive: true });
+    });
+
+    it("should require a signer for transactions", async function () {
+      const readOnly = client.connect(ethers.provider);
+      await expect(readOnly.registerPlugin(await mockPlugin.getAddress())).to.be.rejectedWith(
+        "a Signer is required"
+      );
+    });
+  });
+
+  describe("Plugins", function () {
+    it("should register a plugin and read its metadata", async function () {
+      const { pluginId } = await client.registerPlugin(await mockPlugin.getAddress());
+      expect(pluginId).to.equal(ethers.id("sdk-plugin"));
+
+      const byAddress = await client.getPlugin(await mockPlugin.getAddress());
+      const byId = await client.getPlugin(pluginId);
+      expect(byAddress).to.deep.equal(byId);
+      expect(byId.tier).to.equal(PluginTier.UNTRUSTED);
+      expect(byId.isActive).to.be.true;
+      expect(await client.getPlugins()).to.have.length(1);
+
+      const tierConfig = await client.getTierConfig(PluginTier.UNTRUSTED);
+      expect(tierConfig.quarantineMode).to.be.true;
+    });
+
+    it("should post tier bonds and refund them after retirement", async function () {
+      const bondToken = await treasuryAsset.getAddress();
+      await registry.connect(governanceAccount).setTierBond(PluginTier.UNTRUSTED, bondToken, ethers.parseEther("100"));
+      await registry.connect(governanceAccount).setTierBond(PluginTier.VERIFIED, bondToken, ethers.parseEther("250"));
+
+      // Registration approves and posts the UNTRUSTED bond
+      const { pluginId } = await client.registerPlugin(await mockPlugin.getAddress());
+      expect(await client.getPluginBond(pluginId)).to.deep.equal({
+        depositor: deployer.address,
+        token: bondToken,
+        amount: ethers.parseEther("100"),
+        unlocksAt: 0n,
+      });
+
+      await client.topUpBond(pluginId, PluginTier.VERIFIED);
+      expect((await client.getPluginBond(pluginId)).amount).to.equal(ethers.parseEther("250"));
+      await expect(client.topUpBond(pluginId, PluginTier.VERIFIED)).to.be.rejectedWith("already covers");
+
+      await client.retirePlugin(pluginId);
+      await time.increaseTo((await client.getPluginBond(pluginId)).unlocksAt);
+      const before = await treasuryAsset.balanceOf(deployer.address);
+      await client.withdrawBond(pluginId);
+      expect((await treasuryAsset.balanceOf(deployer.address)) - before).to.equal(ethers.parseEther("250"));
+    });
+
+    it("should list the emergency measures in effect", async function () {
+      const { pluginId } = await client.registerPlugin(await mockPlugin.getAddress());
+      await registry.connect(admin).grantRole(await registry.EMERGENCY_ROLE(), admin.address);
+      await registry.connect(admin).emergencyQuarantine(pluginId);
+      await registry.connect(admin).reducePluginCaps(pluginId, ethers.parseEther("500"), 50);
+
+      const measures = await client.getEmergencyMeasures();
+      expect(measures.swapsPaused).to.be.false;
+      expect(measures.mandateEnd).to.be.undefined;
+      expect(measures.quarantines).to.have.length(1);
+      expect(measures.quarantines[0].pluginId).to.equal(pluginId);
+      expect(measures.capReductions).to.have.length(1);
+      expect(measures.capReductions[0].caps.maxConversionAmount).to.equal(ethers.parseEther("500"));
+      expect((await client.getPlugin(pluginId)).isActive).to.be.false;
+
+      await time.increase(await registry.EMERGENCY_CAPS_DURATION());
+      const lapsed = await client.getEmergencyMeasures();
+      expect(lapsed.quarantines).to.have.length(0);
+      expect(lapsed.capReductions).to.have.length(0);
+    });
+
+    it("should reject unknown plugins", async function () {
+      await expect(client.getPlugin(ethers.id("unknown"))).to.be.rejectedWith("is not registered");
+    });
+  });
+
+  describe("Yield preview", function () {
+    let pluginId: string;
+
+    beforeEach(async function () {
+      ({ pluginId } = await client.registerPlugin(await mockPlugin.getAddress()));
+    });
+
+    it("should predict quarantine for untrusted plugins", async function () {
+      const amount = ethers.parseEther("100");
+      await registry
+        .connect(governanceAccount)
+        .setDevShareSplit(pluginId, [{ recipient: pluginOwner.address, bps: 1000 }]);
+      expect(await client.getDevShareSplit(pluginId)).to.deep.equal([{ recipient: pluginOwner.address, bps: 1000n }]);
+      const preview = await client.previewReceiveYield({
+        pluginId,
+        asset: await yieldAsset.getAddress(),
+        amount,
+        devShare: { devRecipient: pluginOwner.address, devBps: 1000 },
+      });
+      expect(preview.revertReason).to.be.undefined;
+      expect(preview.action).to.equal("quarantine");
+      expect(preview.devCut).to.equal(ethers.parseEther("10"));
+
+      await yieldAsset.mint(pluginOwner.address, amount);
+      await yieldAsset.connect(pluginOwner).approve(await mockPlugin.getAddress(), amount);
+      await mockPlugin.setDevShare(pluginOwner.address, 1000);
+      await mockPlugin.setYield(await yieldAsset.getAddress(), amount);
+      await mockPlugin.connect(pluginOwner).claimAndRoute();
+
+      expect(await router.getQuarantinedYield(pluginId, await yieldAsset.getAddress())).to.equal(preview.daoCut);
+    });
+
+    it("should report and claim accrued dev share", async function () {
+      const amount = ethers.parseEther("100");
+      const yieldAddr = await yieldAsset.getAddress();
+      await registry
+        .connect(governanceAccount)
+        .setDevShareSplit(pluginId, [{ recipient: pluginOwner.address, bps: 1000 }]);
+      await yieldAsset.mint(pluginOwner.address, amount);
+      await yieldAsset.connect(pluginOwner).approve(await mockPlugin.getAddress(), amount);
+      await mockPlugin.setYield(yieldAddr, amount);
+      await mockPlugin.connect(pluginOwner).claimAndRoute();
+
+      const ownerClient = client.connect(pluginOwner);
+      const [balance] = await ownerClient.getDevShareBalances();
+      expect(balance).to.deep.equal({
+        asset: yieldAddr,
+        accrued: ethers.parseEther("10"),
+        claimed: 0n,
+        pending: ethers.parseEther("10"),
+      });
+
+      const before = await yieldAsset.balanceOf(pluginOwner.address);
+      await ownerClient.claimDevShare([yieldAddr]);
+      expect((await yieldAsset.balanceOf(pluginOwner.address)) - before).to.equal(ethers.parseEther("10"));
+      await expect(ownerClient.claimDevShare([yieldAddr])).to.be.rejectedWith("no dev share to claim");
+    });
+
+    it("should predict accumulation and the policy split for treasury-asset yield", async function () {
+      await registry.connect(governanceAccount).setPluginTier(pluginId, PluginTier.VERIFIED);
+      const amount = ethers.parseEther("50");
+      const preview = await client.previewReceiveYield({ pluginId, asset: await treasuryAsset.getAddress(), amount });
+      expect(preview.action).to.equal("accumulate");
+
+      await treasuryAsset.mint(pluginOwner.address, amount);
+      await treasuryAsset.connect(pluginOwner).approve(await mockPlugin.getAddress(), amount);
+      await mockPlugin.setYield(await treasuryAsset.getAddress(), amount);
+      await mockPlugin.connect(pluginOwner).claimAndRoute();
+
+      const policy = await client.previewApplyPolicy();
+      expect(policy.accumulatedYield).to.equal(amount);
+      expect(policy.toDistributor).to.equal(amount);
+
+      await client.applyPolicy();
+      expect(await treasuryAsset.balanceOf(await distributor.getAddress())).to.equal(policy.toDistributor);
+    });
+
+    it("should predict quarantine while swaps are paused", async function () {
+      await registry.connect(governanceAccount).setPluginTier(pluginId, PluginTier.VERIFIED);
+      await swapModule.connect(admin).grantRole(await swapModule.PAUSER_ROLE(), admin.address);
+      await swapModule.connect(admin).pause();
+
+      const preview = await client.previewReceiveYield({ pluginId, asset: await yieldAsset.getAddress(), amount: 1000n });
+      expect(preview.revertReason).to.be.undefined;
+      expect(preview.action).to.equal("quarantine");
+    });
+
+    it("should report the revert reason instead of sending", async function () {
+      await registry.connect(governanceAccount).setPluginTier(pluginId, PluginTier.VERIFIED);
+      const asset = await yieldAsset.getAddress();
+
+      const overMax = await client.previewReceiveYield({
+        pluginId,
+        asset,
+        amount: 1000n,
+        devShare: { devRecipient: pluginOwner.address, devBps: 2500 },
+      });
+      expect(overMax.revertReason).to.equal("RevenueRouter: dev share exceeds max");
+
+      const noRoute = await client.previewReceiveYield({ pluginId, asset, amount: 1000n });
+      expect(noRoute.action).to.equal("convert");
+      expect(noRoute.revertReason).to.equal("SwapModule: route not whitelisted");
+
+      await expect(client.receiveYield({ pluginId, asset, amount: 1000n })).to.be.rejectedWith(
+        "must be sent by the plugin"
+      );
+    });
+  });
+
+  describe("Staking", function () {
+    it("should approve and stake in one call", async function () {
+      const amount = ethers.parseEther("1000");
+      await client.stake(amount);
+      expect(await client.getStakedAmount()).to.equal(amount);
+
+      await client.unstake(amount);
+      expect(await client.getStakedAmount(deployer.address)).to.equal(0);
+    });
+  });
+
+  describe("Proposals", function () {
+    it("should submit a typed proposal with the id governance computes", async function () {
+      await token.delegate(deployer.address);
+      await ethers.provider.send("evm_mine", []);
+
+      const proposal = {
+        type: ProposalType.ROUTER_PARAM,
+        actions: [
+          setDistributionSplits(await router.getAddress(), { buybackBps: 0, stakerBps: 8000, treasuryBps: 2000 }),
+          setPluginTier(await registry.getAddress(), ethers.id("sdk-plugin"), PluginTier.VERIFIED),
+        ],
+        description: "Shift 20% of yield to the treasury",
+      };
+      await governance.setSelectorTypes(
+        router,
+        [router.interface.getFunction("setDistributionSplits")!.selector],
+        ProposalType.ROUTER_PARAM
+      );
+      await governance.setSelectorTypes(
+        registry,
+        [registry.interface.getFunction("setPluginTier")!.selector],
+        ProposalType.REGISTRY
+      );
+      expect(await client.classifyProposal(proposal.actions)).to.equal(ProposalType.ROUTER_PARAM);
+      expect(await client.classifyProposal(proposal.actions.slice(1))).to.equal(ProposalType.REGISTRY);
+
+      const { proposalId } = await client.propose(proposal);
+
+      expect(proposalId).to.equal(
+        await governance.hashProposal(
+          proposal.actions.map((action) => action.target),
+          proposal.actions.map((action) => action.value),
+          proposal.actions.map((action) => action.calldata),
+          ethers.id(proposal.description)
+        )
+      );
+      expect(await governance.state(proposalId)).to.equal(0); // Pending
+    });
+
+    it("should diff protocol state around a parameter change", async function () {
+      const { pluginId } = await client.registerPlugin(await mockPlugin.getAddress());
+      const before = await captureState(client);
+
+      await router.connect(governanceAccount).setDistributionSplits(0, 8000, 2000);
+      await registry.connect(governanceAccount).setPluginTier(pluginId, PluginTier.CORE);
+
+      expect(diffState(before, await captureState(client))).to.deep.equal([
+        { key: "RevenueRouter.buybackShareBps", before: "10000", after: "0" },
+        { key: "RevenueRouter.stakerShareBps", before: "0", after: "8000" },
+        { key: "RevenueRouter.treasuryShareBps", before: "0", after: "2000" },
+        { key: `PluginRegistry.plugin.${pluginId}.tier`, before: "UNTRUSTED", after: "CORE" },
+      ]);
+    });
+
+    it("should reject splits the router would reject", async function () {
+      expect(validateDistributionSplits({ buybackBps: 0, stakerBps: 6000, treasuryBps: 4000 })).to.have.length(1);
+      expect(() =>
+        setDistributionSplits(ethers.ZeroAddress, { buybackBps: 5000, stakerBps: 5000, treasuryBps: 1000 })
+      ).to.throw("must sum to 10000");
+    });
+  });
+});
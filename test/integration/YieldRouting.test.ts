@@ -237,17 +237,21 @@ describe("Yield Routing - Integration Tests", function () {
         ethers.MaxUint256
       );
       
-      // Set dev share
+      // Register the dev share split
+      await registry
+        .connect(await ethers.getSigner(governance))
+        .setDevShareSplit(await mockPlugin.pluginId(), [{ recipient: devRecipient, bps: devBps }]);
       await mockPlugin.setDevShare(devRecipient, devBps);
       await mockPlugin.setYield(await yieldAsset.getAddress(), yieldAmount);
 
       // Route yield
       await mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
 
-      // Check dev share received
-      const devShare = await router.getDevShareReceived(devRecipient);
+      // Check dev share accrued
+      const devShare = await router.getDevShareReceived(devRecipient, await yieldAsset.getAddress());
       const expectedDevShare = (yieldAmount * BigInt(devBps)) / 10000n;
-      expect(devShare).to.equal(expectedDevShare);
+      expect(devShare.accrued).to.equal(expectedDevShare);
+      expect(devShare.pending).to.equal(expectedDevShare);
     });
 
     it("should reject dev share > 20%", async function () {
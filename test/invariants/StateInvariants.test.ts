@@ -278,6 +278,63 @@ describe("State Invariants", function () {
     });
   });
 
+  describe("Invariant: Batched yield is held until converted and attributed exactly once", function () {
+    it("should keep pending balances and per-plugin attribution consistent", async function () {
+      const yieldAddr = await yieldAsset.getAddress();
+      const routerAddr = await router.getAddress();
+      const [, , , , keeper] = await ethers.getSigners();
+      await router.connect(await ethers.getSigner(admin)).grantRole(await router.KEEPER_ROLE(), keeper.address);
+      await router.connect(await ethers.getSigner(governance)).setBatchConfig(yieldAddr, true, 0, 0);
+
+      // An uneven rate so the pro-rata split leaves rounding dust
+      await mockUniswapRouter.setExchangeRate(yieldAddr, await treasuryAsset.getAddress(), 333333333333333333n);
+      await mockUniswapQuoter.setExchangeRate(yieldAddr, await treasuryAsset.getAddress(), 333333333333333333n);
+
+      const plugins: MockPlugin[] = [mockPlugin];
+      for (const name of ["test-plugin-2", "test-plugin-3"]) {
+        const plugin = await (await ethers.getContractFactory("MockPlugin")).deploy(ethers.id(name), [yieldAddr], routerAddr);
+        await registry.registerPlugin(await plugin.getAddress());
+        await registry.connect(await ethers.getSigner(governance)).setPluginTier(await plugin.pluginId(), PluginTier.VERIFIED);
+        await yieldAsset.connect(await ethers.getSigner(pluginOwner)).approve(await plugin.getAddress(), ethers.MaxUint256);
+        plugins.push(plugin);
+      }
+
+      const amounts = [ethers.parseEther("7") + 1n, ethers.parseEther("13"), 29n];
+      const totalYieldBefore = await router.getTotalYield();
+      for (let i = 0; i < plugins.length; i++) {
+        await plugins[i].setYield(yieldAddr, amounts[i]);
+        await plugins[i].connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
+      }
+
+      // Pending yield sits in the router, unattributed, and sums to the batch total
+      const pendingTotal = amounts.reduce((sum, amount) => sum + amount, 0n);
+      expect((await router.getPendingBatch(yieldAddr)).total).to.equal(pendingTotal);
+      expect(await yieldAsset.balanceOf(routerAddr)).to.equal(pendingTotal);
+      let pendingSum = 0n;
+      for (let i = 0; i < plugins.length; i++) {
+        const pending = await router.getPendingYield(await plugins[i].pluginId(), yieldAddr);
+        expect(pending).to.equal(amounts[i]);
+        pendingSum += pending;
+      }
+      expect(pendingSum).to.equal(pendingTotal);
+      expect(await router.getTotalYield()).to.equal(totalYieldBefore);
+
+      await router.connect(keeper).convertPendingYield(yieldAddr);
+
+      // The output is attributed once: per-plugin yield sums to the total and accumulated yield
+      const converted = (await router.getTotalYield()) - totalYieldBefore;
+      expect(converted).to.equal((pendingTotal * 333333333333333333n) / ethers.parseEther("1"));
+      let attributed = 0n;
+      for (const plugin of plugins) {
+        attributed += await router.getPluginYield(await plugin.pluginId());
+      }
+      expect(attributed).to.equal(converted);
+      expect(await router.getAccumulatedYield()).to.equal(converted);
+      expect(await treasuryAsset.balanceOf(routerAddr)).to.equal(converted);
+      expect(await yieldAsset.balanceOf(routerAddr)).to.equal(0);
+    });
+  });
+
   describe("Invariant: Token balance changes only via router", function () {
     it("should reject direct transfers to token", async function () {
       const amount = ethers.parseEther("1000");
@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as path from "path";
+import { Create2Deployer } from "../../typechain-types";
+import {
+  CONTRACT_KEYS,
+  MANIFESTS_DIR,
+  ManifestValidationError,
+  ResolutionContext,
+  getChainDisplayName,
+  readManifestFile,
+  resolveAccounts,
+  validateManifest,
+} from "../../scripts/manifest";
+import { predictDeployment } from "../../scripts/create2";
+
+describe("Create2Deployer - Unit Tests", function () {
+  let factory: Create2Deployer;
+  let factoryAddress: string;
+  let deployer: any;
+  let other: any;
+  let admin: string;
+  let treasurer: string;
+
+  const salt = ethers.id("vastitas-test:treasury");
+
+  async function treasuryInitCode(): Promise<string> {
+    const TreasuryFactory = await ethers.getContractFactory("TreasuryVault");
+    const tx = await TreasuryFactory.getDeployTransaction(admin, treasurer);
+    return tx.data;
+  }
+
+  beforeEach(async function () {
+    const [deployerAccount, otherAccount, adminAccount, treasurerAccount] = await ethers.getSigners();
+    deployer = deployerAccount;
+    other = otherAccount;
+    admin = await adminAccount.getAddress();
+    treasurer = await treasurerAccount.getAddress();
+
+    const Create2DeployerFactory = await ethers.getContractFactory("Create2Deployer");
+    factory = await Create2DeployerFactory.deploy();
+    await factory.waitForDeployment();
+    factoryAddress = await factory.getAddress();
+  });
+
+  describe("deploy", function () {
+    it("should deploy at the predicted address", async function () {
+      const initCode = await treasuryInitCode();
+      const predicted = await factory.computeAddress(deployer.address, salt, ethers.keccak256(initCode));
+
+      await expect(factory.deploy(salt, initCode, []))
+        .to.emit(factory, "Deployed")
+        .withArgs(deployer.address, salt, predicted);
+
+      const treasury = await ethers.getContractAt("TreasuryVault", predicted);
+      expect(await treasury.hasRole(await treasury.ADMIN_ROLE(), admin)).to.be.true;
+      expect(await treasury.hasRole(await treasury.TREASURER_ROLE(), treasurer)).to.be.true;
+    });
+
+    it("should namespace salts by deployer", async function () {
+      const initCode = await treasuryInitCode();
+      const initCodeHash = ethers.keccak256(initCode);
+      const fromDeployer = await factory.computeAddress(deployer.address, salt, initCodeHash);
+      const fromOther = await factory.computeAddress(other.address, salt, initCodeHash);
+      expect(fromDeployer).to.not.equal(fromOther);
+
+      await factory.connect(other).deploy(salt, initCode, []);
+      expect(await ethers.provider.getCode(fromDeployer)).to.equal("0x");
+
+      await factory.deploy(salt, initCode, []);
+      expect(await ethers.provider.getCode(fromDeployer)).to.not.equal("0x");
+    });
+
+    it("should revert when redeploying with the same salt and init code", async function () {
+      const initCode = await treasuryInitCode();
+      await factory.deploy(salt, initCode, []);
+
+      await expect(factory.deploy(salt, initCode, [])).to.be.reverted;
+    });
+
+    it("should revert with empty init code", async function () {
+      await expect(factory.deploy(salt, "0x", [])).to.be.revertedWith("Create2Deployer: empty init code");
+    });
+
+    it("should run init calls to hand over msg.sender roles", async function () {
+      const [, , , , tokenOwner] = await ethers.getSigners();
+      const TokenFactory = await ethers.getContractFactory("VastitasToken");
+      const token = await TokenFactory.deploy("Vastitas", "VAST", 0, deployer.address, tokenOwner.address);
+      await token.waitForDeployment();
+
+      const CouncilFactory = await ethers.getContractFactory("Council");
+      const { data: initCode } = await CouncilFactory.getDeployTransaction(
+        await token.getAddress(),
+        172800,
+        518400,
+        ethers.ZeroAddress
+      );
+      const accessControl = new ethers.Interface([
+        "function grantRole(bytes32 role, address account)",
+        "function renounceRole(bytes32 role, address callerConfirmation)",
+      ]);
+      const initCalls = [
+        accessControl.encodeFunctionData("grantRole", [ethers.ZeroHash, deployer.address]),
+        accessControl.encodeFunctionData("renounceRole", [ethers.ZeroHash, factoryAddress]),
+      ];
+      const councilSalt = ethers.id("vastitas-test:council");
+      const predicted = await factory.computeAddress(deployer.address, councilSalt, ethers.keccak256(initCode));
+
+      await factory.deploy(councilSalt, initCode, initCalls);
+
+      const council = await ethers.getContractAt("Council", predicted);
+      expect(await council.hasRole(ethers.ZeroHash, deployer.address)).to.be.true;
+      expect(await council.hasRole(ethers.ZeroHash, factoryAddress)).to.be.false;
+    });
+
+    it("should revert the deployment when an init call fails", async function () {
+      const initCode = await treasuryInitCode();
+      const treasury = await ethers.getContractAt("TreasuryVault", ethers.ZeroAddress);
+      // The factory holds no role on TreasuryVault
+      const initCalls = [treasury.interface.encodeFunctionData("grantRole", [ethers.ZeroHash, other.address])];
+      const predicted = await factory.computeAddress(deployer.address, salt, ethers.keccak256(initCode));
+
+      await expect(factory.deploy(salt, initCode, initCalls)).to.be.reverted;
+      expect(await ethers.provider.getCode(predicted)).to.equal("0x");
+    });
+  });
+
+  describe("manifest predictions", function () {
+    const create2 = { salt: "vastitas-test" };
+
+    function readNetworkManifest(network: string): Record<string, any> {
+      return readManifestFile(path.join(MANIFESTS_DIR, `${network}.json`));
+    }
+
+    async function predict(raw: Record<string, any>, network: string, chainId: bigint) {
+      const manifest = validateManifest(raw, network);
+      const ctx: ResolutionContext = {
+        chainDisplayName: getChainDisplayName(chainId, network),
+        signerAddresses: (await ethers.getSigners()).map((signer) => signer.address),
+        accounts: {},
+        addresses: {},
+      };
+      ctx.accounts = resolveAccounts(manifest, ctx);
+      return predictDeployment(manifest, ctx, create2.salt, factoryAddress);
+    }
+
+    it("should predict the same addresses on networks with different routers and supply", async function () {
+      const hardhat = await predict({ ...readNetworkManifest("hardhat"), create2 }, "hardhat", 1337n);
+      const sepolia = readNetworkManifest("sepolia");
+      const sepoliaPrediction = await predict(
+        {
+          ...sepolia,
+          create2,
+          accounts: {
+            ...sepolia.accounts,
+            uniswapRouter: "0xE592427A0AEce92De3Edee1F18E0157C05861564",
+            uniswapQuoter: "0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6",
+          },
+          tokenSupply: { amount: "21000000 ether", holder: "$signer:1" },
+        },
+        "sepolia",
+        11155111n
+      );
+
+      for (const key of CONTRACT_KEYS) {
+        expect(hardhat.addresses[key], key).to.be.properAddress;
+        expect(sepoliaPrediction.addresses[key], key).to.equal(hardhat.addresses[key]);
+      }
+    });
+
+    it("should reject {chain} in constructor arguments of CREATE2 manifests", async function () {
+      const raw = readNetworkManifest("hardhat");
+      const token = { args: { ...raw.contracts.token.args, name: "Vastitas {chain}" } };
+      const withChainName = { ...raw, contracts: { ...raw.contracts, token } };
+
+      expect(() => validateManifest(withChainName, "hardhat")).to.not.throw();
+      expect(() => validateManifest({ ...withChainName, create2 }, "hardhat"))
+        .to.throw(ManifestValidationError)
+        .with.property("message")
+        .that.includes("contracts.token.args.name: {chain} makes the CREATE2 address differ per network");
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { PluginRegistry, MockPlugin } from "../../typechain-types";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PluginRegistry, MockPlugin, MockERC20 } from "../../typechain-types";
 import { PluginTier } from "../helpers/TestConstants";
 
 describe("PluginRegistry - Unit Tests", function () {
@@ -53,6 +54,27 @@ describe("PluginRegistry - Unit Tests", function () {
         "PluginRegistry: already registered"
       );
     });
+
+    it("should let anyone register a plugin but its owner claim the depositor rights", async function () {
+      const [deployer] = await ethers.getSigners();
+      const pluginId = await mockPlugin.pluginId();
+      const userRegistry = registry.connect(await ethers.getSigner(user));
+      await userRegistry.registerPlugin(await mockPlugin.getAddress());
+      expect((await registry.getPluginBond(pluginId)).depositor).to.equal(user);
+
+      // The front-running registrant can neither retire the plugin nor keep the depositor rights
+      await expect(userRegistry.retirePlugin(pluginId)).to.be.revertedWith("PluginRegistry: unauthorized");
+      await expect(userRegistry.claimDepositor(pluginId)).to.be.revertedWith("PluginRegistry: not plugin owner");
+      await expect(registry.claimDepositor(pluginId))
+        .to.emit(registry, "DepositorClaimed")
+        .withArgs(pluginId, user, deployer.address);
+      expect((await registry.getPluginBond(pluginId)).depositor).to.equal(deployer.address);
+
+      await mockPlugin.transferOwnership(user);
+      await expect(registry.claimDepositor(pluginId)).to.be.revertedWith("PluginRegistry: not plugin owner");
+      await userRegistry.claimDepositor(pluginId);
+      expect((await registry.getPluginBond(pluginId)).depositor).to.equal(user);
+    });
   });
 
   describe("Tier Management", function () {
@@ -169,6 +191,521 @@ describe("PluginRegistry - Unit Tests", function () {
     });
   });
 
+  describe("Rate Limits", function () {
+    beforeEach(async function () {
+      await registry.registerPlugin(await mockPlugin.getAddress());
+    });
+
+    it("should have no rate limit by default", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const [maxYieldPerWindow, window] = await registry.getEffectiveRateLimit(pluginId);
+      expect(maxYieldPerWindow).to.equal(0);
+      expect(window).to.equal(24 * 60 * 60);
+    });
+
+    it("should let a plugin limit tighten its tier limit", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const govRegistry = registry.connect(await ethers.getSigner(governance));
+
+      await expect(govRegistry.setTierRateLimit(PluginTier.UNTRUSTED, ethers.parseEther("500")))
+        .to.emit(registry, "TierRateLimitUpdated")
+        .withArgs(PluginTier.UNTRUSTED, ethers.parseEther("500"));
+      expect((await registry.getEffectiveRateLimit(pluginId)).maxYieldPerWindow).to.equal(ethers.parseEther("500"));
+
+      // A looser plugin limit does not override the tier
+      await govRegistry.setPluginRateLimit(pluginId, ethers.parseEther("800"));
+      expect((await registry.getEffectiveRateLimit(pluginId)).maxYieldPerWindow).to.equal(ethers.parseEther("500"));
+
+      await expect(govRegistry.setPluginRateLimit(pluginId, ethers.parseEther("200")))
+        .to.emit(registry, "PluginRateLimitUpdated")
+        .withArgs(pluginId, ethers.parseEther("200"));
+      expect((await registry.getEffectiveRateLimit(pluginId)).maxYieldPerWindow).to.equal(ethers.parseEther("200"));
+
+      // Without a tier limit the plugin limit applies on its own
+      await govRegistry.setTierRateLimit(PluginTier.UNTRUSTED, 0);
+      expect((await registry.getEffectiveRateLimit(pluginId)).maxYieldPerWindow).to.equal(ethers.parseEther("200"));
+    });
+
+    it("should restrict rate limit changes to governance within the window bounds", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const govRegistry = registry.connect(await ethers.getSigner(governance));
+      const userRegistry = registry.connect(await ethers.getSigner(user));
+
+      await expect(userRegistry.setTierRateLimit(PluginTier.UNTRUSTED, 1)).to.be.revertedWithCustomError(
+        registry,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(userRegistry.setPluginRateLimit(pluginId, 1)).to.be.revertedWithCustomError(
+        registry,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(govRegistry.setPluginRateLimit(ethers.id("unknown"), 1)).to.be.revertedWith(
+        "PluginRegistry: plugin not found"
+      );
+
+      await expect(govRegistry.setRateLimitWindow(60 * 60))
+        .to.emit(registry, "RateLimitWindowUpdated")
+        .withArgs(60 * 60);
+      expect((await registry.getEffectiveRateLimit(pluginId)).window).to.equal(60 * 60);
+      await expect(govRegistry.setRateLimitWindow(60 * 60 - 1)).to.be.revertedWith("PluginRegistry: invalid window");
+      await expect(
+        govRegistry.setRateLimitWindow((await registry.MAX_RATE_LIMIT_WINDOW()) + 1n)
+      ).to.be.revertedWith("PluginRegistry: invalid window");
+      await expect(userRegistry.setRateLimitWindow(60 * 60)).to.be.revertedWithCustomError(
+        registry,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Dev Share Split", function () {
+    it("should bind the plugin's dev share split at registration", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const [, , , , devA, devB] = await ethers.getSigners();
+      await mockPlugin.setDevShareRecipients([devA.address, devB.address], [300, 200]);
+
+      await expect(registry.registerPlugin(await mockPlugin.getAddress())).to.emit(registry, "DevShareSplitUpdated");
+      const split = await registry.getDevShareSplit(pluginId);
+      expect(split.map(({ recipient, bps }) => [recipient, bps])).to.deep.equal([
+        [devA.address, 300n],
+        [devB.address, 200n],
+      ]);
+
+      // Later changes to the plugin do not affect the registered split
+      await mockPlugin.setDevShareRecipients([user], [2000]);
+      expect(await registry.getDevShareSplit(pluginId)).to.have.length(2);
+    });
+
+    it("should reject a registration whose split exceeds the dev share cap", async function () {
+      await mockPlugin.setDevShareRecipients([user, admin], [1500, 501]);
+      await expect(registry.registerPlugin(await mockPlugin.getAddress())).to.be.revertedWith(
+        "PluginRegistry: dev share exceeds max"
+      );
+    });
+
+    it("should only let governance replace the split", async function () {
+      await registry.registerPlugin(await mockPlugin.getAddress());
+      const pluginId = await mockPlugin.pluginId();
+      const govRegistry = registry.connect(await ethers.getSigner(governance));
+
+      await expect(
+        registry.connect(await ethers.getSigner(user)).setDevShareSplit(pluginId, [{ recipient: user, bps: 100 }])
+      ).to.be.revertedWithCustomError(registry, "AccessControlUnauthorizedAccount");
+
+      await govRegistry.setDevShareSplit(pluginId, [{ recipient: user, bps: 100 }]);
+      expect((await registry.getDevShareSplit(pluginId))[0].recipient).to.equal(user);
+
+      await expect(
+        govRegistry.setDevShareSplit(pluginId, [{ recipient: ethers.ZeroAddress, bps: 100 }])
+      ).to.be.revertedWith("PluginRegistry: zero dev share recipient");
+      await expect(govRegistry.setDevShareSplit(pluginId, [{ recipient: user, bps: 0 }])).to.be.revertedWith(
+        "PluginRegistry: zero dev share bps"
+      );
+      await expect(
+        govRegistry.setDevShareSplit(pluginId, [
+          { recipient: user, bps: 100 },
+          { recipient: user, bps: 100 },
+        ])
+      ).to.be.revertedWith("PluginRegistry: duplicate dev share recipient");
+      const signers = await ethers.getSigners();
+      await expect(
+        govRegistry.setDevShareSplit(
+          pluginId,
+          signers.slice(0, 6).map((signer) => ({ recipient: signer.address, bps: 10 }))
+        )
+      ).to.be.revertedWith("PluginRegistry: too many dev share recipients");
+      await expect(
+        govRegistry.setDevShareSplit(ethers.id("unknown"), [{ recipient: user, bps: 100 }])
+      ).to.be.revertedWith("PluginRegistry: plugin not found");
+
+      await govRegistry.setDevShareSplit(pluginId, []);
+      expect(await registry.getDevShareSplit(pluginId)).to.have.length(0);
+    });
+  });
+
+  describe("Registration Bonds", function () {
+    const BOND = ethers.parseEther("100");
+    let bondToken: MockERC20;
+    let emergency: string;
+    let treasury: string;
+
+    beforeEach(async function () {
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      bondToken = await MockERC20Factory.deploy("Treasury Asset", "TREASURY");
+      await bondToken.waitForDeployment();
+      await bondToken.approve(await registry.getAddress(), ethers.MaxUint256);
+
+      const [, , , , emergencyAccount, treasuryAccount] = await ethers.getSigners();
+      emergency = await emergencyAccount.getAddress();
+      treasury = await treasuryAccount.getAddress();
+      const adminRegistry = registry.connect(await ethers.getSigner(admin));
+      await adminRegistry.grantRole(await registry.EMERGENCY_ROLE(), emergency);
+      await expect(adminRegistry.setBondTreasury(treasury))
+        .to.emit(registry, "BondTreasuryUpdated")
+        .withArgs(treasury);
+      await expect(
+        registry.connect(await ethers.getSigner(governance)).setTierBond(PluginTier.UNTRUSTED, await bondToken.getAddress(), BOND)
+      )
+        .to.emit(registry, "TierBondUpdated")
+        .withArgs(PluginTier.UNTRUSTED, await bondToken.getAddress(), BOND);
+    });
+
+    it("should take the entry tier bond at registration and require promotions to be covered", async function () {
+      const [deployer] = await ethers.getSigners();
+      const pluginId = await mockPlugin.pluginId();
+      const bondAddr = await bondToken.getAddress();
+      await expect(registry.registerPlugin(await mockPlugin.getAddress()))
+        .to.emit(registry, "BondPosted")
+        .withArgs(pluginId, deployer.address, bondAddr, BOND);
+      expect(await bondToken.balanceOf(await registry.getAddress())).to.equal(BOND);
+
+      const govRegistry = registry.connect(await ethers.getSigner(governance));
+      await govRegistry.setTierBond(PluginTier.VERIFIED, bondAddr, BOND * 5n);
+      await expect(govRegistry.setPluginTier(pluginId, PluginTier.VERIFIED)).to.be.revertedWith(
+        "PluginRegistry: insufficient bond"
+      );
+
+      await expect(
+        registry.connect(await ethers.getSigner(user)).topUpBond(pluginId, bondAddr, BOND)
+      ).to.be.revertedWith("PluginRegistry: not depositor");
+      await expect(registry.topUpBond(pluginId, user, BOND)).to.be.revertedWith("PluginRegistry: bond token mismatch");
+      await registry.topUpBond(pluginId, bondAddr, BOND * 4n);
+      await govRegistry.setPluginTier(pluginId, PluginTier.VERIFIED);
+
+      // Demotions never need a bond
+      await govRegistry.setTierBond(PluginTier.VERIFIED, bondAddr, BOND * 10n);
+      await govRegistry.setPluginTier(pluginId, PluginTier.UNTRUSTED);
+      expect((await registry.getPluginBond(pluginId)).amount).to.equal(BOND * 5n);
+    });
+
+    it("should refund the bond once a clean retirement unlocks", async function () {
+      const [deployer] = await ethers.getSigners();
+      const pluginId = await mockPlugin.pluginId();
+      await registry.registerPlugin(await mockPlugin.getAddress());
+
+      await expect(registry.connect(await ethers.getSigner(user)).retirePlugin(pluginId)).to.be.revertedWith(
+        "PluginRegistry: unauthorized"
+      );
+      await expect(registry.withdrawBond(pluginId)).to.be.revertedWith("PluginRegistry: plugin not retired");
+
+      const tx = await registry.retirePlugin(pluginId);
+      const unlocksAt = BigInt((await time.latest()) + 14 * 24 * 60 * 60);
+      await expect(tx).to.emit(registry, "PluginRetired").withArgs(pluginId, unlocksAt);
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.false;
+      expect((await registry.getPluginBond(pluginId)).unlocksAt).to.equal(unlocksAt);
+      await expect(registry.withdrawBond(pluginId)).to.be.revertedWith("PluginRegistry: bond locked");
+
+      await time.increaseTo(unlocksAt);
+      const before = await bondToken.balanceOf(deployer.address);
+      await expect(registry.withdrawBond(pluginId))
+        .to.emit(registry, "BondRefunded")
+        .withArgs(pluginId, deployer.address, await bondToken.getAddress(), BOND);
+      expect((await bondToken.balanceOf(deployer.address)) - before).to.equal(BOND);
+      await expect(registry.withdrawBond(pluginId)).to.be.revertedWith("PluginRegistry: no bond");
+    });
+
+    it("should refund a front-running registrant's bond to the plugin owner that claims it", async function () {
+      const [deployer] = await ethers.getSigners();
+      const pluginId = await mockPlugin.pluginId();
+      const userSigner = await ethers.getSigner(user);
+      await bondToken.transfer(user, BOND);
+      await bondToken.connect(userSigner).approve(await registry.getAddress(), BOND);
+      await registry.connect(userSigner).registerPlugin(await mockPlugin.getAddress());
+
+      await registry.claimDepositor(pluginId);
+      await registry.retirePlugin(pluginId);
+      await time.increaseTo((await registry.getPluginBond(pluginId)).unlocksAt);
+      await expect(registry.connect(userSigner).withdrawBond(pluginId)).to.be.revertedWith(
+        "PluginRegistry: not depositor"
+      );
+      await expect(registry.withdrawBond(pluginId))
+        .to.emit(registry, "BondRefunded")
+        .withArgs(pluginId, deployer.address, await bondToken.getAddress(), BOND);
+    });
+
+    it("should let governance retire a plugin and stop slashing once the bond unlocks", async function () {
+      const [deployer] = await ethers.getSigners();
+      const pluginId = await mockPlugin.pluginId();
+      await registry.registerPlugin(await mockPlugin.getAddress());
+
+      await registry.connect(await ethers.getSigner(governance)).retirePlugin(pluginId);
+      const { unlocksAt } = await registry.getPluginBond(pluginId);
+      await time.increaseTo(unlocksAt);
+
+      await expect(
+        registry.connect(await ethers.getSigner(governance)).slashBond(pluginId, BOND)
+      ).to.be.revertedWith("PluginRegistry: bond unlocked");
+      await expect(registry.connect(await ethers.getSigner(emergency)).slashBond(pluginId, BOND)).to.be.revertedWith(
+        "PluginRegistry: bond unlocked"
+      );
+
+      // The bond still goes back to the depositor
+      await expect(registry.withdrawBond(pluginId))
+        .to.emit(registry, "BondRefunded")
+        .withArgs(pluginId, deployer.address, await bondToken.getAddress(), BOND);
+    });
+
+    it("should not let a quarantined plugin retire", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      await registry.registerPlugin(await mockPlugin.getAddress());
+      await registry.connect(await ethers.getSigner(emergency)).emergencyQuarantine(pluginId);
+
+      await expect(registry.retirePlugin(pluginId)).to.be.revertedWith("PluginRegistry: plugin not in good standing");
+      await registry.connect(await ethers.getSigner(admin)).deactivatePlugin(pluginId);
+      await expect(registry.retirePlugin(pluginId)).to.be.revertedWith("PluginRegistry: plugin not in good standing");
+    });
+
+    it("should let governance or the emergency role slash a quarantined plugin's bond to the treasury", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      await registry.registerPlugin(await mockPlugin.getAddress());
+      const emergencyRegistry = registry.connect(await ethers.getSigner(emergency));
+
+      await expect(emergencyRegistry.slashBond(pluginId, BOND)).to.be.revertedWith(
+        "PluginRegistry: plugin not quarantined"
+      );
+      await expect(registry.connect(await ethers.getSigner(user)).slashBond(pluginId, BOND)).to.be.revertedWith(
+        "PluginRegistry: unauthorized"
+      );
+
+      await emergencyRegistry.emergencyQuarantine(pluginId);
+      await expect(emergencyRegistry.slashBond(pluginId, BOND + 1n)).to.be.revertedWith(
+        "PluginRegistry: invalid slash amount"
+      );
+      await expect(emergencyRegistry.slashBond(pluginId, BOND / 4n))
+        .to.emit(registry, "BondSlashed")
+        .withArgs(pluginId, await bondToken.getAddress(), BOND / 4n, emergency);
+
+      // A retirement keeps the bond slashable until it unlocks
+      await registry.connect(await ethers.getSigner(emergency)).liftEmergencyQuarantine(pluginId);
+      await registry.retirePlugin(pluginId);
+      await registry.connect(await ethers.getSigner(governance)).slashBond(pluginId, (BOND * 3n) / 4n);
+
+      expect(await bondToken.balanceOf(treasury)).to.equal(BOND);
+      expect((await registry.getPluginBond(pluginId)).amount).to.equal(0);
+    });
+
+    it("should restrict bond configuration", async function () {
+      const userRegistry = registry.connect(await ethers.getSigner(user));
+      await expect(userRegistry.setTierBond(PluginTier.CORE, user, BOND)).to.be.revertedWithCustomError(
+        registry,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(userRegistry.setBondTreasury(user)).to.be.revertedWithCustomError(
+        registry,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(
+        registry.connect(await ethers.getSigner(governance)).setTierBond(PluginTier.CORE, ethers.ZeroAddress, BOND)
+      ).to.be.revertedWith("PluginRegistry: zero bond token");
+      await expect(
+        registry.connect(await ethers.getSigner(admin)).setBondTreasury(ethers.ZeroAddress)
+      ).to.be.revertedWith("PluginRegistry: zero treasury");
+    });
+  });
+
+  describe("Emergency Caps", function () {
+    let emergency: string;
+
+    beforeEach(async function () {
+      await registry.registerPlugin(await mockPlugin.getAddress());
+      const [, , , , emergencyAccount] = await ethers.getSigners();
+      emergency = await emergencyAccount.getAddress();
+      await registry
+        .connect(await ethers.getSigner(admin))
+        .grantRole(await registry.EMERGENCY_ROLE(), emergency);
+    });
+
+    it("should tighten effective caps until they lapse", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const emergencyRegistry = registry.connect(await ethers.getSigner(emergency));
+      const duration = await registry.EMERGENCY_CAPS_DURATION();
+
+      const tx = await emergencyRegistry.reducePluginCaps(pluginId, ethers.parseEther("500"), 50);
+      const expiresAt = BigInt(await time.latest()) + duration;
+      await expect(tx)
+        .to.emit(registry, "EmergencyCapsReduced")
+        .withArgs(pluginId, ethers.parseEther("500"), 50, expiresAt);
+
+      const caps = await registry.getPluginCaps(pluginId);
+      expect(caps.enabled).to.be.true;
+      expect(caps.maxConversionAmount).to.equal(ethers.parseEther("500"));
+      expect(caps.maxSlippageBps).to.equal(50);
+      const [maxConversionAmount, maxSlippageBps] = await registry.getEffectiveLimits(pluginId);
+      expect(maxConversionAmount).to.equal(ethers.parseEther("500"));
+      expect(maxSlippageBps).to.equal(50);
+
+      // A further reduction keeps the original expiry
+      await time.increase(duration / 2n);
+      await emergencyRegistry.reducePluginCaps(pluginId, ethers.parseEther("400"), 50);
+      expect((await registry.getEmergencyCaps(pluginId)).expiresAt).to.equal(expiresAt);
+
+      await time.increaseTo(expiresAt);
+      expect((await registry.getPluginCaps(pluginId)).enabled).to.be.false;
+      const [lapsedConversionAmount] = await registry.getEffectiveLimits(pluginId);
+      expect(lapsedConversionAmount).to.equal(ethers.parseEther("10000"));
+    });
+
+    it("should only allow tightening", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      await registry.connect(await ethers.getSigner(governance)).setPluginCaps(pluginId, {
+        enabled: true,
+        maxConversionAmount: ethers.parseEther("1000"),
+        maxSlippageBps: 80,
+      });
+      const emergencyRegistry = registry.connect(await ethers.getSigner(emergency));
+
+      await expect(
+        emergencyRegistry.reducePluginCaps(pluginId, ethers.parseEther("1001"), 80)
+      ).to.be.revertedWith("PluginRegistry: cannot increase cap");
+      await expect(
+        emergencyRegistry.reducePluginCaps(pluginId, ethers.parseEther("1000"), 81)
+      ).to.be.revertedWith("PluginRegistry: cannot increase slippage");
+      await expect(emergencyRegistry.reducePluginCaps(pluginId, 0, 80)).to.be.revertedWith(
+        "PluginRegistry: zero cap"
+      );
+      await expect(
+        registry.connect(await ethers.getSigner(user)).reducePluginCaps(pluginId, 1, 1)
+      ).to.be.revertedWithCustomError(registry, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should be cleared when governance ratifies the caps", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      await registry
+        .connect(await ethers.getSigner(emergency))
+        .reducePluginCaps(pluginId, ethers.parseEther("500"), 50);
+
+      const ratified = { enabled: true, maxConversionAmount: ethers.parseEther("500"), maxSlippageBps: 50 };
+      await expect(registry.connect(await ethers.getSigner(governance)).setPluginCaps(pluginId, ratified))
+        .to.emit(registry, "EmergencyCapsCleared")
+        .withArgs(pluginId);
+
+      expect((await registry.getEmergencyCaps(pluginId)).expiresAt).to.equal(0);
+      await time.increase(await registry.EMERGENCY_CAPS_DURATION());
+      const caps = await registry.getPluginCaps(pluginId);
+      expect(caps.maxConversionAmount).to.equal(ratified.maxConversionAmount);
+      expect(caps.maxSlippageBps).to.equal(ratified.maxSlippageBps);
+    });
+  });
+
+  describe("Emergency Quarantine", function () {
+    let emergency: string;
+
+    beforeEach(async function () {
+      await registry.registerPlugin(await mockPlugin.getAddress());
+      const [, , , , emergencyAccount] = await ethers.getSigners();
+      emergency = await emergencyAccount.getAddress();
+      await registry
+        .connect(await ethers.getSigner(admin))
+        .grantRole(await registry.EMERGENCY_ROLE(), emergency);
+    });
+
+    it("should deactivate a plugin until the quarantine lapses", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const emergencyRegistry = registry.connect(await ethers.getSigner(emergency));
+      const window = await registry.emergencyQuarantineWindow();
+
+      const tx = await emergencyRegistry.emergencyQuarantine(pluginId);
+      const expiresAt = BigInt(await time.latest()) + window;
+      await expect(tx).to.emit(registry, "EmergencyQuarantineSet").withArgs(pluginId, expiresAt);
+
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.false;
+      const [active, storedExpiry] = await registry.getEmergencyQuarantine(pluginId);
+      expect(active).to.be.true;
+      expect(storedExpiry).to.equal(expiresAt);
+
+      // Quarantining again keeps the original expiry
+      await time.increase(window / 2n);
+      await emergencyRegistry.emergencyQuarantine(pluginId);
+      expect((await registry.getEmergencyQuarantine(pluginId)).expiresAt).to.equal(expiresAt);
+
+      await time.increaseTo(expiresAt);
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.true;
+      expect((await registry.getEmergencyQuarantine(pluginId)).active).to.be.false;
+    });
+
+    it("should not re-quarantine a plugin until the cooldown after a quarantine ends", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const emergencyRegistry = registry.connect(await ethers.getSigner(emergency));
+      const cooldown = await registry.EMERGENCY_QUARANTINE_COOLDOWN();
+
+      await emergencyRegistry.emergencyQuarantine(pluginId);
+      const [, expiresAt, cooldownEnd] = await registry.getEmergencyQuarantine(pluginId);
+      expect(cooldownEnd).to.equal(expiresAt + cooldown);
+
+      await time.increaseTo(expiresAt);
+      await expect(emergencyRegistry.emergencyQuarantine(pluginId)).to.be.revertedWith(
+        "PluginRegistry: quarantine cooldown"
+      );
+
+      // Lifting early starts the cooldown at once
+      await time.increaseTo(cooldownEnd);
+      await emergencyRegistry.emergencyQuarantine(pluginId);
+      await emergencyRegistry.liftEmergencyQuarantine(pluginId);
+      await expect(emergencyRegistry.emergencyQuarantine(pluginId)).to.be.revertedWith(
+        "PluginRegistry: quarantine cooldown"
+      );
+      await time.increase(cooldown);
+      await emergencyRegistry.emergencyQuarantine(pluginId);
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.false;
+    });
+
+    it("should stay deactivated once governance ratifies the quarantine", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const adminRegistry = registry.connect(await ethers.getSigner(admin));
+      await registry.connect(await ethers.getSigner(emergency)).emergencyQuarantine(pluginId);
+
+      await expect(adminRegistry.deactivatePlugin(pluginId))
+        .to.emit(registry, "EmergencyQuarantineCleared")
+        .withArgs(pluginId);
+
+      await time.increase(await registry.emergencyQuarantineWindow());
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.false;
+      await expect(
+        registry.connect(await ethers.getSigner(emergency)).liftEmergencyQuarantine(pluginId)
+      ).to.be.revertedWith("PluginRegistry: not quarantined");
+    });
+
+    it("should let the emergency role lift and the admin override a quarantine", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const emergencyRegistry = registry.connect(await ethers.getSigner(emergency));
+
+      await emergencyRegistry.emergencyQuarantine(pluginId);
+      await expect(emergencyRegistry.liftEmergencyQuarantine(pluginId))
+        .to.emit(registry, "EmergencyQuarantineCleared")
+        .withArgs(pluginId);
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.true;
+
+      await time.increase(await registry.EMERGENCY_QUARANTINE_COOLDOWN());
+      await emergencyRegistry.emergencyQuarantine(pluginId);
+      await registry.connect(await ethers.getSigner(admin)).activatePlugin(pluginId);
+      expect((await registry.getPlugin(pluginId)).isActive).to.be.true;
+
+      await expect(
+        registry.connect(await ethers.getSigner(user)).emergencyQuarantine(pluginId)
+      ).to.be.revertedWithCustomError(registry, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should let governance configure the quarantine window", async function () {
+      const govRegistry = registry.connect(await ethers.getSigner(governance));
+      const maxWindow = await registry.MAX_EMERGENCY_QUARANTINE_WINDOW();
+
+      await expect(govRegistry.setEmergencyQuarantineWindow(3 * 24 * 60 * 60))
+        .to.emit(registry, "EmergencyQuarantineWindowUpdated")
+        .withArgs(3 * 24 * 60 * 60);
+      expect(await registry.emergencyQuarantineWindow()).to.equal(3 * 24 * 60 * 60);
+
+      await expect(govRegistry.setEmergencyQuarantineWindow(0)).to.be.revertedWith(
+        "PluginRegistry: invalid window"
+      );
+      await expect(govRegistry.setEmergencyQuarantineWindow(maxWindow + 1n)).to.be.revertedWith(
+        "PluginRegistry: invalid window"
+      );
+      await expect(
+        registry.connect(await ethers.getSigner(emergency)).setEmergencyQuarantineWindow(60)
+      ).to.be.revertedWithCustomError(registry, "AccessControlUnauthorizedAccount");
+    });
+  });
+
   describe("Plugin Activation", function () {
     beforeEach(async function () {
       await registry.registerPlugin(await mockPlugin.getAddress());
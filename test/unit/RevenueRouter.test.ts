@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import {
   RevenueRouter,
   PluginRegistry,
@@ -247,6 +248,367 @@ describe("RevenueRouter - Unit Tests", function () {
     });
   });
 
+  describe("Batched Conversion", function () {
+    let secondPlugin: MockPlugin;
+    let keeper: any;
+    let yieldAddr: string;
+
+    beforeEach(async function () {
+      keeper = (await ethers.getSigners())[7];
+      yieldAddr = await yieldAsset.getAddress();
+      await router.connect(await ethers.getSigner(admin)).grantRole(await router.KEEPER_ROLE(), keeper.address);
+
+      const MockPluginFactory = await ethers.getContractFactory("MockPlugin");
+      secondPlugin = await MockPluginFactory.deploy(ethers.id("test-plugin-2"), [yieldAddr], await router.getAddress());
+      await secondPlugin.waitForDeployment();
+      await registry.registerPlugin(await secondPlugin.getAddress());
+      await registry
+        .connect(await ethers.getSigner(governance))
+        .setPluginTier(await secondPlugin.pluginId(), PluginTier.VERIFIED);
+      await yieldAsset.connect(await ethers.getSigner(pluginOwner)).approve(
+        await secondPlugin.getAddress(),
+        ethers.MaxUint256
+      );
+    });
+
+    const route = async (plugin: MockPlugin, amount: bigint) => {
+      await plugin.setYield(yieldAddr, amount);
+      return plugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
+    };
+
+    it("should convert the pending batch once and attribute the output pro-rata", async function () {
+      await router
+        .connect(await ethers.getSigner(governance))
+        .setBatchConfig(yieldAddr, true, ethers.parseEther("400"), 3600);
+
+      await expect(route(mockPlugin, ethers.parseEther("300")))
+        .to.emit(router, "YieldBatched")
+        .withArgs(await mockPlugin.pluginId(), yieldAddr, ethers.parseEther("300"), ethers.parseEther("300"));
+      expect(await router.getPluginYield(await mockPlugin.pluginId())).to.equal(0);
+      expect(await router.isBatchReady(yieldAddr)).to.be.false;
+      await expect(router.connect(keeper).convertPendingYield(yieldAddr)).to.be.revertedWith(
+        "RevenueRouter: batch not ready"
+      );
+
+      await route(secondPlugin, ethers.parseEther("100"));
+      await route(mockPlugin, ethers.parseEther("100"));
+      const [total, , maxSlippageBps, pluginIds] = await router.getPendingBatch(yieldAddr);
+      expect(total).to.equal(ethers.parseEther("500"));
+      expect(maxSlippageBps).to.equal((await registry.getTierConfig(PluginTier.VERIFIED)).maxSlippageBps);
+      expect(pluginIds).to.deep.equal([await mockPlugin.pluginId(), await secondPlugin.pluginId()]);
+      expect(await router.getPendingYield(await mockPlugin.pluginId(), yieldAddr)).to.equal(ethers.parseEther("400"));
+      expect(await yieldAsset.balanceOf(await router.getAddress())).to.equal(ethers.parseEther("500"));
+
+      await expect(router.connect(await ethers.getSigner(pluginOwner)).convertPendingYield(yieldAddr)).to.be.reverted;
+      await expect(router.connect(keeper).convertPendingYield(yieldAddr))
+        .to.emit(router, "PendingYieldConverted")
+        .withArgs(yieldAddr, ethers.parseEther("500"), ethers.parseEther("250"), 2)
+        .and.to.emit(swapModule, "SwapExecuted");
+
+      expect(await router.getPluginYield(await mockPlugin.pluginId())).to.equal(ethers.parseEther("200"));
+      expect(await router.getPluginYield(await secondPlugin.pluginId())).to.equal(ethers.parseEther("50"));
+      expect(await router.getAccumulatedYield()).to.equal(ethers.parseEther("250"));
+      expect((await router.getPendingBatch(yieldAddr)).total).to.equal(0);
+      expect(await router.getPendingYield(await mockPlugin.pluginId(), yieldAddr)).to.equal(0);
+      await expect(router.connect(keeper).convertPendingYield(yieldAddr)).to.be.revertedWith(
+        "RevenueRouter: no pending yield"
+      );
+    });
+
+    it("should convert at most the tightest contributor's conversion cap and keep the rest pending", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      await registry.connect(await ethers.getSigner(governance)).setPluginCaps(pluginId, {
+        enabled: true,
+        maxConversionAmount: ethers.parseEther("200"),
+        maxSlippageBps: 100,
+      });
+      await router.connect(await ethers.getSigner(governance)).setBatchConfig(yieldAddr, true, 0, 0);
+      await route(mockPlugin, ethers.parseEther("150"));
+      await route(secondPlugin, ethers.parseEther("150"));
+      expect((await router.getPendingBatch(yieldAddr)).total).to.equal(ethers.parseEther("300"));
+
+      // The cap is taken from both contributions pro-rata
+      await expect(router.connect(keeper).convertPendingYield(yieldAddr))
+        .to.emit(router, "PendingYieldConverted")
+        .withArgs(yieldAddr, ethers.parseEther("200"), ethers.parseEther("100"), 2);
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("50"));
+      expect(await router.getPluginYield(await secondPlugin.pluginId())).to.equal(ethers.parseEther("50"));
+      const [total, , , pluginIds] = await router.getPendingBatch(yieldAddr);
+      expect(total).to.equal(ethers.parseEther("100"));
+      expect(pluginIds).to.deep.equal([pluginId, await secondPlugin.pluginId()]);
+      expect(await router.getPendingYield(pluginId, yieldAddr)).to.equal(ethers.parseEther("50"));
+
+      await expect(router.connect(keeper).convertPendingYield(yieldAddr))
+        .to.emit(router, "PendingYieldConverted")
+        .withArgs(yieldAddr, ethers.parseEther("100"), ethers.parseEther("50"), 2);
+      expect((await router.getPendingBatch(yieldAddr)).total).to.equal(0);
+      expect(await router.getPendingYield(pluginId, yieldAddr)).to.equal(0);
+    });
+
+    it("should make a small batch convertible after the time window", async function () {
+      await router
+        .connect(await ethers.getSigner(governance))
+        .setBatchConfig(yieldAddr, true, ethers.parseEther("1000000"), 3600);
+      await route(mockPlugin, ethers.parseEther("10"));
+      expect(await router.isBatchReady(yieldAddr)).to.be.false;
+
+      await time.increase(3600);
+      expect(await router.isBatchReady(yieldAddr)).to.be.true;
+      await router.connect(keeper).convertPendingYield(yieldAddr);
+      expect(await router.getPluginYield(await mockPlugin.pluginId())).to.equal(ethers.parseEther("5"));
+    });
+
+    it("should quarantine the whole batch when the price deviates from the oracle", async function () {
+      await router.connect(await ethers.getSigner(governance)).setBatchConfig(yieldAddr, true, 0, 0);
+      await route(mockPlugin, ethers.parseEther("300"));
+      await route(secondPlugin, ethers.parseEther("100"));
+
+      const feed = await (await ethers.getContractFactory("MockChainlinkAggregator")).deploy(8, 50000000n);
+      const oracle = await (await ethers.getContractFactory("ChainlinkPriceOracle")).deploy(
+        await feed.getAddress(),
+        yieldAddr,
+        await treasuryAsset.getAddress(),
+        3600
+      );
+      await swapModule.connect(await ethers.getSigner(admin)).setPriceOracle(yieldAddr, await oracle.getAddress());
+      await mockUniswapQuoter.setExchangeRate(yieldAddr, await treasuryAsset.getAddress(), ethers.parseEther("0.4"));
+
+      await expect(router.connect(keeper).convertPendingYield(yieldAddr))
+        .to.emit(router, "YieldQuarantined")
+        .withArgs(await secondPlugin.pluginId(), yieldAddr, ethers.parseEther("100"));
+      expect(await router.getQuarantinedYield(await mockPlugin.pluginId(), yieldAddr)).to.equal(ethers.parseEther("300"));
+      expect(await router.getPluginYield(await mockPlugin.pluginId())).to.equal(0);
+      expect((await router.getPendingBatch(yieldAddr)).total).to.equal(0);
+    });
+
+    it("should only let governance configure batching within bounds", async function () {
+      await expect(
+        router.connect(await ethers.getSigner(admin)).setBatchConfig(yieldAddr, true, 0, 0)
+      ).to.be.revertedWith("RevenueRouter: unauthorized");
+      await expect(
+        router
+          .connect(await ethers.getSigner(governance))
+          .setBatchConfig(await treasuryAsset.getAddress(), true, 0, 0)
+      ).to.be.revertedWith("RevenueRouter: treasury asset not batched");
+      await expect(
+        router.connect(await ethers.getSigner(governance)).setBatchConfig(yieldAddr, true, 0, 7 * 24 * 3600 + 1)
+      ).to.be.revertedWith("RevenueRouter: invalid batch delay");
+
+      // Disabling batching converts new yield directly and frees the pending batch
+      await router.connect(await ethers.getSigner(governance)).setBatchConfig(yieldAddr, true, ethers.MaxUint256, 3600);
+      await route(mockPlugin, ethers.parseEther("100"));
+      await expect(router.connect(await ethers.getSigner(governance)).setBatchConfig(yieldAddr, false, 0, 0))
+        .to.emit(router, "BatchConfigUpdated")
+        .withArgs(yieldAddr, false, 0, 0);
+      await route(mockPlugin, ethers.parseEther("100"));
+      expect(await router.getPluginYield(await mockPlugin.pluginId())).to.equal(ethers.parseEther("50"));
+      expect(await router.isBatchReady(yieldAddr)).to.be.true;
+      await router.connect(keeper).convertPendingYield(yieldAddr);
+      expect(await router.getPluginYield(await mockPlugin.pluginId())).to.equal(ethers.parseEther("100"));
+    });
+  });
+
+  describe("Rate Limits", function () {
+    let pluginId: string;
+    let treasuryAddr: string;
+
+    beforeEach(async function () {
+      pluginId = await mockPlugin.pluginId();
+      treasuryAddr = await treasuryAsset.getAddress();
+    });
+
+    const route = async (amount: bigint) => {
+      await mockPlugin.setYield(await yieldAsset.getAddress(), amount);
+      return mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
+    };
+
+    it("should report unlimited headroom without a rate limit", async function () {
+      const [headroom, used, resetsAt] = await router.getYieldHeadroom(pluginId);
+      expect(headroom).to.equal(ethers.MaxUint256);
+      expect(used).to.equal(0);
+      expect(resetsAt).to.equal(0);
+    });
+
+    it("should quarantine normalized yield beyond the window's headroom until the window resets", async function () {
+      await registry
+        .connect(await ethers.getSigner(governance))
+        .setTierRateLimit(PluginTier.VERIFIED, ethers.parseEther("300"));
+
+      // 400 YIELD converts to 200 TREASURY, all within the limit
+      await route(ethers.parseEther("400"));
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("200"));
+
+      // The next 200 TREASURY only has 100 of headroom left: the rest is held, not reverted
+      const [, , resetsAt] = await router.getYieldHeadroom(pluginId);
+      const window = (await registry.getEffectiveRateLimit(pluginId)).window;
+      await expect(route(ethers.parseEther("400")))
+        .to.emit(router, "YieldRateLimited")
+        .withArgs(pluginId, ethers.parseEther("100"), resetsAt - window)
+        .and.to.emit(router, "YieldQuarantined")
+        .withArgs(pluginId, treasuryAddr, ethers.parseEther("100"));
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("300"));
+      expect(await router.getAccumulatedYield()).to.equal(ethers.parseEther("300"));
+      expect(await router.getQuarantinedYield(pluginId, treasuryAddr)).to.equal(ethers.parseEther("100"));
+
+      let [headroom, used] = await router.getYieldHeadroom(pluginId);
+      expect(headroom).to.equal(0);
+      expect(used).to.equal(ethers.parseEther("300"));
+
+      await route(ethers.parseEther("100"));
+      expect(await router.getQuarantinedYield(pluginId, treasuryAddr)).to.equal(ethers.parseEther("150"));
+
+      await time.increaseTo(resetsAt);
+      [headroom, used] = await router.getYieldHeadroom(pluginId);
+      expect(headroom).to.equal(ethers.parseEther("300"));
+      expect(used).to.equal(0);
+
+      await route(ethers.parseEther("100"));
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("350"));
+
+      // Governance releases the held excess without converting it again or counting it against the limit
+      await router.connect(await ethers.getSigner(governance)).releaseQuarantinedYield(pluginId, treasuryAddr, 0);
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("500"));
+      expect((await router.getYieldHeadroom(pluginId)).headroom).to.equal(ethers.parseEther("250"));
+    });
+
+    it("should apply the plugin limit to its share of a batch conversion", async function () {
+      const keeper = (await ethers.getSigners())[7];
+      const yieldAddr = await yieldAsset.getAddress();
+      await router.connect(await ethers.getSigner(admin)).grantRole(await router.KEEPER_ROLE(), keeper.address);
+      await router.connect(await ethers.getSigner(governance)).setBatchConfig(yieldAddr, true, 0, 0);
+      await registry.connect(await ethers.getSigner(governance)).setPluginRateLimit(pluginId, ethers.parseEther("60"));
+
+      await route(ethers.parseEther("200"));
+      await router.connect(keeper).convertPendingYield(yieldAddr);
+
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("60"));
+      expect(await router.getQuarantinedYield(pluginId, treasuryAddr)).to.equal(ethers.parseEther("40"));
+      expect(await treasuryAsset.balanceOf(await router.getAddress())).to.equal(ethers.parseEther("100"));
+    });
+  });
+
+  describe("Dev Share Claims", function () {
+    let yieldAddr: string;
+    let treasuryAddr: string;
+
+    beforeEach(async function () {
+      yieldAddr = await yieldAsset.getAddress();
+      treasuryAddr = await treasuryAsset.getAddress();
+      await registry
+        .connect(await ethers.getSigner(governance))
+        .setDevShareSplit(await mockPlugin.pluginId(), [{ recipient: devRecipient, bps: 1000 }]);
+    });
+
+    it("should keep accepting yield when the dev recipient is blocked and let it claim elsewhere", async function () {
+      const [, , , , , other] = await ethers.getSigners();
+      await yieldAsset.setBlocked(devRecipient, true);
+      await yieldAsset.mint(pluginOwner, ethers.parseEther("1000"));
+      await mockPlugin.setYield(yieldAddr, ethers.parseEther("1000"));
+
+      await expect(mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute()).to.emit(
+        router,
+        "YieldReceived"
+      );
+
+      const devSigner = await ethers.getSigner(devRecipient);
+      await expect(router.connect(devSigner).claimDevShare([yieldAddr], devRecipient, false, 0)).to.be.revertedWith(
+        "MockERC20: blocked"
+      );
+      await expect(router.connect(devSigner).claimDevShare([yieldAddr], ethers.ZeroAddress, false, 0)).to.be.revertedWith(
+        "RevenueRouter: zero recipient"
+      );
+      await router.connect(devSigner).claimDevShare([yieldAddr], other.address, false, 0);
+      expect(await yieldAsset.balanceOf(other.address)).to.equal(ethers.parseEther("100"));
+    });
+
+    it("should claim several assets in one call and normalize them to the treasury asset", async function () {
+      await yieldAsset.mint(pluginOwner, ethers.parseEther("1000"));
+      await mockPlugin.setYield(yieldAddr, ethers.parseEther("1000"));
+      await mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
+
+      // A second plugin paying in the treasury asset accrues a treasury-asset dev share for the same recipient
+      const MockPluginFactory = await ethers.getContractFactory("MockPlugin");
+      const treasuryPlugin = await MockPluginFactory.deploy(
+        ethers.id("test-plugin-2"),
+        [treasuryAddr],
+        await router.getAddress()
+      );
+      await treasuryPlugin.waitForDeployment();
+      await registry.registerPlugin(await treasuryPlugin.getAddress());
+      await registry
+        .connect(await ethers.getSigner(governance))
+        .setDevShareSplit(await treasuryPlugin.pluginId(), [{ recipient: devRecipient, bps: 1000 }]);
+      await treasuryAsset.mint(pluginOwner, ethers.parseEther("200"));
+      await treasuryAsset
+        .connect(await ethers.getSigner(pluginOwner))
+        .approve(await treasuryPlugin.getAddress(), ethers.MaxUint256);
+      await treasuryPlugin.setYield(treasuryAddr, ethers.parseEther("200"));
+      await treasuryPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
+
+      const devSigner = await ethers.getSigner(devRecipient);
+      const yieldBefore = await yieldAsset.balanceOf(devRecipient);
+      const treasuryBefore = await treasuryAsset.balanceOf(devRecipient);
+      // 100 YIELD converts to 50 TREASURY at the mock rate, paid with the 20 TREASURY share in one transfer
+      await expect(router.connect(devSigner).claimDevShare([yieldAddr, treasuryAddr], devRecipient, true, 100))
+        .to.emit(router, "DevShareClaimed")
+        .withArgs(devRecipient, yieldAddr, ethers.parseEther("100"), devRecipient, ethers.parseEther("50"));
+
+      expect(await yieldAsset.balanceOf(devRecipient)).to.equal(yieldBefore);
+      expect((await treasuryAsset.balanceOf(devRecipient)) - treasuryBefore).to.equal(ethers.parseEther("70"));
+      expect((await router.getDevShareReceived(devRecipient, yieldAddr)).pending).to.equal(0);
+      expect((await router.getDevShareReceived(devRecipient, treasuryAddr)).claimed).to.equal(ethers.parseEther("20"));
+    });
+
+    it("should hold normalized claims to the UNTRUSTED tier slippage and the oracle price", async function () {
+      await yieldAsset.mint(pluginOwner, ethers.parseEther("1000"));
+      await mockPlugin.setYield(yieldAddr, ethers.parseEther("1000"));
+      await mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
+      const devRouter = router.connect(await ethers.getSigner(devRecipient));
+
+      const tierSlippageBps = (await registry.getTierConfig(PluginTier.UNTRUSTED)).maxSlippageBps;
+      await expect(devRouter.claimDevShare([yieldAddr], devRecipient, true, tierSlippageBps + 1n)).to.be.revertedWith(
+        "RevenueRouter: slippage exceeds tier limit"
+      );
+      await expect(devRouter.claimDevShare([yieldAddr], devRecipient, true, 10000)).to.be.revertedWith(
+        "RevenueRouter: slippage exceeds tier limit"
+      );
+
+      // Oracle prices 1 YIELD at 0.5 TREASURY; the pool is pushed to 0.4
+      const feed = await (await ethers.getContractFactory("MockChainlinkAggregator")).deploy(8, 50000000n);
+      const oracle = await (await ethers.getContractFactory("ChainlinkPriceOracle")).deploy(
+        await feed.getAddress(),
+        yieldAddr,
+        treasuryAddr,
+        3600
+      );
+      await swapModule.connect(await ethers.getSigner(admin)).setPriceOracle(yieldAddr, await oracle.getAddress());
+      for (const venue of [mockUniswapRouter, mockUniswapQuoter]) {
+        await venue.setExchangeRate(yieldAddr, treasuryAddr, ethers.parseEther("0.4"));
+      }
+      await expect(devRouter.claimDevShare([yieldAddr], devRecipient, true, tierSlippageBps)).to.be.revertedWith(
+        "RevenueRouter: price deviates from oracle"
+      );
+
+      // The share can still be claimed in the original asset
+      await devRouter.claimDevShare([yieldAddr], devRecipient, false, 0);
+      expect((await router.getDevShareReceived(devRecipient, yieldAddr)).pending).to.equal(0);
+    });
+
+    it("should reject a claim with nothing pending", async function () {
+      const [, , , , , other] = await ethers.getSigners();
+      await yieldAsset.mint(pluginOwner, ethers.parseEther("1000"));
+      await mockPlugin.setYield(yieldAddr, ethers.parseEther("1000"));
+      await mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
+
+      await expect(router.connect(other).claimDevShare([yieldAddr], other.address, false, 0)).to.be.revertedWith(
+        "RevenueRouter: no dev share to claim"
+      );
+      await expect(router.connect(other).claimDevShare([], other.address, false, 0)).to.be.revertedWith(
+        "RevenueRouter: no dev share to claim"
+      );
+    });
+  });
+
   describe("Constructor", function () {
     it("should set immutable addresses correctly", async function () {
       expect(await router.pluginRegistry()).to.equal(await registry.getAddress());
@@ -361,7 +723,7 @@ describe("RevenueRouter - Unit Tests", function () {
       await expect(mockPlugin.claimAndRoute()).to.be.reverted;
     });
 
-    it("should calculate and transfer dev share correctly", async function () {
+    it("should accrue dev share and pay it on claim", async function () {
       const yieldAmount = ethers.parseEther("1000");
       const devBps = 1000; // 10%
       const expectedDevShare = (yieldAmount * BigInt(devBps)) / 10000n;
@@ -373,17 +735,76 @@ describe("RevenueRouter - Unit Tests", function () {
         ethers.MaxUint256
       );
       
+      await registry
+        .connect(await ethers.getSigner(governance))
+        .setDevShareSplit(await mockPlugin.pluginId(), [{ recipient: devRecipient, bps: devBps }]);
       await mockPlugin.setDevShare(devRecipient, devBps);
       await mockPlugin.setYield(await yieldAsset.getAddress(), yieldAmount);
 
+      const yieldAddr = await yieldAsset.getAddress();
       const devBalanceBefore = await yieldAsset.balanceOf(devRecipient);
       await mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
-      const devBalanceAfter = await yieldAsset.balanceOf(devRecipient);
 
-      expect(devBalanceAfter - devBalanceBefore).to.equal(expectedDevShare);
+      // Nothing is pushed during intake
+      expect(await yieldAsset.balanceOf(devRecipient)).to.equal(devBalanceBefore);
+      let balance = await router.getDevShareReceived(devRecipient, yieldAddr);
+      expect(balance.accrued).to.equal(expectedDevShare);
+      expect(balance.pending).to.equal(expectedDevShare);
 
-      const devShareReceived = await router.getDevShareReceived(devRecipient);
-      expect(devShareReceived).to.equal(expectedDevShare);
+      await expect(router.connect(await ethers.getSigner(devRecipient)).claimDevShare([yieldAddr], devRecipient, false, 0))
+        .to.emit(router, "DevShareClaimed")
+        .withArgs(devRecipient, yieldAddr, expectedDevShare, devRecipient, expectedDevShare);
+
+      expect((await yieldAsset.balanceOf(devRecipient)) - devBalanceBefore).to.equal(expectedDevShare);
+      balance = await router.getDevShareReceived(devRecipient, yieldAddr);
+      expect(balance.claimed).to.equal(expectedDevShare);
+      expect(balance.pending).to.equal(0);
+      await expect(
+        router.connect(await ethers.getSigner(devRecipient)).claimDevShare([yieldAddr], devRecipient, false, 0)
+      ).to.be.revertedWith("RevenueRouter: no dev share to claim");
+    });
+
+    it("should pay the registered split and ignore a per-call override that does not match it", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const yieldAmount = ethers.parseEther("1000");
+      const [, , , , , other, attacker] = await ethers.getSigners();
+      await registry.connect(await ethers.getSigner(governance)).setDevShareSplit(pluginId, [
+        { recipient: devRecipient, bps: 500 },
+        { recipient: other.address, bps: 250 },
+      ]);
+
+      await yieldAsset.mint(pluginOwner, yieldAmount);
+      await mockPlugin.setDevShare(attacker.address, 2000);
+      await mockPlugin.setYield(await yieldAsset.getAddress(), yieldAmount);
+
+      await expect(mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute())
+        .to.emit(router, "DevShareOverrideIgnored")
+        .withArgs(pluginId, attacker.address, 2000)
+        .and.to.emit(router, "DevShareAccrued")
+        .withArgs(pluginId, other.address, await yieldAsset.getAddress(), ethers.parseEther("25"))
+        .and.to.emit(router, "YieldReceived")
+        .withArgs(pluginId, await yieldAsset.getAddress(), yieldAmount, devRecipient, ethers.parseEther("75"));
+
+      expect(await yieldAsset.balanceOf(attacker.address)).to.equal(0);
+      const yieldAddr = await yieldAsset.getAddress();
+      expect((await router.getDevShareReceived(devRecipient, yieldAddr)).accrued).to.equal(ethers.parseEther("50"));
+      expect((await router.getDevShareReceived(other.address, yieldAddr)).accrued).to.equal(ethers.parseEther("25"));
+      // The DAO share is what remains after the registered split
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("462.5"));
+    });
+
+    it("should pay no dev share without a registered split", async function () {
+      const yieldAmount = ethers.parseEther("1000");
+      await yieldAsset.mint(pluginOwner, yieldAmount);
+      await mockPlugin.setDevShare(devRecipient, 1000);
+      await mockPlugin.setYield(await yieldAsset.getAddress(), yieldAmount);
+
+      await expect(mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute()).to.emit(
+        router,
+        "DevShareOverrideIgnored"
+      );
+      expect((await router.getDevShareReceived(devRecipient, await yieldAsset.getAddress())).accrued).to.equal(0);
+      expect(await router.getPluginYield(await mockPlugin.pluginId())).to.equal(ethers.parseEther("500"));
     });
 
     it("should reject dev share > 20%", async function () {
@@ -426,6 +847,31 @@ describe("RevenueRouter - Unit Tests", function () {
       ).to.be.revertedWith("RevenueRouter: conversion amount exceeds cap");
     });
 
+    it("should enforce emergency caps until they lapse", async function () {
+      const pluginId = await mockPlugin.pluginId();
+      const adminSigner = await ethers.getSigner(admin);
+      await registry.connect(adminSigner).grantRole(await registry.EMERGENCY_ROLE(), admin);
+      await registry.connect(adminSigner).reducePluginCaps(pluginId, ethers.parseEther("100"), 100);
+
+      const yieldAmount = ethers.parseEther("1000");
+      await yieldAsset.mint(pluginOwner, yieldAmount);
+      await yieldAsset.connect(await ethers.getSigner(pluginOwner)).approve(
+        await mockPlugin.getAddress(),
+        ethers.MaxUint256
+      );
+      await mockPlugin.setYield(await yieldAsset.getAddress(), yieldAmount);
+
+      await expect(
+        mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute()
+      ).to.be.revertedWith("RevenueRouter: conversion amount exceeds cap");
+
+      await time.increase(await registry.EMERGENCY_CAPS_DURATION());
+      await expect(mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute()).to.emit(
+        router,
+        "YieldReceived"
+      );
+    });
+
     it("should handle zero dev share", async function () {
       const yieldAmount = ethers.parseEther("1000");
 
@@ -517,6 +963,71 @@ describe("RevenueRouter - Unit Tests", function () {
         .withArgs(pluginId, await yieldAsset.getAddress(), yieldAmount, ethers.ZeroAddress, 0);
     });
 
+    it("should quarantine non-treasury yield while swaps are paused", async function () {
+      const adminSigner = await ethers.getSigner(admin);
+      await swapModule.connect(adminSigner).grantRole(await swapModule.PAUSER_ROLE(), admin);
+      await swapModule.connect(adminSigner).grantRole(await swapModule.GOVERNANCE_ROLE(), governance);
+      await swapModule.connect(adminSigner).pause();
+
+      const pluginId = await mockPlugin.pluginId();
+      const yieldAmount = ethers.parseEther("1000");
+      await mockPlugin.setYield(await yieldAsset.getAddress(), yieldAmount);
+      await expect(mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute())
+        .to.emit(router, "YieldQuarantined")
+        .withArgs(pluginId, await yieldAsset.getAddress(), yieldAmount);
+
+      expect(await router.getQuarantinedYield(pluginId, await yieldAsset.getAddress())).to.equal(yieldAmount);
+      expect(await router.getPluginYield(pluginId)).to.equal(0);
+
+      // Once governance resumes swaps the quarantined yield can be converted
+      await swapModule.connect(await ethers.getSigner(governance)).unpause();
+      await router
+        .connect(await ethers.getSigner(governance))
+        .releaseQuarantinedYield(pluginId, await yieldAsset.getAddress(), 0);
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("500"));
+    });
+
+    it("should quarantine yield when the swap price deviates from the oracle", async function () {
+      // Oracle prices 1 YIELD at 0.5 TREASURY; the pool (and its same-block quote) is pushed to 0.4
+      const feed = await (await ethers.getContractFactory("MockChainlinkAggregator")).deploy(8, 50000000n);
+      const oracle = await (await ethers.getContractFactory("ChainlinkPriceOracle")).deploy(
+        await feed.getAddress(),
+        await yieldAsset.getAddress(),
+        await treasuryAsset.getAddress(),
+        3600
+      );
+      await swapModule
+        .connect(await ethers.getSigner(admin))
+        .setPriceOracle(await yieldAsset.getAddress(), await oracle.getAddress());
+      for (const venue of [mockUniswapRouter, mockUniswapQuoter]) {
+        await venue.setExchangeRate(
+          await yieldAsset.getAddress(),
+          await treasuryAsset.getAddress(),
+          ethers.parseEther("0.4")
+        );
+      }
+
+      const pluginId = await mockPlugin.pluginId();
+      const yieldAmount = ethers.parseEther("1000");
+      await mockPlugin.setYield(await yieldAsset.getAddress(), yieldAmount);
+      await expect(mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute())
+        .to.emit(router, "YieldQuarantined")
+        .withArgs(pluginId, await yieldAsset.getAddress(), yieldAmount);
+      expect(await router.getPluginYield(pluginId)).to.equal(0);
+
+      // Back within the VERIFIED tier tolerance, yield converts again
+      for (const venue of [mockUniswapRouter, mockUniswapQuoter]) {
+        await venue.setExchangeRate(
+          await yieldAsset.getAddress(),
+          await treasuryAsset.getAddress(),
+          ethers.parseEther("0.495")
+        );
+      }
+      await mockPlugin.setYield(await yieldAsset.getAddress(), yieldAmount);
+      await mockPlugin.connect(await ethers.getSigner(pluginOwner)).claimAndRoute();
+      expect(await router.getPluginYield(pluginId)).to.equal(ethers.parseEther("495"));
+    });
+
     it("should be paused when paused", async function () {
       const adminRouter = router.connect(await ethers.getSigner(admin));
       await adminRouter.pause();
@@ -772,8 +1283,13 @@ describe("RevenueRouter - Unit Tests", function () {
 
     it("should return zero dev share for unregistered recipient", async function () {
       const [unregisteredRecipient] = await ethers.getSigners();
-      const devShare = await router.getDevShareReceived(await unregisteredRecipient.getAddress());
-      expect(devShare).to.equal(0);
+      const devShare = await router.getDevShareReceived(
+        await unregisteredRecipient.getAddress(),
+        await yieldAsset.getAddress()
+      );
+      expect(devShare.accrued).to.equal(0);
+      expect(devShare.claimed).to.equal(0);
+      expect(devShare.pending).to.equal(0);
     });
   });
 
@@ -353,6 +353,258 @@ describe("SwapModule - Unit Tests", function () {
     });
   });
 
+  describe("Swap Routes", function () {
+    let routeModule: SwapModule;
+    let midAsset: MockERC20;
+    let routerSigner: any;
+    let adminSigner: any;
+    let yieldAddr: string;
+    let midAddr: string;
+    let treasuryAddr: string;
+
+    const v3Path = (tokens: string[], fees: number[]) => {
+      const types: string[] = ["address"];
+      const values: (string | number)[] = [tokens[0]];
+      fees.forEach((fee, i) => {
+        types.push("uint24", "address");
+        values.push(fee, tokens[i + 1]);
+      });
+      return ethers.solidityPacked(types, values);
+    };
+
+    beforeEach(async function () {
+      routerSigner = (await ethers.getSigners())[7];
+      adminSigner = await ethers.getSigner(admin);
+
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      midAsset = await MockERC20Factory.deploy("Intermediate Asset", "MID");
+      await midAsset.waitForDeployment();
+      yieldAddr = await yieldAsset.getAddress();
+      midAddr = await midAsset.getAddress();
+      treasuryAddr = await treasuryAsset.getAddress();
+
+      // The router is a plain account so conversions can be driven directly
+      const SwapModuleFactory = await ethers.getContractFactory("SwapModule");
+      routeModule = await SwapModuleFactory.deploy(
+        treasuryAddr,
+        routerSigner.address,
+        await mockUniswapRouter.getAddress(),
+        admin
+      );
+      await routeModule.waitForDeployment();
+      await routeModule.connect(adminSigner).setUniswapQuoter(await mockUniswapQuoter.getAddress());
+      await routeModule.connect(adminSigner).setRouteWhitelist(yieldAddr, treasuryAddr, true);
+
+      await yieldAsset.mint(routerSigner.address, ethers.parseEther("1000"));
+      await yieldAsset.connect(routerSigner).approve(await routeModule.getAddress(), ethers.MaxUint256);
+    });
+
+    it("should validate and manage swap routes", async function () {
+      const path = v3Path([yieldAddr, midAddr, treasuryAddr], [500, 3000]);
+      await expect(routeModule.connect(adminSigner).setSwapRoute(yieldAddr, ethers.ZeroAddress, path))
+        .to.emit(routeModule, "SwapRouteSet")
+        .withArgs(yieldAddr, ethers.ZeroAddress, path);
+      const [venue, storedPath] = await routeModule.getSwapRoute(yieldAddr);
+      expect(venue).to.equal(ethers.ZeroAddress);
+      expect(storedPath).to.equal(path);
+
+      await expect(
+        routeModule.connect(adminSigner).setSwapRoute(yieldAddr, ethers.ZeroAddress, v3Path([yieldAddr, midAddr], [500]))
+      ).to.be.revertedWith("SwapModule: path mismatch");
+      await expect(
+        routeModule.connect(adminSigner).setSwapRoute(yieldAddr, ethers.ZeroAddress, ethers.concat([path, "0x00"]))
+      ).to.be.revertedWith("SwapModule: invalid path");
+      await expect(
+        routeModule.connect(adminSigner).setSwapRoute(treasuryAddr, ethers.ZeroAddress, path)
+      ).to.be.revertedWith("SwapModule: invalid route");
+      await expect(
+        routeModule.connect(await ethers.getSigner(user)).setSwapRoute(yieldAddr, ethers.ZeroAddress, path)
+      ).to.be.reverted;
+
+      await expect(routeModule.connect(adminSigner).removeSwapRoute(yieldAddr))
+        .to.emit(routeModule, "SwapRouteRemoved")
+        .withArgs(yieldAddr);
+      expect((await routeModule.getSwapRoute(yieldAddr))[1]).to.equal("0x");
+      await expect(routeModule.connect(adminSigner).removeSwapRoute(yieldAddr)).to.be.revertedWith(
+        "SwapModule: no swap route"
+      );
+    });
+
+    it("should convert along a multi-hop Uniswap V3 path", async function () {
+      // 1 YIELD = 2 MID, 1 MID = 0.25 TREASURY
+      for (const venue of [mockUniswapRouter, mockUniswapQuoter]) {
+        await venue.setExchangeRate(yieldAddr, midAddr, ethers.parseEther("2"));
+        await venue.setExchangeRate(midAddr, treasuryAddr, ethers.parseEther("0.25"));
+      }
+      await routeModule
+        .connect(adminSigner)
+        .setSwapRoute(yieldAddr, ethers.ZeroAddress, v3Path([yieldAddr, midAddr, treasuryAddr], [500, 3000]));
+
+      const amount = ethers.parseEther("100");
+      const before = await treasuryAsset.balanceOf(routerSigner.address);
+      await expect(routeModule.connect(routerSigner).convert(yieldAddr, amount, PluginTier.VERIFIED, 100))
+        .to.emit(routeModule, "SwapExecuted")
+        .withArgs(yieldAddr, treasuryAddr, amount, ethers.parseEther("50"), PluginTier.VERIFIED);
+      expect((await treasuryAsset.balanceOf(routerSigner.address)) - before).to.equal(ethers.parseEther("50"));
+      expect(await yieldAsset.allowance(await routeModule.getAddress(), await mockUniswapRouter.getAddress())).to.equal(0);
+    });
+
+    it("should enforce slippage against the multi-hop quote", async function () {
+      await mockUniswapQuoter.setExchangeRate(midAddr, treasuryAddr, ethers.parseEther("1"));
+      await mockUniswapRouter.setExchangeRate(midAddr, treasuryAddr, ethers.parseEther("0.9"));
+      await mockUniswapRouter.setExchangeRate(yieldAddr, midAddr, ethers.parseEther("1"));
+      await routeModule
+        .connect(adminSigner)
+        .setSwapRoute(yieldAddr, ethers.ZeroAddress, v3Path([yieldAddr, midAddr, treasuryAddr], [500, 3000]));
+
+      await expect(
+        routeModule.connect(routerSigner).convert(yieldAddr, ethers.parseEther("100"), PluginTier.VERIFIED, 500)
+      ).to.be.revertedWith("MockUniswapV3Router: insufficient output");
+
+      // Within a 10% tolerance the swap goes through
+      await routeModule.connect(routerSigner).convert(yieldAddr, ethers.parseEther("100"), PluginTier.VERIFIED, 1000);
+      expect(await treasuryAsset.balanceOf(routerSigner.address)).to.equal(ethers.parseEther("90"));
+    });
+
+    it("should convert through a V2-style venue adapter", async function () {
+      const v2Router = await (await ethers.getContractFactory("MockUniswapV2Router")).deploy();
+      await v2Router.waitForDeployment();
+      const venue = await (await ethers.getContractFactory("UniswapV2Venue")).deploy(await v2Router.getAddress());
+      await venue.waitForDeployment();
+      await v2Router.setExchangeRate(yieldAddr, midAddr, ethers.parseEther("3"));
+      await v2Router.setExchangeRate(midAddr, treasuryAddr, ethers.parseEther("0.5"));
+      await treasuryAsset.mint(await v2Router.getAddress(), ethers.parseEther("1000"));
+
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      await expect(
+        routeModule
+          .connect(adminSigner)
+          .setSwapRoute(yieldAddr, await venue.getAddress(), coder.encode(["address[]"], [[yieldAddr, midAddr]]))
+      ).to.be.revertedWith("SwapModule: path mismatch");
+      await routeModule
+        .connect(adminSigner)
+        .setSwapRoute(
+          yieldAddr,
+          await venue.getAddress(),
+          coder.encode(["address[]"], [[yieldAddr, midAddr, treasuryAddr]])
+        );
+
+      await routeModule.connect(routerSigner).convert(yieldAddr, ethers.parseEther("10"), PluginTier.VERIFIED, 100);
+      expect(await treasuryAsset.balanceOf(routerSigner.address)).to.equal(ethers.parseEther("15"));
+      expect(await yieldAsset.balanceOf(await v2Router.getAddress())).to.equal(ethers.parseEther("10"));
+    });
+
+    it("should convert through a Curve-like venue adapter", async function () {
+      const pool = await (await ethers.getContractFactory("MockCurveStablePool")).deploy(
+        [treasuryAddr, yieldAddr],
+        4 // 0.04% fee
+      );
+      await pool.waitForDeployment();
+      const venue = await (await ethers.getContractFactory("CurveStableVenue")).deploy();
+      await venue.waitForDeployment();
+      await treasuryAsset.mint(await pool.getAddress(), ethers.parseEther("1000"));
+
+      const path = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address", "int128", "int128"],
+        [await pool.getAddress(), 1, 0]
+      );
+      await routeModule.connect(adminSigner).setSwapRoute(yieldAddr, await venue.getAddress(), path);
+
+      await routeModule.connect(routerSigner).convert(yieldAddr, ethers.parseEther("100"), PluginTier.VERIFIED, 10);
+      expect(await treasuryAsset.balanceOf(routerSigner.address)).to.equal(ethers.parseEther("99.96"));
+
+      // Removing the route falls back to the single Uniswap V3 pool (1 YIELD = 0.5 TREASURY)
+      await routeModule.connect(adminSigner).removeSwapRoute(yieldAddr);
+      await routeModule.connect(routerSigner).convert(yieldAddr, ethers.parseEther("100"), PluginTier.VERIFIED, 100);
+      expect(await treasuryAsset.balanceOf(routerSigner.address)).to.equal(ethers.parseEther("149.96"));
+    });
+
+    describe("Price Oracles", function () {
+      let feed: any;
+      let oracle: any;
+
+      beforeEach(async function () {
+        // 1 YIELD = 0.5 TREASURY, 8 decimals like Chainlink USD feeds
+        feed = await (await ethers.getContractFactory("MockChainlinkAggregator")).deploy(8, 50000000n);
+        await feed.waitForDeployment();
+        oracle = await (await ethers.getContractFactory("ChainlinkPriceOracle")).deploy(
+          await feed.getAddress(),
+          yieldAddr,
+          treasuryAddr,
+          3600
+        );
+        await oracle.waitForDeployment();
+      });
+
+      it("should quote a Chainlink feed in both directions", async function () {
+        expect(await oracle.quote(yieldAddr, ethers.parseEther("10"), treasuryAddr)).to.equal(ethers.parseEther("5"));
+        expect(await oracle.quote(treasuryAddr, ethers.parseEther("10"), yieldAddr)).to.equal(ethers.parseEther("20"));
+        await expect(oracle.quote(yieldAddr, 1n, midAddr)).to.be.revertedWith("ChainlinkPriceOracle: unsupported pair");
+
+        const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+        await feed.setAnswer(50000000n, timestamp - 3601);
+        await expect(oracle.quote(yieldAddr, 1n, treasuryAddr)).to.be.revertedWith(
+          "ChainlinkPriceOracle: stale price"
+        );
+      });
+
+      it("should quote a Uniswap V3 TWAP", async function () {
+        // tick -6932 ~ 0.5 token1 per token0
+        const pool = await (await ethers.getContractFactory("MockUniswapV3Pool")).deploy(yieldAddr, treasuryAddr, -6932);
+        const twap = await (await ethers.getContractFactory("UniswapV3TwapOracle")).deploy(await pool.getAddress(), 1800);
+        expect(await twap.meanTick()).to.equal(-6932);
+
+        const out = await twap.quote(yieldAddr, ethers.parseEther("100"), treasuryAddr);
+        expect(out).to.be.closeTo(ethers.parseEther("50"), ethers.parseEther("0.01"));
+        const back = await twap.quote(treasuryAddr, ethers.parseEther("50"), yieldAddr);
+        expect(back).to.be.closeTo(ethers.parseEther("100"), ethers.parseEther("0.02"));
+        await expect(twap.quote(midAddr, 1n, treasuryAddr)).to.be.revertedWith("UniswapV3TwapOracle: unsupported pair");
+
+        await expect(
+          (await ethers.getContractFactory("UniswapV3TwapOracle")).deploy(await pool.getAddress(), 60)
+        ).to.be.revertedWith("UniswapV3TwapOracle: period too short");
+      });
+
+      it("should bound the minimum output by the oracle rather than the venue quote", async function () {
+        await expect(routeModule.connect(adminSigner).setPriceOracle(yieldAddr, await oracle.getAddress()))
+          .to.emit(routeModule, "PriceOracleUpdated")
+          .withArgs(yieldAddr, ethers.ZeroAddress, await oracle.getAddress());
+        expect(await routeModule.getPriceOracle(yieldAddr)).to.equal(await oracle.getAddress());
+
+        // A manipulated pool moves its own quote too, so only the oracle catches it
+        await mockUniswapRouter.setExchangeRate(yieldAddr, treasuryAddr, ethers.parseEther("0.4"));
+        await mockUniswapQuoter.setExchangeRate(yieldAddr, treasuryAddr, ethers.parseEther("0.4"));
+        const amount = ethers.parseEther("100");
+        expect(await routeModule.isWithinOracleBounds.staticCall(yieldAddr, amount, 500)).to.be.false;
+        await expect(
+          routeModule.connect(routerSigner).convert(yieldAddr, amount, PluginTier.VERIFIED, 500)
+        ).to.be.revertedWith("MockUniswapV3Router: insufficient output");
+
+        await mockUniswapRouter.setExchangeRate(yieldAddr, treasuryAddr, ethers.parseEther("0.48"));
+        await mockUniswapQuoter.setExchangeRate(yieldAddr, treasuryAddr, ethers.parseEther("0.48"));
+        expect(await routeModule.isWithinOracleBounds.staticCall(yieldAddr, amount, 500)).to.be.true;
+        await routeModule.connect(routerSigner).convert(yieldAddr, amount, PluginTier.VERIFIED, 500);
+        expect(await treasuryAsset.balanceOf(routerSigner.address)).to.equal(ethers.parseEther("48"));
+      });
+
+      it("should fail closed when the oracle cannot price the asset", async function () {
+        await routeModule.connect(adminSigner).setPriceOracle(yieldAddr, await oracle.getAddress());
+        await feed.setAnswer(0, (await ethers.provider.getBlock("latest"))!.timestamp);
+        expect(await routeModule.isWithinOracleBounds.staticCall(yieldAddr, ethers.parseEther("1"), 500)).to.be.false;
+        await expect(
+          routeModule.connect(routerSigner).convert(yieldAddr, ethers.parseEther("1"), PluginTier.VERIFIED, 500)
+        ).to.be.revertedWith("ChainlinkPriceOracle: invalid price");
+
+        // Without an oracle the venue quote bounds the conversion again
+        await routeModule.connect(adminSigner).setPriceOracle(yieldAddr, ethers.ZeroAddress);
+        expect(await routeModule.isWithinOracleBounds.staticCall(yieldAddr, ethers.parseEther("1"), 500)).to.be.true;
+        await expect(
+          routeModule.connect(await ethers.getSigner(user)).setPriceOracle(yieldAddr, await oracle.getAddress())
+        ).to.be.reverted;
+      });
+    });
+  });
+
   describe("Uniswap Router Configuration", function () {
     it("should update Uniswap router", async function () {
       const newRouter = await (await ethers.getContractFactory("MockUniswapV3Router")).deploy();
@@ -403,6 +655,61 @@ describe("SwapModule - Unit Tests", function () {
     });
   });
 
+  describe("Pause", function () {
+    let pauser: any;
+    let governanceSigner: any;
+
+    beforeEach(async function () {
+      const signers = await ethers.getSigners();
+      [pauser, governanceSigner] = [signers[4], signers[5]];
+      const adminSigner = await ethers.getSigner(admin);
+      await swapModule.connect(adminSigner).grantRole(await swapModule.PAUSER_ROLE(), pauser.address);
+      await swapModule.connect(adminSigner).grantRole(await swapModule.GOVERNANCE_ROLE(), governanceSigner.address);
+    });
+
+    it("should block conversions while paused", async function () {
+      await swapModule.connect(pauser).pause();
+      expect(await swapModule.paused()).to.be.true;
+
+      await expect(
+        swapModule.convert(await yieldAsset.getAddress(), ethers.parseEther("100"), PluginTier.VERIFIED, 500)
+      ).to.be.revertedWithCustomError(swapModule, "EnforcedPause");
+    });
+
+    it("should only allow pausers to pause", async function () {
+      await expect(swapModule.connect(await ethers.getSigner(admin)).pause()).to.be.reverted;
+      await expect(swapModule.connect(await ethers.getSigner(user)).pause()).to.be.reverted;
+    });
+
+    it("should only allow governance or the timelock to unpause", async function () {
+      await swapModule.connect(pauser).pause();
+
+      await expect(swapModule.connect(pauser).unpause()).to.be.revertedWith("SwapModule: unauthorized");
+      await expect(swapModule.connect(await ethers.getSigner(admin)).unpause()).to.be.revertedWith(
+        "SwapModule: unauthorized"
+      );
+
+      await swapModule.connect(governanceSigner).unpause();
+      expect(await swapModule.paused()).to.be.false;
+
+      await swapModule.connect(await ethers.getSigner(admin)).setTimelock(user);
+      await swapModule.connect(pauser).pause();
+      await swapModule.connect(await ethers.getSigner(user)).unpause();
+      expect(await swapModule.paused()).to.be.false;
+    });
+
+    it("should only allow setting the timelock once", async function () {
+      const adminSigner = await ethers.getSigner(admin);
+      await expect(swapModule.connect(adminSigner).setTimelock(ethers.ZeroAddress)).to.be.revertedWith(
+        "SwapModule: zero timelock"
+      );
+      await swapModule.connect(adminSigner).setTimelock(user);
+      await expect(swapModule.connect(adminSigner).setTimelock(admin)).to.be.revertedWith(
+        "SwapModule: timelock already set"
+      );
+    });
+  });
+
   describe("Emergency Functions", function () {
     it("should allow admin to emergency withdraw", async function () {
       // Mint some tokens to swap module